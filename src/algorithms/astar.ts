@@ -1,109 +1,161 @@
-import type { Maze, Position, HeuristicType, PathfindingResult } from '../types';
-import { MinHeap } from './heap';
+import type {
+  Maze, Position, HeuristicType, PathfindingResult, PathfindingOptions, TieBreaking,
+} from '../types';
+import {
+  DEFAULT_MOVEMENT_MODEL, DEFAULT_TIE_BREAKING, DEFAULT_HEURISTIC_WEIGHT,
+} from '../types';
+import { IndexedMinHeap } from './heap';
 import { getHeuristicFunction } from './heuristics';
-
-const DIRECTIONS = [
-  { x: 0, y: -1 },
-  { x: 1, y: 0 },
-  { x: 0, y: 1 },
-  { x: -1, y: 0 },
-];
+import { getCellCost } from './terrain';
+import { neighborProvider } from './movement';
+import { createGoalTest, goalCells, nearestGoalDistance } from './goals';
 
 interface AStarNode {
   position: Position;
   g: number;
   h: number;
   f: number;
+  /** Insertion counter, used by LIFO/FIFO tie-breaking */
+  seq: number;
   parent?: AStarNode;
 }
 
+/** f values closer than this count as a tie (√2 sums are not exact) */
+const F_EPSILON = 1e-9;
+
+function createComparator(tieBreaking: TieBreaking) {
+  return (a: AStarNode, b: AStarNode): number => {
+    const df = a.f - b.f;
+    if (Math.abs(df) > F_EPSILON) return df;
+    switch (tieBreaking) {
+      case 'high-g':
+        return b.g - a.g;
+      case 'low-h':
+        return a.h - b.h;
+      case 'lifo':
+        return b.seq - a.seq;
+      case 'fifo':
+        return a.seq - b.seq;
+      default:
+        return 0;
+    }
+  };
+}
+
 /**
- * A* pathfinding with Min-Heap priority queue.
- * O(n log n) vs O(n²) with plain array.
+ * A* pathfinding with an indexed Min-Heap priority queue.
+ * O(n log n) vs O(n²) with plain array. A better g for an open node goes
+ * through `decreaseKey`, and a closed node reached with a better g is
+ * reopened, so A* stays optimal with any admissible heuristic — consistent
+ * or not — and with weighted terrain.
+ * Edge cost is the step length (1 or √2) times the terrain cost of the
+ * cell being entered. On hex grids (`options.topology`) it expands the 6
+ * hex neighbours instead. With `options.goals` it stops at any goal cell
+ * and h is the distance to the nearest one.
+ *
+ * Options: `tieBreaking` orders equal-f nodes; `weight` w gives weighted A*
+ * with f = g + w·h, whose path costs at most w × optimal.
  */
 export function aStarPathfinding(
   maze: Maze,
   start: Position,
   goal: Position,
   heuristicType?: HeuristicType,
+  options: PathfindingOptions = {},
 ): PathfindingResult {
-  const size = maze.length;
-  if (size === 0 || !isValid(start, size) || !isValid(goal, size)) {
-    return { path: [], exploredNodes: [], time: 0 };
+  const movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+  const tieBreaking = options.tieBreaking ?? DEFAULT_TIE_BREAKING;
+  const weight = options.weight ?? DEFAULT_HEURISTIC_WEIGHT;
+  const neighbors = neighborProvider(movement, options.topology);
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  if (height === 0 || !isValid(start, width, height) || !isValid(goal, width, height)) {
+    return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
   }
 
   const startTime = performance.now();
   const obstacleRate = calculateObstacleRate(maze);
-  const heuristic = getHeuristicFunction(obstacleRate, heuristicType);
-
-  // Min-Heap keyed by f value
-  const openHeap = new MinHeap<AStarNode>((a, b) => a.f - b.f);
-  // Map for O(1) lookup of nodes in open set by position key
-  const openMap = new Map<string, AStarNode>();
-  const closedSet = new Set<string>();
+  const goals = goalCells(goal, options.goals);
+  const isGoal = createGoalTest(goals);
+  const heuristic = nearestGoalDistance(
+    getHeuristicFunction(obstacleRate, heuristicType, movement, options.topology), goals,
+  );
+
+  // Indexed Min-Heap keyed by f value (then tie-breaking), position key → heap slot
+  const openHeap = new IndexedMinHeap<AStarNode>(createComparator(tieBreaking), n => posKey(n.position));
+  let seq = 0;
+  // Every node generated so far (open or closed), for O(1) best-g lookup
+  const nodes = new Map<string, AStarNode>();
   const exploredNodes: Position[] = [];
+  let peakOpenSize = 1;
+  let expansions = 0;
 
   const startNode: AStarNode = {
     position: { ...start },
     g: 0,
-    h: heuristic(start, goal),
-    f: heuristic(start, goal),
+    h: heuristic(start),
+    f: weight * heuristic(start),
+    seq: seq++,
   };
   openHeap.push(startNode);
-  openMap.set(posKey(start), startNode);
+  nodes.set(posKey(start), startNode);
 
   while (openHeap.size > 0) {
     const current = openHeap.pop()!;
-    const currentKey = posKey(current.position);
-    openMap.delete(currentKey);
+    expansions++;
 
     // Reached goal
-    if (current.position.x === goal.x && current.position.y === goal.y) {
+    if (isGoal(current.position)) {
       const path = reconstructPath(current);
-      return { path, exploredNodes, time: performance.now() - startTime };
+      return {
+        path, exploredNodes, time: performance.now() - startTime, cost: current.g,
+        peakOpenSize, expansions,
+      };
     }
 
-    closedSet.add(currentKey);
     exploredNodes.push(current.position);
 
-    for (const dir of DIRECTIONS) {
-      const nx = current.position.x + dir.x;
-      const ny = current.position.y + dir.y;
+    for (const { position: next, stepCost } of neighbors(maze, current.position)) {
+      const nKey = posKey(next);
+      const gScore = current.g + stepCost * getCellCost(maze[next.y][next.x]);
 
-      if (nx < 0 || nx >= size || ny < 0 || ny >= size) continue;
-      if (maze[ny][nx].type === 'obstacle') continue;
+      const existing = nodes.get(nKey);
+      // Ignore float-noise "improvements" so decreaseKey never raises a priority
+      if (existing && gScore >= existing.g - F_EPSILON) continue;
 
-      const nKey = `${nx},${ny}`;
-      if (closedSet.has(nKey)) continue;
-
-      const gScore = current.g + 1;
-      const hScore = heuristic({ x: nx, y: ny }, goal);
-      const fScore = gScore + hScore;
-
-      const existing = openMap.get(nKey);
       if (!existing) {
+        const hScore = heuristic(next);
         const node: AStarNode = {
-          position: { x: nx, y: ny },
+          position: next,
           g: gScore,
           h: hScore,
-          f: fScore,
+          f: gScore + weight * hScore,
+          seq: seq++,
           parent: current,
         };
         openHeap.push(node);
-        openMap.set(nKey, node);
-      } else if (gScore < existing.g) {
-        existing.g = gScore;
-        existing.f = fScore;
-        existing.parent = current;
-        // Note: heap property may be temporarily violated, but next pop
-        // will still find a valid minimum. For strict correctness we'd
-        // need a decrease-key operation, but in practice A* on grids
-        // rarely revisits open nodes with better g.
+        nodes.set(nKey, node);
+        continue;
+      }
+
+      existing.g = gScore;
+      existing.f = gScore + weight * existing.h;
+      existing.seq = seq++;
+      existing.parent = current;
+      if (openHeap.contains(nKey)) {
+        openHeap.decreaseKey(existing);
+      } else {
+        // Closed node with a better g: inconsistent heuristic or weight > 1
+        openHeap.push(existing);
       }
     }
+    peakOpenSize = Math.max(peakOpenSize, openHeap.size);
   }
 
-  return { path: [], exploredNodes, time: performance.now() - startTime };
+  return {
+    path: [], exploredNodes, time: performance.now() - startTime, cost: 0,
+    peakOpenSize, expansions,
+  };
 }
 
 function reconstructPath(node: AStarNode): Position[] {
@@ -120,8 +172,8 @@ function posKey(p: Position): string {
   return `${p.x},${p.y}`;
 }
 
-function isValid(p: Position, size: number): boolean {
-  return p.x >= 0 && p.x < size && p.y >= 0 && p.y < size;
+function isValid(p: Position, width: number, height: number): boolean {
+  return p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
 }
 
 function calculateObstacleRate(maze: Maze): number {
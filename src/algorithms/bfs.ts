@@ -1,11 +1,8 @@
-import type { Maze, Position, PathfindingResult } from '../types';
-
-const DIRECTIONS = [
-  { x: 0, y: -1 },
-  { x: 1, y: 0 },
-  { x: 0, y: 1 },
-  { x: -1, y: 0 },
-];
+import type { Maze, Position, PathfindingResult, PathfindingOptions } from '../types';
+import { DEFAULT_MOVEMENT_MODEL } from '../types';
+import { getPathCost } from './terrain';
+import { neighborProvider } from './movement';
+import { createGoalTest, goalCells } from './goals';
 
 interface BFSNode {
   position: Position;
@@ -15,24 +12,33 @@ interface BFSNode {
 /**
  * BFS pathfinding with double-pointer queue (O(1) dequeue).
  * Replaces Array.shift() which is O(n) per call.
+ * Minimises step count only — terrain costs and the √2 length of diagonal
+ * steps are reported, not optimised. Stops at the first cell of
+ * `options.goals` it dequeues, which is a nearest one.
  */
 export function bfsPathfinding(
   maze: Maze,
   start: Position,
   goal: Position,
+  options: PathfindingOptions = {},
 ): PathfindingResult {
-  const size = maze.length;
-  if (size === 0 || !isValid(start, size) || !isValid(goal, size)) {
-    return { path: [], exploredNodes: [], time: 0 };
+  const movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+  const neighbors = neighborProvider(movement, options.topology);
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  if (height === 0 || !isValid(start, width, height) || !isValid(goal, width, height)) {
+    return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
   }
 
   const startTime = performance.now();
+  const isGoal = createGoalTest(goalCells(goal, options.goals));
   const visited = new Set<string>();
   const exploredNodes: Position[] = [];
 
   // Double-pointer queue: O(1) enqueue and dequeue
   const queue: BFSNode[] = [];
   let head = 0;
+  let peakOpenSize = 1;
 
   queue.push({ position: { ...start } });
   visited.add(`${start.x},${start.y}`);
@@ -42,30 +48,36 @@ export function bfsPathfinding(
 
     exploredNodes.push(current.position);
 
-    if (current.position.x === goal.x && current.position.y === goal.y) {
+    if (isGoal(current.position)) {
       const path = reconstructPath(current);
-      return { path, exploredNodes, time: performance.now() - startTime };
+      return {
+        path,
+        exploredNodes,
+        time: performance.now() - startTime,
+        cost: getPathCost(maze, path, options.topology),
+        peakOpenSize,
+        expansions: exploredNodes.length,
+      };
     }
 
-    for (const dir of DIRECTIONS) {
-      const nx = current.position.x + dir.x;
-      const ny = current.position.y + dir.y;
-
-      if (nx < 0 || nx >= size || ny < 0 || ny >= size) continue;
-      if (maze[ny][nx].type === 'obstacle') continue;
-
-      const nKey = `${nx},${ny}`;
+    for (const { position: next } of neighbors(maze, current.position)) {
+      const nKey = `${next.x},${next.y}`;
       if (visited.has(nKey)) continue;
 
       visited.add(nKey);
       queue.push({
-        position: { x: nx, y: ny },
+        position: next,
         parent: current,
       });
     }
+    // Live queue is the slice [head, length); dequeued slots are not counted
+    peakOpenSize = Math.max(peakOpenSize, queue.length - head);
   }
 
-  return { path: [], exploredNodes, time: performance.now() - startTime };
+  return {
+    path: [], exploredNodes, time: performance.now() - startTime, cost: 0,
+    peakOpenSize, expansions: exploredNodes.length,
+  };
 }
 
 function reconstructPath(node: BFSNode): Position[] {
@@ -78,6 +90,6 @@ function reconstructPath(node: BFSNode): Position[] {
   return path.reverse();
 }
 
-function isValid(p: Position, size: number): boolean {
-  return p.x >= 0 && p.x < size && p.y >= 0 && p.y < size;
+function isValid(p: Position, width: number, height: number): boolean {
+  return p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
 }
@@ -0,0 +1,252 @@
+import type {
+  Maze, Position, HeuristicType, PathfindingResult, PathfindingOptions,
+} from '../types';
+import { DEFAULT_MOVEMENT_MODEL } from '../types';
+import { MinHeap } from './heap';
+import { getHeuristicFunction } from './heuristics';
+import { getNeighbors } from './movement';
+import { getCellCost, getPathCost } from './terrain';
+import { createGoalTest, goalCells, nearestGoalDistance } from './goals';
+
+interface SearchSide {
+  parent: Map<string, Position | null>;
+  explored: Position[];
+}
+
+interface BiAStarNode {
+  position: Position;
+  g: number;
+  f: number;
+}
+
+/**
+ * Bidirectional BFS: grows one frontier from the start and one from the goal,
+ * always expanding the smaller frontier a full layer at a time. The search
+ * stops after the first layer in which the frontiers touch, picking the
+ * meeting cell with the smallest combined depth (shortest in steps). A goal
+ * region (`options.goals`) seeds the backward frontier with all its cells.
+ */
+export function bidirectionalBfsPathfinding(
+  maze: Maze,
+  start: Position,
+  goal: Position,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  const movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  if (height === 0 || !isValid(start, width, height) || !isValid(goal, width, height)) {
+    return {
+      path: [], exploredNodes: [], backwardExploredNodes: [], time: 0, cost: 0,
+      peakOpenSize: 0, expansions: 0,
+    };
+  }
+
+  const startTime = performance.now();
+  const goals = goalCells(goal, options.goals).filter(g => isValid(g, width, height));
+  const forward: SearchSide = { parent: new Map([[posKey(start), null]]), explored: [] };
+  const backward: SearchSide = { parent: new Map(goals.map(g => [posKey(g), null])), explored: [] };
+  const depthF = new Map([[posKey(start), 0]]);
+  const depthB = new Map(goals.map(g => [posKey(g), 0]));
+  let frontierF: Position[] = [{ ...start }];
+  let frontierB: Position[] = goals.map(g => ({ ...g }));
+  let peakOpenSize = 1 + goals.length;
+
+  const finish = (path: Position[]): PathfindingResult => ({
+    path,
+    exploredNodes: forward.explored,
+    backwardExploredNodes: backward.explored,
+    time: performance.now() - startTime,
+    cost: getPathCost(maze, path),
+    peakOpenSize,
+    expansions: forward.explored.length + backward.explored.length,
+  });
+
+  if (createGoalTest(goals)(start)) return finish([{ ...start }]);
+
+  while (frontierF.length > 0 && frontierB.length > 0) {
+    const expandForward = frontierF.length <= frontierB.length;
+    const side = expandForward ? forward : backward;
+    const depth = expandForward ? depthF : depthB;
+    const otherDepth = expandForward ? depthB : depthF;
+    const frontier = expandForward ? frontierF : frontierB;
+
+    const next: Position[] = [];
+    let meetPos: Position | null = null;
+    let meetDist = Infinity;
+
+    for (const current of frontier) {
+      side.explored.push(current);
+      const d = depth.get(posKey(current))! + 1;
+
+      for (const { position: n } of getNeighbors(maze, current, movement)) {
+        const nKey = posKey(n);
+        if (side.parent.has(nKey)) continue;
+
+        side.parent.set(nKey, current);
+        depth.set(nKey, d);
+        next.push(n);
+
+        const other = otherDepth.get(nKey);
+        if (other !== undefined && d + other < meetDist) {
+          meetDist = d + other;
+          meetPos = n;
+        }
+      }
+    }
+
+    if (meetPos) {
+      return finish(joinPaths(meetPos, forward.parent, backward.parent));
+    }
+
+    if (expandForward) frontierF = next;
+    else frontierB = next;
+    peakOpenSize = Math.max(peakOpenSize, frontierF.length + frontierB.length);
+  }
+
+  return finish([]);
+}
+
+/**
+ * Bidirectional A*: forward search towards the goal and backward search
+ * towards the start, alternating on the side with the smaller open set.
+ * Every edge relaxation that reaches a cell already labelled by the other
+ * side updates the best meeting cost μ; the search stops once μ is no larger
+ * than max(min f forward, min f backward), which is a lower bound on any
+ * path not yet found (Pohl's criterion), so the result stays optimal for
+ * consistent heuristics. A goal region starts the backward search from all
+ * its cells, and the forward heuristic aims at the nearest of them.
+ */
+export function bidirectionalAStarPathfinding(
+  maze: Maze,
+  start: Position,
+  goal: Position,
+  heuristicType?: HeuristicType,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  const movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  if (height === 0 || !isValid(start, width, height) || !isValid(goal, width, height)) {
+    return {
+      path: [], exploredNodes: [], backwardExploredNodes: [], time: 0, cost: 0,
+      peakOpenSize: 0, expansions: 0,
+    };
+  }
+
+  const startTime = performance.now();
+  const heuristic = getHeuristicFunction(calculateObstacleRate(maze), heuristicType, movement);
+  const goals = goalCells(goal, options.goals).filter(g => isValid(g, width, height));
+  const toGoal = nearestGoalDistance(heuristic, goals);
+
+  const forward: SearchSide = { parent: new Map([[posKey(start), null]]), explored: [] };
+  const backward: SearchSide = { parent: new Map(goals.map(g => [posKey(g), null])), explored: [] };
+  const gF = new Map([[posKey(start), 0]]);
+  const gB = new Map(goals.map(g => [posKey(g), 0]));
+  const closedF = new Set<string>();
+  const closedB = new Set<string>();
+  const openF = new MinHeap<BiAStarNode>((a, b) => a.f - b.f);
+  const openB = new MinHeap<BiAStarNode>((a, b) => a.f - b.f);
+  openF.push({ position: { ...start }, g: 0, f: toGoal(start) });
+  for (const g of goals) openB.push({ position: { ...g }, g: 0, f: heuristic(g, start) });
+
+  let bestCost = Infinity;
+  let meetPos: Position | null = null;
+  let peakOpenSize = 1 + goals.length;
+  if (createGoalTest(goals)(start)) {
+    bestCost = 0;
+    meetPos = { ...start };
+  }
+
+  while (openF.size > 0 && openB.size > 0) {
+    const lowerBound = Math.max(openF.items[0].f, openB.items[0].f);
+    if (bestCost <= lowerBound) break;
+
+    const expandForward = openF.size <= openB.size;
+    const open = expandForward ? openF : openB;
+    const side = expandForward ? forward : backward;
+    const g = expandForward ? gF : gB;
+    const otherG = expandForward ? gB : gF;
+    const closed = expandForward ? closedF : closedB;
+
+    const current = open.pop()!;
+    const currentKey = posKey(current.position);
+    if (closed.has(currentKey)) continue; // stale entry
+    closed.add(currentKey);
+    side.explored.push(current.position);
+
+    for (const { position: n, stepCost } of getNeighbors(maze, current.position, movement)) {
+      const nKey = posKey(n);
+      if (closed.has(nKey)) continue;
+
+      // Edge cost is always charged for the cell entered in the start→goal direction
+      const entered = expandForward ? n : current.position;
+      const gScore = current.g + stepCost * getCellCost(maze[entered.y][entered.x]);
+      const known = g.get(nKey);
+      if (known !== undefined && gScore >= known) continue;
+
+      g.set(nKey, gScore);
+      side.parent.set(nKey, current.position);
+      open.push({ position: n, g: gScore, f: gScore + (expandForward ? toGoal(n) : heuristic(n, start)) });
+
+      const other = otherG.get(nKey);
+      if (other !== undefined && gScore + other < bestCost) {
+        bestCost = gScore + other;
+        meetPos = n;
+      }
+    }
+    peakOpenSize = Math.max(peakOpenSize, openF.size + openB.size);
+  }
+
+  const path = meetPos ? joinPaths(meetPos, forward.parent, backward.parent) : [];
+  return {
+    path,
+    exploredNodes: forward.explored,
+    backwardExploredNodes: backward.explored,
+    time: performance.now() - startTime,
+    cost: getPathCost(maze, path),
+    peakOpenSize,
+    expansions: forward.explored.length + backward.explored.length,
+  };
+}
+
+/** Stitch start→meet (forward parents) and meet→goal (backward parents). */
+function joinPaths(
+  meet: Position,
+  parentF: Map<string, Position | null>,
+  parentB: Map<string, Position | null>,
+): Position[] {
+  const head: Position[] = [];
+  let current: Position | null = meet;
+  while (current) {
+    head.push(current);
+    current = parentF.get(posKey(current)) ?? null;
+  }
+  head.reverse();
+
+  current = parentB.get(posKey(meet)) ?? null;
+  while (current) {
+    head.push(current);
+    current = parentB.get(posKey(current)) ?? null;
+  }
+  return head;
+}
+
+function posKey(p: Position): string {
+  return `${p.x},${p.y}`;
+}
+
+function isValid(p: Position, width: number, height: number): boolean {
+  return p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
+}
+
+function calculateObstacleRate(maze: Maze): number {
+  let obstacles = 0;
+  const total = maze.length * maze[0].length;
+  for (const row of maze) {
+    for (const cell of row) {
+      if (cell.type === 'obstacle') obstacles++;
+    }
+  }
+  return obstacles / total;
+}
@@ -1,18 +1,26 @@
-import type { Agent, Position, Maze } from '../types';
-import { COLLISION_MAX_ROUNDS } from '../types';
+import type { Agent, GridTopology, Position, Maze, MovementModel, Rng, WallMaze } from '../types';
+import { COLLISION_MAX_ROUNDS, DEFAULT_MOVEMENT_MODEL } from '../types';
+import { neighborProvider } from './movement';
+import { getWallNeighbors } from './wall-maze';
 
 /**
  * Check and resolve collisions between agents.
  * When two or more agents occupy the same cell, the lowest-ID agent keeps
  * the position; others step back to their previous position (if available
- * and unoccupied), or find a random valid neighbor.
+ * and unoccupied), or find a random valid neighbor under the movement model.
+ * On a thin-wall maze (`wallMaze` given) neighbours come from its walls instead,
+ * and on a hex grid (`topology`) from the 6 hex directions.
+ * The random choice draws from `rng`, so seeded races resolve the same way.
  *
  * Returns collision events for optional notification.
  */
 export function checkCollisions(
   agents: Agent[],
   maze: Maze,
-  mazeSize: number,
+  movement: MovementModel = DEFAULT_MOVEMENT_MODEL,
+  wallMaze: WallMaze | null = null,
+  rng: Rng = Math.random,
+  topology: GridTopology = 'square',
 ): string[] {
   const positionMap = new Map<string, number[]>();
   const collisionEvents: string[] = [];
@@ -58,7 +66,7 @@ export function checkCollisions(
         agent.collisions++;
 
         // Try stepping back to actual previous position first
-        if (agent.previousPosition && isValid(agent.previousPosition, mazeSize)) {
+        if (agent.previousPosition && isValid(agent.previousPosition, maze)) {
           const backKey = `${agent.previousPosition.x},${agent.previousPosition.y}`;
           const occupants = currentMap.get(backKey);
           // Only step back if previous position is unoccupied
@@ -71,21 +79,18 @@ export function checkCollisions(
         }
 
         // Fallback: find a random valid, unoccupied neighbor
-        const dirs = [
-          { x: 0, y: -1 }, { x: 1, y: 0 },
-          { x: 0, y: 1 }, { x: -1, y: 0 },
-        ];
-        const valid = dirs
-          .map(d => ({ x: agent.position.x + d.x, y: agent.position.y + d.y }))
+        const candidates = wallMaze
+          ? getWallNeighbors(wallMaze, agent.position)
+          : neighborProvider(movement, topology)(maze, agent.position).map(n => n.position);
+        const valid = candidates
           .filter(p => {
-            if (!isValid(p, mazeSize)) return false;
-            if (maze[p.y][p.x].type === 'obstacle') return false;
+            if (!isValid(p, maze)) return false;
             // Check no other agent is at this cell
             const key = `${p.x},${p.y}`;
             return !currentMap.has(key) || (currentMap.get(key)?.length ?? 0) === 0;
           });
         if (valid.length > 0) {
-          agent.position = valid[Math.floor(Math.random() * valid.length)];
+          agent.position = valid[Math.floor(rng() * valid.length)];
           agent.previousPosition = null;
         }
         // If no valid neighbor, agent stays (will be re-checked next round)
@@ -107,6 +112,6 @@ export function checkCollisions(
   return collisionEvents;
 }
 
-function isValid(p: Position, size: number): boolean {
-  return p.x >= 0 && p.x < size && p.y >= 0 && p.y < size;
+function isValid(p: Position, maze: Maze): boolean {
+  return p.y >= 0 && p.y < maze.length && p.x >= 0 && p.x < maze[0].length;
 }
@@ -0,0 +1,101 @@
+import type { Maze, Position, PathfindingResult, PathfindingOptions } from '../types';
+import { DEFAULT_MOVEMENT_MODEL } from '../types';
+import { MinHeap } from './heap';
+import { getCellCost } from './terrain';
+import { neighborProvider } from './movement';
+import { createGoalTest, goalCells } from './goals';
+
+interface DijkstraNode {
+  position: Position;
+  g: number;
+  parent?: DijkstraNode;
+}
+
+/**
+ * Dijkstra / uniform-cost search keyed by accumulated terrain cost.
+ * Uses lazy deletion: an improved node is pushed again and stale heap
+ * entries are skipped when popped, so the heap property always holds.
+ * With `options.goals` the first goal cell popped is the cheapest one.
+ */
+export function dijkstraPathfinding(
+  maze: Maze,
+  start: Position,
+  goal: Position,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  const movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+  const neighbors = neighborProvider(movement, options.topology);
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  if (height === 0 || !isValid(start, width, height) || !isValid(goal, width, height)) {
+    return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
+  }
+
+  const startTime = performance.now();
+  const isGoal = createGoalTest(goalCells(goal, options.goals));
+  const openHeap = new MinHeap<DijkstraNode>((a, b) => a.g - b.g);
+  // Best known g per position key
+  const bestG = new Map<string, number>();
+  const closedSet = new Set<string>();
+  const exploredNodes: Position[] = [];
+  // Stale entries stay in the heap until popped, so they count towards the peak
+  let peakOpenSize = 1;
+  let expansions = 0;
+
+  openHeap.push({ position: { ...start }, g: 0 });
+  bestG.set(posKey(start), 0);
+
+  while (openHeap.size > 0) {
+    const current = openHeap.pop()!;
+    const currentKey = posKey(current.position);
+    if (closedSet.has(currentKey)) continue; // stale entry
+    expansions++;
+
+    if (isGoal(current.position)) {
+      const path = reconstructPath(current);
+      return {
+        path, exploredNodes, time: performance.now() - startTime, cost: current.g,
+        peakOpenSize, expansions,
+      };
+    }
+
+    closedSet.add(currentKey);
+    exploredNodes.push(current.position);
+
+    for (const { position: next, stepCost } of neighbors(maze, current.position)) {
+      const nKey = posKey(next);
+      if (closedSet.has(nKey)) continue;
+
+      const gScore = current.g + stepCost * getCellCost(maze[next.y][next.x]);
+      const known = bestG.get(nKey);
+      if (known !== undefined && gScore >= known) continue;
+
+      bestG.set(nKey, gScore);
+      openHeap.push({ position: next, g: gScore, parent: current });
+    }
+    peakOpenSize = Math.max(peakOpenSize, openHeap.size);
+  }
+
+  return {
+    path: [], exploredNodes, time: performance.now() - startTime, cost: 0,
+    peakOpenSize, expansions,
+  };
+}
+
+function reconstructPath(node: DijkstraNode): Position[] {
+  const path: Position[] = [];
+  let current: DijkstraNode | undefined = node;
+  while (current) {
+    path.push(current.position);
+    current = current.parent;
+  }
+  return path.reverse();
+}
+
+function posKey(p: Position): string {
+  return `${p.x},${p.y}`;
+}
+
+function isValid(p: Position, width: number, height: number): boolean {
+  return p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
+}
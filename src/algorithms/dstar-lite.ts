@@ -0,0 +1,316 @@
+import type {
+  Maze, Position, HeuristicType, PathfindingResult, PathfindingOptions, MovementModel,
+} from '../types';
+import { DEFAULT_MOVEMENT_MODEL } from '../types';
+import { IndexedMinHeap } from './heap';
+import { getHeuristicFunction } from './heuristics';
+import { CARDINAL_DIRECTIONS, DIAGONAL_DIRECTIONS, isDiagonalModel } from './movement';
+import { getCellCost, getPathCost } from './terrain';
+import { goalCells } from './goals';
+
+interface QueueEntry {
+  cell: number;
+  k1: number;
+  k2: number;
+}
+
+/**
+ * D* Lite (Koenig & Likhachev) for one agent and one goal (or goal region,
+ * via `options.goals`: every goal cell starts the backward search with rhs 0).
+ *
+ * Searches backwards from the goal, so g/rhs values stay valid while the
+ * agent moves; the key modifier `km` absorbs start changes instead of
+ * re-keying the queue. Callers report changed cells with `markChanged`; the
+ * next `plan` call re-reads only those from the maze, re-examines the cells
+ * around them, and repairs the search until the agent's cell is consistent
+ * again. Nothing else of the maze is read after construction.
+ *
+ * Edge cost matches the other planners: step length × terrain cost of the
+ * entered cell, with the same corner rules as `getNeighbors`.
+ */
+export class DStarLitePlanner {
+  private width: number;
+  private height: number;
+  private goal: Position;
+  /** Cell indices of the goal region */
+  private goalSet: Set<number>;
+  private movement: MovementModel;
+  private heuristic: (a: Position, b: Position) => number;
+  private directions: Position[];
+  private costs: Float64Array;
+  private g: Float64Array;
+  private rhs: Float64Array;
+  private queue = new IndexedMinHeap<QueueEntry>(compareKeys, e => String(e.cell));
+  private km = 0;
+  private last: Position | null = null;
+  /** Cells reported by `markChanged` since the last `plan` */
+  private pending = new Set<number>();
+  private expansionsTotal = 0;
+
+  constructor(
+    maze: Maze,
+    goal: Position,
+    heuristicType?: HeuristicType,
+    options: PathfindingOptions = {},
+  ) {
+    this.height = maze.length;
+    this.width = maze[0]?.length ?? 0;
+    this.goal = { ...goal };
+    this.goalSet = new Set(
+      goalCells(goal, options.goals)
+        .filter(p => this.inBounds(p.x, p.y))
+        .map(p => this.index(p.x, p.y)),
+    );
+    this.movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+    this.heuristic = getHeuristicFunction(calculateObstacleRate(maze), heuristicType, this.movement);
+    this.directions = isDiagonalModel(this.movement)
+      ? [...CARDINAL_DIRECTIONS, ...DIAGONAL_DIRECTIONS]
+      : CARDINAL_DIRECTIONS;
+
+    const n = this.width * this.height;
+    this.costs = new Float64Array(n);
+    this.g = new Float64Array(n).fill(Infinity);
+    this.rhs = new Float64Array(n).fill(Infinity);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) this.costs[y * this.width + x] = cellCost(maze, x, y);
+    }
+  }
+
+  /** Expansions over every `plan` call, initial search included */
+  get totalExpansions(): number {
+    return this.expansionsTotal;
+  }
+
+  /** Note cells whose type may have changed; the next `plan` call picks them up */
+  markChanged(cells: Iterable<Position>) {
+    for (const p of cells) {
+      if (this.inBounds(p.x, p.y)) this.pending.add(this.index(p.x, p.y));
+    }
+  }
+
+  /**
+   * Plan (or repair the plan) from `position` to the goal on the current maze.
+   * The first call runs the full backward search; later calls only do the
+   * work caused by the agent's movement and by cells reported as changed.
+   */
+  plan(position: Position, maze: Maze): PathfindingResult {
+    const startTime = performance.now();
+    if (
+      maze.length !== this.height || (maze[0]?.length ?? 0) !== this.width ||
+      !this.inBounds(position.x, position.y) || !this.inBounds(this.goal.x, this.goal.y)
+    ) {
+      return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
+    }
+
+    if (!this.last) {
+      for (const goalCell of this.goalSet) {
+        this.rhs[goalCell] = 0;
+        this.queue.push({ cell: goalCell, ...this.keyFor(goalCell, position) });
+      }
+    } else {
+      this.km += this.heuristic(this.last, position);
+    }
+    this.last = { ...position };
+    this.applyChanges(maze, position);
+
+    const exploredNodes: Position[] = [];
+    let peakOpenSize = this.queue.size;
+    let expansions = 0;
+    const startCell = this.index(position.x, position.y);
+
+    while (this.queue.size > 0) {
+      const top = this.queue.items[0];
+      const startKey = this.keyFor(startCell, position);
+      if (compareKeys(top, startKey) >= 0 && this.rhs[startCell] === this.g[startCell]) break;
+
+      this.queue.pop();
+      expansions++;
+      const u = top.cell;
+      const fresh = this.keyFor(u, position);
+      if (compareKeys(top, fresh) < 0) {
+        this.queue.push({ cell: u, ...fresh });
+        continue;
+      }
+
+      exploredNodes.push(this.toPosition(u));
+      if (this.g[u] > this.rhs[u]) {
+        this.g[u] = this.rhs[u];
+        for (const p of this.neighborCells(u)) this.updateVertex(p, position);
+      } else {
+        this.g[u] = Infinity;
+        this.updateVertex(u, position);
+        for (const p of this.neighborCells(u)) this.updateVertex(p, position);
+      }
+      peakOpenSize = Math.max(peakOpenSize, this.queue.size);
+    }
+
+    this.expansionsTotal += expansions;
+    const path = this.extractPath(position);
+    return {
+      path,
+      exploredNodes,
+      time: performance.now() - startTime,
+      cost: getPathCost(maze, path),
+      peakOpenSize,
+      expansions,
+    };
+  }
+
+  /** Re-read the reported cells into the cost snapshot; re-examine cells whose edges changed. */
+  private applyChanges(maze: Maze, position: Position) {
+    const touched = new Set<number>();
+    for (const i of this.pending) {
+      const { x, y } = this.toPosition(i);
+      const cost = cellCost(maze, x, y);
+      if (cost === this.costs[i]) continue;
+      this.costs[i] = cost;
+      // Edges into the cell, out of it, and diagonals using it as a corner
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (this.inBounds(x + dx, y + dy)) touched.add(this.index(x + dx, y + dy));
+        }
+      }
+    }
+    this.pending.clear();
+    for (const cell of touched) this.updateVertex(cell, position);
+  }
+
+  private updateVertex(u: number, position: Position) {
+    if (!this.goalSet.has(u)) {
+      let best = Infinity;
+      for (const s of this.neighborCells(u)) {
+        const candidate = this.edgeCost(u, s) + this.g[s];
+        if (candidate < best) best = candidate;
+      }
+      this.rhs[u] = best;
+    }
+
+    const key = String(u);
+    if (this.g[u] !== this.rhs[u]) {
+      const entry = { cell: u, ...this.keyFor(u, position) };
+      if (this.queue.contains(key)) this.queue.update(entry);
+      else this.queue.push(entry);
+    } else {
+      this.queue.remove(key);
+    }
+  }
+
+  /** Greedy descent on c + g; empty when the agent's cell cannot reach a goal. */
+  private extractPath(position: Position): Position[] {
+    let current = this.index(position.x, position.y);
+    if (this.g[current] === Infinity) return [];
+
+    const path = [this.toPosition(current)];
+    const limit = this.width * this.height;
+    while (!this.goalSet.has(current) && path.length <= limit) {
+      let next = -1;
+      let best = Infinity;
+      for (const s of this.neighborCells(current)) {
+        const candidate = this.edgeCost(current, s) + this.g[s];
+        if (candidate < best) {
+          best = candidate;
+          next = s;
+        }
+      }
+      if (next < 0) return [];
+      current = next;
+      path.push(this.toPosition(current));
+    }
+    return this.goalSet.has(current) ? path : [];
+  }
+
+  private keyFor(cell: number, position: Position): { k1: number; k2: number } {
+    const m = Math.min(this.g[cell], this.rhs[cell]);
+    return { k1: m + this.heuristic(position, this.toPosition(cell)) + this.km, k2: m };
+  }
+
+  /** Cost of stepping u → v (adjacent cells); Infinity if blocked or cutting a forbidden corner */
+  private edgeCost(u: number, v: number): number {
+    if (this.costs[u] === Infinity || this.costs[v] === Infinity) return Infinity;
+    const ux = u % this.width;
+    const uy = (u - ux) / this.width;
+    const vx = v % this.width;
+    const vy = (v - vx) / this.width;
+    if (ux === vx || uy === vy) return this.costs[v];
+
+    const sideA = this.costs[uy * this.width + vx] !== Infinity;
+    const sideB = this.costs[vy * this.width + ux] !== Infinity;
+    const allowed = this.movement === '8-no-corner-cutting' ? sideA && sideB : sideA || sideB;
+    return allowed ? Math.SQRT2 * this.costs[v] : Infinity;
+  }
+
+  private neighborCells(cell: number): number[] {
+    const x = cell % this.width;
+    const y = (cell - x) / this.width;
+    const result: number[] = [];
+    for (const dir of this.directions) {
+      if (this.inBounds(x + dir.x, y + dir.y)) result.push(this.index(x + dir.x, y + dir.y));
+    }
+    return result;
+  }
+
+  private inBounds(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
+  }
+
+  private index(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  private toPosition(cell: number): Position {
+    const x = cell % this.width;
+    return { x, y: (cell - x) / this.width };
+  }
+}
+
+/**
+ * Tolerance for key comparisons. Diagonal steps and heuristics are sums of
+ * √2 multiples, so keys that are equal in exact arithmetic can differ in the
+ * last bits; treating those as different can end the search one expansion
+ * early and leave a stale cell on the agent's route.
+ */
+const KEY_EPSILON = 1e-9;
+
+/** Lexicographic key order; written with comparisons so Infinity keys never yield NaN */
+function compareKeys(a: { k1: number; k2: number }, b: { k1: number; k2: number }): number {
+  if (!keysClose(a.k1, b.k1)) return a.k1 < b.k1 ? -1 : 1;
+  if (!keysClose(a.k2, b.k2)) return a.k2 < b.k2 ? -1 : 1;
+  return 0;
+}
+
+function keysClose(a: number, b: number): boolean {
+  return a === b || Math.abs(a - b) <= KEY_EPSILON;
+}
+
+function cellCost(maze: Maze, x: number, y: number): number {
+  const cell = maze[y][x];
+  return cell.type === 'obstacle' ? Infinity : getCellCost(cell);
+}
+
+/**
+ * One-shot D* Lite search, for callers that do not keep a planner around.
+ * Same result as a fresh planner's first `plan` call.
+ */
+export function dStarLitePathfinding(
+  maze: Maze,
+  start: Position,
+  goal: Position,
+  heuristicType?: HeuristicType,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  if (maze.length === 0) {
+    return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
+  }
+  return new DStarLitePlanner(maze, goal, heuristicType, options).plan(start, maze);
+}
+
+function calculateObstacleRate(maze: Maze): number {
+  let obstacles = 0;
+  const total = maze.length * maze[0].length;
+  for (const row of maze) {
+    for (const cell of row) {
+      if (cell.type === 'obstacle') obstacles++;
+    }
+  }
+  return obstacles / total;
+}
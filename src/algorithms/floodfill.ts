@@ -0,0 +1,206 @@
+import type {
+  BeliefMap, Maze, MovementModel, Position, PathfindingResult, PathfindingOptions,
+} from '../types';
+import { DEFAULT_MOVEMENT_MODEL } from '../types';
+import { CARDINAL_DIRECTIONS, DIAGONAL_DIRECTIONS, getNeighbors, isDiagonalModel } from './movement';
+import { getPathCost } from './terrain';
+import { goalCells } from './goals';
+
+/**
+ * Flood-fill step distances from `goal` over `maze` (BFS under the movement
+ * model, terrain ignored as in classic micromouse flooding). -1 = unreachable.
+ * A goal region floods from all its cells at once, so each value is the
+ * distance to the nearest goal cell.
+ */
+export function floodDistances(
+  maze: Maze,
+  goal: Position | readonly Position[],
+  movement: MovementModel,
+): Int32Array {
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  const flood = new Int32Array(width * height).fill(-1);
+
+  // Double-pointer queue, as in bfsPathfinding
+  const queue: Position[] = [];
+  let head = 0;
+  for (const g of asGoalList(goal)) {
+    if (g.y < 0 || g.y >= height || g.x < 0 || g.x >= width) continue;
+    if (maze[g.y][g.x].type === 'obstacle' || flood[g.y * width + g.x] === 0) continue;
+    flood[g.y * width + g.x] = 0;
+    queue.push(g);
+  }
+  while (head < queue.length) {
+    const current = queue[head++];
+    const d = flood[current.y * width + current.x] + 1;
+    for (const { position: n } of getNeighbors(maze, current, movement)) {
+      const i = n.y * width + n.x;
+      if (flood[i] !== -1) continue;
+      flood[i] = d;
+      queue.push(n);
+    }
+  }
+  return flood;
+}
+
+/**
+ * Initial belief for a fog-of-war agent: every cell assumed open except the
+ * goal cells, nothing sensed yet, and the optimistic flood from the goal.
+ */
+export function createBeliefMap(
+  width: number,
+  height: number,
+  goal: Position | readonly Position[],
+  movement: MovementModel,
+): BeliefMap {
+  const maze: Maze = [];
+  for (let y = 0; y < height; y++) {
+    maze.push(Array.from({ length: width }, () => ({ type: 'empty' as const })));
+  }
+  for (const g of asGoalList(goal)) {
+    if (g.y >= 0 && g.y < height && g.x >= 0 && g.x < width) maze[g.y][g.x] = { type: 'goal' };
+  }
+  return {
+    maze,
+    known: new Uint8Array(width * height),
+    flood: floodDistances(maze, goal, movement),
+    refloods: 0,
+  };
+}
+
+/**
+ * Sense the agent's own cell and its adjacent cells (4 or 8 depending on the
+ * movement model) from the true maze. Discovering a wall re-floods the whole
+ * belief (modified flood-fill); open cells and terrain only mark knowledge.
+ * Known cells that changed since (dynamic obstacles) are sensed again, and a
+ * wall appearing or vanishing re-floods too. Returns the same object when
+ * nothing new was sensed; otherwise a new belief (copy-on-write: `known` and
+ * the touched rows are copied, `belief` itself is never modified).
+ */
+export function senseSurroundings(
+  belief: BeliefMap,
+  maze: Maze,
+  position: Position,
+  goal: Position | readonly Position[],
+  movement: MovementModel,
+): BeliefMap {
+  const height = belief.maze.length;
+  const width = belief.maze[0]?.length ?? 0;
+  const offsets = isDiagonalModel(movement)
+    ? [{ x: 0, y: 0 }, ...CARDINAL_DIRECTIONS, ...DIAGONAL_DIRECTIONS]
+    : [{ x: 0, y: 0 }, ...CARDINAL_DIRECTIONS];
+
+  let known: Uint8Array | null = null;
+  const next = [...belief.maze];
+  const copied = new Set<number>();
+  let foundWall = false;
+  for (const dir of offsets) {
+    const x = position.x + dir.x;
+    const y = position.y + dir.y;
+    if (x < 0 || x >= width || y < 0 || y >= height) continue;
+    const i = y * width + x;
+    const type = maze[y][x].type;
+    if (belief.known[i] && belief.maze[y][x].type === type) continue;
+
+    // Unknown cells are believed open, so this also catches a newly found wall
+    if ((type === 'obstacle') !== (belief.maze[y][x].type === 'obstacle')) foundWall = true;
+    if (!known) known = belief.known.slice();
+    known[i] = 1;
+    if (!copied.has(y)) {
+      next[y] = belief.maze[y].map(c => ({ ...c }));
+      copied.add(y);
+    }
+    next[y][x] = { type };
+  }
+
+  if (!known) return belief;
+  if (!foundWall) return { ...belief, maze: next, known };
+  return {
+    ...belief,
+    maze: next,
+    known,
+    flood: floodDistances(next, goal, movement),
+    refloods: belief.refloods + 1,
+  };
+}
+
+/**
+ * Next move of the flood-fill agent: the passable neighbour with the lowest
+ * flood value, or null when the goal is unreachable on the current belief.
+ */
+export function nextFloodStep(
+  belief: BeliefMap,
+  position: Position,
+  movement: MovementModel,
+): Position | null {
+  const width = belief.maze[0]?.length ?? 0;
+  const here = belief.flood[position.y * width + position.x];
+  if (here <= 0) return null;
+
+  let best: Position | null = null;
+  let bestValue = here;
+  for (const { position: n } of getNeighbors(belief.maze, position, movement)) {
+    const value = belief.flood[n.y * width + n.x];
+    if (value >= 0 && value < bestValue) {
+      bestValue = value;
+      best = n;
+    }
+  }
+  return best;
+}
+
+/** Route the agent currently believes in: repeated flood descent to the goal. */
+export function floodPath(belief: BeliefMap, position: Position, movement: MovementModel): Position[] {
+  const path: Position[] = [position];
+  let next = nextFloodStep(belief, position, movement);
+  while (next) {
+    path.push(next);
+    next = nextFloodStep(belief, next, movement);
+  }
+  return path;
+}
+
+/**
+ * Flood-fill planner on the fully known maze: flood from the goal, then walk
+ * downhill from the start. Minimises steps like BFS, but floods every cell
+ * reachable from the goal, so `expansions` does not depend on the start.
+ */
+export function floodFillPathfinding(
+  maze: Maze,
+  start: Position,
+  goal: Position,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  const movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  if (start.x < 0 || start.x >= width || start.y < 0 || start.y >= height) {
+    return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
+  }
+
+  const startTime = performance.now();
+  const flood = floodDistances(maze, goalCells(goal, options.goals), movement);
+  const exploredNodes: Position[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (flood[y * width + x] >= 0) exploredNodes.push({ x, y });
+    }
+  }
+  // Flood order: nearest to the goal first
+  exploredNodes.sort((a, b) => flood[a.y * width + a.x] - flood[b.y * width + b.x]);
+
+  const belief: BeliefMap = { maze, known: new Uint8Array(0), flood, refloods: 0 };
+  const path = flood[start.y * width + start.x] >= 0 ? floodPath(belief, start, movement) : [];
+  return {
+    path,
+    exploredNodes,
+    time: performance.now() - startTime,
+    cost: getPathCost(maze, path),
+    peakOpenSize: exploredNodes.length,
+    expansions: exploredNodes.length,
+  };
+}
+
+function asGoalList(goal: Position | readonly Position[]): readonly Position[] {
+  return 'x' in goal ? [goal] : goal;
+}
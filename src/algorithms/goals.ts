@@ -0,0 +1,50 @@
+import type { Position } from '../types';
+
+/*
+ * Goal regions. A planner's `goal` argument is its primary goal; passing
+ * `options.goals` widens it to a set of cells (e.g. the 2×2 centre of a
+ * competition maze), and the search ends on whichever it reaches first.
+ */
+
+/** Every goal cell: `goals` when given (with `goal` added if missing), else just `goal` */
+export function goalCells(goal: Position, goals?: readonly Position[]): Position[] {
+  if (!goals || goals.length === 0) return [goal];
+  return goals.some(g => g.x === goal.x && g.y === goal.y) ? [...goals] : [goal, ...goals];
+}
+
+/** Membership test for a set of goal cells */
+export function createGoalTest(goals: readonly Position[]): (p: Position) => boolean {
+  if (goals.length === 1) {
+    const [g] = goals;
+    return p => p.x === g.x && p.y === g.y;
+  }
+  const keys = new Set(goals.map(g => `${g.x},${g.y}`));
+  return p => keys.has(`${p.x},${p.y}`);
+}
+
+/**
+ * Distance from a cell to the nearest goal under `distance`. The minimum of
+ * admissible (consistent) estimates is again admissible (consistent), so
+ * A* stays optimal towards a goal region.
+ */
+export function nearestGoalDistance(
+  distance: (a: Position, b: Position) => number,
+  goals: readonly Position[],
+): (p: Position) => number {
+  if (goals.length === 1) {
+    const [g] = goals;
+    return p => distance(p, g);
+  }
+  return p => {
+    let best = Infinity;
+    for (const g of goals) best = Math.min(best, distance(p, g));
+    return best;
+  };
+}
+
+/** The 2×2 block in the middle of a width × height maze (rounding towards the top left) */
+export function centerGoalRegion(width: number, height: number): Position[] {
+  const x = Math.max(0, Math.floor((width - 2) / 2));
+  const y = Math.max(0, Math.floor((height - 2) / 2));
+  return [{ x, y }, { x: x + 1, y }, { x, y: y + 1 }, { x: x + 1, y: y + 1 }];
+}
@@ -59,3 +59,126 @@ export class MinHeap<T> {
     }
   }
 }
+
+/**
+ * Binary Min-Heap with a key → heap-index map.
+ * Supports O(1) `contains`/`get` and O(log n) `decreaseKey`, so a search can
+ * lower an open node's priority without breaking the heap property.
+ * `update` and `remove` handle arbitrary priority changes (D* Lite).
+ */
+export class IndexedMinHeap<T> {
+  private data: T[] = [];
+  private index = new Map<string, number>();
+  private cmp: (a: T, b: T) => number;
+  private keyOf: (item: T) => string;
+
+  constructor(compare: (a: T, b: T) => number, keyOf: (item: T) => string) {
+    this.cmp = compare;
+    this.keyOf = keyOf;
+  }
+
+  get size() {
+    return this.data.length;
+  }
+
+  get items() {
+    return this.data;
+  }
+
+  contains(key: string): boolean {
+    return this.index.has(key);
+  }
+
+  get(key: string): T | undefined {
+    const i = this.index.get(key);
+    return i === undefined ? undefined : this.data[i];
+  }
+
+  push(item: T) {
+    const key = this.keyOf(item);
+    if (this.index.has(key)) throw new Error(`IndexedMinHeap: duplicate key ${key}`);
+    this.data.push(item);
+    this.index.set(key, this.data.length - 1);
+    this.bubbleUp(this.data.length - 1);
+  }
+
+  pop(): T | undefined {
+    if (this.data.length === 0) return undefined;
+    const top = this.data[0];
+    const last = this.data.pop()!;
+    this.index.delete(this.keyOf(top));
+    if (this.data.length > 0) {
+      this.data[0] = last;
+      this.index.set(this.keyOf(last), 0);
+      this.sinkDown(0);
+    }
+    return top;
+  }
+
+  /**
+   * Replace the entry sharing `item`'s key with `item`, whose priority must be
+   * lower than or equal to the old one, and restore heap order.
+   */
+  decreaseKey(item: T) {
+    const key = this.keyOf(item);
+    const i = this.index.get(key);
+    if (i === undefined) throw new Error(`IndexedMinHeap: unknown key ${key}`);
+    this.data[i] = item;
+    this.bubbleUp(i);
+  }
+
+  /** Replace the entry sharing `item`'s key, whose priority may move either way. */
+  update(item: T) {
+    const key = this.keyOf(item);
+    const i = this.index.get(key);
+    if (i === undefined) throw new Error(`IndexedMinHeap: unknown key ${key}`);
+    this.data[i] = item;
+    this.bubbleUp(i);
+    this.sinkDown(this.index.get(key)!);
+  }
+
+  /** Remove the entry with `key`; returns it, or undefined if absent. */
+  remove(key: string): T | undefined {
+    const i = this.index.get(key);
+    if (i === undefined) return undefined;
+    const removed = this.data[i];
+    const last = this.data.pop()!;
+    this.index.delete(key);
+    if (i < this.data.length) {
+      this.data[i] = last;
+      this.index.set(this.keyOf(last), i);
+      this.bubbleUp(i);
+      this.sinkDown(this.index.get(this.keyOf(last))!);
+    }
+    return removed;
+  }
+
+  private bubbleUp(i: number) {
+    const item = this.data[i];
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.cmp(item, this.data[parent]) >= 0) break;
+      this.data[i] = this.data[parent];
+      this.index.set(this.keyOf(this.data[i]), i);
+      i = parent;
+    }
+    this.data[i] = item;
+    this.index.set(this.keyOf(item), i);
+  }
+
+  private sinkDown(i: number) {
+    const n = this.data.length;
+    while (true) {
+      let smallest = i;
+      const l = 2 * i + 1;
+      const r = 2 * i + 2;
+      if (l < n && this.cmp(this.data[l], this.data[smallest]) < 0) smallest = l;
+      if (r < n && this.cmp(this.data[r], this.data[smallest]) < 0) smallest = r;
+      if (smallest === i) break;
+      [this.data[i], this.data[smallest]] = [this.data[smallest], this.data[i]];
+      this.index.set(this.keyOf(this.data[i]), i);
+      this.index.set(this.keyOf(this.data[smallest]), smallest);
+      i = smallest;
+    }
+  }
+}
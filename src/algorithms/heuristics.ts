@@ -1,4 +1,4 @@
-import type { Position, HeuristicType } from '../types';
+import type { GridTopology, Position, HeuristicType, MovementModel } from '../types';
 
 export const manhattanDistance = (current: Position, goal: Position): number =>
   Math.abs(current.x - goal.x) + Math.abs(current.y - goal.y);
@@ -14,13 +14,28 @@ export const diagonalDistance = (current: Position, goal: Position): number => {
   return D * (dx + dy) + (D2 - 2 * D) * Math.min(dx, dy);
 };
 
+/**
+ * Hex distance on an "odd-r" offset grid: the number of hex steps, via
+ * cube coordinates (q = x − ⌊y/2⌋, r = y, s = −q − r).
+ */
+export const hexDistance = (current: Position, goal: Position): number => {
+  const dq = (current.x - (current.y - (current.y & 1)) / 2) - (goal.x - (goal.y - (goal.y & 1)) / 2);
+  const dr = current.y - goal.y;
+  return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+};
+
 /**
  * Select heuristic function based on explicit type or obstacle rate.
  * Auto mode: low obstacle rate → Manhattan, medium → Euclidean, high → Diagonal.
+ * On 8-connected grids auto mode always picks Diagonal (octile distance),
+ * since Manhattan overestimates once diagonal steps are allowed; on hex
+ * grids it picks the hex distance.
  */
 export function getHeuristicFunction(
   obstacleRate: number,
   heuristicType?: HeuristicType,
+  movement: MovementModel = '4-connected',
+  topology: GridTopology = 'square',
 ): (a: Position, b: Position) => number {
   if (heuristicType) {
     switch (heuristicType) {
@@ -30,8 +45,12 @@ export function getHeuristicFunction(
         return euclideanDistance;
       case 'diagonal':
         return diagonalDistance;
+      case 'hex':
+        return hexDistance;
     }
   }
+  if (topology === 'hex') return hexDistance;
+  if (movement !== '4-connected') return diagonalDistance;
   // Auto selection based on obstacle density
   if (obstacleRate < 0.2) return manhattanDistance;
   if (obstacleRate < 0.4) return euclideanDistance;
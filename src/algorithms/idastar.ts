@@ -0,0 +1,162 @@
+import type {
+  Maze, Position, HeuristicType, PathfindingResult, PathfindingOptions, MovementModel,
+} from '../types';
+import { DEFAULT_MOVEMENT_MODEL, IDA_STAR_MAX_EXPANSIONS } from '../types';
+import { getHeuristicFunction } from './heuristics';
+import { getNeighbors } from './movement';
+import type { Neighbor } from './movement';
+import { getCellCost } from './terrain';
+import { createGoalTest, goalCells, nearestGoalDistance } from './goals';
+
+interface IDAFrame {
+  position: Position;
+  g: number;
+  /** Successors ordered by h, so the final iteration heads for the goal first */
+  neighbors: Neighbor[];
+  next: number;
+}
+
+/** f values closer than this count as within the threshold (√2 sums are not exact) */
+const F_EPSILON = 1e-9;
+
+/**
+ * Iterative-deepening A* (Korf). Repeated depth-first searches bounded by an
+ * f = g + h threshold; each iteration raises the threshold to the smallest f
+ * that exceeded it. Memory is only the current DFS path (an explicit stack,
+ * so long corridors cannot overflow the call stack), at the price of
+ * re-expanding the same cells in every iteration and along every path.
+ *
+ * Optimal for admissible heuristics. Cycles are cut only against the current
+ * path, so grids with many equal-cost routes grow exponentially, as do
+ * 8-connected or weighted grids where nearly every f value is distinct (one
+ * iteration per value); the search gives up after IDA_STAR_MAX_EXPANSIONS
+ * expansions, returning an empty path with `gaveUp` set. Unreachable goals are ruled out first
+ * by a one-bit-per-cell flood fill, since IDA* alone would have to exhaust
+ * every simple path to prove it.
+ *
+ * `peakOpenSize` is the deepest stack reached; `exploredNodes` lists each
+ * expanded cell once, for display only.
+ */
+export function idaStarPathfinding(
+  maze: Maze,
+  start: Position,
+  goal: Position,
+  heuristicType?: HeuristicType,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  const movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  if (height === 0 || !isValid(start, width, height) || !isValid(goal, width, height)) {
+    return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
+  }
+
+  const startTime = performance.now();
+  const goals = goalCells(goal, options.goals);
+  const isGoal = createGoalTest(goals);
+  const heuristic = nearestGoalDistance(getHeuristicFunction(calculateObstacleRate(maze), heuristicType, movement), goals);
+  const exploredNodes: Position[] = [];
+  const seen = new Set<string>();
+  let peakOpenSize = 1;
+  let expansions = 0;
+
+  const finish = (path: Position[], cost: number, gaveUp = false): PathfindingResult => ({
+    path, exploredNodes, time: performance.now() - startTime, cost, peakOpenSize, expansions,
+    ...(gaveUp && { gaveUp }),
+  });
+
+  const expand = (position: Position, g: number): IDAFrame => {
+    expansions++;
+    const key = posKey(position);
+    if (!seen.has(key)) {
+      seen.add(key);
+      exploredNodes.push(position);
+    }
+    const neighbors = getNeighbors(maze, position, movement)
+      .sort((a, b) => heuristic(a.position) - heuristic(b.position));
+    return { position, g, neighbors, next: 0 };
+  };
+
+  if (isGoal(start)) return finish([{ ...start }], 0);
+  if (!isReachable(maze, start, isGoal, movement)) return finish([], 0);
+
+  let threshold = heuristic(start);
+
+  while (true) {
+    let nextThreshold = Infinity;
+    const stack: IDAFrame[] = [expand({ ...start }, 0)];
+    const onPath = new Set<string>([posKey(start)]);
+
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top.next >= top.neighbors.length) {
+        stack.pop();
+        onPath.delete(posKey(top.position));
+        continue;
+      }
+
+      const { position: n, stepCost } = top.neighbors[top.next++];
+      const nKey = posKey(n);
+      if (onPath.has(nKey)) continue;
+
+      const g = top.g + stepCost * getCellCost(maze[n.y][n.x]);
+      const f = g + heuristic(n);
+      if (f > threshold + F_EPSILON) {
+        nextThreshold = Math.min(nextThreshold, f);
+        continue;
+      }
+
+      if (isGoal(n)) {
+        return finish([...stack.map(frame => frame.position), n], g);
+      }
+      if (expansions >= IDA_STAR_MAX_EXPANSIONS) return finish([], 0, true);
+
+      stack.push(expand(n, g));
+      onPath.add(nKey);
+      peakOpenSize = Math.max(peakOpenSize, stack.length);
+    }
+
+    // Nothing pruned by the bound: the goal is unreachable
+    if (nextThreshold === Infinity) return finish([], 0);
+    threshold = nextThreshold;
+  }
+}
+
+function isReachable(
+  maze: Maze, start: Position, isGoal: (p: Position) => boolean, movement: MovementModel,
+): boolean {
+  const width = maze[0].length;
+  const visited = new Uint8Array(width * maze.length);
+  const stack: Position[] = [start];
+  visited[start.y * width + start.x] = 1;
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (isGoal(current)) return true;
+    for (const { position: n } of getNeighbors(maze, current, movement)) {
+      const idx = n.y * width + n.x;
+      if (visited[idx]) continue;
+      visited[idx] = 1;
+      stack.push(n);
+    }
+  }
+  return false;
+}
+
+function posKey(p: Position): string {
+  return `${p.x},${p.y}`;
+}
+
+function isValid(p: Position, width: number, height: number): boolean {
+  return p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
+}
+
+function calculateObstacleRate(maze: Maze): number {
+  let obstacles = 0;
+  const total = maze.length * maze[0].length;
+  for (const row of maze) {
+    for (const cell of row) {
+      if (cell.type === 'obstacle') obstacles++;
+    }
+  }
+  return obstacles / total;
+}
@@ -1,11 +1,43 @@
 export { aStarPathfinding } from './astar';
 export { bfsPathfinding } from './bfs';
-export { generateMaze } from './maze-generator';
+export { dijkstraPathfinding } from './dijkstra';
+export { jpsPathfinding } from './jps';
+export { idaStarPathfinding } from './idastar';
+export { bidirectionalBfsPathfinding, bidirectionalAStarPathfinding } from './bidirectional';
+export { generateMaze, generateOpenMaze, generateWallMazeOfType, addTerrain, toMazeSize } from './maze-generator';
+export {
+  floodDistances, createBeliefMap, senseSurroundings, nextFloodStep, floodPath, floodFillPathfinding,
+} from './floodfill';
 export { checkCollisions } from './collision';
 export {
   manhattanDistance,
   euclideanDistance,
   diagonalDistance,
+  hexDistance,
   getHeuristicFunction,
 } from './heuristics';
 export { MinHeap } from './heap';
+export { getCellCost, getPathCost, isTerrain, hasWeightedTerrain } from './terrain';
+export {
+  getNeighbors, getHexNeighbors, gridDirections, hexDirections, neighborProvider, isDiagonalModel, stepLength,
+} from './movement';
+export { DStarLitePlanner, dStarLitePathfinding } from './dstar-lite';
+export {
+  WALL_NORTH, WALL_EAST, WALL_SOUTH, WALL_WEST, ALL_WALLS,
+  createWallMaze, hasWall, setWall, getWallNeighbors,
+  generateWallMaze, generateKruskalWallMaze, generatePrimWallMaze, generateEllerWallMaze,
+  generateWilsonWallMaze, generateAldousBroderWallMaze, generateDivisionWallMaze,
+  braidWallMaze, addWallLoops,
+  wallMazeToCellMaze, cellMazeToWallMaze, toExpandedPosition, fromExpandedPosition,
+} from './wall-maze';
+export {
+  wallBfsPathfinding, wallAStarPathfinding, wallFloodDistances, wallFloodFillPathfinding,
+} from './wall-pathfinding';
+export {
+  detectMazeFormat, formatMazeFileError, parseTextMaze, formatTextMaze, createMazeDocument, parseMazeDocument,
+  parseAsciiMaze, formatAsciiMaze, parseMazBinary, formatMazBinary, parseNumericMaze, formatNumericMaze,
+} from './maze-files';
+export { createRng, randomSeed, parseSeed, randomInt, randomChoice, MAX_SEED, SEED_STREAMS } from './random';
+export { analyzeMaze } from './maze-analysis';
+export { goalCells, createGoalTest, nearestGoalDistance, centerGoalRegion } from './goals';
+export { planMission, legCostMatrix, tourCost, exactTour, heuristicTour } from './waypoints';
@@ -0,0 +1,298 @@
+import type {
+  Maze, Position, HeuristicType, PathfindingResult, PathfindingOptions, MovementModel,
+} from '../types';
+import { DEFAULT_MOVEMENT_MODEL } from '../types';
+import { MinHeap } from './heap';
+import { diagonalDistance, getHeuristicFunction } from './heuristics';
+import { getNeighbors } from './movement';
+import { hasWeightedTerrain } from './terrain';
+import { aStarPathfinding } from './astar';
+import { createGoalTest, goalCells, nearestGoalDistance } from './goals';
+
+interface JPSNode {
+  position: Position;
+  g: number;
+  f: number;
+  parent?: JPSNode;
+}
+
+interface JumpContext {
+  open: (x: number, y: number) => boolean;
+  isGoal: (p: Position) => boolean;
+  movement: MovementModel;
+}
+
+/**
+ * Jump Point Search (Harabor & Grastien) for uniform-cost grids.
+ * Runs A* over jump points only: straight and diagonal runs are skipped
+ * until a forced neighbour or a goal cell appears, so symmetric paths on open
+ * grids are never expanded. `exploredNodes` holds the expanded jump points.
+ *
+ * Supports all three movement models. JPS relies on uniform step costs, so
+ * mazes containing weighted terrain fall back to plain A*.
+ */
+export function jpsPathfinding(
+  maze: Maze,
+  start: Position,
+  goal: Position,
+  heuristicType?: HeuristicType,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  const movement = options.movement ?? DEFAULT_MOVEMENT_MODEL;
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  if (height === 0 || !isValid(start, width, height) || !isValid(goal, width, height)) {
+    return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
+  }
+  if (hasWeightedTerrain(maze)) {
+    return aStarPathfinding(maze, start, goal, heuristicType, options);
+  }
+
+  const startTime = performance.now();
+  const goals = goalCells(goal, options.goals);
+  const heuristic = nearestGoalDistance(getHeuristicFunction(calculateObstacleRate(maze), heuristicType, movement), goals);
+  const ctx: JumpContext = {
+    open: (x, y) => x >= 0 && x < width && y >= 0 && y < height && maze[y][x].type !== 'obstacle',
+    isGoal: createGoalTest(goals),
+    movement,
+  };
+
+  const openHeap = new MinHeap<JPSNode>((a, b) => a.f - b.f);
+  const bestG = new Map<string, number>();
+  const closedSet = new Set<string>();
+  const exploredNodes: Position[] = [];
+  let peakOpenSize = 1;
+  let expansions = 0;
+
+  openHeap.push({ position: { ...start }, g: 0, f: heuristic(start) });
+  bestG.set(posKey(start), 0);
+
+  while (openHeap.size > 0) {
+    const current = openHeap.pop()!;
+    const currentKey = posKey(current.position);
+    if (closedSet.has(currentKey)) continue; // stale entry
+    expansions++;
+
+    if (ctx.isGoal(current.position)) {
+      const path = expandPath(current);
+      return {
+        path, exploredNodes, time: performance.now() - startTime, cost: current.g,
+        peakOpenSize, expansions,
+      };
+    }
+
+    closedSet.add(currentKey);
+    exploredNodes.push(current.position);
+
+    for (const next of prunedNeighbors(maze, current, ctx)) {
+      const { x, y } = current.position;
+      const jumpPoint = jump(ctx, next.x, next.y, Math.sign(next.x - x), Math.sign(next.y - y));
+      if (!jumpPoint) continue;
+
+      const jKey = posKey(jumpPoint);
+      if (closedSet.has(jKey)) continue;
+
+      // Jumps are straight or pure diagonal runs, so octile distance is exact
+      const gScore = current.g + diagonalDistance(current.position, jumpPoint);
+      const known = bestG.get(jKey);
+      if (known !== undefined && gScore >= known) continue;
+
+      bestG.set(jKey, gScore);
+      openHeap.push({
+        position: jumpPoint,
+        g: gScore,
+        f: gScore + heuristic(jumpPoint),
+        parent: current,
+      });
+    }
+    peakOpenSize = Math.max(peakOpenSize, openHeap.size);
+  }
+
+  return {
+    path: [], exploredNodes, time: performance.now() - startTime, cost: 0,
+    peakOpenSize, expansions,
+  };
+}
+
+/**
+ * Natural + forced neighbours of a node given the direction it was reached
+ * from. The start node has no parent and keeps every neighbour.
+ */
+function prunedNeighbors(maze: Maze, node: JPSNode, ctx: JumpContext): Position[] {
+  const { open, movement } = ctx;
+  const { x, y } = node.position;
+  if (!node.parent) return getNeighbors(maze, node.position, movement).map(n => n.position);
+
+  const dx = Math.sign(x - node.parent.position.x);
+  const dy = Math.sign(y - node.parent.position.y);
+  const result: Position[] = [];
+  const add = (nx: number, ny: number) => {
+    if (open(nx, ny)) result.push({ x: nx, y: ny });
+  };
+
+  if (movement === '4-connected') {
+    if (dx !== 0) {
+      add(x, y - 1);
+      add(x, y + 1);
+      add(x + dx, y);
+    } else {
+      add(x - 1, y);
+      add(x + 1, y);
+      add(x, y + dy);
+    }
+    return result;
+  }
+
+  if (movement === '8-no-corner-cutting') {
+    if (dx !== 0 && dy !== 0) {
+      add(x, y + dy);
+      add(x + dx, y);
+      if (open(x, y + dy) && open(x + dx, y)) add(x + dx, y + dy);
+    } else if (dx !== 0) {
+      const up = open(x, y - 1);
+      const down = open(x, y + 1);
+      if (open(x + dx, y)) {
+        add(x + dx, y);
+        if (up) add(x + dx, y - 1);
+        if (down) add(x + dx, y + 1);
+      }
+      if (up) add(x, y - 1);
+      if (down) add(x, y + 1);
+    } else {
+      const left = open(x - 1, y);
+      const right = open(x + 1, y);
+      if (open(x, y + dy)) {
+        add(x, y + dy);
+        if (left) add(x - 1, y + dy);
+        if (right) add(x + 1, y + dy);
+      }
+      if (left) add(x - 1, y);
+      if (right) add(x + 1, y);
+    }
+    return result;
+  }
+
+  // 8-corner-cutting: a diagonal step needs at least one open side
+  if (dx !== 0 && dy !== 0) {
+    add(x, y + dy);
+    add(x + dx, y);
+    if (open(x, y + dy) || open(x + dx, y)) add(x + dx, y + dy);
+    if (!open(x - dx, y) && open(x, y + dy)) add(x - dx, y + dy);
+    if (!open(x, y - dy) && open(x + dx, y)) add(x + dx, y - dy);
+  } else if (dx !== 0) {
+    if (open(x + dx, y)) {
+      add(x + dx, y);
+      if (!open(x, y + 1)) add(x + dx, y + 1);
+      if (!open(x, y - 1)) add(x + dx, y - 1);
+    }
+  } else if (open(x, y + dy)) {
+    add(x, y + dy);
+    if (!open(x + 1, y)) add(x + 1, y + dy);
+    if (!open(x - 1, y)) add(x - 1, y + dy);
+  }
+  return result;
+}
+
+/**
+ * Walk from (x, y) in direction (dx, dy) until a jump point is found.
+ * Returns null on hitting a wall or the grid edge. Diagonal runs (and
+ * vertical runs on 4-connected grids) probe the perpendicular straight
+ * directions, so recursion depth is at most 2.
+ */
+function jump(ctx: JumpContext, x: number, y: number, dx: number, dy: number): Position | null {
+  const { open, isGoal, movement } = ctx;
+
+  while (true) {
+    if (!open(x, y)) return null;
+    if (isGoal({ x, y })) return { x, y };
+
+    if (dx !== 0 && dy !== 0) {
+      if (
+        movement === '8-corner-cutting' && (
+          (open(x - dx, y + dy) && !open(x - dx, y)) ||
+          (open(x + dx, y - dy) && !open(x, y - dy))
+        )
+      ) return { x, y };
+      if (jump(ctx, x + dx, y, dx, 0) || jump(ctx, x, y + dy, 0, dy)) return { x, y };
+
+      // Continue diagonally only if the corner rule allows the next step
+      const sideA = open(x + dx, y);
+      const sideB = open(x, y + dy);
+      if (movement === '8-no-corner-cutting' ? !(sideA && sideB) : !(sideA || sideB)) return null;
+    } else if (movement === '8-corner-cutting') {
+      if (dx !== 0) {
+        if (
+          (open(x + dx, y + 1) && !open(x, y + 1)) ||
+          (open(x + dx, y - 1) && !open(x, y - 1))
+        ) return { x, y };
+      } else if (
+        (open(x + 1, y + dy) && !open(x + 1, y)) ||
+        (open(x - 1, y + dy) && !open(x - 1, y))
+      ) return { x, y };
+    } else if (dx !== 0) {
+      // 4-connected and no-corner-cutting share the orthogonal forced-neighbour rule
+      if (
+        (open(x, y - 1) && !open(x - dx, y - 1)) ||
+        (open(x, y + 1) && !open(x - dx, y + 1))
+      ) return { x, y };
+    } else {
+      if (
+        (open(x - 1, y) && !open(x - 1, y - dy)) ||
+        (open(x + 1, y) && !open(x + 1, y - dy))
+      ) return { x, y };
+      // Without diagonals, vertical runs must look for horizontal jump points
+      if (
+        movement === '4-connected' &&
+        (jump(ctx, x + 1, y, 1, 0) || jump(ctx, x - 1, y, -1, 0))
+      ) return { x, y };
+    }
+
+    x += dx;
+    y += dy;
+  }
+}
+
+/** Turn the jump-point chain into a cell-by-cell path for the agents. */
+function expandPath(node: JPSNode): Position[] {
+  const jumpPoints: Position[] = [];
+  let current: JPSNode | undefined = node;
+  while (current) {
+    jumpPoints.push(current.position);
+    current = current.parent;
+  }
+  jumpPoints.reverse();
+
+  const path: Position[] = [jumpPoints[0]];
+  for (let i = 1; i < jumpPoints.length; i++) {
+    const from = jumpPoints[i - 1];
+    const to = jumpPoints[i];
+    const dx = Math.sign(to.x - from.x);
+    const dy = Math.sign(to.y - from.y);
+    let { x, y } = from;
+    while (x !== to.x || y !== to.y) {
+      x += dx;
+      y += dy;
+      path.push({ x, y });
+    }
+  }
+  return path;
+}
+
+function posKey(p: Position): string {
+  return `${p.x},${p.y}`;
+}
+
+function isValid(p: Position, width: number, height: number): boolean {
+  return p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
+}
+
+function calculateObstacleRate(maze: Maze): number {
+  let obstacles = 0;
+  const total = maze.length * maze[0].length;
+  for (const row of maze) {
+    for (const cell of row) {
+      if (cell.type === 'obstacle') obstacles++;
+    }
+  }
+  return obstacles / total;
+}
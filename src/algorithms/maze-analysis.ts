@@ -0,0 +1,203 @@
+import type { GridTopology, Maze, MazeAnalysis, Position, WallMaze } from '../types';
+import { hexDistance } from './heuristics';
+import { gridDirections } from './movement';
+import { getWallNeighbors } from './wall-maze';
+
+export interface MazeAnalysisOptions {
+  /** Defaults to the cell marked `start` */
+  start?: Position;
+  /** Defaults to the cells marked `goal`, all of which count (a goal region) */
+  goal?: Position;
+  /** Thin-wall model: adjacency comes from the walls, every cell is open */
+  wallMaze?: WallMaze | null;
+  /** Hex grids count all 6 neighbours of a cell */
+  topology?: GridTopology;
+}
+
+/**
+ * How hard a maze is, beyond its obstacle rate: dead ends, junctions,
+ * corridors and components of the 4-connected open-cell graph, plus the
+ * shortest start→goal path and how many distinct shortest paths there are
+ * (to the nearest cells of a goal region).
+ * Terrain counts as open; movement models other than 4-connected are ignored
+ * so the numbers describe the maze itself. On hex grids junctions of five or
+ * six ways count as four-way.
+ */
+export function analyzeMaze(maze: Maze, options: MazeAnalysisOptions = {}): MazeAnalysis {
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  const wallMaze = options.wallMaze ?? null;
+  const topology = options.topology ?? 'square';
+  const total = width * height;
+
+  const isOpen = (x: number, y: number) => wallMaze !== null || maze[y][x].type !== 'obstacle';
+  // Open neighbours of every cell as flat indices
+  const neighbors: number[][] = new Array(total);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const list: number[] = [];
+      if (isOpen(x, y)) {
+        if (wallMaze) {
+          for (const n of getWallNeighbors(wallMaze, { x, y })) list.push(n.y * width + n.x);
+        } else {
+          for (const dir of gridDirections(y, topology)) {
+            const nx = x + dir.x;
+            const ny = y + dir.y;
+            if (nx >= 0 && nx < width && ny >= 0 && ny < height && isOpen(nx, ny)) list.push(ny * width + nx);
+          }
+        }
+      }
+      neighbors[y * width + x] = list;
+    }
+  }
+
+  let openCells = 0;
+  let degreeSum = 0;
+  let deadEnds = 0;
+  let threeWay = 0;
+  let fourWay = 0;
+  for (let i = 0; i < total; i++) {
+    if (!isOpen(i % width, Math.floor(i / width))) continue;
+    const degree = neighbors[i].length;
+    openCells++;
+    degreeSum += degree;
+    if (degree === 1) deadEnds++;
+    else if (degree === 3) threeWay++;
+    else if (degree >= 4) fourWay++;
+  }
+
+  const start = options.start ?? markedCells(maze, 'start')[0];
+  const goals = options.goal ? [options.goal] : markedCells(maze, 'goal');
+  const { length, count } = start && goals.length > 0
+    ? countShortestPaths(neighbors, start.y * width + start.x, new Set(goals.map(g => g.y * width + g.x)))
+    : { length: null, count: 0 };
+
+  const analysis: MazeAnalysis = {
+    openRatio: total > 0 ? openCells / total : 0,
+    openCells,
+    deadEnds,
+    junctions: { threeWay, fourWay },
+    branchingFactor: openCells > 0 ? degreeSum / openCells : 0,
+    averageCorridorLength: averageCorridorLength(neighbors),
+    components: countComponents(neighbors, i => isOpen(i % width, Math.floor(i / width))),
+    shortestPathLength: length,
+    shortestPathCount: count,
+    difficulty: null,
+  };
+  if (length !== null && start) {
+    const direct = Math.min(...goals.map(goal => topology === 'hex'
+      ? hexDistance(start, goal)
+      : Math.abs(goal.x - start.x) + Math.abs(goal.y - start.y)));
+    analysis.difficulty = difficultyScore(analysis, direct);
+  }
+  return analysis;
+}
+
+/**
+ * 0–100 blend of three things that make a maze hard to solve by eye or by
+ * heuristic: detour (shortest path over Manhattan distance), dead-end
+ * density (traps per open cell), and how few shortest paths there are
+ * (one unique solution is hardest).
+ */
+function difficultyScore(analysis: MazeAnalysis, manhattan: number): number {
+  const detour = analysis.shortestPathLength! > 0 ? 1 - manhattan / analysis.shortestPathLength! : 0;
+  const traps = Math.min(1, (5 * analysis.deadEnds) / Math.max(1, analysis.openCells));
+  const uniqueness = 1 / (1 + Math.log10(Math.max(1, analysis.shortestPathCount)));
+  return Math.round(100 * (0.4 * detour + 0.3 * traps + 0.3 * uniqueness));
+}
+
+function markedCells(maze: Maze, type: 'start' | 'goal'): Position[] {
+  const cells: Position[] = [];
+  for (let y = 0; y < maze.length; y++) {
+    for (let x = 0; x < maze[y].length; x++) {
+      if (maze[y][x].type === type) cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+/**
+ * BFS layers from `start`, counting shortest paths into each cell as it is
+ * reached. With several goals, the paths into every goal of the nearest
+ * layer add up (none of them can pass through another).
+ */
+function countShortestPaths(
+  neighbors: number[][],
+  start: number,
+  goals: Set<number>,
+): { length: number | null; count: number } {
+  if (goals.has(start)) return { length: 0, count: 1 };
+  const dist = new Int32Array(neighbors.length).fill(-1);
+  const ways = new Float64Array(neighbors.length);
+  const queue = new Int32Array(neighbors.length);
+  let head = 0;
+  let tail = 0;
+  dist[start] = 0;
+  ways[start] = 1;
+  queue[tail++] = start;
+
+  while (head < tail) {
+    const i = queue[head++];
+    // Everything up to the nearest goals' layer has been counted once one of them is dequeued
+    if (goals.has(i)) {
+      let count = 0;
+      for (const g of goals) if (dist[g] === dist[i]) count += ways[g];
+      return { length: dist[i], count };
+    }
+    for (const n of neighbors[i]) {
+      if (dist[n] === -1) {
+        dist[n] = dist[i] + 1;
+        queue[tail++] = n;
+      }
+      if (dist[n] === dist[i] + 1) ways[n] += ways[i];
+    }
+  }
+  return { length: null, count: 0 };
+}
+
+/**
+ * Mean length of corridors: maximal runs of cells with exactly two open
+ * neighbours (a closed loop of such cells counts as one corridor).
+ */
+function averageCorridorLength(neighbors: number[][]): number {
+  const seen = new Uint8Array(neighbors.length);
+  let corridors = 0;
+  let cells = 0;
+  for (let i = 0; i < neighbors.length; i++) {
+    if (seen[i] || neighbors[i].length !== 2) continue;
+    corridors++;
+    const stack = [i];
+    seen[i] = 1;
+    while (stack.length > 0) {
+      const c = stack.pop()!;
+      cells++;
+      for (const n of neighbors[c]) {
+        if (!seen[n] && neighbors[n].length === 2) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+  }
+  return corridors > 0 ? cells / corridors : 0;
+}
+
+function countComponents(neighbors: number[][], isOpen: (i: number) => boolean): number {
+  const seen = new Uint8Array(neighbors.length);
+  let components = 0;
+  for (let i = 0; i < neighbors.length; i++) {
+    if (seen[i] || !isOpen(i)) continue;
+    components++;
+    const stack = [i];
+    seen[i] = 1;
+    while (stack.length > 0) {
+      for (const n of neighbors[stack.pop()!]) {
+        if (!seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+  }
+  return components;
+}
@@ -0,0 +1,478 @@
+import type {
+  Agent, AgentRecord, Cell, CellType, Maze, MazeDocument, MazeDocumentResult, MazeFileError,
+  MazeFileFormat, MazeFileResult, MovementModel, Position, TextMazeResult, WallMaze, GridTopology,
+} from '../types';
+import { MAX_MAZE_SIZE, TERRAIN_COSTS, TERRAIN_TYPES } from '../types';
+import {
+  WALL_NORTH, WALL_EAST, WALL_SOUTH, WALL_WEST, ALL_WALLS, createWallMaze, hasWall, setWall,
+} from './wall-maze';
+
+/*
+ * Loaders and exporters for the maze files micromouse teams pass around.
+ * All of them use the WALL_* bits (N = 1, E = 2, S = 4, W = 8). Text formats
+ * list the north row first, matching our y-down grid; the binary `.maz`
+ * format is column-major from the south-west corner. Boundary walls are
+ * always added, and a wall set on either side of a shared edge counts.
+ */
+
+const POSTS = new Set(['o', '+', '.']);
+/** Text-maze validation stops collecting after this many errors */
+const MAX_REPORTED_ERRORS = 10;
+
+function fail(line: number, column: number, message: string): MazeFileResult {
+  return { ok: false, error: { line, column, message } };
+}
+
+/** The wall-maze loaders' size check, worded like the text and JSON loaders' one */
+function failIfTooLarge(width: number, height: number): MazeFileResult | null {
+  return width > MAX_MAZE_SIZE || height > MAX_MAZE_SIZE
+    ? fail(1, 1, `迷宫 ${width}×${height} 超过上限 ${MAX_MAZE_SIZE}`)
+    : null;
+}
+
+/**
+ * Which loader a file needs, from its name and content. `grid` is the
+ * plain-text cell format, `json` a `MazeDocument`.
+ */
+export function detectMazeFormat(fileName: string, text: string): MazeFileFormat | 'grid' | 'json' {
+  if (/\.maz$/i.test(fileName)) return 'maz';
+  if (/\.json$/i.test(fileName) || text.trimStart().startsWith('{')) return 'json';
+  const first = text.split(/\r?\n/).map(l => l.trim()).find(l => l.length > 0 && l[0] !== '#') ?? '';
+  if (/^[o+.](---|   )/.test(first)) return 'ascii';
+  if (/^[01.SG]+$/i.test(first)) return 'grid';
+  return 'numeric';
+}
+
+/** Human-readable "line L, column C: message" for toasts */
+export function formatMazeFileError(error: MazeFileError): string {
+  return `第 ${error.line} 行第 ${error.column} 列：${error.message}`;
+}
+
+// ─── Plain-text cell grid ─────────────────────────────────
+
+/**
+ * Plain-text cell maze, one line per row: `0` or `.` open, `1` obstacle,
+ * `S` start, `G` goal (any number of each, either case). Lines starting
+ * with `#` and blank lines are skipped; the size comes from the file and
+ * need not be square. Collects every problem found (up to a limit) instead
+ * of stopping at the first.
+ */
+export function parseTextMaze(text: string): TextMazeResult {
+  const errors: MazeFileError[] = [];
+  const report = (line: number, column: number, message: string) => {
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push({ line, column, message });
+  };
+
+  const maze: Maze = [];
+  const starts: Position[] = [];
+  const goals: Position[] = [];
+  let width = -1;
+  let widthLine = 0;
+  const lines = text.split(/\r?\n/);
+
+  for (let k = 0; k < lines.length; k++) {
+    const line = lines[k];
+    const trimmed = line.trim();
+    if (trimmed.length === 0 || trimmed[0] === '#') continue;
+
+    const offset = line.indexOf(trimmed[0]);
+    const y = maze.length;
+    const row: Cell[] = [];
+    for (let i = 0; i < trimmed.length; i++) {
+      const ch = trimmed[i];
+      const x = row.length;
+      if (ch === '0' || ch === '.') {
+        row.push({ type: 'empty' });
+      } else if (ch === '1') {
+        row.push({ type: 'obstacle' });
+      } else if (ch === 'S' || ch === 's') {
+        starts.push({ x, y });
+        row.push({ type: 'empty' });
+      } else if (ch === 'G' || ch === 'g') {
+        goals.push({ x, y });
+        row.push({ type: 'empty' });
+      } else {
+        report(k + 1, offset + i + 1, `非法字符 "${ch}"，只允许 0 . 1 S G`);
+        row.push({ type: 'empty' });
+      }
+    }
+
+    if (width < 0) {
+      width = row.length;
+      widthLine = k + 1;
+    } else if (row.length !== width) {
+      report(
+        k + 1, offset + Math.min(row.length, width) + 1,
+        `本行 ${row.length} 格，与第 ${widthLine} 行的 ${width} 格不一致`,
+      );
+    }
+    maze.push(row);
+  }
+
+  if (maze.length === 0) {
+    report(1, 1, '文件中没有迷宫行（# 开头的行为注释）');
+  } else if (width > MAX_MAZE_SIZE || maze.length > MAX_MAZE_SIZE) {
+    report(1, 1, `迷宫 ${width}×${maze.length} 超过上限 ${MAX_MAZE_SIZE}`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, maze, starts, goals };
+}
+
+/**
+ * Write a cell maze in the format `parseTextMaze` reads: `1` obstacle, `S` /
+ * `G` for start and goal cells, `0` for everything else (terrain is not
+ * kept — use the JSON document for that). `comment` lines go first, as `#`.
+ */
+export function formatTextMaze(maze: Maze, comment = ''): string {
+  const header = comment ? comment.split('\n').map(l => `# ${l}`) : [];
+  const rows = maze.map(row => row.map(cell => TEXT_CHARS[cell.type] ?? '0').join(''));
+  return [...header, ...rows].join('\n') + '\n';
+}
+
+const TEXT_CHARS: Partial<Record<CellType, string>> = { obstacle: '1', start: 'S', goal: 'G' };
+
+// ─── JSON document ────────────────────────────────────────
+
+/** Cell digit in `MazeDocument.cells`: 1 for obstacles, the terrain cost for terrain, else 0 */
+const DOCUMENT_DIGITS: Partial<Record<CellType, string>> = {
+  obstacle: '1',
+  ...Object.fromEntries(TERRAIN_TYPES.map(t => [t, String(TERRAIN_COSTS[t])])),
+};
+const DOCUMENT_CELLS: Record<string, CellType> = {
+  0: 'empty',
+  ...Object.fromEntries(Object.entries(DOCUMENT_DIGITS).map(([type, digit]) => [digit, type as CellType])),
+};
+
+export interface MazeDocumentInput {
+  maze: Maze;
+  wallMaze: WallMaze | null;
+  /** Grid the cells are laid out on; square when omitted */
+  topology?: GridTopology;
+  start: Position;
+  goal: Position;
+  /** Goal-region cells besides `goal` */
+  extraGoals?: Position[];
+  movementModel: MovementModel;
+  agents: Agent[];
+  seed?: number;
+}
+
+/** Snapshot of a maze, its endpoints and every agent's path, ready for `JSON.stringify` */
+export function createMazeDocument(input: MazeDocumentInput): MazeDocument {
+  const { maze, wallMaze, start, goal, extraGoals = [] } = input;
+  const agents: AgentRecord[] = input.agents.map(agent => ({
+    id: agent.id,
+    algorithm: agent.pathfindingAlgorithm,
+    heuristic: agent.heuristicType,
+    path: agent.path.map(p => ({ x: p.x, y: p.y })),
+    stepsTaken: agent.stepsTaken,
+    collisions: agent.collisions,
+    cost: agent.pathCost,
+    expansions: agent.expansions,
+  }));
+  return {
+    format: 'maze-micromouse',
+    version: 1,
+    model: wallMaze ? 'wall' : 'cell',
+    topology: input.topology === 'hex' ? 'hex' : undefined,
+    width: maze[0]?.length ?? 0,
+    height: maze.length,
+    start: { ...start },
+    goal: { ...goal },
+    extraGoals: extraGoals.length > 0 ? extraGoals.map(p => ({ x: p.x, y: p.y })) : undefined,
+    cells: maze.map(row => row.map(cell => DOCUMENT_DIGITS[cell.type] ?? '0').join('')),
+    walls: wallMaze ? Array.from(wallMaze.walls) : undefined,
+    metadata: {
+      exportedAt: new Date().toISOString(),
+      movementModel: input.movementModel,
+      seed: input.seed,
+      agents,
+    },
+  };
+}
+
+/**
+ * Read a `MazeDocument` back. Start and goal cells are left as they are in
+ * `cells` (empty); agent records are not restored. Errors point at the JSON
+ * syntax error, or at the first occurrence of the offending key.
+ */
+export function parseMazeDocument(text: string): MazeDocumentResult {
+  let doc: Partial<MazeDocument>;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    const position = Number(/position (\d+)/.exec(String(e))?.[1] ?? 0);
+    return failAt(text, position, `JSON 语法错误：${(e as Error).message}`);
+  }
+  const failKey = (key: string, message: string) => failAt(text, keyOffset(text, key), message);
+
+  if (typeof doc !== 'object' || doc === null || doc.format !== 'maze-micromouse') {
+    return failAt(text, 0, '不是本程序导出的迷宫 JSON（缺少 "format": "maze-micromouse"）');
+  }
+  if (doc.version !== 1) return failKey('version', `不支持的版本 ${String(doc.version)}`);
+
+  const width = doc.width as number;
+  const height = doc.height as number;
+  const cells = doc.cells;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    return failKey('width', '宽高必须是正整数');
+  }
+  if (width > MAX_MAZE_SIZE || height > MAX_MAZE_SIZE) {
+    return failKey('width', `迷宫 ${width}×${height} 超过上限 ${MAX_MAZE_SIZE}`);
+  }
+  if (!Array.isArray(cells) || cells.length !== height) return failKey('cells', `cells 应有 ${height} 行`);
+
+  const maze: Maze = [];
+  for (let y = 0; y < height; y++) {
+    const row = cells[y];
+    if (typeof row !== 'string' || row.length !== width) {
+      return failKey('cells', `cells 第 ${y + 1} 行应为 ${width} 个字符`);
+    }
+    const cellRow: Cell[] = [];
+    for (const ch of row) {
+      const type = DOCUMENT_CELLS[ch];
+      if (!type) return failKey('cells', `cells 第 ${y + 1} 行含非法字符 "${ch}"`);
+      cellRow.push({ type });
+    }
+    maze.push(cellRow);
+  }
+
+  const inside = (p: unknown): p is Position => {
+    const q = p as Position | undefined;
+    return !!q && Number.isInteger(q.x) && Number.isInteger(q.y) &&
+      q.x >= 0 && q.x < width && q.y >= 0 && q.y < height;
+  };
+  if (!inside(doc.start)) return failKey('start', '起点缺失或超出迷宫');
+  if (!inside(doc.goal)) return failKey('goal', '终点缺失或超出迷宫');
+  const extraGoals = doc.extraGoals ?? [];
+  if (!Array.isArray(extraGoals) || !extraGoals.every(inside)) {
+    return failKey('extraGoals', 'extraGoals 应为迷宫内的坐标列表');
+  }
+
+  const topology = doc.topology ?? 'square';
+  if (topology !== 'square' && topology !== 'hex') return failKey('topology', `不支持的网格 ${String(topology)}`);
+  if (topology === 'hex' && doc.walls !== undefined) return failKey('topology', '薄墙迷宫只能是方格网格');
+
+  let wallMaze: WallMaze | null = null;
+  if (doc.walls !== undefined) {
+    const walls = doc.walls;
+    if (!Array.isArray(walls) || walls.length !== width * height) {
+      return failKey('walls', `walls 应有 ${width * height} 个墙位值`);
+    }
+    wallMaze = createWallMaze(width, height);
+    for (let i = 0; i < walls.length; i++) {
+      const bits = walls[i];
+      if (!Number.isInteger(bits) || bits < 0 || bits > ALL_WALLS) {
+        return failKey('walls', `walls 第 ${i + 1} 个墙位值 ${String(bits)} 超出 0–15`);
+      }
+      applyWallBits(wallMaze, i % width, Math.floor(i / width), bits);
+    }
+  }
+
+  return {
+    ok: true, maze, wallMaze, topology, start: { ...doc.start }, goal: { ...doc.goal },
+    extraGoals: extraGoals.map(p => ({ x: p.x, y: p.y })),
+  };
+}
+
+function keyOffset(text: string, key: string): number {
+  return Math.max(0, text.indexOf(`"${key}"`));
+}
+
+/** Failure at a character offset of `text`, as 1-based line and column */
+function failAt(text: string, offset: number, message: string): MazeDocumentResult {
+  const before = text.slice(0, offset).split(/\r?\n/);
+  return {
+    ok: false,
+    error: { line: before.length, column: before[before.length - 1].length + 1, message },
+  };
+}
+
+// ─── ASCII art ────────────────────────────────────────────
+
+/**
+ * ASCII-art maze, as in the public mazefiles collections:
+ *
+ *     o---o---o
+ *     |       |
+ *     o   o---o
+ *
+ * Posts are `o`, `+` or `.`; each cell is three characters wide, so a maze
+ * W cells wide has lines of 4W + 1 characters and 2H + 1 lines. Cell
+ * interiors (S/G markers, numbers) are ignored; trailing spaces are optional.
+ */
+export function parseAsciiMaze(text: string): MazeFileResult {
+  const raw = text.split(/\r?\n/).map(l => l.trimEnd());
+  const firstLine = raw.findIndex(l => l.length > 0);
+  if (firstLine < 0) return fail(1, 1, '文件为空');
+  let lastLine = raw.length - 1;
+  while (raw[lastLine].length === 0) lastLine--;
+  const lines = raw.slice(firstLine, lastLine + 1);
+  const lineNo = (k: number) => firstLine + k + 1;
+
+  const lineLength = lines[0].length;
+  if (lineLength < 5 || (lineLength - 1) % 4 !== 0) {
+    return fail(lineNo(0), lineLength, `首行长度 ${lineLength} 不是 4×列数+1`);
+  }
+  if (lines.length < 3 || lines.length % 2 === 0) {
+    return fail(lineNo(lines.length - 1), 1, `行数 ${lines.length} 不是 2×行数+1`);
+  }
+  const width = (lineLength - 1) / 4;
+  const height = (lines.length - 1) / 2;
+  const tooLarge = failIfTooLarge(width, height);
+  if (tooLarge) return tooLarge;
+  const maze = createWallMaze(width, height);
+
+  for (let k = 0; k < lines.length; k++) {
+    const line = lines[k];
+    if (line.length > lineLength) return fail(lineNo(k), lineLength + 1, '行长度超出首行');
+    const padded = line.padEnd(lineLength);
+
+    if (k % 2 === 0) {
+      // Post line: walls on the north side of row k / 2 (south side of the row above)
+      for (let x = 0; x <= width; x++) {
+        if (!POSTS.has(padded[4 * x])) {
+          return fail(lineNo(k), 4 * x + 1, `此处应为墙柱（o / +），实际为 "${padded[4 * x]}"`);
+        }
+        if (x === width) break;
+        const segment = padded.slice(4 * x + 1, 4 * x + 4);
+        if (segment === '---') {
+          if (k / 2 < height) setWall(maze, { x, y: k / 2 }, WALL_NORTH, true);
+          else setWall(maze, { x, y: height - 1 }, WALL_SOUTH, true);
+        } else if (segment !== '   ') {
+          return fail(lineNo(k), 4 * x + 2, `横墙应为 "---" 或空白，实际为 "${segment}"`);
+        }
+      }
+    } else {
+      // Cell line: walls on the west side of each cell, plus the east boundary
+      const y = (k - 1) / 2;
+      for (let x = 0; x <= width; x++) {
+        const ch = padded[4 * x];
+        if (ch === '|') {
+          if (x < width) setWall(maze, { x, y }, WALL_WEST, true);
+        } else if (ch !== ' ') {
+          return fail(lineNo(k), 4 * x + 1, `竖墙应为 "|" 或空白，实际为 "${ch}"`);
+        }
+      }
+    }
+  }
+  return { ok: true, maze };
+}
+
+export function formatAsciiMaze(maze: WallMaze): string {
+  const lines: string[] = [];
+  for (let y = 0; y < maze.height; y++) {
+    let posts = 'o';
+    let cells = '';
+    for (let x = 0; x < maze.width; x++) {
+      posts += (hasWall(maze, { x, y }, WALL_NORTH) ? '---' : '   ') + 'o';
+      cells += (hasWall(maze, { x, y }, WALL_WEST) ? '|' : ' ') + '   ';
+    }
+    cells += hasWall(maze, { x: maze.width - 1, y }, WALL_EAST) ? '|' : ' ';
+    lines.push(posts, cells);
+  }
+  let bottom = 'o';
+  for (let x = 0; x < maze.width; x++) {
+    bottom += (hasWall(maze, { x, y: maze.height - 1 }, WALL_SOUTH) ? '---' : '   ') + 'o';
+  }
+  lines.push(bottom);
+  return lines.join('\n') + '\n';
+}
+
+// ─── Binary .maz ──────────────────────────────────────────
+
+/**
+ * Binary `.maz`: one byte of wall bits per cell, column by column from the
+ * south-west corner (byte x·N + y, y counted northwards). 256 bytes is the
+ * classic 16×16 maze; any N×N byte count is accepted.
+ */
+export function parseMazBinary(bytes: Uint8Array): MazeFileResult {
+  const size = Math.round(Math.sqrt(bytes.length));
+  if (bytes.length === 0 || size * size !== bytes.length) {
+    return fail(1, bytes.length + 1, `字节数 ${bytes.length} 不是 N×N（16×16 迷宫为 256 字节）`);
+  }
+  const tooLarge = failIfTooLarge(size, size);
+  if (tooLarge) return tooLarge;
+
+  const maze = createWallMaze(size, size);
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] > ALL_WALLS) return fail(1, i + 1, `墙位值 ${bytes[i]} 超出 0–15`);
+    const x = Math.floor(i / size);
+    const y = size - 1 - (i % size);
+    applyWallBits(maze, x, y, bytes[i]);
+  }
+  return { ok: true, maze };
+}
+
+/** Square mazes only — the format has no room for a width and a height */
+export function formatMazBinary(maze: WallMaze): Uint8Array {
+  if (maze.width !== maze.height) {
+    throw new Error(`formatMazBinary: .maz files must be square, got ${maze.width}×${maze.height}`);
+  }
+  const size = maze.width;
+  const bytes = new Uint8Array(size * size);
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      bytes[x * size + (size - 1 - y)] = maze.walls[y * size + x];
+    }
+  }
+  return bytes;
+}
+
+// ─── Numeric wall bitmasks ────────────────────────────────
+
+/**
+ * One line per row (north first), one number per cell separated by spaces
+ * or commas. Numbers are decimal or `0x` hex wall bitmasks in 0–15.
+ */
+export function parseNumericMaze(text: string): MazeFileResult {
+  const rows: { line: number; values: number[] }[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let k = 0; k < lines.length; k++) {
+    const values: number[] = [];
+    const tokens = /[^\s,]+/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(lines[k])) !== null) {
+      const token = match[0];
+      const column = match.index + 1;
+      if (!/^(0x[0-9a-f]+|\d+)$/i.test(token)) return fail(k + 1, column, `无法识别的墙位值 "${token}"`);
+      const value = Number(token);
+      if (value > ALL_WALLS) return fail(k + 1, column, `墙位值 ${value} 超出 0–15`);
+      values.push(value);
+    }
+    if (values.length === 0) continue;
+
+    if (rows.length > 0 && values.length !== rows[0].values.length) {
+      return fail(
+        k + 1, lines[k].length + 1,
+        `本行 ${values.length} 个格子，与第 ${rows[0].line} 行的 ${rows[0].values.length} 个不一致`,
+      );
+    }
+    rows.push({ line: k + 1, values });
+  }
+  if (rows.length === 0) return fail(1, 1, '文件为空');
+  const tooLarge = failIfTooLarge(rows[0].values.length, rows.length);
+  if (tooLarge) return tooLarge;
+
+  const maze = createWallMaze(rows[0].values.length, rows.length);
+  rows.forEach(({ values }, y) => values.forEach((bits, x) => applyWallBits(maze, x, y, bits)));
+  return { ok: true, maze };
+}
+
+export function formatNumericMaze(maze: WallMaze): string {
+  const lines: string[] = [];
+  for (let y = 0; y < maze.height; y++) {
+    const row: string[] = [];
+    for (let x = 0; x < maze.width; x++) row.push(String(maze.walls[y * maze.width + x]).padStart(2));
+    lines.push(row.join(' '));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Raise every wall in `bits` on cell (x, y) — never removes one set by a neighbour */
+function applyWallBits(maze: WallMaze, x: number, y: number, bits: number) {
+  for (const wall of [WALL_NORTH, WALL_EAST, WALL_SOUTH, WALL_WEST]) {
+    if (bits & wall) setWall(maze, { x, y }, wall, true);
+  }
+}
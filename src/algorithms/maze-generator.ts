@@ -1,5 +1,14 @@
-import type { Maze, Position } from '../types';
+import type {
+  Cell, GridTopology, Maze, MazeGenerationOptions, MazeGeneratorType, MazeSize, Position, Rng, WallMaze,
+} from '../types';
+import { TERRAIN_TYPES } from '../types';
 import { bfsPathfinding } from './bfs';
+import { gridDirections, hexDirections } from './movement';
+import {
+  generateWallMaze, generateKruskalWallMaze, generatePrimWallMaze, generateEllerWallMaze,
+  generateWilsonWallMaze, generateAldousBroderWallMaze, generateDivisionWallMaze,
+  braidWallMaze, addWallLoops, cellMazeToWallMaze, hasWall, WALL_EAST, WALL_SOUTH,
+} from './wall-maze';
 
 const DIRECTIONS = [
   { x: 0, y: -1 },
@@ -10,96 +19,100 @@ const DIRECTIONS = [
 
 const MAX_RECURSION_DEPTH = 10;
 
-function isValidPos(p: Position, size: number): boolean {
-  return p.x >= 0 && p.x < size && p.y >= 0 && p.y < size;
+/** Spanning-tree generators other than the backtracker, keyed by generator type */
+const WALL_GENERATORS: Partial<Record<MazeGeneratorType, (width: number, height: number, rng: Rng) => WallMaze>> = {
+  'prim': generatePrimWallMaze,
+  'kruskal': generateKruskalWallMaze,
+  'eller': generateEllerWallMaze,
+  'wilson': generateWilsonWallMaze,
+  'aldous-broder': generateAldousBroderWallMaze,
+  'division': generateDivisionWallMaze,
+};
+
+/** Cave generation: initial fill, smoothing passes, and the 4-5 rule threshold */
+const CAVE_FILL_RATE = 0.45;
+const CAVE_ITERATIONS = 4;
+const CAVE_WALL_THRESHOLD = 5;
+/** Hex caves count a cell and its 6 neighbours, so rock needs a majority of 7 */
+const HEX_CAVE_WALL_THRESHOLD = 4;
+
+function isValidPos(p: Position, width: number, height: number): boolean {
+  return p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
+}
+
+/** Width and height of a maze size given as either; a single number is a square */
+export function toMazeSize(size: number | MazeSize): MazeSize {
+  return typeof size === 'number' ? { width: size, height: size } : size;
 }
 
 /**
- * Generate a maze using recursive backtracking + BFS solvability guarantee.
+ * Generate a maze with the chosen `generator` (recursive backtracking by
+ * default) + BFS solvability guarantee: if carving leaves start and goal
+ * apart, the fewest obstacles between them are cleared. `braid` and `loops`
+ * then open dead ends and extra walls so there are competing routes.
  * Optimized: batch obstacle placement with single BFS verification at end,
- * instead of per-obstacle BFS check.
+ * instead of per-obstacle BFS check. The same `rng` sequence gives the same maze.
+ * `size` is the side of a square maze or a `{ width, height }` rectangle.
+ * On hex grids (`options.topology`) the backtracker and Prim's grow a
+ * passage tree over the hex cells directly, caves smooth over the 6
+ * neighbours, other generators fall back to the backtracker, and braid and
+ * loops are ignored.
  */
 export function generateMaze(
-  size: number,
+  size: number | MazeSize,
   obstacleRate: number,
   customStart?: Position,
   customGoal?: Position,
+  rng: Rng = Math.random,
+  options: MazeGenerationOptions = {},
   recursionDepth = 0,
 ): Maze {
+  const { generator = 'backtracker', braid = 0, loops = 0, topology = 'square' } = options;
+  const { width, height } = toMazeSize(size);
   // Clamp positions to maze bounds to prevent out-of-bounds crashes
-  let start: Position = customStart && isValidPos(customStart, size)
+  const start: Position = customStart && isValidPos(customStart, width, height)
     ? { ...customStart }
     : { x: 0, y: 0 };
-  let goal: Position = customGoal && isValidPos(customGoal, size)
+  const goal: Position = customGoal && isValidPos(customGoal, width, height)
     ? { ...customGoal }
-    : { x: size - 1, y: size - 1 };
+    : { x: width - 1, y: height - 1 };
 
   // Fallback for max recursion depth
   if (recursionDepth >= MAX_RECURSION_DEPTH) {
-    return buildFallbackMaze(size, start, goal);
+    return buildFallbackMaze(width, height, start, goal);
   }
 
-  // Initialize all-obstacle grid
-  const maze: Maze = [];
-  for (let y = 0; y < size; y++) {
-    const row: { type: string; agentId?: number }[] = [];
-    for (let x = 0; x < size; x++) {
-      row.push({ type: 'obstacle' });
-    }
-    maze.push(row as Maze[0]);
+  if (generator === 'open') {
+    return generateOpenMaze(size, obstacleRate, start, goal, rng, topology);
   }
 
-  // Recursive backtracking to carve passages
-  const visited = Array.from({ length: size }, () => Array(size).fill(false));
-  const stack: Position[] = [];
-
-  let current: Position = { ...start };
-  visited[current.y][current.x] = true;
-  maze[current.y][current.x].type = 'empty';
-  stack.push(current);
-
-  while (stack.length > 0) {
-    const shuffled = shuffleArray(DIRECTIONS);
-    let found = false;
-
-    for (const dir of shuffled) {
-      const next: Position = {
-        x: current.x + dir.x * 2,
-        y: current.y + dir.y * 2,
-      };
-
-      if (
-        next.x >= 0 && next.x < size &&
-        next.y >= 0 && next.y < size &&
-        !visited[next.y][next.x]
-      ) {
-        visited[next.y][next.x] = true;
-        maze[next.y][next.x].type = 'empty';
-        maze[current.y + dir.y][current.x + dir.x].type = 'empty';
-        stack.push(current);
-        current = next;
-        found = true;
-        break;
-      }
-    }
-
-    if (!found) {
-      current = stack.pop()!;
-    }
-  }
+  const maze = topology === 'hex'
+    ? generator === 'caves'
+      ? carveHexCaves(width, height, rng)
+      : carveHexTree(width, height, start, generator === 'prim', rng)
+    : generator === 'backtracker'
+    ? carveBacktracker(width, height, start, rng)
+    : generator === 'caves'
+      ? carveCaves(width, height, rng)
+      : embedWallMaze(width, height, start, WALL_GENERATORS[generator]!, rng);
 
   // Ensure start and goal are empty
   maze[start.y][start.x].type = 'empty';
   maze[goal.y][goal.x].type = 'empty';
+  connectCells(maze, start, goal, topology);
+  if (topology === 'square') {
+    if (braid > 0) braidMaze(maze, braid, rng);
+    if (loops > 0) addLoops(maze, loops, rng);
+  }
 
   // Find guaranteed path to protect
-  const guaranteedPath = bfsPathfinding(maze, start, goal).path;
+  const guaranteedPath = bfsPathfinding(maze, start, goal, { topology }).path;
   const guaranteedPathSet = new Set(guaranteedPath.map(p => `${p.x},${p.y}`));
 
   // Collect empty cells that are NOT on the guaranteed path
   const emptyCells: Position[] = [];
-  for (let y = 0; y < size; y++) {
-    for (let x = 0; x < size; x++) {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
       if (
         maze[y][x].type === 'empty' &&
         !(x === start.x && y === start.y) &&
@@ -112,7 +125,7 @@ export function generateMaze(
   }
 
   // Batch obstacle placement: calculate how many to add, shuffle, add them all
-  const totalCells = size * size;
+  const totalCells = width * height;
   const targetObstacles = Math.floor(totalCells * obstacleRate);
   let currentObstacles = 0;
   for (const row of maze) {
@@ -122,7 +135,7 @@ export function generateMaze(
   }
   const obstaclesToAdd = Math.max(0, targetObstacles - currentObstacles);
 
-  shuffleArray(emptyCells);
+  shuffleArray(emptyCells, rng);
 
   // Add obstacles in batch (no per-obstacle BFS check)
   const added: Position[] = [];
@@ -133,23 +146,23 @@ export function generateMaze(
   }
 
   // Single BFS verification at the end
-  const pathResult = bfsPathfinding(maze, start, goal);
+  const pathResult = bfsPathfinding(maze, start, goal, { topology });
   if (pathResult.path.length === 0) {
     // Undo all added obstacles and retry with fewer
     for (const { x, y } of added) {
       maze[y][x].type = 'empty';
     }
     // Binary search for max obstacles that keep solvability
-    const solvable = findMaxSolvableObstacles(maze, emptyCells, start, goal);
+    const solvable = findMaxSolvableObstacles(maze, emptyCells, start, goal, topology);
     for (let i = 0; i < solvable; i++) {
       maze[emptyCells[i].y][emptyCells[i].x].type = 'obstacle';
     }
   }
 
   // Final solvability check — regenerate if still unsolvable
-  const finalCheck = bfsPathfinding(maze, start, goal);
+  const finalCheck = bfsPathfinding(maze, start, goal, { topology });
   if (finalCheck.path.length === 0) {
-    return generateMaze(size, obstacleRate, customStart, customGoal, recursionDepth + 1);
+    return generateMaze(size, obstacleRate, customStart, customGoal, rng, options, recursionDepth + 1);
   }
 
   maze[start.y][start.x].type = 'start';
@@ -157,6 +170,127 @@ export function generateMaze(
   return maze;
 }
 
+/**
+ * Thin-wall maze of the chosen generator for the wall model. Spanning-tree
+ * generators run natively on the cells, then get braided and looped; caves
+ * and open grids are generated as cell mazes and their obstacles boxed in
+ * by walls.
+ */
+export function generateWallMazeOfType(
+  size: number | MazeSize,
+  start: Position,
+  goal: Position,
+  obstacleRate: number,
+  rng: Rng = Math.random,
+  options: MazeGenerationOptions = {},
+): WallMaze {
+  const { generator = 'backtracker', braid = 0, loops = 0 } = options;
+  const native = generator === 'backtracker'
+    ? (width: number, height: number, r: Rng) => generateWallMaze(width, height, start, r)
+    : WALL_GENERATORS[generator];
+  if (!native) return cellMazeToWallMaze(generateMaze(size, obstacleRate, start, goal, rng, options));
+
+  const { width, height } = toMazeSize(size);
+  const maze = native(width, height, rng);
+  if (braid > 0) braidWallMaze(maze, braid, rng);
+  if (loops > 0) addWallLoops(maze, loops, rng);
+  return maze;
+}
+
+/**
+ * Generates a solvable maze with random obstacles (not recursive-backtracking).
+ * This creates open spaces where different heuristics make different decisions,
+ * making the heuristic comparison meaningful.
+ */
+export function generateOpenMaze(
+  size: number | MazeSize,
+  rate: number,
+  start: Position,
+  goal: Position,
+  rng: Rng = Math.random,
+  topology: GridTopology = 'square',
+): Maze {
+  const { width, height } = toMazeSize(size);
+  const total = width * height;
+  const target = Math.floor(total * rate);
+
+  // Start with all-empty grid
+  const maze: Maze = [];
+  for (let y = 0; y < height; y++) {
+    const row: Cell[] = [];
+    for (let x = 0; x < width; x++) {
+      row.push({ type: 'empty' });
+    }
+    maze.push(row);
+  }
+
+  // Collect all cells except start/goal
+  const cells: Position[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if ((x === start.x && y === start.y) || (x === goal.x && y === goal.y)) continue;
+      cells.push({ x, y });
+    }
+  }
+
+  // Shuffle and add obstacles in batches, verifying solvability
+  const shuffled = shuffleArray(cells, rng);
+  const added: Position[] = [];
+
+  for (let i = 0; i < Math.min(target, shuffled.length); i++) {
+    const { x, y } = shuffled[i];
+    maze[y][x].type = 'obstacle';
+    added.push({ x, y });
+  }
+
+  // Verify solvability; binary-search reduce if blocked
+  if (bfsPathfinding(maze, start, goal, { topology }).path.length === 0) {
+    for (const { x, y } of added) maze[y][x].type = 'empty';
+    // Binary search for max solvable obstacles
+    let lo = 0, hi = added.length;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      for (let i = 0; i < mid; i++) maze[added[i].y][added[i].x].type = 'obstacle';
+      if (bfsPathfinding(maze, start, goal, { topology }).path.length > 0) {
+        lo = mid;
+      } else {
+        for (let i = 0; i < mid; i++) maze[added[i].y][added[i].x].type = 'empty';
+        hi = mid - 1;
+      }
+    }
+    for (let i = 0; i < lo; i++) maze[added[i].y][added[i].x].type = 'obstacle';
+    for (let i = lo; i < added.length; i++) maze[added[i].y][added[i].x].type = 'empty';
+  }
+
+  maze[start.y][start.x].type = 'start';
+  maze[goal.y][goal.x].type = 'goal';
+  return maze;
+}
+
+/**
+ * Paint a fraction of the empty cells with weighted terrain (ramp/sand/mud).
+ * Terrain never blocks movement, so the BFS solvability guarantee is kept.
+ * Mutates and returns the maze.
+ */
+export function addTerrain(maze: Maze, terrainRate: number, rng: Rng = Math.random): Maze {
+  if (terrainRate <= 0) return maze;
+
+  const emptyCells: Position[] = [];
+  for (let y = 0; y < maze.length; y++) {
+    for (let x = 0; x < maze[y].length; x++) {
+      if (maze[y][x].type === 'empty') emptyCells.push({ x, y });
+    }
+  }
+
+  const shuffled = shuffleArray(emptyCells, rng);
+  const count = Math.floor(shuffled.length * Math.min(1, terrainRate));
+  for (let i = 0; i < count; i++) {
+    const { x, y } = shuffled[i];
+    maze[y][x].type = TERRAIN_TYPES[Math.floor(rng() * TERRAIN_TYPES.length)];
+  }
+  return maze;
+}
+
 /**
  * Binary search for the maximum number of obstacles from the shuffled list
  * that can be added while keeping the maze solvable.
@@ -166,6 +300,7 @@ function findMaxSolvableObstacles(
   emptyCells: Position[],
   start: Position,
   goal: Position,
+  topology: GridTopology,
 ): number {
   let lo = 0;
   let hi = emptyCells.length;
@@ -182,7 +317,7 @@ function findMaxSolvableObstacles(
       }
     }
 
-    const result = bfsPathfinding(maze, start, goal);
+    const result = bfsPathfinding(maze, start, goal, { topology });
 
     // Undo
     for (const { x, y } of added) {
@@ -199,19 +334,302 @@ function findMaxSolvableObstacles(
   return lo;
 }
 
-function buildFallbackMaze(size: number, start: Position, goal: Position): Maze {
+function createFilledMaze(width: number, height: number): Maze {
   const maze: Maze = [];
-  for (let y = 0; y < size; y++) {
+  for (let y = 0; y < height; y++) {
     const row: { type: string; agentId?: number }[] = [];
-    for (let x = 0; x < size; x++) {
+    for (let x = 0; x < width; x++) {
       row.push({ type: 'obstacle' });
     }
     maze.push(row as Maze[0]);
   }
-  for (let x = 0; x <= goal.x && x < size; x++) {
+  return maze;
+}
+
+/** Recursive backtracking on the lattice of cells sharing the start's parity */
+function carveBacktracker(width: number, height: number, start: Position, rng: Rng): Maze {
+  const maze = createFilledMaze(width, height);
+
+  // Recursive backtracking to carve passages
+  const visited = Array.from({ length: height }, () => Array(width).fill(false));
+  const stack: Position[] = [];
+
+  let current: Position = { ...start };
+  visited[current.y][current.x] = true;
+  maze[current.y][current.x].type = 'empty';
+  stack.push(current);
+
+  while (stack.length > 0) {
+    const shuffled = shuffleArray(DIRECTIONS, rng);
+    let found = false;
+
+    for (const dir of shuffled) {
+      const next: Position = {
+        x: current.x + dir.x * 2,
+        y: current.y + dir.y * 2,
+      };
+
+      if (
+        next.x >= 0 && next.x < width &&
+        next.y >= 0 && next.y < height &&
+        !visited[next.y][next.x]
+      ) {
+        visited[next.y][next.x] = true;
+        maze[next.y][next.x].type = 'empty';
+        maze[current.y + dir.y][current.x + dir.x].type = 'empty';
+        stack.push(current);
+        current = next;
+        found = true;
+        break;
+      }
+    }
+
+    if (!found) {
+      current = stack.pop()!;
+    }
+  }
+
+  return maze;
+}
+
+/**
+ * Growing-tree passage carving on a hex grid: a blocked cell next to the
+ * current one is carved when the current cell is its only open neighbour,
+ * so passages stay one cell wide and never close a loop. The backtracker
+ * always continues from the newest cell; Prim's (`randomPick`) from a random one.
+ */
+function carveHexTree(width: number, height: number, start: Position, randomPick: boolean, rng: Rng): Maze {
+  const maze = createFilledMaze(width, height);
+  const isOpen = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && maze[y][x].type !== 'obstacle';
+  const canCarve = (p: Position, from: Position) =>
+    isValidPos(p, width, height) && !isOpen(p.x, p.y) &&
+    hexDirections(p.y).every(d => {
+      const x = p.x + d.x;
+      const y = p.y + d.y;
+      return (x === from.x && y === from.y) || !isOpen(x, y);
+    });
+
+  maze[start.y][start.x].type = 'empty';
+  const active: Position[] = [{ ...start }];
+  while (active.length > 0) {
+    const index = randomPick ? Math.floor(rng() * active.length) : active.length - 1;
+    const current = active[index];
+    const candidates = hexDirections(current.y)
+      .map(d => ({ x: current.x + d.x, y: current.y + d.y }))
+      .filter(p => canCarve(p, current));
+    if (candidates.length === 0) {
+      active.splice(index, 1);
+      continue;
+    }
+    const next = candidates[Math.floor(rng() * candidates.length)];
+    maze[next.y][next.x].type = 'empty';
+    active.push(next);
+  }
+  return maze;
+}
+
+/**
+ * Lay a spanning-tree maze onto the cell lattice sharing the start's parity:
+ * tree node (i, j) becomes cell (ox + 2i, oy + 2j) and an open wall becomes
+ * the cell between two nodes.
+ */
+function embedWallMaze(
+  width: number,
+  height: number,
+  start: Position,
+  generate: (width: number, height: number, rng: Rng) => WallMaze,
+  rng: Rng,
+): Maze {
+  const maze = createFilledMaze(width, height);
+  const ox = start.x % 2;
+  const oy = start.y % 2;
+  const tree = generate(Math.ceil((width - ox) / 2), Math.ceil((height - oy) / 2), rng);
+
+  for (let j = 0; j < tree.height; j++) {
+    for (let i = 0; i < tree.width; i++) {
+      const x = ox + 2 * i;
+      const y = oy + 2 * j;
+      maze[y][x].type = 'empty';
+      if (i < tree.width - 1 && !hasWall(tree, { x: i, y: j }, WALL_EAST)) maze[y][x + 1].type = 'empty';
+      if (j < tree.height - 1 && !hasWall(tree, { x: i, y: j }, WALL_SOUTH)) maze[y + 1][x].type = 'empty';
+    }
+  }
+  return maze;
+}
+
+/**
+ * Cellular-automaton caves: random fill, then smoothing passes where a cell
+ * becomes rock when at least 5 of its 3×3 block are rock (outside counts as
+ * rock). Gives open, organic caverns rather than corridors.
+ */
+function carveCaves(width: number, height: number, rng: Rng): Maze {
+  let rock = Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => rng() < CAVE_FILL_RATE),
+  );
+
+  for (let iter = 0; iter < CAVE_ITERATIONS; iter++) {
+    rock = rock.map((row, y) => row.map((_, x) => {
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const ny = y + dy;
+          const nx = x + dx;
+          if (ny < 0 || ny >= height || nx < 0 || nx >= width || rock[ny][nx]) count++;
+        }
+      }
+      return count >= CAVE_WALL_THRESHOLD;
+    }));
+  }
+
+  return rock.map(row => row.map((r): Cell => ({ type: r ? 'obstacle' : 'empty' })));
+}
+
+/** Hex-grid caves: the same smoothing, over a cell and its 6 neighbours */
+function carveHexCaves(width: number, height: number, rng: Rng): Maze {
+  let rock = Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => rng() < CAVE_FILL_RATE),
+  );
+
+  for (let iter = 0; iter < CAVE_ITERATIONS; iter++) {
+    rock = rock.map((row, y) => row.map((self, x) => {
+      let count = self ? 1 : 0;
+      for (const d of hexDirections(y)) {
+        const ny = y + d.y;
+        const nx = x + d.x;
+        if (ny < 0 || ny >= height || nx < 0 || nx >= width || rock[ny][nx]) count++;
+      }
+      return count >= HEX_CAVE_WALL_THRESHOLD;
+    }));
+  }
+
+  return rock.map(row => row.map((r): Cell => ({ type: r ? 'obstacle' : 'empty' })));
+}
+
+/**
+ * Clear the fewest obstacles needed to join `start` and `goal` (0-1 BFS:
+ * stepping onto an obstacle costs 1, onto anything else 0). A no-op when
+ * they are already connected.
+ */
+function connectCells(maze: Maze, start: Position, goal: Position, topology: GridTopology) {
+  const height = maze.length;
+  const width = maze[0].length;
+  const dist = new Int32Array(width * height).fill(-1);
+  const parent = new Int32Array(width * height).fill(-1);
+  const startIdx = start.y * width + start.x;
+  const goalIdx = goal.y * width + goal.x;
+  dist[startIdx] = 0;
+
+  // Deque as two stacks per cost level: `current` at distance d, `next` at d + 1
+  let current = [startIdx];
+  let next: number[] = [];
+  const settled = new Uint8Array(width * height);
+  while (current.length > 0) {
+    const idx = current.pop()!;
+    if (!settled[idx]) {
+      settled[idx] = 1;
+      if (idx === goalIdx) break;
+      const x = idx % width;
+      const y = (idx - x) / width;
+      for (const dir of gridDirections(y, topology)) {
+        const nx = x + dir.x;
+        const ny = y + dir.y;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+        const nIdx = ny * width + nx;
+        const step = maze[ny][nx].type === 'obstacle' ? 1 : 0;
+        if (dist[nIdx] !== -1 && dist[nIdx] <= dist[idx] + step) continue;
+        dist[nIdx] = dist[idx] + step;
+        parent[nIdx] = idx;
+        (step === 0 ? current : next).push(nIdx);
+      }
+    }
+    if (current.length === 0) {
+      current = next;
+      next = [];
+    }
+  }
+
+  for (let idx = goalIdx; idx !== -1; idx = parent[idx]) {
+    const cell = maze[Math.floor(idx / width)][idx % width];
+    if (cell.type === 'obstacle') cell.type = 'empty';
+  }
+}
+
+/**
+ * Open a fraction `braid` of the dead ends (open cells with one open
+ * neighbour) by clearing an obstacle that leads to another passage,
+ * preferring one that reaches another dead end so both go at once.
+ */
+function braidMaze(maze: Maze, braid: number, rng: Rng) {
+  const height = maze.length;
+  const width = maze[0].length;
+  const isOpen = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && maze[y][x].type !== 'obstacle';
+  const openNeighbors = (p: Position) => DIRECTIONS.filter(d => isOpen(p.x + d.x, p.y + d.y)).length;
+
+  const deadEnds: Position[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isOpen(x, y) && openNeighbors({ x, y }) === 1) deadEnds.push({ x, y });
+    }
+  }
+
+  const picked = shuffleArray(deadEnds, rng);
+  const count = Math.round(picked.length * Math.min(1, braid));
+  for (let i = 0; i < count; i++) {
+    const p = picked[i];
+    // An earlier opening may already have joined this one
+    if (openNeighbors(p) !== 1) continue;
+    let best: Position | null = null;
+    let bestPaired = false;
+    for (const dir of shuffleArray(DIRECTIONS, rng)) {
+      const wall = { x: p.x + dir.x, y: p.y + dir.y };
+      const beyond = { x: p.x + dir.x * 2, y: p.y + dir.y * 2 };
+      if (!isValidPos(wall, width, height) || isOpen(wall.x, wall.y) || !isOpen(beyond.x, beyond.y)) continue;
+      const paired = openNeighbors(beyond) === 1;
+      if (!best || (paired && !bestPaired)) {
+        best = wall;
+        bestPaired = paired;
+      }
+    }
+    if (best) maze[best.y][best.x].type = 'empty';
+  }
+}
+
+/**
+ * Clear a fraction `loops` of the obstacles that separate two passages in a
+ * straight line (open on two opposite sides, blocked on the other two), so
+ * each clearing joins two routes into a loop without widening corridors.
+ */
+function addLoops(maze: Maze, loops: number, rng: Rng) {
+  const height = maze.length;
+  const width = maze[0].length;
+  const isOpen = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && maze[y][x].type !== 'obstacle';
+
+  const walls: Position[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isOpen(x, y)) continue;
+      const left = isOpen(x - 1, y) && isOpen(x + 1, y);
+      const up = isOpen(x, y - 1) && isOpen(x, y + 1);
+      const across = !isOpen(x - 1, y) && !isOpen(x + 1, y);
+      const along = !isOpen(x, y - 1) && !isOpen(x, y + 1);
+      if ((left && along) || (up && across)) walls.push({ x, y });
+    }
+  }
+
+  const picked = shuffleArray(walls, rng);
+  const count = Math.round(picked.length * Math.min(1, loops));
+  for (let i = 0; i < count; i++) maze[picked[i].y][picked[i].x].type = 'empty';
+}
+
+function buildFallbackMaze(width: number, height: number, start: Position, goal: Position): Maze {
+  const maze = createFilledMaze(width, height);
+  for (let x = 0; x <= goal.x && x < width; x++) {
     maze[start.y][x].type = 'empty';
   }
-  for (let y = start.y; y <= goal.y && y < size; y++) {
+  for (let y = start.y; y <= goal.y && y < height; y++) {
     maze[y][goal.x].type = 'empty';
   }
   maze[start.y][start.x].type = 'start';
@@ -220,10 +638,10 @@ function buildFallbackMaze(size: number, start: Position, goal: Position): Maze
 }
 
 /** Fisher-Yates shuffle — unbiased, O(n) */
-function shuffleArray<T>(arr: T[]): T[] {
+function shuffleArray<T>(arr: T[], rng: Rng): T[] {
   const result = [...arr];
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [result[i], result[j]] = [result[j], result[i]];
   }
   return result;
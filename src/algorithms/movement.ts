@@ -0,0 +1,119 @@
+import type { GridTopology, Maze, MovementModel, Position } from '../types';
+
+export const CARDINAL_DIRECTIONS = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+export const DIAGONAL_DIRECTIONS = [
+  { x: 1, y: -1 },
+  { x: 1, y: 1 },
+  { x: -1, y: 1 },
+  { x: -1, y: -1 },
+];
+
+/**
+ * Hex neighbours in the "odd-r" offset layout, where odd rows sit half a
+ * cell to the right: E, W, then the two above and the two below, whose x
+ * offsets depend on the row's parity.
+ */
+const HEX_DIRECTIONS_EVEN_ROW = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: -1, y: -1 },
+  { x: 0, y: -1 },
+  { x: -1, y: 1 },
+  { x: 0, y: 1 },
+];
+const HEX_DIRECTIONS_ODD_ROW = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+  { x: 1, y: -1 },
+  { x: 0, y: 1 },
+  { x: 1, y: 1 },
+];
+
+/** The 6 hex directions from a cell in row `y` */
+export function hexDirections(y: number): readonly Position[] {
+  return y % 2 === 0 ? HEX_DIRECTIONS_EVEN_ROW : HEX_DIRECTIONS_ODD_ROW;
+}
+
+/** Direction offsets of a cell's grid neighbours: 4 orthogonal ones, or 6 on a hex grid */
+export function gridDirections(y: number, topology: GridTopology = 'square'): readonly Position[] {
+  return topology === 'hex' ? hexDirections(y) : CARDINAL_DIRECTIONS;
+}
+
+export interface Neighbor {
+  position: Position;
+  /** Geometric step length: 1 for orthogonal moves, √2 for diagonal ones */
+  stepCost: number;
+}
+
+export function isDiagonalModel(model: MovementModel): boolean {
+  return model !== '4-connected';
+}
+
+function isOpen(maze: Maze, x: number, y: number): boolean {
+  return y >= 0 && y < maze.length && x >= 0 && x < maze[y].length &&
+    maze[y][x].type !== 'obstacle';
+}
+
+/**
+ * Passable neighbours of `p` under the given movement model.
+ *
+ * Corner rules for diagonal steps:
+ * - `8-no-corner-cutting`: both orthogonal cells beside the step must be open.
+ * - `8-corner-cutting`: at least one must be open — an agent may clip a
+ *   corner, but never squeeze between two diagonally touching obstacles.
+ */
+export function getNeighbors(maze: Maze, p: Position, model: MovementModel): Neighbor[] {
+  const result: Neighbor[] = [];
+
+  for (const dir of CARDINAL_DIRECTIONS) {
+    const nx = p.x + dir.x;
+    const ny = p.y + dir.y;
+    if (isOpen(maze, nx, ny)) result.push({ position: { x: nx, y: ny }, stepCost: 1 });
+  }
+
+  if (!isDiagonalModel(model)) return result;
+
+  for (const dir of DIAGONAL_DIRECTIONS) {
+    const nx = p.x + dir.x;
+    const ny = p.y + dir.y;
+    if (!isOpen(maze, nx, ny)) continue;
+
+    const sideA = isOpen(maze, nx, p.y);
+    const sideB = isOpen(maze, p.x, ny);
+    const allowed = model === '8-no-corner-cutting' ? sideA && sideB : sideA || sideB;
+    if (allowed) result.push({ position: { x: nx, y: ny }, stepCost: Math.SQRT2 });
+  }
+
+  return result;
+}
+
+/** Passable hex neighbours of `p`; every hex step has length 1 */
+export function getHexNeighbors(maze: Maze, p: Position): Neighbor[] {
+  const result: Neighbor[] = [];
+  for (const dir of hexDirections(p.y)) {
+    const nx = p.x + dir.x;
+    const ny = p.y + dir.y;
+    if (isOpen(maze, nx, ny)) result.push({ position: { x: nx, y: ny }, stepCost: 1 });
+  }
+  return result;
+}
+
+/** Passable neighbours of a cell, as planners see the grid */
+export type NeighborProvider = (maze: Maze, p: Position) => Neighbor[];
+
+/** Neighbour function of a grid: hex neighbours, or the square grid under `model` */
+export function neighborProvider(model: MovementModel, topology: GridTopology = 'square'): NeighborProvider {
+  return topology === 'hex' ? getHexNeighbors : (maze, p) => getNeighbors(maze, p, model);
+}
+
+/** Geometric length of a single step between two adjacent cells. */
+export function stepLength(a: Position, b: Position, topology: GridTopology = 'square'): number {
+  return topology === 'square' && a.x !== b.x && a.y !== b.y ? Math.SQRT2 : 1;
+}
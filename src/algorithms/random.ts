@@ -0,0 +1,60 @@
+import type { Rng } from '../types';
+
+/*
+ * Seedable random numbers, so a maze and a race can be replayed exactly.
+ * Everything random takes an `Rng` (a `Math.random`-like function); passing
+ * `Math.random` keeps the old unseeded behaviour.
+ */
+
+/** Seeds are unsigned 32-bit integers */
+export const MAX_SEED = 0xffffffff;
+
+/** Independent streams of one seed: maze generation, the race, the experiments, and dynamic obstacles */
+export const SEED_STREAMS = { maze: 0, race: 1, experiment: 2, dynamic: 3 } as const;
+
+/**
+ * Mulberry32 generator: fast, 32-bit state, good enough for mazes and
+ * tie-breaking. `stream` derives independent sequences from one seed (e.g.
+ * one for the maze and one for the race) so using one never shifts the other.
+ */
+export function createRng(seed: number, stream = 0): Rng {
+  let state = (seed + Math.imul(stream, 0x9e3779b9)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fresh unpredictable seed */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Seed from user input: a whole number in 0…MAX_SEED is used as is, any
+ * other non-empty text is hashed (FNV-1a), so words work as seeds too.
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) return null;
+  if (/^\d+$/.test(trimmed) && Number(trimmed) <= MAX_SEED) return Number(trimmed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Uniform integer in [0, n) */
+export function randomInt(rng: Rng, n: number): number {
+  return Math.floor(rng() * n);
+}
+
+/** Uniformly chosen element; undefined for an empty array */
+export function randomChoice<T>(rng: Rng, items: readonly T[]): T | undefined {
+  return items.length > 0 ? items[randomInt(rng, items.length)] : undefined;
+}
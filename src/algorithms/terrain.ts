@@ -0,0 +1,34 @@
+import type { Cell, CellType, GridTopology, Maze, Position, TerrainType } from '../types';
+import { TERRAIN_COSTS } from '../types';
+import { stepLength } from './movement';
+
+export function isTerrain(type: CellType): type is TerrainType {
+  return type in TERRAIN_COSTS;
+}
+
+/**
+ * Cost of stepping into a cell. Plain, start and goal cells cost 1;
+ * terrain cells cost their TERRAIN_COSTS entry. Never below 1, so every
+ * distance heuristic stays admissible on weighted mazes.
+ */
+export function getCellCost(cell: Cell): number {
+  return isTerrain(cell.type) ? TERRAIN_COSTS[cell.type] : 1;
+}
+
+/**
+ * Total traversal cost of a path (the start cell is free).
+ * Each step costs its geometric length (1 or √2; always 1 on hex grids)
+ * times the entered cell's cost.
+ */
+export function getPathCost(maze: Maze, path: Position[], topology: GridTopology = 'square'): number {
+  let cost = 0;
+  for (let i = 1; i < path.length; i++) {
+    cost += stepLength(path[i - 1], path[i], topology) * getCellCost(maze[path[i].y][path[i].x]);
+  }
+  return cost;
+}
+
+/** True if any cell carries a traversal cost other than 1. */
+export function hasWeightedTerrain(maze: Maze): boolean {
+  return maze.some(row => row.some(cell => isTerrain(cell.type)));
+}
@@ -0,0 +1,483 @@
+import type { Maze, Position, Rng, WallMaze } from '../types';
+import { CARDINAL_DIRECTIONS } from './movement';
+
+// Wall bits, in the usual micromouse order (north is y − 1)
+export const WALL_NORTH = 1;
+export const WALL_EAST = 2;
+export const WALL_SOUTH = 4;
+export const WALL_WEST = 8;
+export const ALL_WALLS = WALL_NORTH | WALL_EAST | WALL_SOUTH | WALL_WEST;
+
+/** Wall bit for each entry of CARDINAL_DIRECTIONS (N, E, S, W) */
+const DIRECTION_WALLS = [WALL_NORTH, WALL_EAST, WALL_SOUTH, WALL_WEST];
+const OPPOSITE: Record<number, number> = {
+  [WALL_NORTH]: WALL_SOUTH,
+  [WALL_EAST]: WALL_WEST,
+  [WALL_SOUTH]: WALL_NORTH,
+  [WALL_WEST]: WALL_EAST,
+};
+
+/**
+ * Empty thin-wall maze with the outer boundary walled. With `closed`, every
+ * cell starts fully boxed in, ready for a carving generator.
+ */
+export function createWallMaze(width: number, height: number, closed = false): WallMaze {
+  const walls = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let bits = closed ? ALL_WALLS : 0;
+      if (y === 0) bits |= WALL_NORTH;
+      if (x === width - 1) bits |= WALL_EAST;
+      if (y === height - 1) bits |= WALL_SOUTH;
+      if (x === 0) bits |= WALL_WEST;
+      walls[y * width + x] = bits;
+    }
+  }
+  return { width, height, walls };
+}
+
+export function hasWall(maze: WallMaze, p: Position, wall: number): boolean {
+  return (maze.walls[p.y * maze.width + p.x] & wall) !== 0;
+}
+
+/**
+ * Raise or remove the wall on side `wall` of `p`, keeping the neighbour's
+ * matching bit in sync. Boundary walls cannot be removed.
+ */
+export function setWall(maze: WallMaze, p: Position, wall: number, present: boolean) {
+  const dir = CARDINAL_DIRECTIONS[DIRECTION_WALLS.indexOf(wall)];
+  const n = { x: p.x + dir.x, y: p.y + dir.y };
+  const inside = isInside(maze, n);
+  if (!inside && !present) return;
+
+  const i = p.y * maze.width + p.x;
+  maze.walls[i] = present ? maze.walls[i] | wall : maze.walls[i] & ~wall;
+  if (!inside) return;
+  const j = n.y * maze.width + n.x;
+  const back = OPPOSITE[wall];
+  maze.walls[j] = present ? maze.walls[j] | back : maze.walls[j] & ~back;
+}
+
+/** Cells reachable from `p` in one step: orthogonal neighbours without a wall in between */
+export function getWallNeighbors(maze: WallMaze, p: Position): Position[] {
+  const bits = maze.walls[p.y * maze.width + p.x];
+  const result: Position[] = [];
+  for (let d = 0; d < 4; d++) {
+    if (bits & DIRECTION_WALLS[d]) continue;
+    const n = { x: p.x + CARDINAL_DIRECTIONS[d].x, y: p.y + CARDINAL_DIRECTIONS[d].y };
+    if (isInside(maze, n)) result.push(n);
+  }
+  return result;
+}
+
+export function isInside(maze: WallMaze, p: Position): boolean {
+  return p.x >= 0 && p.x < maze.width && p.y >= 0 && p.y < maze.height;
+}
+
+// ─── Generators ───────────────────────────────────────────
+
+/**
+ * Perfect maze (exactly one route between any two cells) by recursive
+ * backtracking: long, winding corridors with few branches.
+ */
+export function generateWallMaze(
+  width: number,
+  height: number,
+  start: Position = { x: 0, y: 0 },
+  rng: Rng = Math.random,
+): WallMaze {
+  const maze = createWallMaze(width, height, true);
+  if (width === 0 || height === 0) return maze;
+
+  const visited = new Uint8Array(width * height);
+  const origin = isInside(maze, start) ? { ...start } : { x: 0, y: 0 };
+  const stack: Position[] = [origin];
+  visited[origin.y * width + origin.x] = 1;
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const options: number[] = [];
+    for (let d = 0; d < 4; d++) {
+      const n = { x: current.x + CARDINAL_DIRECTIONS[d].x, y: current.y + CARDINAL_DIRECTIONS[d].y };
+      if (isInside(maze, n) && !visited[n.y * width + n.x]) options.push(d);
+    }
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+
+    const d = options[Math.floor(rng() * options.length)];
+    const next = { x: current.x + CARDINAL_DIRECTIONS[d].x, y: current.y + CARDINAL_DIRECTIONS[d].y };
+    setWall(maze, current, DIRECTION_WALLS[d], false);
+    visited[next.y * width + next.x] = 1;
+    stack.push(next);
+  }
+  return maze;
+}
+
+/**
+ * Perfect maze by randomized Kruskal: knocks down interior walls in random
+ * order whenever they separate two unconnected regions. Shorter dead ends
+ * and more branching than the backtracker.
+ */
+export function generateKruskalWallMaze(width: number, height: number, rng: Rng = Math.random): WallMaze {
+  const maze = createWallMaze(width, height, true);
+  const parent = Array.from({ length: width * height }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  // Each interior wall once: the east and south side of every cell
+  const edges: { p: Position; wall: number }[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x < width - 1) edges.push({ p: { x, y }, wall: WALL_EAST });
+      if (y < height - 1) edges.push({ p: { x, y }, wall: WALL_SOUTH });
+    }
+  }
+  shuffleInPlace(edges, rng);
+
+  for (const { p, wall } of edges) {
+    const a = p.y * width + p.x;
+    const b = wall === WALL_EAST ? a + 1 : a + width;
+    const ra = find(a);
+    const rb = find(b);
+    if (ra === rb) continue;
+    parent[ra] = rb;
+    setWall(maze, p, wall, false);
+  }
+  return maze;
+}
+
+/**
+ * Perfect maze by randomized Prim: grows one tree, each time attaching a
+ * random frontier cell to a random tree neighbour. Many short dead ends
+ * radiating from the start region.
+ */
+export function generatePrimWallMaze(width: number, height: number, rng: Rng = Math.random): WallMaze {
+  const maze = createWallMaze(width, height, true);
+  if (width === 0 || height === 0) return maze;
+
+  const inTree = new Uint8Array(width * height);
+  const onFrontier = new Uint8Array(width * height);
+  const frontier: number[] = [];
+  const addFrontier = (p: Position) => {
+    for (const dir of CARDINAL_DIRECTIONS) {
+      const n = { x: p.x + dir.x, y: p.y + dir.y };
+      const i = n.y * width + n.x;
+      if (isInside(maze, n) && !inTree[i] && !onFrontier[i]) {
+        onFrontier[i] = 1;
+        frontier.push(i);
+      }
+    }
+  };
+
+  const first = Math.floor(rng() * width * height);
+  inTree[first] = 1;
+  addFrontier({ x: first % width, y: Math.floor(first / width) });
+
+  while (frontier.length > 0) {
+    // Swap-remove a random frontier cell
+    const k = Math.floor(rng() * frontier.length);
+    const i = frontier[k];
+    frontier[k] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    const p = { x: i % width, y: Math.floor(i / width) };
+    const links: number[] = [];
+    for (let d = 0; d < 4; d++) {
+      const n = { x: p.x + CARDINAL_DIRECTIONS[d].x, y: p.y + CARDINAL_DIRECTIONS[d].y };
+      if (isInside(maze, n) && inTree[n.y * width + n.x]) links.push(d);
+    }
+    setWall(maze, p, DIRECTION_WALLS[links[Math.floor(rng() * links.length)]], false);
+    inTree[i] = 1;
+    addFrontier(p);
+  }
+  return maze;
+}
+
+/**
+ * Perfect maze by Eller's algorithm, one row at a time with only that row's
+ * set labels in memory: random horizontal joins between different sets, then
+ * at least one passage south per set. The last row joins every remaining set.
+ */
+export function generateEllerWallMaze(width: number, height: number, rng: Rng = Math.random): WallMaze {
+  const maze = createWallMaze(width, height, true);
+  const sets = new Int32Array(width);
+  let nextSet = 0;
+  for (let x = 0; x < width; x++) sets[x] = nextSet++;
+
+  for (let y = 0; y < height; y++) {
+    const lastRow = y === height - 1;
+
+    // Horizontal joins
+    for (let x = 0; x < width - 1; x++) {
+      if (sets[x] === sets[x + 1] || (!lastRow && rng() < 0.5)) continue;
+      setWall(maze, { x, y }, WALL_EAST, false);
+      const merged = sets[x + 1];
+      for (let k = 0; k < width; k++) if (sets[k] === merged) sets[k] = sets[x];
+    }
+    if (lastRow) break;
+
+    // Vertical passages: every set continues south at least once
+    const members = new Map<number, number[]>();
+    for (let x = 0; x < width; x++) {
+      const list = members.get(sets[x]);
+      if (list) list.push(x);
+      else members.set(sets[x], [x]);
+    }
+    const carried = new Int32Array(width).fill(-1);
+    for (const [set, xs] of members) {
+      const forced = xs[Math.floor(rng() * xs.length)];
+      for (const x of xs) {
+        if (x !== forced && rng() >= 0.5) continue;
+        setWall(maze, { x, y }, WALL_SOUTH, false);
+        carried[x] = set;
+      }
+    }
+    for (let x = 0; x < width; x++) sets[x] = carried[x] >= 0 ? carried[x] : nextSet++;
+  }
+  return maze;
+}
+
+/**
+ * Uniform spanning tree by Wilson's algorithm: loop-erased random walks from
+ * each cell outside the tree until they hit it. Every perfect maze is equally
+ * likely, so there is no directional bias.
+ */
+export function generateWilsonWallMaze(width: number, height: number, rng: Rng = Math.random): WallMaze {
+  const maze = createWallMaze(width, height, true);
+  const n = width * height;
+  if (n === 0) return maze;
+
+  const inTree = new Uint8Array(n);
+  // Direction last taken out of each cell; overwriting it erases loops
+  const exit = new Int8Array(n);
+  inTree[Math.floor(rng() * n)] = 1;
+
+  for (let origin = 0; origin < n; origin++) {
+    if (inTree[origin]) continue;
+    let i = origin;
+    while (!inTree[i]) {
+      const d = randomDirection(maze, i, rng);
+      exit[i] = d;
+      i += CARDINAL_DIRECTIONS[d].y * width + CARDINAL_DIRECTIONS[d].x;
+    }
+    // Retrace the loop-erased walk and add it to the tree
+    i = origin;
+    while (!inTree[i]) {
+      inTree[i] = 1;
+      const d = exit[i];
+      setWall(maze, { x: i % width, y: Math.floor(i / width) }, DIRECTION_WALLS[d], false);
+      i += CARDINAL_DIRECTIONS[d].y * width + CARDINAL_DIRECTIONS[d].x;
+    }
+  }
+  return maze;
+}
+
+/**
+ * Uniform spanning tree by Aldous-Broder: one random walk over the whole
+ * grid, carving into each cell the first time it is entered. Same
+ * distribution as Wilson's, but slower (cover time of the grid).
+ */
+export function generateAldousBroderWallMaze(width: number, height: number, rng: Rng = Math.random): WallMaze {
+  const maze = createWallMaze(width, height, true);
+  const n = width * height;
+  if (n === 0) return maze;
+
+  const visited = new Uint8Array(n);
+  let i = Math.floor(rng() * n);
+  visited[i] = 1;
+  let remaining = n - 1;
+  while (remaining > 0) {
+    const d = randomDirection(maze, i, rng);
+    const next = i + CARDINAL_DIRECTIONS[d].y * width + CARDINAL_DIRECTIONS[d].x;
+    if (!visited[next]) {
+      setWall(maze, { x: i % width, y: Math.floor(i / width) }, DIRECTION_WALLS[d], false);
+      visited[next] = 1;
+      remaining--;
+    }
+    i = next;
+  }
+  return maze;
+}
+
+/**
+ * Perfect maze by recursive division: start open, split each chamber with a
+ * wall that has one gap, and recurse into both halves. Long straight walls
+ * and boxy rooms, unlike the carving generators.
+ */
+export function generateDivisionWallMaze(width: number, height: number, rng: Rng = Math.random): WallMaze {
+  const maze = createWallMaze(width, height);
+  // Explicit stack of chambers (x, y, w, h) — lopsided splits would recurse deeply
+  const chambers: [number, number, number, number][] = [[0, 0, width, height]];
+
+  while (chambers.length > 0) {
+    const [x, y, w, h] = chambers.pop()!;
+    if (w < 2 || h < 2) continue;
+
+    const horizontal = h > w || (h === w && rng() < 0.5);
+    if (horizontal) {
+      // Wall along the south side of row `wy`, gap at column `gx`
+      const wy = y + Math.floor(rng() * (h - 1));
+      const gx = x + Math.floor(rng() * w);
+      for (let cx = x; cx < x + w; cx++) {
+        if (cx !== gx) setWall(maze, { x: cx, y: wy }, WALL_SOUTH, true);
+      }
+      chambers.push([x, y, w, wy - y + 1], [x, wy + 1, w, y + h - wy - 1]);
+    } else {
+      const wx = x + Math.floor(rng() * (w - 1));
+      const gy = y + Math.floor(rng() * h);
+      for (let cy = y; cy < y + h; cy++) {
+        if (cy !== gy) setWall(maze, { x: wx, y: cy }, WALL_EAST, true);
+      }
+      chambers.push([x, y, wx - x + 1, h], [wx + 1, y, x + w - wx - 1, h]);
+    }
+  }
+  return maze;
+}
+
+/** Random direction index from cell `i` that stays inside the maze (walls ignored) */
+function randomDirection(maze: WallMaze, i: number, rng: Rng): number {
+  const x = i % maze.width;
+  const y = Math.floor(i / maze.width);
+  while (true) {
+    const d = Math.floor(rng() * 4);
+    if (isInside(maze, { x: x + CARDINAL_DIRECTIONS[d].x, y: y + CARDINAL_DIRECTIONS[d].y })) return d;
+  }
+}
+
+// ─── Braiding ─────────────────────────────────────────────
+
+/**
+ * Open a fraction `braid` (0–1) of the dead ends by removing one of their
+ * walls, preferring a wall shared with another dead end so one opening
+ * removes both. `braid` = 1 leaves no dead ends. Mutates and returns the maze.
+ */
+export function braidWallMaze(maze: WallMaze, braid: number, rng: Rng = Math.random): WallMaze {
+  const isDeadEnd = (p: Position) => getWallNeighbors(maze, p).length === 1;
+  const deadEnds: Position[] = [];
+  for (let y = 0; y < maze.height; y++) {
+    for (let x = 0; x < maze.width; x++) {
+      if (isDeadEnd({ x, y })) deadEnds.push({ x, y });
+    }
+  }
+  shuffleInPlace(deadEnds, rng);
+
+  const count = Math.round(deadEnds.length * Math.min(1, Math.max(0, braid)));
+  for (let k = 0; k < count; k++) {
+    const p = deadEnds[k];
+    // An earlier opening may already have joined this one
+    if (!isDeadEnd(p)) continue;
+    const options: number[] = [];
+    for (let d = 0; d < 4; d++) {
+      const n = { x: p.x + CARDINAL_DIRECTIONS[d].x, y: p.y + CARDINAL_DIRECTIONS[d].y };
+      if (isInside(maze, n) && hasWall(maze, p, DIRECTION_WALLS[d])) options.push(d);
+    }
+    if (options.length === 0) continue;
+    shuffleInPlace(options, rng);
+    const paired = options.find(d =>
+      isDeadEnd({ x: p.x + CARDINAL_DIRECTIONS[d].x, y: p.y + CARDINAL_DIRECTIONS[d].y }),
+    );
+    setWall(maze, p, DIRECTION_WALLS[paired ?? options[0]], false);
+  }
+  return maze;
+}
+
+/**
+ * Knock down a fraction `loops` (0–1) of the remaining interior walls, each
+ * opening a second route around a block. Mutates and returns the maze.
+ */
+export function addWallLoops(maze: WallMaze, loops: number, rng: Rng = Math.random): WallMaze {
+  const edges: { p: Position; wall: number }[] = [];
+  for (let y = 0; y < maze.height; y++) {
+    for (let x = 0; x < maze.width; x++) {
+      if (x < maze.width - 1 && hasWall(maze, { x, y }, WALL_EAST)) edges.push({ p: { x, y }, wall: WALL_EAST });
+      if (y < maze.height - 1 && hasWall(maze, { x, y }, WALL_SOUTH)) edges.push({ p: { x, y }, wall: WALL_SOUTH });
+    }
+  }
+  shuffleInPlace(edges, rng);
+
+  const count = Math.round(edges.length * Math.min(1, Math.max(0, loops)));
+  for (let k = 0; k < count; k++) setWall(maze, edges[k].p, edges[k].wall, false);
+  return maze;
+}
+
+/** Fisher-Yates shuffle in place */
+function shuffleInPlace<T>(arr: T[], rng: Rng) {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+}
+
+// ─── Converters ───────────────────────────────────────────
+
+/**
+ * Expand a thin-wall maze into a cell-obstacle `Maze` of size
+ * (2·width + 1) × (2·height + 1): cell (x, y) becomes (2x + 1, 2y + 1), each
+ * wall becomes the obstacle cell between two such cells, and the corner
+ * posts are always obstacles. Connectivity is preserved exactly; every step
+ * in the wall maze is two steps on the expanded grid.
+ */
+export function wallMazeToCellMaze(maze: WallMaze): Maze {
+  const w = 2 * maze.width + 1;
+  const h = 2 * maze.height + 1;
+  const result: Maze = Array.from({ length: h }, () =>
+    Array.from({ length: w }, () => ({ type: 'obstacle' as const })),
+  );
+
+  for (let y = 0; y < maze.height; y++) {
+    for (let x = 0; x < maze.width; x++) {
+      const cx = 2 * x + 1;
+      const cy = 2 * y + 1;
+      result[cy][cx] = { type: 'empty' };
+      if (!hasWall(maze, { x, y }, WALL_EAST) && x < maze.width - 1) result[cy][cx + 1] = { type: 'empty' };
+      if (!hasWall(maze, { x, y }, WALL_SOUTH) && y < maze.height - 1) result[cy + 1][cx] = { type: 'empty' };
+    }
+  }
+  return result;
+}
+
+/** Position of wall-maze cell `p` on the grid produced by `wallMazeToCellMaze` */
+export function toExpandedPosition(p: Position): Position {
+  return { x: 2 * p.x + 1, y: 2 * p.y + 1 };
+}
+
+/**
+ * Wall-maze cell of an expanded-grid position, or null for wall and post
+ * cells (inverse of `toExpandedPosition`).
+ */
+export function fromExpandedPosition(p: Position): Position | null {
+  if (p.x % 2 === 0 || p.y % 2 === 0) return null;
+  return { x: (p.x - 1) / 2, y: (p.y - 1) / 2 };
+}
+
+/**
+ * Thin-wall maze with the same cells as a cell-obstacle `Maze`: a wall is
+ * raised between two orthogonal neighbours whenever either is an obstacle,
+ * so obstacle cells end up boxed in and unreachable. 4-connected routes are
+ * identical in both models. Terrain is dropped — thin-wall cells are uniform.
+ */
+export function cellMazeToWallMaze(maze: Maze): WallMaze {
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  const result = createWallMaze(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const blocked = maze[y][x].type === 'obstacle';
+      if (x < width - 1 && (blocked || maze[y][x + 1].type === 'obstacle')) {
+        setWall(result, { x, y }, WALL_EAST, true);
+      }
+      if (y < height - 1 && (blocked || maze[y + 1][x].type === 'obstacle')) {
+        setWall(result, { x, y }, WALL_SOUTH, true);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,225 @@
+import type { Position, PathfindingResult, PathfindingOptions, WallMaze } from '../types';
+import { DEFAULT_HEURISTIC_WEIGHT } from '../types';
+import { MinHeap } from './heap';
+import { manhattanDistance } from './heuristics';
+import { getWallNeighbors, isInside } from './wall-maze';
+import { createGoalTest, goalCells, nearestGoalDistance } from './goals';
+
+interface WallAStarNode {
+  position: Position;
+  g: number;
+  h: number;
+  f: number;
+}
+
+/*
+ * Planners for thin-wall mazes. Moves are orthogonal only and every step
+ * costs 1, so `cost` is the step count and Manhattan distance is exact on an
+ * open maze (and consistent everywhere). `options.goals` makes any cell of a
+ * goal region count as arrival.
+ */
+
+/** BFS on a thin-wall maze: shortest route in steps. */
+export function wallBfsPathfinding(
+  maze: WallMaze,
+  start: Position,
+  goal: Position,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  if (!isInside(maze, start) || !isInside(maze, goal)) return emptyResult();
+
+  const startTime = performance.now();
+  const isGoal = createGoalTest(goalCells(goal, options.goals));
+  const parent = new Int32Array(maze.width * maze.height).fill(-1);
+  const exploredNodes: Position[] = [];
+  const queue: Position[] = [{ ...start }];
+  let head = 0;
+  let peakOpenSize = 1;
+  parent[index(maze, start)] = index(maze, start);
+
+  while (head < queue.length) {
+    const current = queue[head++];
+    exploredNodes.push(current);
+    if (isGoal(current)) {
+      return finish(maze, parent, current, exploredNodes, startTime, peakOpenSize, exploredNodes.length);
+    }
+    for (const n of getWallNeighbors(maze, current)) {
+      const i = index(maze, n);
+      if (parent[i] !== -1) continue;
+      parent[i] = index(maze, current);
+      queue.push(n);
+    }
+    peakOpenSize = Math.max(peakOpenSize, queue.length - head);
+  }
+
+  return {
+    path: [], exploredNodes, time: performance.now() - startTime, cost: 0,
+    peakOpenSize, expansions: exploredNodes.length,
+  };
+}
+
+/**
+ * A* on a thin-wall maze with the Manhattan heuristic; equal f prefers the
+ * smaller h. `options.weight` gives weighted A* as in `aStarPathfinding`.
+ * Lazy deletion: stale heap entries are skipped when popped.
+ */
+export function wallAStarPathfinding(
+  maze: WallMaze,
+  start: Position,
+  goal: Position,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  if (!isInside(maze, start) || !isInside(maze, goal)) return emptyResult();
+
+  const weight = options.weight ?? DEFAULT_HEURISTIC_WEIGHT;
+  const goals = goalCells(goal, options.goals);
+  const isGoal = createGoalTest(goals);
+  const heuristic = nearestGoalDistance(manhattanDistance, goals);
+  const startTime = performance.now();
+  const n = maze.width * maze.height;
+  const bestG = new Float64Array(n).fill(Infinity);
+  const parent = new Int32Array(n).fill(-1);
+  const closed = new Uint8Array(n);
+  const open = new MinHeap<WallAStarNode>((a, b) => a.f - b.f || a.h - b.h);
+  const exploredNodes: Position[] = [];
+  let peakOpenSize = 1;
+  let expansions = 0;
+
+  const h0 = heuristic(start);
+  open.push({ position: { ...start }, g: 0, h: h0, f: weight * h0 });
+  bestG[index(maze, start)] = 0;
+  parent[index(maze, start)] = index(maze, start);
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    const ci = index(maze, current.position);
+    if (closed[ci]) continue;
+    closed[ci] = 1;
+    expansions++;
+
+    if (isGoal(current.position)) {
+      return finish(maze, parent, current.position, exploredNodes, startTime, peakOpenSize, expansions);
+    }
+    exploredNodes.push(current.position);
+
+    for (const next of getWallNeighbors(maze, current.position)) {
+      const ni = index(maze, next);
+      const g = current.g + 1;
+      if (closed[ni] || g >= bestG[ni]) continue;
+      bestG[ni] = g;
+      parent[ni] = ci;
+      const h = heuristic(next);
+      open.push({ position: next, g, h, f: g + weight * h });
+    }
+    peakOpenSize = Math.max(peakOpenSize, open.size);
+  }
+
+  return {
+    path: [], exploredNodes, time: performance.now() - startTime, cost: 0,
+    peakOpenSize, expansions,
+  };
+}
+
+/**
+ * Step distance from every cell to `goal` (the micromouse "flood"); -1 where
+ * the goal cannot be reached. Given several goal cells it floods from all of
+ * them, i.e. measures the distance to the nearest.
+ */
+export function wallFloodDistances(maze: WallMaze, goal: Position | readonly Position[]): Int32Array {
+  const flood = new Int32Array(maze.width * maze.height).fill(-1);
+
+  const queue: Position[] = [];
+  let head = 0;
+  for (const g of 'x' in goal ? [goal] : goal) {
+    if (!isInside(maze, g) || flood[index(maze, g)] === 0) continue;
+    flood[index(maze, g)] = 0;
+    queue.push(g);
+  }
+  while (head < queue.length) {
+    const current = queue[head++];
+    const d = flood[index(maze, current)] + 1;
+    for (const n of getWallNeighbors(maze, current)) {
+      const i = index(maze, n);
+      if (flood[i] !== -1) continue;
+      flood[i] = d;
+      queue.push(n);
+    }
+  }
+  return flood;
+}
+
+/**
+ * Flood-fill planner on a known thin-wall maze: flood the whole maze from
+ * the goal, then walk downhill from the start. Every cell is flooded, so
+ * `expansions` is the number of cells reachable from the goal.
+ */
+export function wallFloodFillPathfinding(
+  maze: WallMaze,
+  start: Position,
+  goal: Position,
+  options: PathfindingOptions = {},
+): PathfindingResult {
+  if (!isInside(maze, start) || !isInside(maze, goal)) return emptyResult();
+
+  const startTime = performance.now();
+  const flood = wallFloodDistances(maze, goalCells(goal, options.goals));
+  const exploredNodes: Position[] = [];
+  for (let y = 0; y < maze.height; y++) {
+    for (let x = 0; x < maze.width; x++) {
+      if (flood[y * maze.width + x] >= 0) exploredNodes.push({ x, y });
+    }
+  }
+  // Flood order: nearest to the goal first
+  exploredNodes.sort((a, b) => flood[index(maze, a)] - flood[index(maze, b)]);
+
+  const path: Position[] = [];
+  if (flood[index(maze, start)] >= 0) {
+    let current = { ...start };
+    path.push(current);
+    while (flood[index(maze, current)] > 0) {
+      const here = flood[index(maze, current)];
+      current = getWallNeighbors(maze, current).find(n => flood[index(maze, n)] === here - 1)!;
+      path.push(current);
+    }
+  }
+
+  return {
+    path,
+    exploredNodes,
+    time: performance.now() - startTime,
+    cost: Math.max(0, path.length - 1),
+    peakOpenSize: exploredNodes.length,
+    expansions: exploredNodes.length,
+  };
+}
+
+function finish(
+  maze: WallMaze,
+  parent: Int32Array,
+  goal: Position,
+  exploredNodes: Position[],
+  startTime: number,
+  peakOpenSize: number,
+  expansions: number,
+): PathfindingResult {
+  const path: Position[] = [];
+  let i = index(maze, goal);
+  while (true) {
+    path.push({ x: i % maze.width, y: Math.floor(i / maze.width) });
+    if (parent[i] === i) break;
+    i = parent[i];
+  }
+  path.reverse();
+  return {
+    path, exploredNodes, time: performance.now() - startTime, cost: path.length - 1,
+    peakOpenSize, expansions,
+  };
+}
+
+function emptyResult(): PathfindingResult {
+  return { path: [], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0 };
+}
+
+function index(maze: WallMaze, p: Position): number {
+  return p.y * maze.width + p.x;
+}
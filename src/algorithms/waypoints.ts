@@ -0,0 +1,166 @@
+import type { Maze, MissionMode, MissionPlan, PathfindingOptions, Position } from '../types';
+import { EXACT_TOUR_MAX_WAYPOINTS } from '../types';
+import { aStarPathfinding } from './astar';
+
+/*
+ * Checkpoint missions: from the start through every waypoint to the goal.
+ * Legs are costed with A*. In "any order" missions the visiting order is an
+ * open travelling-salesman path with both ends fixed, solved exactly
+ * (Held–Karp) for a few waypoints and by nearest neighbour + 2-opt beyond.
+ *
+ * Leg matrices index the points as 0 = start, 1…n = waypoints, n + 1 = goal.
+ */
+
+/** A* cost of one leg; the leg into the goal honours `options.goals` */
+function legCost(maze: Maze, from: Position, to: Position, options: PathfindingOptions, toGoal: boolean): number {
+  if (from.x === to.x && from.y === to.y) return 0;
+  const result = aStarPathfinding(maze, from, to, undefined, toGoal ? options : { ...options, goals: undefined });
+  return result.path.length > 0 ? result.cost : Infinity;
+}
+
+/**
+ * Pairwise A* leg costs: `costs[i][j]` from point i to point j (asymmetric
+ * with terrain, whose cost is paid on entering a cell). Legs into the start
+ * and out of the goal are never used and left at Infinity.
+ */
+export function legCostMatrix(
+  maze: Maze,
+  start: Position,
+  waypoints: readonly Position[],
+  goal: Position,
+  options: PathfindingOptions = {},
+): number[][] {
+  const points = [start, ...waypoints, goal];
+  const last = points.length - 1;
+  return points.map((from, i) => points.map((to, j) =>
+    i === last || j === 0 || i === j ? (i === j ? 0 : Infinity) : legCost(maze, from, to, options, j === last),
+  ));
+}
+
+/** Cost of visiting the waypoints in `order` (0-based) from the start to the goal */
+export function tourCost(costs: number[][], order: readonly number[]): number {
+  let total = 0;
+  let at = 0;
+  for (const w of order) {
+    total += costs[at][w + 1];
+    at = w + 1;
+  }
+  return total + costs[at][costs.length - 1];
+}
+
+/**
+ * Cheapest visiting order by Held–Karp dynamic programming over subsets:
+ * O(2ⁿ·n²) time, so only for a handful of waypoints. Returns the listed
+ * order when no order reaches the goal.
+ */
+export function exactTour(costs: number[][]): number[] {
+  const n = costs.length - 2;
+  if (n <= 0) return [];
+  const full = (1 << n) - 1;
+  // best[mask * n + j]: cheapest start → the waypoints in `mask`, ending at waypoint j
+  const best = new Float64Array((full + 1) * n).fill(Infinity);
+  const parent = new Int8Array((full + 1) * n).fill(-1);
+  for (let j = 0; j < n; j++) best[(1 << j) * n + j] = costs[0][j + 1];
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let j = 0; j < n; j++) {
+      const here = best[mask * n + j];
+      if (!(mask & (1 << j)) || here === Infinity) continue;
+      for (let k = 0; k < n; k++) {
+        if (mask & (1 << k)) continue;
+        const next = (mask | (1 << k)) * n + k;
+        const cost = here + costs[j + 1][k + 1];
+        if (cost < best[next]) {
+          best[next] = cost;
+          parent[next] = j;
+        }
+      }
+    }
+  }
+
+  let last = -1;
+  let bestCost = Infinity;
+  for (let j = 0; j < n; j++) {
+    const cost = best[full * n + j] + costs[j + 1][n + 1];
+    if (cost < bestCost) {
+      bestCost = cost;
+      last = j;
+    }
+  }
+  if (last < 0) return Array.from({ length: n }, (_, i) => i);
+
+  const order: number[] = [];
+  for (let mask = full, j = last; j >= 0;) {
+    order.push(j);
+    const prev = parent[mask * n + j];
+    mask &= ~(1 << j);
+    j = prev;
+  }
+  return order.reverse();
+}
+
+/**
+ * Visiting order for many waypoints: nearest neighbour from the start, then
+ * 2-opt (reverse a stretch while that makes the tour cheaper). Polynomial,
+ * usually within a few percent of the optimum, but not guaranteed.
+ */
+export function heuristicTour(costs: number[][]): number[] {
+  const n = costs.length - 2;
+  const order: number[] = [];
+  const visited = new Uint8Array(n);
+  let at = 0;
+  for (let step = 0; step < n; step++) {
+    let next = -1;
+    for (let k = 0; k < n; k++) {
+      if (!visited[k] && (next < 0 || costs[at][k + 1] < costs[at][next + 1])) next = k;
+    }
+    visited[next] = 1;
+    order.push(next);
+    at = next + 1;
+  }
+
+  let cost = tourCost(costs, order);
+  for (let improved = true; improved;) {
+    improved = false;
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const candidateCost = tourCost(costs, candidate);
+        if (candidateCost < cost - 1e-9) {
+          order.splice(0, n, ...candidate);
+          cost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+}
+
+/**
+ * Plan a mission from `start` through `waypoints` to `goal` (or any cell of
+ * `options.goals`). Ordered missions keep the listed order; any-order
+ * missions pick the cheapest tour, exactly up to `EXACT_TOUR_MAX_WAYPOINTS`.
+ */
+export function planMission(
+  maze: Maze,
+  start: Position,
+  waypoints: readonly Position[],
+  goal: Position,
+  mode: MissionMode,
+  options: PathfindingOptions = {},
+): MissionPlan {
+  if (mode === 'ordered' || waypoints.length <= 1) {
+    const order = waypoints.map((_, i) => i);
+    const points = [start, ...waypoints, goal];
+    let cost = 0;
+    for (let i = 0; i + 1 < points.length; i++) {
+      cost += legCost(maze, points[i], points[i + 1], options, i + 2 === points.length);
+    }
+    return { order, cost, exact: true };
+  }
+  const costs = legCostMatrix(maze, start, waypoints, goal, options);
+  const exact = waypoints.length <= EXACT_TOUR_MAX_WAYPOINTS;
+  const order = exact ? exactTour(costs) : heuristicTour(costs);
+  return { order, cost: tourCost(costs, order), exact };
+}
@@ -1,18 +1,77 @@
+import { useState, useEffect } from 'react';
 import {
-  Play, Pause, RotateCcw,
+  Play, Pause, RotateCcw, Dices,
 } from 'lucide-react';
 import type {
-  HeuristicType, PathfindingAlgorithm, Position,
+  HeuristicType, PathfindingAlgorithm, Position, MovementModel, TieBreaking, MazeModel,
+  MazeGeneratorType, GridTopology, MissionMode, DynamicObstacleSettings,
 } from '../types';
-import { MIN_MAZE_SIZE, MAX_MAZE_SIZE, MAX_AGENTS } from '../types';
+import {
+  MIN_MAZE_SIZE, MAX_MAZE_SIZE, MAX_AGENTS, MAX_HEURISTIC_WEIGHT, TIE_BREAKING_LABELS,
+  MAZE_GENERATOR_LABELS, GRID_TOPOLOGY_LABELS, HEX_MAZE_GENERATORS, HEX_ALGORITHMS,
+  MISSION_MODE_LABELS, MAX_WAYPOINTS, EXACT_TOUR_MAX_WAYPOINTS,
+  MAX_DYNAMIC_TOGGLES, MAX_DYNAMIC_PATROLS, MIN_DYNAMIC_PERIOD, MAX_DYNAMIC_PERIOD,
+} from '../types';
+import { centerGoalRegion, parseSeed, randomSeed } from '../algorithms';
+
+const TIE_BREAKING_OPTIONS = Object.keys(TIE_BREAKING_LABELS) as TieBreaking[];
+const MAZE_GENERATOR_OPTIONS = Object.keys(MAZE_GENERATOR_LABELS) as MazeGeneratorType[];
+const GRID_TOPOLOGY_OPTIONS = Object.keys(GRID_TOPOLOGY_LABELS) as GridTopology[];
+const MISSION_MODE_OPTIONS = Object.keys(MISSION_MODE_LABELS) as MissionMode[];
+const ALGORITHM_OPTIONS: [PathfindingAlgorithm, string][] = [
+  ['astar', 'A*'],
+  ['dijkstra', 'Dijkstra'],
+  ['jps', 'JPS'],
+  ['bidirectional-astar', '双向 A*'],
+  ['idastar', 'IDA*'],
+  ['dstar-lite', 'D* Lite'],
+  ['floodfill', '泛洪算法'],
+  ['bfs', 'BFS'],
+  ['bidirectional-bfs', '双向 BFS'],
+];
+
+/** Cells (goal region, waypoints) as `x,y; x,y` text */
+function formatCellList(cells: Position[]): string {
+  return cells.map(c => `${c.x},${c.y}`).join('; ');
+}
+
+/** Inverse of `formatCellList` for cells inside a width × height maze; null if any entry is invalid */
+function parseCellList(text: string, width: number, height: number): Position[] | null {
+  const cells: Position[] = [];
+  for (const part of text.split(/[;；]/)) {
+    if (part.trim() === '') continue;
+    const m = /^\s*(\d+)\s*[,，]\s*(\d+)\s*$/.exec(part);
+    if (!m) return null;
+    const p = { x: Number(m[1]), y: Number(m[2]) };
+    if (p.x >= width || p.y >= height) return null;
+    cells.push(p);
+  }
+  return cells;
+}
 
 interface ControlPanelProps {
   agentCount: number;
   setAgentCount: (n: number) => void;
-  mazeSize: number;
-  setMazeSize: (n: number) => void;
+  mazeWidth: number;
+  setMazeWidth: (n: number) => void;
+  mazeHeight: number;
+  setMazeHeight: (n: number) => void;
   obstacleRate: number;
   setObstacleRate: (n: number) => void;
+  terrainRate: number;
+  setTerrainRate: (n: number) => void;
+  movementModel: MovementModel;
+  setMovementModel: (m: MovementModel) => void;
+  mazeModel: MazeModel;
+  setMazeModel: (m: MazeModel) => void;
+  gridTopology: GridTopology;
+  setGridTopology: (t: GridTopology) => void;
+  mazeGenerator: MazeGeneratorType;
+  setMazeGenerator: (g: MazeGeneratorType) => void;
+  braidFactor: number;
+  setBraidFactor: (n: number) => void;
+  loopRate: number;
+  setLoopRate: (n: number) => void;
   selectedHeuristic: HeuristicType | 'auto';
   setSelectedHeuristic: (h: HeuristicType | 'auto') => void;
   selectedAlgorithm: PathfindingAlgorithm;
@@ -21,8 +80,22 @@ interface ControlPanelProps {
   setAgentHeuristics: (h: (HeuristicType | 'auto')[]) => void;
   agentAlgorithms: PathfindingAlgorithm[];
   setAgentAlgorithms: (a: PathfindingAlgorithm[]) => void;
+  selectedTieBreaking: TieBreaking;
+  setSelectedTieBreaking: (t: TieBreaking) => void;
+  selectedWeight: number;
+  setSelectedWeight: (w: number) => void;
+  agentTieBreaking: TieBreaking[];
+  setAgentTieBreaking: (t: TieBreaking[]) => void;
+  agentWeights: number[];
+  setAgentWeights: (w: number[]) => void;
   useSameStart: boolean;
   setUseSameStart: (v: boolean) => void;
+  fogOfWar: boolean;
+  setFogOfWar: (v: boolean) => void;
+  compareFullReplans: boolean;
+  setCompareFullReplans: (v: boolean) => void;
+  beliefAgentId: number | null;
+  setBeliefAgentId: (id: number | null) => void;
   showExploration: boolean;
   setShowExploration: (v: boolean) => void;
   showPath: boolean;
@@ -35,6 +108,19 @@ interface ControlPanelProps {
   setCustomStart: (p: Position) => void;
   customGoal: Position;
   setCustomGoal: (p: Position) => void;
+  /** Goal-region cells besides the goal; any goal cell ends an agent's run */
+  extraGoals: Position[];
+  setExtraGoals: (goals: Position[]) => void;
+  /** Mission checkpoints every agent visits before its goal */
+  waypoints: Position[];
+  setWaypoints: (waypoints: Position[]) => void;
+  missionMode: MissionMode;
+  setMissionMode: (mode: MissionMode) => void;
+  /** Obstacles that toggle or patrol during a race (clicks drop more) */
+  dynamicObstacles: DynamicObstacleSettings;
+  setDynamicObstacles: (settings: DynamicObstacleSettings) => void;
+  seed: number;
+  setSeed: (seed: number) => void;
   isRunning: boolean;
   isPaused: boolean;
   onStart: () => void;
@@ -48,25 +134,89 @@ interface ControlPanelProps {
 export default function ControlPanel(props: ControlPanelProps) {
   const {
     agentCount, setAgentCount,
-    mazeSize, setMazeSize,
+    mazeWidth, setMazeWidth,
+    mazeHeight, setMazeHeight,
     obstacleRate, setObstacleRate,
+    terrainRate, setTerrainRate,
+    movementModel, setMovementModel,
+    mazeModel, setMazeModel,
+    gridTopology, setGridTopology,
+    mazeGenerator, setMazeGenerator,
+    braidFactor, setBraidFactor,
+    loopRate, setLoopRate,
     selectedHeuristic, setSelectedHeuristic,
     selectedAlgorithm, setSelectedAlgorithm,
     agentHeuristics, setAgentHeuristics,
     agentAlgorithms, setAgentAlgorithms,
+    selectedTieBreaking, setSelectedTieBreaking,
+    selectedWeight, setSelectedWeight,
+    agentTieBreaking, setAgentTieBreaking,
+    agentWeights, setAgentWeights,
     useSameStart, setUseSameStart,
+    fogOfWar, setFogOfWar,
+    compareFullReplans, setCompareFullReplans,
+    beliefAgentId, setBeliefAgentId,
     showExploration, setShowExploration,
     showPath, setShowPath,
     visualizationSpeed, setVisualizationSpeed,
     mazeSource, setMazeSource,
     customStart, setCustomStart,
     customGoal, setCustomGoal,
+    extraGoals, setExtraGoals,
+    waypoints, setWaypoints,
+    missionMode, setMissionMode,
+    dynamicObstacles, setDynamicObstacles,
+    seed, setSeed,
     isRunning,
     isPaused,
     onStart, onPause, onResume, onReset,
     onFileUpload, mazeFileName,
   } = props;
 
+  // Seed text being edited; applied on Enter or blur
+  const [seedDraft, setSeedDraft] = useState(String(seed));
+  useEffect(() => setSeedDraft(String(seed)), [seed]);
+  const applySeedDraft = () => {
+    const parsed = parseSeed(seedDraft);
+    if (parsed === null) setSeedDraft(String(seed));
+    else setSeed(parsed);
+  };
+
+  // Extra goal cells being edited; applied on Enter or blur like the seed
+  const [goalsDraft, setGoalsDraft] = useState(formatCellList(extraGoals));
+  useEffect(() => setGoalsDraft(formatCellList(extraGoals)), [extraGoals]);
+  const applyGoalsDraft = () => {
+    const parsed = parseCellList(goalsDraft, mazeWidth, mazeHeight);
+    if (parsed === null) setGoalsDraft(formatCellList(extraGoals));
+    else setExtraGoals(parsed);
+  };
+  // Mission waypoints, edited the same way
+  const [waypointsDraft, setWaypointsDraft] = useState(formatCellList(waypoints));
+  useEffect(() => setWaypointsDraft(formatCellList(waypoints)), [waypoints]);
+  const applyWaypointsDraft = () => {
+    const parsed = parseCellList(waypointsDraft, mazeWidth, mazeHeight);
+    if (parsed === null || parsed.length > MAX_WAYPOINTS) setWaypointsDraft(formatCellList(waypoints));
+    else setWaypoints(parsed);
+  };
+  // Classic micromouse goal: the 2×2 block in the middle of the maze
+  const applyCenterGoal = () => {
+    const [goal, ...rest] = centerGoalRegion(mazeWidth, mazeHeight);
+    setCustomGoal(goal);
+    setExtraGoals(rest);
+  };
+
+  const hex = gridTopology === 'hex';
+  // Hex grids run on the cell model with a subset of generators and planners
+  const selectTopology = (topology: GridTopology) => {
+    setGridTopology(topology);
+    if (topology !== 'hex') return;
+    setMazeModel('cell');
+    setFogOfWar(false);
+    if (!HEX_MAZE_GENERATORS.includes(mazeGenerator)) setMazeGenerator('backtracker');
+    if (!HEX_ALGORITHMS.includes(selectedAlgorithm)) setSelectedAlgorithm('astar');
+    setAgentAlgorithms(agentAlgorithms.map(a => (HEX_ALGORITHMS.includes(a) ? a : 'astar')));
+  };
+
   const inputCls = 'w-full px-3 py-2 bg-zinc-100 dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/40 focus:border-indigo-400 transition-shadow duration-200';
   const labelCls = 'block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5';
   const btnSmall = 'px-2.5 py-1.5 text-sm rounded-md bg-zinc-100 dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-all duration-150 active:scale-[0.96] disabled:opacity-40 disabled:cursor-not-allowed';
@@ -93,52 +243,188 @@ export default function ControlPanel(props: ControlPanelProps) {
 
         {/* Maze size */}
         <div>
-          <label className={labelCls}>迷宫大小 {mazeSize}×{mazeSize}</label>
-          <div className="flex items-center gap-2">
-            <input type="number" min={MIN_MAZE_SIZE} max={MAX_MAZE_SIZE} step={10} value={mazeSize}
-              onChange={e => setMazeSize(Math.max(MIN_MAZE_SIZE, Math.min(MAX_MAZE_SIZE, parseInt(e.target.value) || 20)))}
-              disabled={isRunning} className={inputCls} />
-            <button onClick={() => setMazeSize(Math.max(MIN_MAZE_SIZE, mazeSize - 10))} disabled={isRunning}
-              className={btnSmall}>−</button>
-            <button onClick={() => setMazeSize(Math.min(MAX_MAZE_SIZE, mazeSize + 10))} disabled={isRunning}
-              className={btnSmall}>+</button>
+          <label className={labelCls}>迷宫大小 {mazeWidth}×{mazeHeight}（宽×高）</label>
+          <div className="space-y-2">
+            {([['宽', mazeWidth, setMazeWidth], ['高', mazeHeight, setMazeHeight]] as const).map(([axis, value, setValue]) => (
+              <div key={axis} className="flex items-center gap-2">
+                <span className="w-4 text-xs text-zinc-500 dark:text-zinc-400">{axis}</span>
+                <input type="number" min={MIN_MAZE_SIZE} max={MAX_MAZE_SIZE} step={10} value={value}
+                  onChange={e => setValue(Math.max(MIN_MAZE_SIZE, Math.min(MAX_MAZE_SIZE, parseInt(e.target.value) || 20)))}
+                  disabled={isRunning} className={inputCls} />
+                <button onClick={() => setValue(Math.max(MIN_MAZE_SIZE, value - 10))} disabled={isRunning}
+                  className={btnSmall}>−</button>
+                <button onClick={() => setValue(Math.min(MAX_MAZE_SIZE, value + 10))} disabled={isRunning}
+                  className={btnSmall}>+</button>
+              </div>
+            ))}
           </div>
-          {mazeSize > 100 && (
+          {mazeWidth * mazeHeight > 100 * 100 && (
             <p className="text-xs text-amber-600 dark:text-amber-400 mt-1.5">
               大迷宫建议使用 1–2 个智能体
             </p>
           )}
         </div>
 
+        {/* Random seed */}
+        <div>
+          <label className={labelCls}>随机种子</label>
+          <div className="flex items-center gap-2">
+            <input type="text" value={seedDraft}
+              onChange={e => setSeedDraft(e.target.value)}
+              onBlur={applySeedDraft}
+              onKeyDown={e => { if (e.key === 'Enter') applySeedDraft(); }}
+              disabled={isRunning} className={`${inputCls} font-mono tabular-nums`} />
+            <button onClick={() => setSeed(randomSeed())} disabled={isRunning}
+              className={btnSmall} title="换一个种子">
+              <Dices className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+            相同种子与设置可复现同一迷宫和同一场竞赛；也可输入任意文字
+          </p>
+        </div>
+
+        {/* Maze model */}
+        <div>
+          <label className={labelCls}>迷宫模型</label>
+          <select value={mazeModel} onChange={e => setMazeModel(e.target.value as MazeModel)}
+            disabled={isRunning} className={inputCls}>
+            <option value="cell">格子障碍</option>
+            <option value="wall" disabled={hex}>薄墙（电脑鼠竞赛）</option>
+          </select>
+          {mazeModel === 'wall' && (
+            <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+              墙位于格子之间，仅 4 邻接移动；地形与迷雾模式不适用
+            </p>
+          )}
+        </div>
+
+        {/* Grid topology */}
+        <div>
+          <label className={labelCls}>网格形状</label>
+          <select value={gridTopology} onChange={e => selectTopology(e.target.value as GridTopology)}
+            disabled={isRunning} className={inputCls}>
+            {GRID_TOPOLOGY_OPTIONS.map(t => (
+              <option key={t} value={t}>{GRID_TOPOLOGY_LABELS[t]}</option>
+            ))}
+          </select>
+          {hex && (
+            <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+              每格 6 个邻居；支持 BFS、A*、Dijkstra，启发函数固定为六边形距离
+            </p>
+          )}
+        </div>
+
+        {/* Maze generator */}
+        <div>
+          <label className={labelCls}>生成算法</label>
+          <select value={mazeGenerator} onChange={e => setMazeGenerator(e.target.value as MazeGeneratorType)}
+            disabled={isRunning} className={inputCls}>
+            {MAZE_GENERATOR_OPTIONS.map(g => (
+              <option key={g} value={g} disabled={hex && !HEX_MAZE_GENERATORS.includes(g)}>
+                {MAZE_GENERATOR_LABELS[g]}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+            生成树类算法产生完美迷宫；洞穴与散布障碍为开阔地图。均保证起终点连通
+          </p>
+        </div>
+
+        {/* Braid / loops */}
+        <div>
+          <label className={labelCls}>死胡同打通 {(braidFactor * 100).toFixed(0)}%</label>
+          <input type="range" min="0" max="1" step="0.1" value={braidFactor}
+            onChange={e => setBraidFactor(parseFloat(e.target.value))}
+            disabled={isRunning || mazeGenerator === 'open' || hex}
+            className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full appearance-none cursor-pointer accent-indigo-500" />
+        </div>
+        <div>
+          <label className={labelCls}>环路注入 {(loopRate * 100).toFixed(0)}%</label>
+          <input type="range" min="0" max="0.3" step="0.05" value={loopRate}
+            onChange={e => setLoopRate(parseFloat(e.target.value))}
+            disabled={isRunning || mazeGenerator === 'open' || hex}
+            className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full appearance-none cursor-pointer accent-indigo-500" />
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+            完美迷宫只有一条解；打通死胡同、拆墙成环后出现多条竞争路线
+          </p>
+        </div>
+
         {/* Obstacle rate */}
         <div>
           <label className={labelCls}>障碍率 {(obstacleRate * 100).toFixed(0)}%</label>
           <input type="range" min="0.1" max="0.5" step="0.05" value={obstacleRate}
             onChange={e => setObstacleRate(parseFloat(e.target.value))}
-            disabled={isRunning}
+            disabled={isRunning || (mazeModel === 'wall' && mazeGenerator !== 'open')}
             className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full appearance-none cursor-pointer accent-indigo-500" />
           <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">10% — 50%，超过 50% 可能不可解</p>
         </div>
 
+        {/* Terrain rate */}
+        <div>
+          <label className={labelCls}>地形比例 {(terrainRate * 100).toFixed(0)}%</label>
+          <input type="range" min="0" max="0.6" step="0.05" value={terrainRate}
+            onChange={e => setTerrainRate(parseFloat(e.target.value))}
+            disabled={isRunning || mazeModel === 'wall'}
+            className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full appearance-none cursor-pointer accent-indigo-500" />
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">坡道 2 · 沙地 3 · 泥地 5（通行代价）</p>
+        </div>
+
         {/* Heuristic */}
         <div>
           <label className={labelCls}>启发函数</label>
           <select value={selectedHeuristic} onChange={e => setSelectedHeuristic(e.target.value as HeuristicType | 'auto')}
-            disabled={isRunning} className={inputCls}>
+            disabled={isRunning || hex} className={inputCls}>
             <option value="auto">自动选择</option>
             <option value="manhattan">曼哈顿距离</option>
             <option value="euclidean">欧几里得距离</option>
             <option value="diagonal">对角线优化</option>
+            <option value="hex">六边形距离</option>
           </select>
         </div>
 
+        {/* A* tie-breaking and weight */}
+        <div>
+          <label className={labelCls}>A* 平局处理</label>
+          <select value={selectedTieBreaking} onChange={e => setSelectedTieBreaking(e.target.value as TieBreaking)}
+            disabled={isRunning} className={inputCls}>
+            {TIE_BREAKING_OPTIONS.map(t => (
+              <option key={t} value={t}>{TIE_BREAKING_LABELS[t]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className={labelCls}>启发权重 w = {selectedWeight.toFixed(2)}</label>
+          <input type="range" min="1" max={MAX_HEURISTIC_WEIGHT} step="0.25" value={selectedWeight}
+            onChange={e => setSelectedWeight(parseFloat(e.target.value))}
+            disabled={isRunning}
+            className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full appearance-none cursor-pointer accent-indigo-500" />
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">f = g + w·h，路径代价不超过最优的 w 倍</p>
+        </div>
+
+        {/* Movement model */}
+        <div>
+          <label className={labelCls}>移动方式</label>
+          <select value={movementModel} onChange={e => setMovementModel(e.target.value as MovementModel)}
+            disabled={isRunning || mazeModel === 'wall' || hex} className={inputCls}>
+            <option value="4-connected">4 邻接</option>
+            <option value="8-no-corner-cutting">8 邻接（禁止切角）</option>
+            <option value="8-corner-cutting">8 邻接（允许切角）</option>
+          </select>
+          {movementModel !== '4-connected' && !hex && (
+            <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">对角步代价 √2</p>
+          )}
+        </div>
+
         {/* Algorithm */}
         <div>
           <label className={labelCls}>路径规划算法</label>
           <select value={selectedAlgorithm} onChange={e => setSelectedAlgorithm(e.target.value as PathfindingAlgorithm)}
             disabled={isRunning} className={inputCls}>
-            <option value="astar">A*</option>
-            <option value="bfs">BFS</option>
+            {ALGORITHM_OPTIONS.map(([a, label]) => (
+            <option key={a} value={a} disabled={hex && !HEX_ALGORITHMS.includes(a)}>{label}</option>
+          ))}
           </select>
         </div>
 
@@ -152,6 +438,78 @@ export default function ControlPanel(props: ControlPanelProps) {
           </label>
         </div>
 
+        {/* Fog of war */}
+        <div>
+          <div className="flex items-center gap-2">
+            <input type="checkbox" id="fogOfWar" checked={fogOfWar}
+              onChange={e => setFogOfWar(e.target.checked)} disabled={isRunning || mazeModel === 'wall' || hex}
+              className="h-4 w-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500" />
+            <label htmlFor="fogOfWar" className="text-sm text-zinc-700 dark:text-zinc-300">
+              迷雾探索（泛洪算法）
+            </label>
+          </div>
+          {fogOfWar && (
+            <div className="mt-2">
+              <label className="text-xs text-zinc-500 dark:text-zinc-400 mb-1 block">显示信念地图</label>
+              <select value={beliefAgentId ?? ''}
+                onChange={e => setBeliefAgentId(e.target.value === '' ? null : parseInt(e.target.value))}
+                className={inputCls}>
+                <option value="">不显示</option>
+                {Array.from({ length: agentCount }).map((_, i) => (
+                  <option key={i} value={i}>智能体 {i + 1}</option>
+                ))}
+              </select>
+              <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+                只感知相邻格子，发现墙壁时重新泛洪
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* D* Lite repair vs. full replans */}
+        <div>
+          <div className="flex items-center gap-2">
+            <input type="checkbox" id="compareFullReplans" checked={compareFullReplans}
+              onChange={e => setCompareFullReplans(e.target.checked)} disabled={isRunning}
+              className="h-4 w-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500" />
+            <label htmlFor="compareFullReplans" className="text-sm text-zinc-700 dark:text-zinc-300">
+              对比全量重规划（D* Lite）
+            </label>
+          </div>
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+            每次增量修复再额外从头搜索一次，用于统计节省的扩展数
+          </p>
+        </div>
+
+        {/* Dynamic obstacles */}
+        <div>
+          <label className={labelCls}>动态障碍</label>
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              ['toggles', '定时开关', 0, MAX_DYNAMIC_TOGGLES],
+              ['patrols', '巡逻方块', 0, MAX_DYNAMIC_PATROLS],
+              ['period', '周期（步）', MIN_DYNAMIC_PERIOD, MAX_DYNAMIC_PERIOD],
+            ] as const).map(([key, label, min, max]) => (
+              <div key={key}>
+                <span className="text-xs text-zinc-500 dark:text-zinc-400 mb-1 block">{label}</span>
+                <input type="number" min={min} max={max} value={dynamicObstacles[key]}
+                  onChange={e => {
+                    const v = parseInt(e.target.value);
+                    if (!Number.isNaN(v)) {
+                      setDynamicObstacles({ ...dynamicObstacles, [key]: Math.max(min, Math.min(max, v)) });
+                    }
+                  }}
+                  disabled={isRunning || mazeModel === 'wall'} className={`${inputCls} text-xs`} />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+            {mazeModel === 'wall'
+              ? '仅适用于格子模型'
+              : '运行中点击迷宫可放置 / 移除障碍；路线被挡住的智能体立即重规划'}
+          </p>
+        </div>
+
         {/* Visualization */}
         <div>
           <label className={labelCls}>可视化</label>
@@ -200,7 +558,7 @@ export default function ControlPanel(props: ControlPanelProps) {
 
           {mazeSource === 'file' && (
             <div className="mb-3">
-              <input type="file" accept=".txt" onChange={onFileUpload} disabled={isRunning}
+              <input type="file" accept=".txt,.json,.maz,.num" onChange={onFileUpload} disabled={isRunning}
                 className="w-full text-sm text-zinc-500 dark:text-zinc-400
                   file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0
                   file:text-xs file:font-medium file:bg-indigo-50 file:text-indigo-700
@@ -208,6 +566,9 @@ export default function ControlPanel(props: ControlPanelProps) {
               {mazeFileName && (
                 <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1.5">{mazeFileName}</p>
               )}
+              <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+                支持文本网格（0/. 空、1 墙、S 起点、G 终点（多个 G 为终点区域）、# 注释）、ASCII 迷宫图（o---o）、导出的 JSON、数值墙位文本和 256 字节 .maz
+              </p>
             </div>
           )}
 
@@ -215,10 +576,10 @@ export default function ControlPanel(props: ControlPanelProps) {
             <div>
               <label className="text-xs text-zinc-500 dark:text-zinc-400 mb-1 block">起点 (x, y)</label>
               <div className="flex gap-2">
-                <input type="number" min="0" max={mazeSize - 1} value={customStart.x}
+                <input type="number" min="0" max={mazeWidth - 1} value={customStart.x}
                   onChange={e => setCustomStart({ ...customStart, x: parseInt(e.target.value) })}
                   disabled={isRunning} className={`${inputCls} w-20`} />
-                <input type="number" min="0" max={mazeSize - 1} value={customStart.y}
+                <input type="number" min="0" max={mazeHeight - 1} value={customStart.y}
                   onChange={e => setCustomStart({ ...customStart, y: parseInt(e.target.value) })}
                   disabled={isRunning} className={`${inputCls} w-20`} />
               </div>
@@ -226,14 +587,61 @@ export default function ControlPanel(props: ControlPanelProps) {
             <div>
               <label className="text-xs text-zinc-500 dark:text-zinc-400 mb-1 block">终点 (x, y)</label>
               <div className="flex gap-2">
-                <input type="number" min="0" max={mazeSize - 1} value={customGoal.x}
+                <input type="number" min="0" max={mazeWidth - 1} value={customGoal.x}
                   onChange={e => setCustomGoal({ ...customGoal, x: parseInt(e.target.value) })}
                   disabled={isRunning} className={`${inputCls} w-20`} />
-                <input type="number" min="0" max={mazeSize - 1} value={customGoal.y}
+                <input type="number" min="0" max={mazeHeight - 1} value={customGoal.y}
                   onChange={e => setCustomGoal({ ...customGoal, y: parseInt(e.target.value) })}
                   disabled={isRunning} className={`${inputCls} w-20`} />
               </div>
             </div>
+            <div>
+              <label className="text-xs text-zinc-500 dark:text-zinc-400 mb-1 block">终点区域（其余终点格）</label>
+              <input type="text" value={goalsDraft} placeholder="x,y; x,y"
+                onChange={e => setGoalsDraft(e.target.value)}
+                onBlur={applyGoalsDraft}
+                onKeyDown={e => { if (e.key === 'Enter') applyGoalsDraft(); }}
+                disabled={isRunning} className={`${inputCls} font-mono text-xs`} />
+              <div className="flex gap-2 mt-1.5">
+                <button onClick={applyCenterGoal} disabled={isRunning} className={btnSmall}>
+                  中心 2×2
+                </button>
+                <button onClick={() => setExtraGoals([])} disabled={isRunning || extraGoals.length === 0}
+                  className={btnSmall}>
+                  单个终点
+                </button>
+              </div>
+              <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+                到达区域内任一格即算完成，启发函数取到最近终点格的距离
+              </p>
+            </div>
+            <div>
+              <label className="text-xs text-zinc-500 dark:text-zinc-400 mb-1 block">
+                任务检查点（最多 {MAX_WAYPOINTS} 个）
+              </label>
+              <input type="text" value={waypointsDraft} placeholder="x,y; x,y"
+                onChange={e => setWaypointsDraft(e.target.value)}
+                onBlur={applyWaypointsDraft}
+                onKeyDown={e => { if (e.key === 'Enter') applyWaypointsDraft(); }}
+                disabled={isRunning} className={`${inputCls} font-mono text-xs`} />
+              <div className="flex gap-2 mt-1.5">
+                <select value={missionMode} onChange={e => setMissionMode(e.target.value as MissionMode)}
+                  disabled={isRunning} className={`${inputCls} flex-1 text-xs`}>
+                  {MISSION_MODE_OPTIONS.map(m => (
+                    <option key={m} value={m}>{MISSION_MODE_LABELS[m]}</option>
+                  ))}
+                </select>
+                <button onClick={() => setWaypoints([])} disabled={isRunning || waypoints.length === 0}
+                  className={btnSmall}>
+                  清空
+                </button>
+              </div>
+              <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+                {missionMode === 'ordered'
+                  ? '按列出的顺序经过全部检查点后才算到达终点'
+                  : `按 A* 两两距离求最短访问顺序：≤${EXACT_TOUR_MAX_WAYPOINTS} 个时精确求解，更多时用最近邻 + 2-opt 近似`}
+              </p>
+            </div>
           </div>
         </div>
 
@@ -252,12 +660,13 @@ export default function ControlPanel(props: ControlPanelProps) {
                         next[i] = e.target.value as HeuristicType | 'auto';
                         setAgentHeuristics(next);
                       }}
-                      disabled={isRunning}
+                      disabled={isRunning || hex}
                       className={`${inputCls} flex-1 text-xs`}>
                       <option value="auto">自动</option>
                       <option value="manhattan">曼哈顿</option>
                       <option value="euclidean">欧几里得</option>
                       <option value="diagonal">对角线</option>
+                      <option value="hex">六边形</option>
                     </select>
                   </div>
                 ))}
@@ -278,9 +687,43 @@ export default function ControlPanel(props: ControlPanelProps) {
                       }}
                       disabled={isRunning}
                       className={`${inputCls} flex-1 text-xs`}>
-                      <option value="astar">A*</option>
-                      <option value="bfs">BFS</option>
+                      {ALGORITHM_OPTIONS.map(([a, label]) => (
+                        <option key={a} value={a} disabled={hex && !HEX_ALGORITHMS.includes(a)}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelCls}>各智能体平局处理 / 权重</label>
+              <div className="space-y-1.5">
+                {Array.from({ length: agentCount }).map((_, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400 w-16">智能体 {i + 1}</span>
+                    <select value={agentTieBreaking[i]}
+                      onChange={e => {
+                        const next = [...agentTieBreaking];
+                        next[i] = e.target.value as TieBreaking;
+                        setAgentTieBreaking(next);
+                      }}
+                      disabled={isRunning}
+                      className={`${inputCls} flex-1 text-xs`}>
+                      {TIE_BREAKING_OPTIONS.map(t => (
+                        <option key={t} value={t}>{TIE_BREAKING_LABELS[t]}</option>
+                      ))}
                     </select>
+                    <input type="number" min="1" max={MAX_HEURISTIC_WEIGHT} step="0.25"
+                      value={agentWeights[i] ?? selectedWeight}
+                      onChange={e => {
+                        const next = [...agentWeights];
+                        const w = parseFloat(e.target.value) || 1;
+                        next[i] = Math.max(1, Math.min(MAX_HEURISTIC_WEIGHT, w));
+                        setAgentWeights(next);
+                      }}
+                      disabled={isRunning}
+                      className={`${inputCls} w-20 text-xs`} />
                   </div>
                 ))}
               </div>
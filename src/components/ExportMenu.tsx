@@ -0,0 +1,117 @@
+import { useState, useEffect, useRef, type RefObject } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Agent, GridTopology, Maze, MovementModel, Position, WallMaze } from '../types';
+import { createMazeDocument, formatAsciiMaze, formatMazBinary, formatTextMaze } from '../algorithms';
+import { downloadFile, renderMazeSvg } from '../lib/maze-export';
+
+interface ExportMenuProps {
+  maze: Maze;
+  wallMaze: WallMaze | null;
+  agents: Agent[];
+  start: Position;
+  goal: Position;
+  /** Goal-region cells besides `goal` */
+  extraGoals: Position[];
+  movementModel: MovementModel;
+  topology: GridTopology;
+  seed: number;
+  /** Canvas of the `MazeGrid`, for the PNG snapshot */
+  canvasRef: RefObject<HTMLCanvasElement>;
+}
+
+type ExportKind = 'text' | 'maz' | 'json' | 'png' | 'svg';
+
+/**
+ * Download menu for the current maze: text (loadable again), JSON with
+ * endpoints and agent paths, a PNG of the canvas, or an SVG drawing. Hex
+ * grids have no text format, so they only get JSON and the images.
+ */
+export default function ExportMenu({
+  maze, wallMaze, agents, start, goal, extraGoals, movementModel, topology, seed, canvasRef,
+}: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const width = maze[0]?.length ?? 0;
+  const baseName = `maze-${width}x${maze.length}`;
+  const hex = topology === 'hex';
+  const items: { kind: ExportKind; label: string }[] = [
+    ...(hex ? [] : [{ kind: 'text' as const, label: wallMaze ? '文本（ASCII 迷宫图）' : '文本（0/1 网格）' }]),
+    ...(wallMaze && wallMaze.width === wallMaze.height ? [{ kind: 'maz' as const, label: '二进制 .maz' }] : []),
+    { kind: 'json', label: 'JSON（含起终点与路径）' },
+    { kind: 'png', label: 'PNG 截图' },
+    { kind: 'svg', label: 'SVG 矢量图' },
+  ];
+
+  const handleExport = (kind: ExportKind) => {
+    setOpen(false);
+    switch (kind) {
+      case 'text': {
+        const text = wallMaze
+          ? formatAsciiMaze(wallMaze)
+          : formatTextMaze(
+            maze,
+            `${width}×${maze.length} 迷宫，种子 ${seed}，起点 (${start.x},${start.y})，终点 (${goal.x},${goal.y})`,
+          );
+        downloadFile(new Blob([text], { type: 'text/plain' }), `${baseName}.txt`);
+        break;
+      }
+      case 'maz':
+        if (wallMaze) downloadFile(new Blob([formatMazBinary(wallMaze)]), `${baseName}.maz`);
+        break;
+      case 'json': {
+        const doc = createMazeDocument({
+          maze, wallMaze, topology, start, goal, extraGoals, movementModel, agents, seed,
+        });
+        downloadFile(new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+        break;
+      }
+      case 'png':
+        canvasRef.current?.toBlob(blob => {
+          if (blob) downloadFile(blob, `${baseName}.png`);
+          else toast.error('PNG 导出失败');
+        }, 'image/png');
+        break;
+      case 'svg': {
+        const svg = renderMazeSvg(maze, { wallMaze, agents, topology });
+        downloadFile(new Blob([svg], { type: 'image/svg+xml' }), `${baseName}.svg`);
+        break;
+      }
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg text-zinc-600 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors duration-150"
+      >
+        <Download className="w-3.5 h-3.5" />
+        导出
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-52 z-20 py-1 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 shadow-lg">
+          {items.map(item => (
+            <button
+              key={item.kind}
+              onClick={() => handleExport(item.kind)}
+              className="w-full text-left px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
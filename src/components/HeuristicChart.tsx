@@ -13,6 +13,7 @@ const STROKES = {
   euclidean: AGENT_COLORS[1], // teal
   diagonal: AGENT_COLORS[2], // blue
   optimal: '#f59e0b',        // amber
+  jps: '#8b5cf6',            // violet
 };
 
 export default function HeuristicChart({ data }: HeuristicChartProps) {
@@ -84,6 +85,15 @@ export default function HeuristicChart({ data }: HeuristicChartProps) {
             dot={false}
             activeDot={{ r: 4 }}
           />
+          <Line
+            type="monotone"
+            dataKey="jpsNodes"
+            name="JPS"
+            stroke={STROKES.jps}
+            strokeWidth={2}
+            dot={false}
+            activeDot={{ r: 4 }}
+          />
           <Line
             type="monotone"
             dataKey="optimalNodes"
@@ -0,0 +1,81 @@
+import { useState, useMemo } from 'react';
+import { ChevronDown } from 'lucide-react';
+import type { GridTopology, Maze, WallMaze } from '../types';
+import { analyzeMaze } from '../algorithms';
+
+interface MazeAnalysisPanelProps {
+  maze: Maze;
+  wallMaze: WallMaze | null;
+  topology: GridTopology;
+}
+
+/** Shortest-path counts beyond this are shown in scientific notation */
+const COUNT_EXPONENT_THRESHOLD = 1e9;
+
+function formatCount(count: number): string {
+  return count >= COUNT_EXPONENT_THRESHOLD ? count.toExponential(2) : count.toLocaleString();
+}
+
+/**
+ * Collapsible report of the current maze's structure (dead ends, junctions,
+ * corridors, components, shortest paths, difficulty). Only computed while open.
+ */
+export default function MazeAnalysisPanel({ maze, wallMaze, topology }: MazeAnalysisPanelProps) {
+  const [show, setShow] = useState(false);
+  const analysis = useMemo(
+    () => (show ? analyzeMaze(maze, { wallMaze, topology }) : null),
+    [show, maze, wallMaze, topology],
+  );
+
+  const items: { label: string; value: string; hint?: string }[] = analysis ? [
+    { label: '通行格比例', value: `${(analysis.openRatio * 100).toFixed(1)}%`, hint: `${analysis.openCells} 格` },
+    { label: '死胡同', value: analysis.deadEnds.toLocaleString() },
+    {
+      label: '岔路口',
+      value: (analysis.junctions.threeWay + analysis.junctions.fourWay).toLocaleString(),
+      hint: `三岔 ${analysis.junctions.threeWay} · 十字 ${analysis.junctions.fourWay}`,
+    },
+    { label: '分支因子', value: analysis.branchingFactor.toFixed(2), hint: '每格平均可走方向' },
+    { label: '平均走廊长度', value: analysis.averageCorridorLength.toFixed(1), hint: '连续两通格的长度' },
+    { label: '连通区域', value: analysis.components.toLocaleString() },
+    {
+      label: '最短路径',
+      value: analysis.shortestPathLength === null ? '不可达' : `${analysis.shortestPathLength} 步`,
+      hint: '4 邻接',
+    },
+    { label: '最短路径条数', value: formatCount(analysis.shortestPathCount) },
+    {
+      label: '难度评分',
+      value: analysis.difficulty === null ? '—' : `${analysis.difficulty} / 100`,
+      hint: '绕路程度 · 死胡同密度 · 解的唯一性',
+    },
+  ] : [];
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+      <button
+        onClick={() => setShow(!show)}
+        className="w-full flex items-center justify-between px-5 py-4 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 transition-colors duration-150"
+      >
+        <h2 className="text-base font-semibold text-zinc-900 dark:text-zinc-100 tracking-tight">
+          迷宫分析
+        </h2>
+        <ChevronDown className={`w-4 h-4 text-zinc-400 transition-transform duration-200 ${show ? 'rotate-180' : ''}`} />
+      </button>
+
+      {show && (
+        <div className="px-5 py-5 border-t border-zinc-100 dark:border-zinc-800">
+          <dl className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {items.map(item => (
+              <div key={item.label} className="rounded-lg bg-zinc-50 dark:bg-zinc-800/50 px-3 py-2.5">
+                <dt className="text-xs text-zinc-500 dark:text-zinc-400">{item.label}</dt>
+                <dd className="text-lg font-semibold tabular-nums text-zinc-900 dark:text-zinc-100">{item.value}</dd>
+                {item.hint && <dd className="text-xs text-zinc-400 dark:text-zinc-500">{item.hint}</dd>}
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import type { EditorTool, PaintType } from '../types';
+import { BRUSH_SIZES, EDITOR_TOOL_LABELS, PAINT_TYPE_LABELS } from '../types';
+
+interface MazeEditorToolbarProps {
+  tool: EditorTool;
+  setTool: (t: EditorTool) => void;
+  paint: PaintType;
+  setPaint: (p: PaintType) => void;
+  brushSize: number;
+  setBrushSize: (n: number) => void;
+  /** Live BFS result between start and goal; null when a marker is missing */
+  solvable: boolean | null;
+}
+
+const TOOL_OPTIONS = Object.keys(EDITOR_TOOL_LABELS) as EditorTool[];
+const PAINT_OPTIONS = Object.keys(PAINT_TYPE_LABELS) as PaintType[];
+
+/** Tool, paint and brush pickers for the maze editor, with the solvability badge */
+export default function MazeEditorToolbar({
+  tool, setTool, paint, setPaint, brushSize, setBrushSize, solvable,
+}: MazeEditorToolbarProps) {
+  const chip = (active: boolean) =>
+    `px-2.5 py-1 text-xs font-medium rounded-md transition-colors duration-150 ${
+      active
+        ? 'bg-indigo-500 text-white'
+        : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+    }`;
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {TOOL_OPTIONS.map(t => (
+          <button key={t} onClick={() => setTool(t)} className={chip(tool === t)}>
+            {EDITOR_TOOL_LABELS[t]}
+          </button>
+        ))}
+        <span className="mx-1 h-4 w-px bg-zinc-200 dark:bg-zinc-700" />
+        {PAINT_OPTIONS.map(p => (
+          <button key={p} onClick={() => setPaint(p)} className={chip(paint === p)}>
+            {PAINT_TYPE_LABELS[p]}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">笔刷</span>
+        {BRUSH_SIZES.map(n => (
+          <button key={n} onClick={() => setBrushSize(n)} className={chip(brushSize === n)}>
+            {n}×{n}
+          </button>
+        ))}
+        <span className="ml-auto inline-flex items-center gap-1 text-xs font-medium">
+          {solvable === null ? (
+            <span className="text-zinc-400">缺少起点或终点</span>
+          ) : solvable ? (
+            <><CheckCircle2 className="w-3.5 h-3.5 text-green-500" /><span className="text-green-600 dark:text-green-400">可解</span></>
+          ) : (
+            <><XCircle className="w-3.5 h-3.5 text-red-500" /><span className="text-red-600 dark:text-red-400">不可解</span></>
+          )}
+        </span>
+      </div>
+      <p className="text-xs text-zinc-400 dark:text-zinc-500">
+        点击或拖动绘制；拖动 S / G 移动起点与终点；直线与矩形在松开时落笔
+      </p>
+    </div>
+  );
+}
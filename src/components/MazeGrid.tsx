@@ -1,35 +1,167 @@
-import { useRef, useEffect, useCallback } from 'react';
-import type { Maze, Agent } from '../types';
+import { useRef, useEffect, useCallback, type PointerEvent, type RefObject } from 'react';
+import type { Maze, Agent, WallMaze, Position, CellPointerPhase, GridTopology } from '../types';
+import { WALL_NORTH, WALL_EAST, WALL_SOUTH, WALL_WEST } from '../algorithms';
 import {
   CELL_SIZE_LABEL_THRESHOLD,
   CELL_SIZE_SG_THRESHOLD,
   CELL_SIZE_BORDER_THRESHOLD,
+  CELL_SIZE_FLOOD_LABEL_THRESHOLD,
 } from '../types';
+import { MAZE_COLORS as COLORS } from '../lib/colors';
 
 interface MazeGridProps {
   maze: Maze;
-  mazeSize: number;
   agents: Agent[];
   showExploration: boolean;
   showPath: boolean;
   currentSearchStep: number;
+  /** Fog-of-war: agent whose belief map and flood values are overlaid */
+  beliefAgentId?: number | null;
+  /** Thin-wall model: walls drawn between cells on top of the (open) cell view */
+  wallMaze?: WallMaze | null;
+  /** Hex grids draw pointy-top hexagons, odd rows shifted right by half a cell */
+  topology?: GridTopology;
+  /** Receives the canvas element, e.g. for a PNG snapshot */
+  canvasRef?: RefObject<HTMLCanvasElement>;
+  /** Edit mode: pointer down/move/up on cells (moves only while a button is held) */
+  onCellPointer?: (cell: Position, phase: CellPointerPhase) => void;
+  /** Edit mode: cells a shape tool would paint, highlighted while dragging */
+  previewCells?: Position[];
+  /** Mission checkpoints, drawn as numbered markers in their listed order */
+  waypoints?: Position[];
 }
 
-// Color palette
-const COLORS = {
-  empty: '#ffffff',
-  obstacle: '#374151',
-  start: '#22c55e',
-  goal: '#ef4444',
-  border: '#d1d5db',
-  darkEmpty: '#1f2937',
-  darkObstacle: '#111827',
-  darkBorder: '#4b5563',
-  legendBg: 'rgba(255,255,255,0.85)',
-  darkLegendBg: 'rgba(31,41,55,0.85)',
-  legendText: '#374151',
-  darkLegendText: '#e5e7eb',
-};
+const SQRT3 = Math.sqrt(3);
+
+/** Where cells sit on the canvas, in pixels */
+interface GridLayout {
+  width: number;
+  height: number;
+  /** Width of one cell; scales lines, labels and agents */
+  cellSize: number;
+  center: (x: number, y: number) => { cx: number; cy: number };
+  fillCell: (ctx: CanvasRenderingContext2D, x: number, y: number) => void;
+  /** Outline a cell, `inset` pixels inside its edge */
+  strokeCell: (ctx: CanvasRenderingContext2D, x: number, y: number, inset?: number) => void;
+  /** Cell nearest a canvas point, clamped to the maze */
+  cellAt: (px: number, py: number) => Position;
+  /** Sides of a cell as canvas segments, each with the cell across it (possibly outside the maze) */
+  cellEdges: (x: number, y: number) => CellEdge[];
+}
+
+interface CellEdge {
+  ax: number;
+  ay: number;
+  bx: number;
+  by: number;
+  neighbor: Position;
+}
+
+/** Canvas size of the grid in units of the scale passed to `createLayout` */
+function layoutUnits(cols: number, rows: number, topology: GridTopology) {
+  // Hexagons of circumradius 1: √3 wide, rows 1.5 apart, odd rows half a cell to the right
+  return topology === 'hex'
+    ? { width: SQRT3 * (cols + 0.5), height: 1.5 * rows + 0.5 }
+    : { width: cols, height: rows };
+}
+
+function createLayout(cols: number, rows: number, topology: GridTopology, scale: number): GridLayout {
+  const units = layoutUnits(cols, rows, topology);
+  const width = units.width * scale;
+  const height = units.height * scale;
+  const clamp = (v: number, n: number) => Math.max(0, Math.min(n - 1, v));
+
+  if (topology === 'square') {
+    return {
+      width, height, cellSize: scale,
+      center: (x, y) => ({ cx: (x + 0.5) * scale, cy: (y + 0.5) * scale }),
+      fillCell: (ctx, x, y) => ctx.fillRect(x * scale, y * scale, scale, scale),
+      strokeCell: (ctx, x, y, inset = 0) =>
+        ctx.strokeRect(x * scale + inset, y * scale + inset, scale - 2 * inset, scale - 2 * inset),
+      cellAt: (px, py) => ({ x: clamp(Math.floor(px / scale), cols), y: clamp(Math.floor(py / scale), rows) }),
+      cellEdges: (x, y) => {
+        const [l, t, r, b] = [x * scale, y * scale, (x + 1) * scale, (y + 1) * scale];
+        return [
+          { ax: l, ay: t, bx: r, by: t, neighbor: { x, y: y - 1 } },
+          { ax: r, ay: t, bx: r, by: b, neighbor: { x: x + 1, y } },
+          { ax: l, ay: b, bx: r, by: b, neighbor: { x, y: y + 1 } },
+          { ax: l, ay: t, bx: l, by: b, neighbor: { x: x - 1, y } },
+        ];
+      },
+    };
+  }
+
+  const radius = scale;
+  const cellSize = SQRT3 * radius;
+  const center = (x: number, y: number) => ({
+    cx: cellSize * (x + 0.5 + (y & 1) / 2),
+    cy: radius * (1 + 1.5 * y),
+  });
+  // Corner k sits at 60k + 30°, clockwise from east (canvas y points down)
+  const corner = (cx: number, cy: number, r: number, k: number) => {
+    const angle = (Math.PI / 3) * k + Math.PI / 6;
+    return { px: cx + r * Math.cos(angle), py: cy + r * Math.sin(angle) };
+  };
+  const hexPath = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number) => {
+    const { cx, cy } = center(x, y);
+    ctx.beginPath();
+    for (let k = 0; k < 6; k++) {
+      const { px, py } = corner(cx, cy, r, k);
+      ctx.lineTo(px, py);
+    }
+    ctx.closePath();
+  };
+  return {
+    width, height, cellSize, center,
+    fillCell: (ctx, x, y) => {
+      hexPath(ctx, x, y, radius);
+      ctx.fill();
+    },
+    strokeCell: (ctx, x, y, inset = 0) => {
+      hexPath(ctx, x, y, radius - inset);
+      ctx.stroke();
+    },
+    cellAt: (px, py) => {
+      // The nearest centre among the rows around the pointer is the hexagon under it
+      const row = Math.round((py - radius) / (1.5 * radius));
+      let best: Position = { x: 0, y: 0 };
+      let bestDist = Infinity;
+      for (let y = clamp(row - 1, rows); y <= clamp(row + 1, rows); y++) {
+        const x = clamp(Math.round(px / cellSize - 0.5 - (y & 1) / 2), cols);
+        const { cx, cy } = center(x, y);
+        const dist = (px - cx) ** 2 + (py - cy) ** 2;
+        if (dist < bestDist) {
+          best = { x, y };
+          bestDist = dist;
+        }
+      }
+      return best;
+    },
+    cellEdges: (x, y) => {
+      const { cx, cy } = center(x, y);
+      // Neighbours across the side between corners k and k + 1: E, SE, SW, W, NW, NE (odd-r)
+      const shift = y & 1;
+      const neighbors: Position[] = [
+        { x: x + 1, y }, { x: x + shift, y: y + 1 }, { x: x + shift - 1, y: y + 1 },
+        { x: x - 1, y }, { x: x + shift - 1, y: y - 1 }, { x: x + shift, y: y - 1 },
+      ];
+      return neighbors.map((neighbor, k) => {
+        const a = corner(cx, cy, radius, k);
+        const b = corner(cx, cy, radius, k + 1);
+        return { ax: a.px, ay: a.py, bx: b.px, by: b.py, neighbor };
+      });
+    },
+  };
+}
+
+/** Darken a hex color by mixing it towards black (amount 0–1) */
+function darkenHex(hex: string, amount: number): string {
+  const channel = (i: number) =>
+    Math.round(parseInt(hex.slice(i, i + 2), 16) * (1 - amount))
+      .toString(16)
+      .padStart(2, '0');
+  return `#${channel(1)}${channel(3)}${channel(5)}`;
+}
 
 /** Convert hex color to rgba with custom alpha */
 function hexToRgba(hex: string, alpha: number): string {
@@ -39,22 +171,53 @@ function hexToRgba(hex: string, alpha: number): string {
   return `rgba(${r},${g},${b},${alpha})`;
 }
 
+const ALGO_ABBR: Record<Agent['pathfindingAlgorithm'], string> = {
+  bfs: 'BFS',
+  astar: 'A*',
+  dijkstra: 'Dij',
+  jps: 'JPS',
+  'bidirectional-bfs': 'BiBFS',
+  'bidirectional-astar': 'BiA*',
+  idastar: 'IDA*',
+  'dstar-lite': 'D*L',
+  floodfill: 'Flood',
+};
+
+/** Algorithms whose label carries the heuristic initial */
+const HEURISTIC_ALGOS = new Set<Agent['pathfindingAlgorithm']>([
+  'astar', 'jps', 'bidirectional-astar', 'idastar', 'dstar-lite',
+]);
+
 function algoLabel(agent: Agent): string {
-  const abbr = agent.pathfindingAlgorithm === 'bfs' ? 'BFS' : 'A*';
-  if (agent.heuristicType !== 'auto') return `${abbr}(${agent.heuristicType[0].toUpperCase()})`;
-  return abbr;
+  const abbr = ALGO_ABBR[agent.pathfindingAlgorithm];
+  if (!HEURISTIC_ALGOS.has(agent.pathfindingAlgorithm)) return abbr;
+  const label = agent.heuristicType !== 'auto'
+    ? `${abbr}(${agent.heuristicType[0].toUpperCase()})`
+    : abbr;
+  // Weighted A*: show w so suboptimal paths are not mistaken for bugs
+  return agent.pathfindingAlgorithm === 'astar' && agent.heuristicWeight !== 1
+    ? `${label}w${agent.heuristicWeight}`
+    : label;
 }
 
 /**
  * Canvas-based maze renderer.
  * Exploration uses per-agent colors so BFS vs A* patterns are visually distinct.
- * Handles up to 500×500 mazes without DOM explosion.
+ * Handles up to 500×500 mazes without DOM explosion. Hex grids reuse every
+ * layer, with cells drawn as hexagons.
  */
 export default function MazeGrid({
-  maze, mazeSize, agents, showExploration, showPath, currentSearchStep,
+  maze, agents, showExploration, showPath, currentSearchStep, beliefAgentId = null,
+  wallMaze = null, topology = 'square', canvasRef: externalCanvasRef, onCellPointer, previewCells = [],
+  waypoints = [],
 }: MazeGridProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const ownCanvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = externalCanvasRef ?? ownCanvasRef;
   const containerRef = useRef<HTMLDivElement>(null);
+  // Layout of the last draw, for mapping pointer positions back to cells
+  const layoutRef = useRef<GridLayout | null>(null);
+  const rows = maze.length;
+  const cols = maze[0]?.length ?? 0;
 
   const isDark = typeof document !== 'undefined' &&
     document.documentElement.classList.contains('dark');
@@ -65,23 +228,25 @@ export default function MazeGrid({
     if (!canvas || !container) return;
 
     const rect = container.getBoundingClientRect();
-    const size = Math.min(rect.width, rect.height);
+    if (rows === 0 || cols === 0) return;
+    const units = layoutUnits(cols, rows, topology);
+    const layout = createLayout(cols, rows, topology, Math.min(rect.width / units.width, rect.height / units.height));
+    layoutRef.current = layout;
+    const { width, height, cellSize, center } = layout;
     const dpr = window.devicePixelRatio || 1;
 
-    canvas.width = size * dpr;
-    canvas.height = size * dpr;
-    canvas.style.width = `${size}px`;
-    canvas.style.height = `${size}px`;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     ctx.scale(dpr, dpr);
 
-    const cellSize = size / mazeSize;
-
     // ── Layer 1: Cell backgrounds ──
-    for (let y = 0; y < mazeSize; y++) {
-      for (let x = 0; x < mazeSize; x++) {
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
         const cell = maze[y]?.[x];
         if (!cell) continue;
 
@@ -96,51 +261,154 @@ export default function MazeGrid({
           case 'goal':
             fillColor = COLORS.goal;
             break;
+          case 'ramp':
+            fillColor = isDark ? COLORS.darkRamp : COLORS.ramp;
+            break;
+          case 'sand':
+            fillColor = isDark ? COLORS.darkSand : COLORS.sand;
+            break;
+          case 'mud':
+            fillColor = isDark ? COLORS.darkMud : COLORS.mud;
+            break;
           default:
             fillColor = isDark ? COLORS.darkEmpty : COLORS.empty;
         }
 
         ctx.fillStyle = fillColor;
-        ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+        layout.fillCell(ctx, x, y);
 
         // Grid line
         ctx.strokeStyle = isDark ? COLORS.darkBorder : COLORS.border;
         ctx.lineWidth = cellSize > 8 ? 0.5 : 0.2;
-        ctx.strokeRect(x * cellSize, y * cellSize, cellSize, cellSize);
+        layout.strokeCell(ctx, x, y);
+      }
+    }
+
+    // ── Layer 1b: Belief map (fog over unsensed cells, flood values on top) ──
+    const beliefAgent = beliefAgentId === null ? undefined : agents.find(a => a.id === beliefAgentId);
+    if (beliefAgent?.belief) {
+      const { known, flood } = beliefAgent.belief;
+      let maxFlood = 1;
+      for (const v of flood) maxFlood = Math.max(maxFlood, v);
+      const showLabels = cellSize > CELL_SIZE_FLOOD_LABEL_THRESHOLD;
+      ctx.font = `${Math.max(8, cellSize * 0.3)}px system-ui, sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+
+      for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < cols; x++) {
+          const i = y * cols + x;
+          if (!known[i]) {
+            ctx.fillStyle = isDark ? COLORS.darkFog : COLORS.fog;
+            layout.fillCell(ctx, x, y);
+          }
+          const value = flood[i];
+          if (value < 0) continue;
+
+          // Tint: strongest near the goal, fading with flood distance
+          ctx.fillStyle = hexToRgba(beliefAgent.color, 0.3 * (1 - value / maxFlood));
+          layout.fillCell(ctx, x, y);
+          if (showLabels) {
+            ctx.fillStyle = known[i]
+              ? (isDark ? COLORS.darkLegendText : COLORS.legendText)
+              : 'rgba(255,255,255,0.7)';
+            const { cx, cy } = center(x, y);
+            ctx.fillText(`${value}`, cx, cy);
+          }
+        }
       }
     }
 
     // ── Layer 2: Explored nodes (per-agent color, semi-transparent) ──
+    // Bidirectional planners draw their goal-side search in a darker shade.
     if (showExploration && currentSearchStep > 0) {
       // Draw higher-ID agents first so lower-ID appear on top (less important agents under)
       const sorted = [...agents].sort((a, b) => b.id - a.id);
-      for (const agent of sorted) {
-        const nodes = agent.exploredNodes.slice(0, currentSearchStep);
+      const layers = sorted.flatMap(agent => [
+        { nodes: agent.exploredNodes, color: agent.color },
+        { nodes: agent.backwardExploredNodes ?? [], color: darkenHex(agent.color, 0.45) },
+      ]);
+      for (const layer of layers) {
+        const nodes = layer.nodes.slice(0, currentSearchStep);
         if (nodes.length === 0) continue;
 
-        const fillColor = hexToRgba(agent.color, isDark ? 0.3 : 0.22);
-        const borderColor = hexToRgba(agent.color, 0.5);
+        const fillColor = hexToRgba(layer.color, isDark ? 0.3 : 0.22);
+        const borderColor = hexToRgba(layer.color, 0.5);
 
         for (const node of nodes) {
           const cell = maze[node.y]?.[node.x];
           if (!cell || cell.type === 'obstacle') continue;
 
           ctx.fillStyle = fillColor;
-          ctx.fillRect(node.x * cellSize, node.y * cellSize, cellSize, cellSize);
+          layout.fillCell(ctx, node.x, node.y);
 
           // Subtle border on explored cells for cellSize > 6
           if (cellSize > CELL_SIZE_BORDER_THRESHOLD) {
             ctx.strokeStyle = borderColor;
             ctx.lineWidth = 0.3;
-            ctx.strokeRect(
-              node.x * cellSize + 0.5,
-              node.y * cellSize + 0.5,
-              cellSize - 1,
-              cellSize - 1,
-            );
+            layout.strokeCell(ctx, node.x, node.y, 0.5);
+          }
+        }
+      }
+    }
+
+    // ── Layer 2b: Thin walls (each wall drawn once, from its west/north cell) ──
+    if (wallMaze) {
+      ctx.strokeStyle = isDark ? COLORS.darkWall : COLORS.wall;
+      ctx.lineWidth = Math.max(1, cellSize * 0.12);
+      ctx.lineCap = 'square';
+      ctx.beginPath();
+      for (let y = 0; y < wallMaze.height; y++) {
+        for (let x = 0; x < wallMaze.width; x++) {
+          const bits = wallMaze.walls[y * wallMaze.width + x];
+          const left = x * cellSize;
+          const top = y * cellSize;
+          if (bits & WALL_NORTH) {
+            ctx.moveTo(left, top);
+            ctx.lineTo(left + cellSize, top);
+          }
+          if (bits & WALL_WEST) {
+            ctx.moveTo(left, top);
+            ctx.lineTo(left, top + cellSize);
           }
+          if (bits & WALL_EAST && x === wallMaze.width - 1) {
+            ctx.moveTo(left + cellSize, top);
+            ctx.lineTo(left + cellSize, top + cellSize);
+          }
+          if (bits & WALL_SOUTH && y === wallMaze.height - 1) {
+            ctx.moveTo(left, top + cellSize);
+            ctx.lineTo(left + cellSize, top + cellSize);
+          }
+        }
+      }
+      ctx.stroke();
+    }
+
+    // ── Layer 2c: Goal region outline (only worth drawing for more than one goal cell) ──
+    const isGoalCell = (p: Position) => maze[p.y]?.[p.x]?.type === 'goal';
+    const goalCells: Position[] = [];
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) if (maze[y][x]?.type === 'goal') goalCells.push({ x, y });
+    }
+    if (goalCells.length > 1) {
+      ctx.strokeStyle = darkenHex(COLORS.goal, 0.35);
+      ctx.lineWidth = Math.max(1.5, cellSize * 0.1);
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      for (const g of goalCells) {
+        for (const edge of layout.cellEdges(g.x, g.y)) {
+          if (isGoalCell(edge.neighbor)) continue;
+          ctx.moveTo(edge.ax, edge.ay);
+          ctx.lineTo(edge.bx, edge.by);
         }
       }
+      ctx.stroke();
+    }
+
+    // ── Layer 2d: Editor shape preview ──
+    if (previewCells.length > 0) {
+      ctx.fillStyle = hexToRgba(COLORS.preview, 0.45);
+      for (const p of previewCells) layout.fillCell(ctx, p.x, p.y);
     }
 
     // ── Layer 3: Planned paths ──
@@ -154,22 +422,46 @@ export default function MazeGrid({
         ctx.lineCap = 'round';
         ctx.lineJoin = 'round';
 
-        const first = agent.path[0];
-        ctx.moveTo((first.x + 0.5) * cellSize, (first.y + 0.5) * cellSize);
-        for (let i = 1; i < agent.path.length; i++) {
-          const p = agent.path[i];
-          ctx.lineTo((p.x + 0.5) * cellSize, (p.y + 0.5) * cellSize);
+        for (const p of agent.path) {
+          const { cx, cy } = center(p.x, p.y);
+          ctx.lineTo(cx, cy);
         }
         ctx.stroke();
         ctx.globalAlpha = 1;
       }
     }
 
+    // ── Layer 3b: Mission waypoints (numbered in the listed order) ──
+    if (waypoints.length > 0) {
+      const radius = Math.max(2, cellSize * 0.3);
+      ctx.font = `bold ${Math.max(8, cellSize * 0.32)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      waypoints.forEach((w, i) => {
+        if (w.x >= cols || w.y >= rows) return;
+        const { cx, cy } = center(w.x, w.y);
+        ctx.beginPath();
+        ctx.moveTo(cx, cy - radius);
+        ctx.lineTo(cx + radius, cy);
+        ctx.lineTo(cx, cy + radius);
+        ctx.lineTo(cx - radius, cy);
+        ctx.closePath();
+        ctx.fillStyle = COLORS.waypoint;
+        ctx.fill();
+        ctx.strokeStyle = darkenHex(COLORS.waypoint, 0.35);
+        ctx.lineWidth = Math.max(1, cellSize * 0.05);
+        ctx.stroke();
+        if (cellSize > CELL_SIZE_LABEL_THRESHOLD) {
+          ctx.fillStyle = '#fff';
+          ctx.fillText(`${i + 1}`, cx, cy);
+        }
+      });
+    }
+
     // ── Layer 4: Agents ──
     for (const agent of agents) {
       if (!agent.position) continue;
-      const cx = (agent.position.x + 0.5) * cellSize;
-      const cy = (agent.position.y + 0.5) * cellSize;
+      const { cx, cy } = center(agent.position.x, agent.position.y);
       const radius = Math.max(2.5, cellSize * 0.38);
 
       // Glow ring
@@ -202,14 +494,12 @@ export default function MazeGrid({
       ctx.font = `bold ${Math.max(10, cellSize * 0.4)}px sans-serif`;
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      for (let y = 0; y < mazeSize; y++) {
-        for (let x = 0; x < mazeSize; x++) {
-          const cell = maze[y]?.[x];
-          if (cell?.type === 'start') {
-            ctx.fillText('S', (x + 0.5) * cellSize, (y + 0.5) * cellSize);
-          } else if (cell?.type === 'goal') {
-            ctx.fillText('G', (x + 0.5) * cellSize, (y + 0.5) * cellSize);
-          }
+      for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < cols; x++) {
+          const type = maze[y]?.[x]?.type;
+          if (type !== 'start' && type !== 'goal') continue;
+          const { cx, cy } = center(x, y);
+          ctx.fillText(type === 'start' ? 'S' : 'G', cx, cy);
         }
       }
     }
@@ -228,7 +518,7 @@ export default function MazeGrid({
       ctx.strokeStyle = isDark ? COLORS.darkBorder : COLORS.border;
       ctx.lineWidth = 1;
       ctx.beginPath();
-      ctx.roundRect(size - legendW - 6, 6, legendW, legendH, 6);
+      ctx.roundRect(width - legendW - 6, 6, legendW, legendH, 6);
       ctx.fill();
       ctx.stroke();
 
@@ -241,7 +531,7 @@ export default function MazeGrid({
       for (let i = 0; i < agents.length; i++) {
         const agent = agents[i];
         const y = 6 + padY + i * itemH + itemH / 2;
-        const swatchX = size - legendW - 6 + padX + 4;
+        const swatchX = width - legendW - 6 + padX + 4;
 
         // Color swatch
         ctx.fillStyle = agent.color;
@@ -256,14 +546,18 @@ export default function MazeGrid({
         const speed = agent.pathfindingTime
           ? `${agent.pathfindingTime.toFixed(1)}ms`
           : '';
+        const cost = agent.pathCost ? `c=${Number(agent.pathCost.toFixed(1))}` : '';
         ctx.fillText(
-          `A${agent.id + 1} ${algoLabel(agent)} ${speed}`,
+          `A${agent.id + 1} ${algoLabel(agent)} ${cost} ${speed}`,
           swatchX + itemH * 0.8,
           y,
         );
       }
     }
-  }, [maze, mazeSize, agents, showExploration, showPath, currentSearchStep, isDark]);
+  }, [
+    maze, rows, cols, agents, showExploration, showPath, currentSearchStep, beliefAgentId, wallMaze, topology, isDark,
+    canvasRef, previewCells, waypoints,
+  ]);
 
   // Redraw on any state change
   useEffect(() => {
@@ -277,11 +571,46 @@ export default function MazeGrid({
     return () => observer.disconnect();
   }, [draw]);
 
+  /** Cell under the pointer, clamped to the maze so drags past the edge keep working */
+  const cellAt = (e: PointerEvent<HTMLCanvasElement>): Position => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const layout = layoutRef.current ?? createLayout(cols, rows, topology, 1);
+    return layout.cellAt(
+      ((e.clientX - rect.left) / rect.width) * layout.width,
+      ((e.clientY - rect.top) / rect.height) * layout.height,
+    );
+  };
+
+  const units = layoutUnits(Math.max(1, cols), Math.max(1, rows), topology);
+
+  const pointerHandlers = onCellPointer ? {
+    onPointerDown: (e: PointerEvent<HTMLCanvasElement>) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      onCellPointer(cellAt(e), 'down');
+    },
+    onPointerMove: (e: PointerEvent<HTMLCanvasElement>) => {
+      if (e.buttons & 1) onCellPointer(cellAt(e), 'move');
+    },
+    onPointerUp: (e: PointerEvent<HTMLCanvasElement>) => {
+      if (e.button === 0) onCellPointer(cellAt(e), 'up');
+    },
+  } : {};
+
   return (
-    <div ref={containerRef} className="relative w-full max-w-[800px] mx-auto aspect-square">
+    <div
+      ref={containerRef}
+      className="relative w-full mx-auto"
+      // Keep the maze's aspect ratio, at most 800px wide and 80% of the viewport tall
+      style={{
+        aspectRatio: `${units.width} / ${units.height}`,
+        maxWidth: `min(800px, ${(80 * units.width) / units.height}vh)`,
+      }}
+    >
       <canvas
         ref={canvasRef}
-        className="w-full h-full rounded-xl border border-zinc-200 dark:border-zinc-800"
+        {...pointerHandlers}
+        className={`w-full h-full rounded-xl border border-zinc-200 dark:border-zinc-800 ${onCellPointer ? 'cursor-crosshair touch-none' : ''}`}
       />
     </div>
   );
@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef } from 'react';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import type { MazeHistory } from '../types';
+import { MAZE_HISTORY_SOURCE_LABELS } from '../types';
+
+interface MazeHistoryMenuProps {
+  history: MazeHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (index: number) => void;
+  disabled: boolean;
+}
+
+/**
+ * Undo / redo buttons plus a dropdown of the recorded maze states, newest
+ * first; picking one shows that maze again (Ctrl+Z / Ctrl+Shift+Z also work).
+ */
+export default function MazeHistoryMenu({
+  history, onUndo, onRedo, onRestore, disabled,
+}: MazeHistoryMenuProps) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const { entries, index } = history;
+  const iconBtn = 'p-1.5 rounded-lg text-zinc-600 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors duration-150 disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <div ref={menuRef} className="relative flex items-center gap-1">
+      <button onClick={onUndo} disabled={disabled || index <= 0} className={iconBtn} title="撤销 (Ctrl+Z)">
+        <Undo2 className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={disabled || index >= entries.length - 1}
+        className={iconBtn}
+        title="重做 (Ctrl+Shift+Z)"
+      >
+        <Redo2 className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled || entries.length === 0}
+        className={iconBtn}
+        title="迷宫历史"
+      >
+        <History className="w-3.5 h-3.5" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-64 max-h-80 overflow-y-auto z-20 py-1 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 shadow-lg">
+          {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+            <button
+              key={entry.id}
+              onClick={() => {
+                setOpen(false);
+                onRestore(i);
+              }}
+              className={`w-full text-left px-3 py-2 text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 ${
+                i === index ? 'text-indigo-600 dark:text-indigo-400 font-medium' : 'text-zinc-700 dark:text-zinc-300'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate">
+                  {MAZE_HISTORY_SOURCE_LABELS[entry.source]} · {entry.width}×{entry.height}
+                  {entry.model === 'wall' ? ' 薄墙' : ''}
+                  {entry.topology === 'hex' ? ' 六边形' : ''}
+                </span>
+                <span className="text-xs text-zinc-400 tabular-nums shrink-0">
+                  {new Date(entry.time).toLocaleTimeString()}
+                </span>
+              </div>
+              <div className="text-xs text-zinc-400 truncate">{entry.detail ?? `种子 ${entry.seed}`}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Maze, SharedConfig, WallMaze } from '../types';
+import { encodeScenario } from '../lib/share-url';
+
+interface ShareMenuProps {
+  config: SharedConfig;
+  maze: Maze;
+  wallMaze: WallMaze | null;
+  /** Called with the link's parameters, to show them in the address bar */
+  onShare: (params: URLSearchParams) => void;
+}
+
+/** Links longer than this may get cut off by chat apps and some servers */
+const LONG_URL = 8000;
+
+/**
+ * Copy a link that reopens this experiment: the settings only (the seed
+ * regenerates the maze), or with the maze bitmap for edited or loaded mazes.
+ */
+export default function ShareMenu({ config, maze, wallMaze, onShare }: ShareMenuProps) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const handleShare = async (withMaze: boolean) => {
+    setOpen(false);
+    const params = encodeScenario(config, withMaze ? { maze, wallMaze } : undefined);
+    const url = `${window.location.origin}${window.location.pathname}?${params}`;
+    onShare(params);
+    try {
+      await navigator.clipboard.writeText(url);
+      if (url.length > LONG_URL) toast.warning(`链接已复制，但较长（${url.length} 字符），部分应用可能截断`);
+      else toast.success('链接已复制');
+    } catch {
+      toast.error('无法访问剪贴板，请从地址栏复制链接');
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg text-zinc-600 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors duration-150"
+      >
+        <Link2 className="w-3.5 h-3.5" />
+        分享
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-52 z-20 py-1 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 shadow-lg">
+          <button
+            onClick={() => handleShare(false)}
+            className="w-full text-left px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          >
+            复制链接（仅设置与种子）
+          </button>
+          <button
+            onClick={() => handleShare(true)}
+            className="w-full text-left px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          >
+            复制链接（含迷宫）
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,36 @@
 import { useState, useEffect } from 'react';
 import { ChevronDown } from 'lucide-react';
-import type { CompetitionResult, ExperimentResult } from '../types';
+import type { Agent, CompetitionResult, ExperimentResult, Position, WeightSweepPoint } from '../types';
 import { AGENT_COLORS } from '../types';
 import HeuristicChart from './HeuristicChart';
+import WeightSweepChart from './WeightSweepChart';
 
 interface StatsPanelProps {
+  agents: Agent[];
+  /** Mission waypoints as listed, for numbering each agent's visiting order */
+  waypoints: Position[];
+  /** Dynamic-obstacle events so far in this race */
+  mazeVersion: number;
   competitionResults: CompetitionResult[];
   experimentResults: ExperimentResult[];
+  sweepResults: WeightSweepPoint[];
 }
 
 export default function StatsPanel({
-  competitionResults, experimentResults,
+  agents, waypoints, mazeVersion, competitionResults, experimentResults, sweepResults,
 }: StatsPanelProps) {
   const [show, setShow] = useState(false);
 
   useEffect(() => {
-    if (competitionResults.length > 0 || experimentResults.length > 0) {
+    if (competitionResults.length > 0 || experimentResults.length > 0 || sweepResults.length > 0) {
       setShow(true);
     }
-  }, [competitionResults.length, experimentResults.length]);
+  }, [competitionResults.length, experimentResults.length, sweepResults.length]);
 
   const thCls = 'px-4 py-2.5 text-left text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-wider';
   const tdCls = 'px-4 py-2.5 text-sm tabular-nums';
+  // Checkpoint numbers as drawn on the maze (1-based, in the listed order)
+  const waypointLabel = (p: Position) => waypoints.findIndex(w => w.x === p.x && w.y === p.y) + 1;
 
   return (
     <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 overflow-hidden">
@@ -47,7 +56,10 @@ export default function StatsPanel({
                     <th className={thCls}>智能体</th>
                     <th className={thCls}>获胜</th>
                     <th className={thCls}>平均路径</th>
+                    <th className={thCls}>路径代价</th>
                     <th className={thCls}>探索节点</th>
+                    <th className={thCls}>扩展次数</th>
+                    <th className={thCls}>峰值开放表</th>
                     <th className={thCls}>规划时间</th>
                     <th className={thCls}>碰撞率</th>
                   </tr>
@@ -67,14 +79,17 @@ export default function StatsPanel({
                         </td>
                         <td className={tdCls}>{result.wins}</td>
                         <td className={tdCls}>{result.averagePathLength.toFixed(1)}</td>
+                        <td className={tdCls}>{result.averagePathCost.toFixed(1)}</td>
                         <td className={tdCls}>{result.averageExploredNodes.toFixed(0)}</td>
+                        <td className={tdCls}>{result.averageExpansions.toFixed(0)}</td>
+                        <td className={tdCls}>{result.averagePeakOpenSize.toFixed(0)}</td>
                         <td className={tdCls}>{result.averagePathfindingTime.toFixed(1)}ms</td>
                         <td className={tdCls}>{(result.collisionRate * 100).toFixed(1)}%</td>
                       </tr>
                     ))
                   ) : (
                     <tr>
-                      <td colSpan={6} className="px-4 py-6 text-center text-sm text-zinc-400">
+                      <td colSpan={9} className="px-4 py-6 text-center text-sm text-zinc-400">
                         运行实验后将显示竞赛结果
                       </td>
                     </tr>
@@ -84,11 +99,140 @@ export default function StatsPanel({
             </div>
           </div>
 
+          {/* Mission progress: checkpoints reached in each agent's visiting order */}
+          {agents.some(a => (a.checkpoints?.length ?? 0) > 0) && (
+            <div>
+              <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-3">任务进度</h3>
+              <div className="overflow-x-auto -mx-5 px-5">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-zinc-200 dark:border-zinc-800">
+                      <th className={thCls}>智能体</th>
+                      <th className={thCls}>访问顺序</th>
+                      <th className={thCls}>已到达</th>
+                      <th className={thCls}>顺序求解</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {agents.map(agent => {
+                      const checkpoints = agent.checkpoints ?? [];
+                      const reached = agent.checkpointsReached ?? 0;
+                      return (
+                        <tr key={agent.id} className="border-b border-zinc-100 dark:border-zinc-800/50">
+                          <td className={tdCls}>
+                            <div className="flex items-center gap-2">
+                              <span
+                                className="w-3 h-3 rounded-full shrink-0"
+                                style={{ backgroundColor: agent.color }}
+                              />
+                              智能体 {agent.id + 1}
+                            </div>
+                          </td>
+                          <td className={tdCls}>
+                            {checkpoints.map((p, i) => (
+                              <span key={i} className={i < reached ? 'text-zinc-400 line-through' : undefined}>
+                                {i > 0 && ' → '}{waypointLabel(p)}
+                              </span>
+                            ))}
+                          </td>
+                          <td className={tdCls}>{reached}/{checkpoints.length}</td>
+                          <td className={tdCls}>{agent.missionExact ? '精确' : '近似（2-opt）'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Replan cost: incremental repair vs search from scratch */}
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-3">
+              重规划统计
+              {mazeVersion > 0 && (
+                <span className="ml-2 text-xs font-normal text-zinc-400">地图版本 v{mazeVersion}</span>
+              )}
+            </h3>
+            <div className="overflow-x-auto -mx-5 px-5">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-zinc-200 dark:border-zinc-800">
+                    <th className={thCls}>智能体</th>
+                    <th className={thCls}>算法</th>
+                    <th className={thCls}>重规划次数</th>
+                    <th className={thCls}>障碍触发</th>
+                    <th className={thCls}>实际扩展</th>
+                    <th className={thCls}>全量重规划扩展</th>
+                    <th className={thCls}>节省</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {agents.some(a => (a.replans ?? 0) > 0 || a.searchGaveUp) ? (
+                    agents.map(agent => {
+                      const repair = agent.repairExpansions ?? 0;
+                      const full = agent.fullReplanExpansions;
+                      return (
+                        <tr key={agent.id} className="border-b border-zinc-100 dark:border-zinc-800/50">
+                          <td className={tdCls}>
+                            <div className="flex items-center gap-2">
+                              <span
+                                className="w-3 h-3 rounded-full shrink-0"
+                                style={{ backgroundColor: agent.color }}
+                              />
+                              智能体 {agent.id + 1}
+                            </div>
+                          </td>
+                          <td className={tdCls}>
+                            {agent.pathfindingAlgorithm}
+                            {agent.searchGaveUp && (
+                              <span className="ml-1.5 text-xs text-amber-600 dark:text-amber-400">搜索放弃</span>
+                            )}
+                          </td>
+                          <td className={tdCls}>{agent.replans ?? 0}</td>
+                          <td className={tdCls}>{agent.dynamicReplans ?? 0}</td>
+                          <td className={tdCls}>{repair.toLocaleString()}</td>
+                          <td className={tdCls}>
+                            {full !== undefined ? full.toLocaleString() : (
+                              <span
+                                className="text-xs text-zinc-400"
+                                title="在控制面板勾选「对比全量重规划（D* Lite）」后统计"
+                              >
+                                需开启对比
+                              </span>
+                            )}
+                          </td>
+                          <td className={tdCls}>
+                            {full ? `${((1 - repair / full) * 100).toFixed(0)}%` : '—'}
+                          </td>
+                        </tr>
+                      );
+                    })
+                  ) : (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-6 text-center text-sm text-zinc-400">
+                        路径受阻或走完后重规划时显示（D* Lite 为增量修复）
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
           {/* Heuristic chart */}
           <div>
             <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-3">启发式性能对比</h3>
             <HeuristicChart data={experimentResults} />
           </div>
+
+          {/* Weighted A* sweep */}
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-3">
+              加权 A*：探索节点 vs 路径次优度
+            </h3>
+            <WeightSweepChart data={sweepResults} />
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,92 @@
+import {
+  ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+} from 'recharts';
+import type { TieBreaking, WeightSweepPoint } from '../types';
+import { AGENT_COLORS, TIE_BREAKING_LABELS } from '../types';
+
+interface WeightSweepChartProps {
+  data: WeightSweepPoint[];
+}
+
+const STROKES: Record<TieBreaking, string> = {
+  'none': '#a1a1aa',           // zinc
+  'high-g': AGENT_COLORS[0],   // red
+  'low-h': AGENT_COLORS[1],    // teal
+  'lifo': AGENT_COLORS[2],     // blue
+  'fifo': '#f59e0b',           // amber
+};
+
+export default function WeightSweepChart({ data }: WeightSweepChartProps) {
+  if (data.length === 0) {
+    return (
+      <div className="h-72 w-full flex items-center justify-center text-sm text-zinc-400 dark:text-zinc-500">
+        点击顶部「权重扫描」按钮运行实验
+      </div>
+    );
+  }
+
+  const policies = Object.keys(TIE_BREAKING_LABELS) as TieBreaking[];
+
+  return (
+    <div className="h-72 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e4e4e7" />
+          <XAxis
+            type="number"
+            dataKey="suboptimality"
+            name="次优度"
+            tick={{ fontSize: 12 }}
+            tickFormatter={v => `${(Number(v) * 100).toFixed(0)}%`}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis
+            type="number"
+            dataKey="exploredNodes"
+            name="探索节点"
+            tick={{ fontSize: 12 }}
+            tickLine={false}
+            axisLine={false}
+            width={45}
+          />
+          <Tooltip
+            contentStyle={{
+              borderRadius: '8px',
+              border: '1px solid #e4e4e7',
+              boxShadow: '0 4px 6px -1px rgba(0,0,0,0.07)',
+              fontSize: '13px',
+            }}
+            content={({ payload }) => {
+              const point = payload?.[0]?.payload as WeightSweepPoint | undefined;
+              if (!point) return null;
+              return (
+                <div className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-xs text-zinc-700 shadow-sm">
+                  <div className="font-medium">
+                    {TIE_BREAKING_LABELS[point.tieBreaking]} · w = {point.weight}
+                  </div>
+                  <div>探索节点 {Math.round(point.exploredNodes).toLocaleString()}</div>
+                  <div>次优度 {(point.suboptimality * 100).toFixed(2)}%</div>
+                </div>
+              );
+            }}
+          />
+          <Legend
+            iconType="circle"
+            iconSize={8}
+            wrapperStyle={{ fontSize: '12px', paddingTop: '8px' }}
+          />
+          {policies.map(policy => (
+            <Scatter
+              key={policy}
+              name={TIE_BREAKING_LABELS[policy]}
+              data={data.filter(p => p.tieBreaking === policy)}
+              fill={STROKES[policy]}
+              line={{ stroke: STROKES[policy], strokeWidth: 1.5 }}
+            />
+          ))}
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
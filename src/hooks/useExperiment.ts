@@ -1,99 +1,49 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import type { ExperimentResult, Maze, Position, Cell } from '../types';
-import { EXPERIMENT_DEFER_MS } from '../types';
-import { aStarPathfinding, bfsPathfinding } from '../algorithms';
+import type {
+  ExperimentResult, Maze, Position, MovementModel, TieBreaking, WeightSweepPoint,
+} from '../types';
+import {
+  EXPERIMENT_DEFER_MS, TIE_BREAKING_LABELS, WEIGHT_SWEEP_VALUES, WEIGHT_SWEEP_RUNS,
+  WEIGHT_SWEEP_OBSTACLE_RATE,
+} from '../types';
+import {
+  aStarPathfinding, dijkstraPathfinding, jpsPathfinding, generateOpenMaze, createRng, SEED_STREAMS,
+} from '../algorithms';
 import { toast } from 'sonner';
 
 /**
- * Generates a solvable maze with random obstacles (not recursive-backtracking).
- * This creates open spaces where different heuristics make different decisions,
- * making the heuristic comparison meaningful.
- */
-function generateOpenMaze(size: number, rate: number, start: Position, goal: Position): Maze {
-  const total = size * size;
-  const target = Math.floor(total * rate);
-
-  // Start with all-empty grid
-  const maze: Maze = [];
-  for (let y = 0; y < size; y++) {
-    const row: Cell[] = [];
-    for (let x = 0; x < size; x++) {
-      row.push({ type: 'empty' });
-    }
-    maze.push(row);
-  }
-
-  // Collect all cells except start/goal
-  const cells: Position[] = [];
-  for (let y = 0; y < size; y++) {
-    for (let x = 0; x < size; x++) {
-      if ((x === start.x && y === start.y) || (x === goal.x && y === goal.y)) continue;
-      cells.push({ x, y });
-    }
-  }
-
-  // Shuffle and add obstacles in batches, verifying solvability
-  fisherYates(cells);
-  const added: Position[] = [];
-
-  for (let i = 0; i < Math.min(target, cells.length); i++) {
-    const { x, y } = cells[i];
-    maze[y][x].type = 'obstacle';
-    added.push({ x, y });
-  }
-
-  // Verify solvability; binary-search reduce if blocked
-  if (bfsPathfinding(maze, start, goal).path.length === 0) {
-    for (const { x, y } of added) maze[y][x].type = 'empty';
-    // Binary search for max solvable obstacles
-    let lo = 0, hi = added.length;
-    while (lo < hi) {
-      const mid = (lo + hi + 1) >> 1;
-      for (let i = 0; i < mid; i++) maze[added[i].y][added[i].x].type = 'obstacle';
-      if (bfsPathfinding(maze, start, goal).path.length > 0) {
-        lo = mid;
-      } else {
-        for (let i = 0; i < mid; i++) maze[added[i].y][added[i].x].type = 'empty';
-        hi = mid - 1;
-      }
-    }
-    for (let i = 0; i < lo; i++) maze[added[i].y][added[i].x].type = 'obstacle';
-    for (let i = lo; i < added.length; i++) maze[added[i].y][added[i].x].type = 'empty';
-  }
-
-  maze[start.y][start.x].type = 'start';
-  maze[goal.y][goal.x].type = 'goal';
-  return maze;
-}
-
-/**
- * Fisher-Yates shuffle in-place.
- */
-function fisherYates<T>(arr: T[]): void {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-}
-
-/**
- * Hook for running heuristic comparison experiments.
- * Tests A* with three heuristics across obstacle rates 5%–40%.
+ * Hook for running heuristic comparison and weighted-A* sweep experiments.
+ * Tests A* with three heuristics across obstacle rates 5%–40%, plus Jump
+ * Point Search (auto heuristic) to show how few jump points it expands.
  * Uses open-grid mazes (random obstacles) so heuristics show meaningful
- * differences in explored node counts.
+ * differences in explored node counts. Runs under the selected movement
+ * model, so Euclidean/Diagonal can be judged on 8-connected grids too.
+ *
+ * The weight sweep runs A* with f = g + w·h for every tie-breaking policy
+ * and reports explored nodes against path suboptimality (cost / optimal − 1),
+ * averaged over a few open mazes.
+ *
+ * Both draw their mazes from `seed`, so a seed reproduces the results.
  */
-export function useExperiment(mazeSize: number) {
+export function useExperiment(mazeWidth: number, mazeHeight: number, movementModel: MovementModel, seed: number) {
   const [experimentResults, setExperimentResults] = useState<ExperimentResult[]>([]);
   const [isRunning, setIsRunning] = useState(false);
   const [progress, setProgress] = useState(0);
-  const mazeSizeRef = useRef(mazeSize);
-  mazeSizeRef.current = mazeSize;
-
-  // Clear stale results when maze size changes
+  const [sweepResults, setSweepResults] = useState<WeightSweepPoint[]>([]);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const mazeSizeRef = useRef({ width: mazeWidth, height: mazeHeight });
+  mazeSizeRef.current = { width: mazeWidth, height: mazeHeight };
+  const movementRef = useRef(movementModel);
+  movementRef.current = movementModel;
+  const seedRef = useRef(seed);
+  seedRef.current = seed;
+
+  // Clear stale results when maze size or movement model changes
   useEffect(() => {
     setExperimentResults([]);
+    setSweepResults([]);
     setProgress(0);
-  }, [mazeSize]);
+  }, [mazeWidth, mazeHeight, movementModel]);
 
   const runHeuristicComparison = useCallback(() => {
     setIsRunning(true);
@@ -101,20 +51,23 @@ export function useExperiment(mazeSize: number) {
 
     setTimeout(() => {
       const size = mazeSizeRef.current;
+      const options = { movement: movementRef.current };
       const results: ExperimentResult[] = [];
       const start: Position = { x: 0, y: 0 };
-      const goal: Position = { x: size - 1, y: size - 1 };
+      const goal: Position = { x: size.width - 1, y: size.height - 1 };
+      const rng = createRng(seedRef.current, SEED_STREAMS.experiment);
 
       // Lower rates show heuristic differences better (more open space)
       const rates = [0.05, 0.10, 0.15, 0.20, 0.25, 0.30, 0.35, 0.40];
 
       for (let i = 0; i < rates.length; i++) {
         const rate = rates[i];
-        const testMaze = generateOpenMaze(size, rate, start, goal);
+        const testMaze = generateOpenMaze(size, rate, start, goal, rng);
 
-        const manhattan = aStarPathfinding(testMaze, start, goal, 'manhattan');
-        const euclidean = aStarPathfinding(testMaze, start, goal, 'euclidean');
-        const diagonal = aStarPathfinding(testMaze, start, goal, 'diagonal');
+        const manhattan = aStarPathfinding(testMaze, start, goal, 'manhattan', options);
+        const euclidean = aStarPathfinding(testMaze, start, goal, 'euclidean', options);
+        const diagonal = aStarPathfinding(testMaze, start, goal, 'diagonal', options);
+        const jps = jpsPathfinding(testMaze, start, goal, undefined, options);
 
         results.push({
           obstacleRate: rate,
@@ -129,6 +82,7 @@ export function useExperiment(mazeSize: number) {
             euclidean.exploredNodes.length,
             diagonal.exploredNodes.length,
           ),
+          jpsNodes: jps.exploredNodes.length,
         });
 
         setProgress(i + 1);
@@ -140,5 +94,51 @@ export function useExperiment(mazeSize: number) {
     }, EXPERIMENT_DEFER_MS);
   }, []);
 
-  return { experimentResults, isRunning, progress, runHeuristicComparison };
+  const runWeightSweep = useCallback(() => {
+    setIsSweeping(true);
+
+    setTimeout(() => {
+      const size = mazeSizeRef.current;
+      const movement = movementRef.current;
+      const heuristic = movement === '4-connected' ? 'manhattan' : 'diagonal';
+      const start: Position = { x: 0, y: 0 };
+      const goal: Position = { x: size.width - 1, y: size.height - 1 };
+      const policies = Object.keys(TIE_BREAKING_LABELS) as TieBreaking[];
+      const rng = createRng(seedRef.current, SEED_STREAMS.experiment);
+
+      const mazes: { maze: Maze; optimal: number }[] = [];
+      for (let r = 0; r < WEIGHT_SWEEP_RUNS; r++) {
+        const maze = generateOpenMaze(size, WEIGHT_SWEEP_OBSTACLE_RATE, start, goal, rng);
+        mazes.push({ maze, optimal: dijkstraPathfinding(maze, start, goal, { movement }).cost });
+      }
+
+      const results: WeightSweepPoint[] = [];
+      for (const weight of WEIGHT_SWEEP_VALUES) {
+        for (const tieBreaking of policies) {
+          let explored = 0;
+          let suboptimality = 0;
+          for (const { maze, optimal } of mazes) {
+            const result = aStarPathfinding(maze, start, goal, heuristic, { movement, tieBreaking, weight });
+            explored += result.exploredNodes.length;
+            if (optimal > 0) suboptimality += result.cost / optimal - 1;
+          }
+          results.push({
+            weight,
+            tieBreaking,
+            exploredNodes: explored / mazes.length,
+            suboptimality: suboptimality / mazes.length,
+          });
+        }
+      }
+
+      setSweepResults(results);
+      setIsSweeping(false);
+      toast.success('权重扫描实验完成！');
+    }, EXPERIMENT_DEFER_MS);
+  }, []);
+
+  return {
+    experimentResults, isRunning, progress, runHeuristicComparison,
+    sweepResults, isSweeping, runWeightSweep,
+  };
 }
@@ -0,0 +1,111 @@
+import { useState, useRef, useMemo, useCallback } from 'react';
+import type { CellPointerPhase, EditorTool, Maze, PaintType, PathfindingOptions, Position } from '../types';
+import { bfsPathfinding } from '../algorithms';
+import {
+  brushCells, findMarker, findMarkers, lineCells, moveMarker, paintCells, shapeCells,
+} from '../lib/maze-editor';
+
+type Drag =
+  | { kind: 'paint'; anchor: Position; last: Position }
+  | { kind: 'start' | 'goal'; origin: Position; last: Position };
+
+/**
+ * Edit mode for `MazeGrid`: turns cell pointer events into brush strokes,
+ * line/rectangle shapes (previewed while dragging, applied on release) and
+ * start/goal drags. Every edit goes through `setMaze`; a dropped start or
+ * goal cell is also reported through `onMoveEndpoint` (with the cell it was
+ * dragged from, which tells goal-region cells apart) so the settings follow,
+ * and `onEditEnd` receives the maze once per finished stroke or drag (for
+ * undo). `solvable` is a live BFS check from the current start to any goal
+ * cell under `grid` (movement model and topology), run only while `active`.
+ */
+export function useMazeEditor(
+  maze: Maze,
+  setMaze: (maze: Maze) => void,
+  onMoveEndpoint: (type: 'start' | 'goal', pos: Position, from: Position) => void,
+  grid: Pick<PathfindingOptions, 'movement' | 'topology'>,
+  active: boolean,
+  onEditEnd: (maze: Maze) => void,
+) {
+  const [tool, setTool] = useState<EditorTool>('brush');
+  const [paint, setPaint] = useState<PaintType>('obstacle');
+  const [brushSize, setBrushSize] = useState(1);
+  const [preview, setPreview] = useState<Position[]>([]);
+  const dragRef = useRef<Drag | null>(null);
+  // Latest maze between renders, so a fast drag never paints onto a stale copy
+  const mazeRef = useRef(maze);
+  mazeRef.current = maze;
+
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+
+  const commit = useCallback((next: Maze) => {
+    if (next === mazeRef.current) return;
+    mazeRef.current = next;
+    setMaze(next);
+  }, [setMaze]);
+
+  const handleCellPointer = useCallback((cell: Position, phase: CellPointerPhase) => {
+    const drag = dragRef.current;
+    const stamp = (cells: Position[]) => brushCells(cells, brushSize, width, height);
+
+    if (phase === 'down') {
+      const type = mazeRef.current[cell.y]?.[cell.x]?.type;
+      if (type === 'start' || type === 'goal') {
+        dragRef.current = { kind: type, origin: cell, last: cell };
+        return;
+      }
+      dragRef.current = { kind: 'paint', anchor: cell, last: cell };
+      if (tool === 'brush') commit(paintCells(mazeRef.current, stamp([cell]), paint));
+      else setPreview(stamp([cell]));
+      return;
+    }
+    if (!drag) return;
+
+    if (drag.kind !== 'paint') {
+      if (phase === 'move' && (cell.x !== drag.last.x || cell.y !== drag.last.y)) {
+        const next = moveMarker(mazeRef.current, drag.kind, cell, drag.last);
+        // Only follow the pointer onto cells the marker could take
+        if (next !== mazeRef.current) drag.last = cell;
+        commit(next);
+      } else if (phase === 'up') {
+        dragRef.current = null;
+        onMoveEndpoint(drag.kind, drag.last, drag.origin);
+        onEditEnd(mazeRef.current);
+      }
+      return;
+    }
+
+    if (tool === 'brush') {
+      // Fill the gap between pointer samples so quick strokes stay continuous
+      commit(paintCells(mazeRef.current, stamp(lineCells(drag.last, cell)), paint));
+    } else if (phase === 'move') {
+      setPreview(stamp(shapeCells(tool, drag.anchor, cell)));
+    } else {
+      commit(paintCells(mazeRef.current, stamp(shapeCells(tool, drag.anchor, cell)), paint));
+    }
+    drag.last = cell;
+    if (phase === 'up') {
+      dragRef.current = null;
+      setPreview([]);
+      onEditEnd(mazeRef.current);
+    }
+  }, [tool, paint, brushSize, width, height, commit, onMoveEndpoint, onEditEnd]);
+
+  const solvable = useMemo(() => {
+    if (!active) return null;
+    const start = findMarker(maze, 'start');
+    const goals = findMarkers(maze, 'goal');
+    if (!start || goals.length === 0) return null;
+    return bfsPathfinding(maze, start, goals[0], { ...grid, goals }).path.length > 0;
+  }, [maze, grid.movement, grid.topology, active]);
+
+  return {
+    tool, setTool,
+    paint, setPaint,
+    brushSize, setBrushSize,
+    preview,
+    solvable,
+    handleCellPointer,
+  };
+}
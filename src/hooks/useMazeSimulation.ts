@@ -1,94 +1,391 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type {
-  Maze, Position, Agent, HeuristicType, PathfindingAlgorithm,
-  AgentStrategy, CompetitionResult, Cell,
+  SimulationConfig, Maze, Position, Agent,
+  AgentStrategy, CompetitionResult, Cell, MovementModel, PathfindingResult,
+  WallMaze, MazeModel, MazeGenerationOptions, TextMaze, Rng,
+  MazeHistory, MazeHistoryEntry, MazeHistorySource, GridTopology, MissionMode,
 } from '../types';
-import { AGENT_COLORS, SIM_TICK_MS } from '../types';
+import { AGENT_COLORS, SIM_TICK_MS, MAX_MAZE_HISTORY, HEX_ALGORITHMS, IDA_STAR_MAX_EXPANSIONS } from '../types';
 import {
-  aStarPathfinding, bfsPathfinding, generateMaze,
-  checkCollisions, euclideanDistance,
+  aStarPathfinding, bfsPathfinding, dijkstraPathfinding, jpsPathfinding, idaStarPathfinding,
+  bidirectionalBfsPathfinding, bidirectionalAStarPathfinding, dStarLitePathfinding,
+  DStarLitePlanner, generateMaze, generateWallMazeOfType,
+  addTerrain, checkCollisions, euclideanDistance, neighborProvider,
+  createBeliefMap, senseSurroundings, nextFloodStep, floodPath, floodFillPathfinding, floodDistances,
+  cellMazeToWallMaze, wallMazeToCellMaze, getWallNeighbors, setWall, WALL_EAST, WALL_SOUTH,
+  toExpandedPosition, fromExpandedPosition, createGoalTest, nearestGoalDistance,
+  wallBfsPathfinding, wallAStarPathfinding, wallFloodFillPathfinding,
+  detectMazeFormat, formatMazeFileError, parseAsciiMaze, parseMazBinary, parseNumericMaze,
+  parseTextMaze, parseMazeDocument, createRng, randomInt, randomChoice, SEED_STREAMS, planMission,
 } from '../algorithms';
 import { toast } from 'sonner';
+import { createHistoryEntry, decodeMaze, pushHistory } from '../lib/maze-history';
+import {
+  createDynamicObstacles, stepDynamicObstacles, toggleDroppedObstacle, clearDynamicObstacles, hasMovingObstacles,
+  type DynamicObstacles, type DynamicObstacleStep,
+} from '../lib/dynamic-obstacles';
 
 // ─── Helpers ──────────────────────────────────────────────
 
-function clampPosition(pos: Position, size: number): Position {
+function clampPosition(pos: Position, width: number, height: number): Position {
   return {
-    x: Math.max(0, Math.min(size - 1, pos.x)),
-    y: Math.max(0, Math.min(size - 1, pos.y)),
+    x: Math.max(0, Math.min(width - 1, pos.x)),
+    y: Math.max(0, Math.min(height - 1, pos.y)),
   };
 }
 
-function isValidPos(p: Position, size: number): boolean {
-  return p.x >= 0 && p.x < size && p.y >= 0 && p.y < size;
+function isValidPos(p: Position, width: number, height: number): boolean {
+  return p.x >= 0 && p.x < width && p.y >= 0 && p.y < height;
 }
 
-function getCenterPosition(size: number): Position {
-  return { x: Math.floor(size / 2), y: Math.floor(size / 2) };
+function getCenterPosition(width: number, height: number): Position {
+  return { x: Math.floor(width / 2), y: Math.floor(height / 2) };
 }
 
+/**
+ * Every goal cell: `goal` plus the configured extra goals that lie inside
+ * the maze and off the start (duplicates dropped)
+ */
+function goalRegion(goal: Position, cfg: SimulationConfig, width: number, height: number): Position[] {
+  const start = clampPosition(cfg.customStart, width, height);
+  const goals = [goal];
+  for (const p of cfg.extraGoals) {
+    if (!isValidPos(p, width, height) || (p.x === start.x && p.y === start.y)) continue;
+    if (goals.some(g => g.x === p.x && g.y === p.y)) continue;
+    goals.push(p);
+  }
+  return goals;
+}
+
+/** Per-agent planner settings; an Agent satisfies this directly */
+type PlannerSettings = Pick<
+  Agent, 'pathfindingAlgorithm' | 'heuristicType' | 'tieBreaking' | 'heuristicWeight'
+>;
+
+/** How agents step between cells: the movement model, or the 6 hex neighbours */
+interface GridSettings {
+  movement: MovementModel;
+  topology: GridTopology;
+}
+
+/**
+ * Planners see walls only through `wallMaze` when it is set (thin-wall
+ * model). On hex grids planners outside `HEX_ALGORITHMS` run as A*, and A*
+ * always uses the hex distance, since the square-grid heuristics overestimate
+ * hex steps. `goals` widens `goal` to a goal region.
+ */
 function findPath(
   maze: Maze,
   start: Position,
   goal: Position,
-  algorithm: PathfindingAlgorithm,
-  heuristicType: HeuristicType | 'auto',
-) {
-  if (algorithm === 'bfs') return bfsPathfinding(maze, start, goal);
-  return aStarPathfinding(
-    maze, start, goal,
-    heuristicType === 'auto' ? undefined : heuristicType,
+  planner: PlannerSettings,
+  grid: GridSettings,
+  wallMaze: WallMaze | null = null,
+  goals?: Position[],
+): PathfindingResult {
+  if (wallMaze) return findWallPath(wallMaze, start, goal, planner, goals);
+  const hex = grid.topology === 'hex';
+  const algorithm = hex && !HEX_ALGORITHMS.includes(planner.pathfindingAlgorithm)
+    ? 'astar'
+    : planner.pathfindingAlgorithm;
+  const heuristicType = hex ? 'auto' : planner.heuristicType;
+  const options = {
+    movement: grid.movement, topology: grid.topology,
+    tieBreaking: planner.tieBreaking, weight: planner.heuristicWeight, goals,
+  };
+  if (algorithm === 'bfs') return bfsPathfinding(maze, start, goal, options);
+  if (algorithm === 'dijkstra') return dijkstraPathfinding(maze, start, goal, options);
+  if (algorithm === 'floodfill') return floodFillPathfinding(maze, start, goal, options);
+  if (algorithm === 'bidirectional-bfs') return bidirectionalBfsPathfinding(maze, start, goal, options);
+  const heuristic = heuristicType === 'auto' ? undefined : heuristicType;
+  if (algorithm === 'jps') return jpsPathfinding(maze, start, goal, heuristic, options);
+  if (algorithm === 'idastar') return idaStarPathfinding(maze, start, goal, heuristic, options);
+  if (algorithm === 'dstar-lite') return dStarLitePathfinding(maze, start, goal, heuristic, options);
+  if (algorithm === 'bidirectional-astar') {
+    return bidirectionalAStarPathfinding(maze, start, goal, heuristic, options);
+  }
+  return aStarPathfinding(maze, start, goal, heuristic, options);
+}
+
+/**
+ * BFS, A* and flood-fill run natively on the thin-wall maze; every other
+ * planner runs on its expanded cell-obstacle grid, with the path, explored
+ * cells and cost mapped back to wall-maze cells.
+ */
+function findWallPath(
+  wallMaze: WallMaze,
+  start: Position,
+  goal: Position,
+  planner: PlannerSettings,
+  goals?: Position[],
+): PathfindingResult {
+  const algorithm = planner.pathfindingAlgorithm;
+  if (algorithm === 'bfs') return wallBfsPathfinding(wallMaze, start, goal, { goals });
+  if (algorithm === 'floodfill') return wallFloodFillPathfinding(wallMaze, start, goal, { goals });
+  if (algorithm === 'astar') {
+    return wallAStarPathfinding(wallMaze, start, goal, { weight: planner.heuristicWeight, goals });
+  }
+
+  const expanded = wallMazeToCellMaze(wallMaze);
+  const result = findPath(
+    expanded, toExpandedPosition(start), toExpandedPosition(goal), planner,
+    { movement: '4-connected', topology: 'square' }, null, goals?.map(toExpandedPosition),
   );
+  const toCells = (nodes: Position[]) =>
+    nodes.map(fromExpandedPosition).filter((p): p is Position => p !== null);
+  return {
+    ...result,
+    path: toCells(result.path),
+    exploredNodes: toCells(result.exploredNodes),
+    backwardExploredNodes: result.backwardExploredNodes && toCells(result.backwardExploredNodes),
+    cost: result.cost / 2,
+  };
 }
 
-function parseMazeFile(content: string, mazeSize: number): Maze | null {
-  const rows = content.trim().split('\n').map(r => r.trim());
-  if (rows.length !== mazeSize) return null;
-
-  const maze: Maze = [];
-  for (let y = 0; y < rows.length; y++) {
-    if (rows[y].length !== mazeSize) return null;
-    const row: Cell[] = [];
-    for (let x = 0; x < rows[y].length; x++) {
-      const ch = rows[y][x];
-      if (ch !== '0' && ch !== '1') return null;
-      row.push({ type: ch === '1' ? 'obstacle' : 'empty' });
+/**
+ * The agent's own planner run leg by leg through `checkpoints` and on to the
+ * goal region, joined into one route. Time, cost and expansions add up over
+ * the legs; a leg that finds no path ends the route where it got stuck.
+ */
+function planRoute(
+  maze: Maze,
+  start: Position,
+  checkpoints: Position[],
+  goals: Position[],
+  planner: PlannerSettings,
+  grid: GridSettings,
+  wallMaze: WallMaze | null,
+): PathfindingResult {
+  if (checkpoints.length === 0) return findPath(maze, start, goals[0], planner, grid, wallMaze, goals);
+  const route: PathfindingResult = {
+    path: [start], exploredNodes: [], time: 0, cost: 0, peakOpenSize: 0, expansions: 0,
+  };
+  let from = start;
+  for (let leg = 0; leg <= checkpoints.length; leg++) {
+    const result = leg < checkpoints.length
+      ? findPath(maze, from, checkpoints[leg], planner, grid, wallMaze)
+      : findPath(maze, from, goals[0], planner, grid, wallMaze, goals);
+    route.exploredNodes.push(...result.exploredNodes);
+    if (result.backwardExploredNodes) {
+      route.backwardExploredNodes = [...(route.backwardExploredNodes ?? []), ...result.backwardExploredNodes];
     }
-    maze.push(row);
+    route.time += result.time;
+    route.expansions += result.expansions;
+    route.peakOpenSize = Math.max(route.peakOpenSize, result.peakOpenSize);
+    if (result.gaveUp) route.gaveUp = true;
+    if (result.path.length === 0) break;
+    route.path.push(...result.path.slice(1));
+    route.cost += result.cost;
+    from = result.path[result.path.length - 1];
   }
+  return route;
+}
+
+/**
+ * Mission waypoints of the config that lie inside the maze and off
+ * obstacles, duplicates dropped, in the listed order
+ */
+function missionWaypoints(cfg: SimulationConfig, maze: Maze): Position[] {
+  const waypoints: Position[] = [];
+  for (const p of cfg.waypoints) {
+    if (!isValidPos(p, maze[0].length, maze.length) || maze[p.y][p.x].type === 'obstacle') continue;
+    if (waypoints.some(w => w.x === p.x && w.y === p.y)) continue;
+    waypoints.push(p);
+  }
+  return waypoints;
+}
+
+/**
+ * Waypoints in the order an agent starting at `start` visits them, from
+ * pairwise A* leg costs (on the expanded grid of a thin-wall maze)
+ */
+function orderCheckpoints(
+  maze: Maze,
+  wallMaze: WallMaze | null,
+  start: Position,
+  waypoints: Position[],
+  goals: Position[],
+  mode: MissionMode,
+  grid: GridSettings,
+): { checkpoints: Position[]; exact: boolean } {
+  if (waypoints.length === 0) return { checkpoints: [], exact: true };
+  const plan = wallMaze
+    ? planMission(
+      wallMazeToCellMaze(wallMaze), toExpandedPosition(start), waypoints.map(toExpandedPosition),
+      toExpandedPosition(goals[0]), mode, { goals: goals.map(toExpandedPosition) },
+    )
+    : planMission(maze, start, waypoints, goals[0], mode, { movement: grid.movement, topology: grid.topology, goals });
+  return { checkpoints: plan.order.map(i => waypoints[i]), exact: plan.exact };
+}
+
+/** Checkpoints the agent still has to reach, in its visiting order */
+function remainingCheckpoints(agent: Agent): Position[] {
+  return agent.checkpoints?.slice(agent.checkpointsReached ?? 0) ?? [];
+}
+
+/** Where the agent is heading now: its next checkpoint, or the goal region once all are reached */
+function currentTargets(agent: Agent, goals: Position[]): Position[] {
+  const next = remainingCheckpoints(agent)[0];
+  return next ? [next] : goals;
+}
+
+/** Tell the user which agents' searches ran out of their expansion budget (1-based ids) */
+function warnSearchGaveUp(agentNumbers: number[]) {
+  if (agentNumbers.length === 0) return;
+  toast.warning(`IDA* 超出 ${IDA_STAR_MAX_EXPANSIONS.toLocaleString()} 次扩展上限，已放弃搜索：智能体 ${agentNumbers.join(', ')}`);
+}
+
+/** Cells taken by agents, which dynamic obstacles must keep clear of */
+function occupiedBy(agents: Agent[]): (p: Position) => boolean {
+  const cells = new Set(agents.map(a => `${a.position.x},${a.position.y}`));
+  return p => cells.has(`${p.x},${p.y}`);
+}
+
+/** Thin-wall mazes allow orthogonal moves only, and are always square */
+function gridSettings(cfg: SimulationConfig): GridSettings {
+  return cfg.mazeModel === 'wall'
+    ? { movement: '4-connected', topology: 'square' }
+    : { movement: cfg.movementModel, topology: cfg.gridTopology };
+}
+
+/** Open grid carrying only the start/goal markers, the cell view of a thin-wall maze */
+function createOpenMaze(width: number, height: number, start: Position, goals: Position[]): Maze {
+  const maze: Maze = Array.from({ length: height }, () =>
+    Array.from({ length: width }, (): Cell => ({ type: 'empty' })),
+  );
+  maze[start.y][start.x].type = 'start';
+  for (const g of goals) maze[g.y][g.x].type = 'goal';
   return maze;
 }
 
+/** Knock down the walls between neighbouring goal cells, like the open centre of a contest maze */
+function openGoalRegion(wallMaze: WallMaze, goals: Position[]) {
+  const isGoal = createGoalTest(goals);
+  for (const g of goals) {
+    if (isGoal({ x: g.x + 1, y: g.y })) setWall(wallMaze, g, WALL_EAST, false);
+    if (isGoal({ x: g.x, y: g.y + 1 })) setWall(wallMaze, g, WALL_SOUTH, false);
+  }
+}
+
+function generationOptions(cfg: SimulationConfig): MazeGenerationOptions {
+  return {
+    generator: cfg.mazeGenerator, braid: cfg.braidFactor, loops: cfg.loopRate, topology: cfg.gridTopology,
+  };
+}
+
+/**
+ * Random maze for the configured model and generator, drawn from `cfg.seed`.
+ * In the thin-wall model `maze` is the open cell view and `wallMaze` holds
+ * the walls. The maze is generated towards `goal`; the rest of the goal
+ * region is marked (and, between walls, opened up) afterwards.
+ */
+function generateMazes(cfg: SimulationConfig, goal: Position): { maze: Maze; wallMaze: WallMaze | null } {
+  const rng = createRng(cfg.seed, SEED_STREAMS.maze);
+  const { mazeWidth: width, mazeHeight: height } = cfg;
+  const end = clampPosition(goal, width, height);
+  const goals = goalRegion(end, cfg, width, height);
+  if (cfg.mazeModel === 'wall') {
+    const start = clampPosition(cfg.customStart, width, height);
+    const wallMaze = generateWallMazeOfType({ width, height }, start, end, cfg.obstacleRate, rng, generationOptions(cfg));
+    openGoalRegion(wallMaze, goals);
+    return { maze: createOpenMaze(width, height, start, goals), wallMaze };
+  }
+  const maze = generateMaze({ width, height }, cfg.obstacleRate, cfg.customStart, goal, rng, generationOptions(cfg));
+  for (const g of goals) maze[g.y][g.x] = { type: 'goal' };
+  return { maze: addTerrain(maze, cfg.terrainRate, rng), wallMaze: null };
+}
+
+/** Persistent D* Lite planner towards the goal region for an agent's own route */
+function createDStarPlanner(
+  maze: Maze,
+  goals: Position[],
+  planner: PlannerSettings,
+  movement: MovementModel,
+) {
+  const heuristic = planner.heuristicType === 'auto' ? undefined : planner.heuristicType;
+  return new DStarLitePlanner(maze, goals[0], heuristic, { movement, goals });
+}
+
+/** Random passable neighbour on the grid (or through the walls), or null if boxed in */
+function randomNeighbor(
+  maze: Maze,
+  pos: Position,
+  grid: GridSettings,
+  wallMaze: WallMaze | null,
+  rng: Rng,
+): Position | null {
+  const candidates = wallMaze
+    ? getWallNeighbors(wallMaze, pos)
+    : neighborProvider(grid.movement, grid.topology)(maze, pos).map(n => n.position);
+  const valid = candidates.filter(p => isValidPos(p, maze[0].length, maze.length));
+  return randomChoice(rng, valid) ?? null;
+}
+
+/**
+ * An imported maze as parsed: a cell grid or a thin-wall maze, with the
+ * start / goal markers the file carried (none for the wall-bit formats)
+ */
+type LoadedMaze = ({ kind: 'grid' } & TextMaze) | { kind: 'wall'; maze: WallMaze; starts: Position[]; goals: Position[] };
+
+/** At most this many file errors are listed in one toast */
+const MAX_TOAST_ERRORS = 3;
+
+/**
+ * Cell and wall views of an imported maze with the configured start and
+ * goal region marked, or null when it does not match the configured size.
+ */
+function materializeFileMaze(
+  loaded: LoadedMaze,
+  cfg: SimulationConfig,
+  goal: Position,
+): { maze: Maze; wallMaze: WallMaze | null } | null {
+  const { mazeWidth: width, mazeHeight: height } = cfg;
+  const start = clampPosition(cfg.customStart, width, height);
+  const goals = goalRegion(clampPosition(goal, width, height), cfg, width, height);
+  if (loaded.kind === 'wall') {
+    if (loaded.maze.width !== width || loaded.maze.height !== height) return null;
+    return { maze: createOpenMaze(width, height, start, goals), wallMaze: loaded.maze };
+  }
+
+  if (loaded.maze.length !== height || loaded.maze[0].length !== width) return null;
+  const maze = loaded.maze.map(row => row.map(cell => ({ ...cell })));
+  // Thin-wall model: obstacle cells become walled-in boxes
+  const wallMaze = cfg.mazeModel === 'wall' ? cellMazeToWallMaze(maze) : null;
+  // The first S follows the configured start; further S markers are extra agent starts
+  for (const p of loaded.starts.slice(1)) maze[p.y][p.x].type = 'start';
+  maze[start.y][start.x].type = 'start';
+  for (const g of goals) maze[g.y][g.x].type = 'goal';
+  return { maze, wallMaze };
+}
+
 // ─── Hook ─────────────────────────────────────────────────
 
-export interface SimulationConfig {
-  mazeSize: number;
-  obstacleRate: number;
-  agentCount: number;
-  selectedHeuristic: HeuristicType | 'auto';
-  selectedAlgorithm: PathfindingAlgorithm;
-  agentHeuristics: (HeuristicType | 'auto')[];
-  agentAlgorithms: PathfindingAlgorithm[];
-  useSameStart: boolean;
-  showExploration: boolean;
-  showPath: boolean;
-  visualizationSpeed: number;
-  mazeSource: 'random' | 'file';
-  customStart: Position;
-  customGoal: Position;
-  fileContent: string;
+/** What `loadMazeFile` found, so the caller can sync its settings */
+export interface LoadedMazeInfo {
+  width: number;
+  height: number;
+  model: MazeModel;
+  /** Grid of an exported JSON maze; other formats leave the configured one */
+  topology?: GridTopology;
+  /** First S / G marker of a text maze, if any */
+  start?: Position;
+  goal?: Position;
+  /** The file's further goal cells; set whenever `goal` is */
+  extraGoals?: Position[];
 }
 
 export function useMazeSimulation(config: SimulationConfig) {
-  const [maze, setMaze] = useState<Maze>(() =>
-    generateMaze(config.mazeSize, config.obstacleRate, config.customStart, config.customGoal),
-  );
+  const [initialMazes] = useState(() => generateMazes(config, config.customGoal));
+  const [maze, setMaze] = useState<Maze>(initialMazes.maze);
+  const [wallMaze, setWallMaze] = useState<WallMaze | null>(initialMazes.wallMaze);
   const [agents, setAgents] = useState<Agent[]>([]);
   const [isRunning, setIsRunning] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [competitionResults, setCompetitionResults] = useState<CompetitionResult[]>([]);
   const [currentSearchStep, setCurrentSearchStep] = useState(0);
   const [isVisualizing, setIsVisualizing] = useState(false);
+  const [history, setHistory] = useState<MazeHistory>({ entries: [], index: -1 });
+  const [mazeVersion, setMazeVersion] = useState(0);
 
   // Refs for accessing latest values inside intervals/callbacks
   const configRef = useRef(config);
@@ -97,6 +394,8 @@ export function useMazeSimulation(config: SimulationConfig) {
   agentsRef.current = agents;
   const mazeRef = useRef(maze);
   mazeRef.current = maze;
+  const wallMazeRef = useRef(wallMaze);
+  wallMazeRef.current = wallMaze;
   const resultsRef = useRef(competitionResults);
   resultsRef.current = competitionResults;
 
@@ -104,79 +403,270 @@ export function useMazeSimulation(config: SimulationConfig) {
   const tickCountRef = useRef(0);
   // Cache leader→goal path to avoid duplicate pathfinding per tick
   const leaderPathCache = useRef<{ tick: number; path: Position[] } | null>(null);
+  // D* Lite search state per agent id, repaired in place on every replan
+  const dstarPlanners = useRef(new Map<number, DStarLitePlanner>());
+  // Last imported maze, reused while the maze source is "file"
+  const fileMazeRef = useRef<LoadedMaze | null>(null);
+  // Random choices of the current race; reseeded by initializeAgents
+  const raceRngRef = useRef<Rng>(createRng(config.seed, SEED_STREAMS.race));
+  // Seed a reset already generated the maze for, so the seed change does not regenerate it
+  const resetSeedRef = useRef<number | null>(null);
+  // Generation settings of the current maze, endpoints excluded (see the effect below)
+  const generationKeyRef = useRef('');
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const historyIdRef = useRef(0);
+  // History entry being restored whose settings Home has not synced yet; the regenerate
+  // effect waits for them instead of generating over the restored maze
+  const restoreRef = useRef<MazeHistoryEntry | null>(null);
+  // Dynamic obstacles of the current race, with the maze they last produced: once anything
+  // else replaces the maze (a reset, the editor, a file) they no longer apply
+  const dynamicRef = useRef<{ obstacles: DynamicObstacles; maze: Maze } | null>(null);
+  // Every dynamic-obstacle event bumps the maze version; agents compare the cells it
+  // blocked (row-major indices) against their route
+  const mazeVersionRef = useRef(0);
+  const mazeChangesRef = useRef<{ version: number; blocked: number[] }[]>([]);
+
+  /** Dynamic obstacles still in force on the shown maze, or null */
+  const currentDynamics = useCallback((): DynamicObstacles | null => {
+    const dynamic = dynamicRef.current;
+    return dynamic && dynamic.maze === mazeRef.current ? dynamic.obstacles : null;
+  }, []);
+
+  /** Publish a dynamic-obstacle event: show its maze and, if any cell changed, start a new maze version */
+  const commitDynamicStep = useCallback((step: DynamicObstacleStep) => {
+    dynamicRef.current = { obstacles: step.obstacles, maze: step.maze };
+    if (step.changed.length === 0) return;
+    const width = step.maze[0].length;
+    const version = ++mazeVersionRef.current;
+    mazeChangesRef.current.push({
+      version,
+      blocked: step.changed.filter(p => step.maze[p.y][p.x].type === 'obstacle').map(p => p.y * width + p.x),
+    });
+    // D* Lite planners repair around exactly these cells on their next replan
+    for (const dstar of dstarPlanners.current.values()) dstar.markChanged(step.changed);
+    mazeRef.current = step.maze;
+    setMaze(step.maze);
+    setMazeVersion(version);
+  }, []);
+
+  /** Take the dynamic obstacles of the last race off the maze again */
+  const clearDynamics = useCallback(() => {
+    const obstacles = currentDynamics();
+    dynamicRef.current = null;
+    mazeVersionRef.current = 0;
+    mazeChangesRef.current = [];
+    setMazeVersion(0);
+    if (!obstacles) return;
+    const restored = clearDynamicObstacles(obstacles, mazeRef.current);
+    mazeRef.current = restored;
+    setMaze(restored);
+  }, [currentDynamics]);
+
+  /**
+   * Push a maze state onto the undo history. `topology` is the grid it is
+   * shown on when the settings have not caught up yet (a loaded file's own)
+   */
+  const recordHistory = useCallback((
+    source: MazeHistorySource,
+    shown: { maze: Maze; wallMaze: WallMaze | null },
+    detail?: string,
+    topology?: GridTopology,
+  ) => {
+    const entry = createHistoryEntry(historyIdRef.current++, source, shown, configRef.current, detail, topology);
+    setHistory(h => pushHistory(h, entry, MAX_MAZE_HISTORY));
+  }, []);
 
   // ── Regenerate maze when size/obstacle/start changes ──
   useEffect(() => {
-    const center = getCenterPosition(config.mazeSize);
+    const key = [
+      config.mazeWidth, config.mazeHeight, config.obstacleRate, config.terrainRate, config.mazeModel,
+      config.gridTopology, config.mazeGenerator, config.braidFactor, config.loopRate, config.mazeSource, config.seed,
+    ].join();
+    const restoring = restoreRef.current;
+    if (restoring) {
+      if (
+        restoring.width === config.mazeWidth && restoring.height === config.mazeHeight &&
+        restoring.model === config.mazeModel && restoring.topology === config.gridTopology &&
+        restoring.seed === config.seed
+      ) {
+        restoreRef.current = null;
+        generationKeyRef.current = key;
+      }
+      return;
+    }
+    if (resetSeedRef.current === config.seed) {
+      resetSeedRef.current = null;
+      generationKeyRef.current = key;
+      return;
+    }
+    const center = getCenterPosition(config.mazeWidth, config.mazeHeight);
     const goal = config.customGoal.x === 0 && config.customGoal.y === 0 ? center : config.customGoal;
-    const newMaze = generateMaze(config.mazeSize, config.obstacleRate, config.customStart, goal);
-    setMaze(newMaze);
+    // Start/goal dragged in the editor: the maze already shows them, keep the edits
+    const current = mazeRef.current;
+    if (
+      key === generationKeyRef.current &&
+      current[config.customStart.y]?.[config.customStart.x]?.type === 'start' &&
+      goalRegion(goal, config, config.mazeWidth, config.mazeHeight)
+        .every(g => current[g.y]?.[g.x]?.type === 'goal')
+    ) {
+      return;
+    }
+    generationKeyRef.current = key;
+    const loaded = config.mazeSource === 'file' ? fileMazeRef.current : null;
+    const fromFile = loaded && materializeFileMaze(loaded, config, goal);
+    const generated = fromFile ?? generateMazes(config, goal);
+    setMaze(generated.maze);
+    setWallMaze(generated.wallMaze);
+    recordHistory(fromFile ? 'file' : 'generate', generated);
     // Clear stale agents and results from previous maze
     setAgents([]);
     setCompetitionResults([]);
-  }, [config.mazeSize, config.obstacleRate, config.customStart, config.customGoal]);
+  }, [
+    config.mazeWidth, config.mazeHeight, config.obstacleRate, config.terrainRate, config.customStart,
+    config.customGoal, config.extraGoals, config.mazeModel, config.gridTopology, config.mazeGenerator, config.braidFactor, config.loopRate,
+    config.mazeSource, config.seed,
+  ]);
 
   // ── Initialize agents ──
   const initializeAgents = useCallback(() => {
     const cfg = configRef.current;
+    clearDynamics();
     const m = mazeRef.current;
-    const size = m.length;
-    const goal = cfg.customGoal;
+    const wm = wallMazeRef.current;
+    const grid = gridSettings(cfg);
+    const { movement } = grid;
+    // Fog of war and D* Lite run on the square cell grid only
+    const squareCells = !wm && grid.topology === 'square';
+    const height = m.length;
+    const width = m[0].length;
+    const goals = goalRegion(cfg.customGoal, cfg, width, height);
+    const isGoal = createGoalTest(goals);
+    const waypoints = missionWaypoints(cfg, m);
     const newAgents: Agent[] = [];
     let commonStart: Position | null = null;
     const strategies: AgentStrategy[] = ['follower', 'competitor', 'random'];
+    dstarPlanners.current.clear();
+    // A fresh race: same seed, same starts, strategies and moves
+    const rng = createRng(cfg.seed, SEED_STREAMS.race);
+    raceRngRef.current = rng;
+    tickCountRef.current = 0;
+    leaderPathCache.current = null;
+    // Extra S markers of an imported text maze, for agents 2, 3, …
+    const loaded = cfg.mazeSource === 'file' ? fileMazeRef.current : null;
+    const extraStarts = loaded ? loaded.starts.slice(1) : [];
 
     for (let i = 0; i < cfg.agentCount; i++) {
       let startPos: Position;
       if (cfg.useSameStart && commonStart) {
         startPos = commonStart;
       } else {
-        const cs = cfg.customStart;
+        const cs = i > 0 && extraStarts[i - 1] ? extraStarts[i - 1] : cfg.customStart;
         if (
-          cs && isValidPos(cs, size) &&
+          cs && isValidPos(cs, width, height) &&
           m[cs.y][cs.x].type !== 'obstacle' &&
-          !(cs.x === goal.x && cs.y === goal.y)
+          !isGoal(cs)
         ) {
           startPos = cs;
         } else {
           do {
-            startPos = {
-              x: Math.floor(Math.random() * size),
-              y: Math.floor(Math.random() * size),
-            };
+            startPos = { x: randomInt(rng, width), y: randomInt(rng, height) };
           } while (
             m[startPos.y][startPos.x].type === 'obstacle' ||
-            (startPos.x === goal.x && startPos.y === goal.y)
+            isGoal(startPos)
           );
         }
         if (cfg.useSameStart) commonStart = startPos;
       }
 
-      const heuristic = cfg.agentHeuristics[i] || cfg.selectedHeuristic;
-      const algorithm = cfg.agentAlgorithms[i] || cfg.selectedAlgorithm;
-      const result = findPath(m, startPos, goal, algorithm, heuristic);
+      const planner: PlannerSettings = {
+        heuristicType: cfg.agentHeuristics[i] || cfg.selectedHeuristic,
+        pathfindingAlgorithm: cfg.agentAlgorithms[i] || cfg.selectedAlgorithm,
+        tieBreaking: cfg.agentTieBreaking[i] || cfg.selectedTieBreaking,
+        heuristicWeight: cfg.agentWeights[i] || cfg.selectedWeight,
+      };
+      if (cfg.fogOfWar && squareCells) {
+        const initial = createBeliefMap(width, height, goals, movement);
+        // The visiting order is planned on what the agent knows: an open grid
+        const { checkpoints, exact } = orderCheckpoints(
+          initial.maze, null, startPos, waypoints, goals, cfg.missionMode, grid,
+        );
+        const targets = checkpoints.length > 0 ? [checkpoints[0]] : goals;
+        const belief = senseSurroundings(
+          checkpoints.length > 0 ? { ...initial, flood: floodDistances(initial.maze, targets, movement) } : initial,
+          m, startPos, targets, movement,
+        );
+        newAgents.push({
+          id: i,
+          position: clampPosition(startPos, width, height),
+          previousPosition: null,
+          path: floodPath(belief, startPos, movement),
+          exploredNodes: [],
+          color: AGENT_COLORS[i % AGENT_COLORS.length],
+          isActive: true,
+          strategy: randomChoice(rng, strategies)!,
+          stepsTaken: 0,
+          collisions: 0,
+          ...planner,
+          belief,
+          ...(waypoints.length > 0 && { checkpoints, checkpointsReached: 0, missionExact: exact }),
+        });
+        continue;
+      }
+
+      const { checkpoints, exact } = orderCheckpoints(m, wm, startPos, waypoints, goals, cfg.missionMode, grid);
+      let result: PathfindingResult;
+      // D* Lite repairs one search towards the goal, so missions plan each leg afresh
+      if (planner.pathfindingAlgorithm === 'dstar-lite' && squareCells && checkpoints.length === 0) {
+        const dstar = createDStarPlanner(m, goals, planner, movement);
+        dstarPlanners.current.set(i, dstar);
+        result = dstar.plan(startPos, m);
+      } else {
+        result = planRoute(m, startPos, checkpoints, goals, planner, grid, wm);
+      }
 
       newAgents.push({
         id: i,
-        position: clampPosition(startPos, size),
+        position: clampPosition(startPos, width, height),
         previousPosition: null,
         path: result.path.length > 0
-          ? result.path.map(p => clampPosition(p, size))
-          : [clampPosition(startPos, size)],
+          ? result.path.map(p => clampPosition(p, width, height))
+          : [clampPosition(startPos, width, height)],
         exploredNodes: result.exploredNodes,
+        backwardExploredNodes: result.backwardExploredNodes,
         color: AGENT_COLORS[i % AGENT_COLORS.length],
         isActive: true,
-        strategy: strategies[Math.floor(Math.random() * strategies.length)],
+        strategy: randomChoice(rng, strategies)!,
         stepsTaken: 0,
         collisions: 0,
-        heuristicType: heuristic,
-        pathfindingAlgorithm: algorithm,
+        ...planner,
         pathfindingTime: result.time,
+        pathCost: result.cost,
+        peakOpenSize: result.peakOpenSize,
+        expansions: result.expansions,
+        searchGaveUp: result.gaveUp,
+        replans: 0,
+        repairExpansions: 0,
+        // D* Lite agents only get the from-scratch reference when comparing is on
+        fullReplanExpansions: dstarPlanners.current.has(i) && !cfg.compareFullReplans ? undefined : 0,
+        ...(waypoints.length > 0 && { checkpoints, checkpointsReached: 0, missionExact: exact }),
+        mazeVersion: 0,
+        dynamicReplans: 0,
       });
     }
 
+    // Dynamic obstacles keep clear of the agents' starts and the waypoints
+    if (!wm) {
+      const obstacles = createDynamicObstacles(
+        m, cfg.dynamicObstacles, neighborProvider(movement, grid.topology),
+        [...newAgents.map(a => a.position), ...waypoints], createRng(cfg.seed, SEED_STREAMS.dynamic),
+      );
+      dynamicRef.current = { obstacles, maze: m };
+    }
+
+    warnSearchGaveUp(newAgents.filter(a => a.searchGaveUp).map(a => a.id + 1));
     setAgents(newAgents);
-  }, []); // reads everything from refs
+  }, [clearDynamics]); // reads everything else from refs
 
   // ── Start experiment ──
   const startExperiment = useCallback(() => {
@@ -191,45 +681,57 @@ export function useMazeSimulation(config: SimulationConfig) {
   const resumeExperiment = useCallback(() => setIsPaused(false), []);
 
   // ── Reset ──
-  const resetExperiment = useCallback(() => {
+  /**
+   * Stop and start over on a new maze. `seed` is the caller's new seed
+   * setting: the maze is generated from it right away, ahead of the render
+   * that delivers it, and the seed change will not regenerate it again.
+   */
+  const resetExperiment = useCallback((seed?: number) => {
     setIsRunning(false);
     setIsPaused(false);
-    const cfg = configRef.current;
-    const center = getCenterPosition(cfg.mazeSize);
-
-    if (cfg.mazeSource === 'file' && cfg.fileContent) {
-      const fileMaze = parseMazeFile(cfg.fileContent, cfg.mazeSize);
-      if (fileMaze) {
-        const start = clampPosition(cfg.customStart, cfg.mazeSize);
-        fileMaze[start.y][start.x].type = 'start';
-        const goalPos = clampPosition(cfg.customGoal.x === 0 && cfg.customGoal.y === 0 ? center : cfg.customGoal, cfg.mazeSize);
-        fileMaze[goalPos.y][goalPos.x].type = 'goal';
-        setMaze(fileMaze);
-        // Initialize agents after maze is set
-        setTimeout(() => {
-          mazeRef.current = fileMaze;
-          initializeAgents();
-        }, 0);
-        return;
-      }
+    if (seed !== undefined && seed !== configRef.current.seed) {
+      configRef.current = { ...configRef.current, seed };
+      resetSeedRef.current = seed;
     }
+    const cfg = configRef.current;
+    const center = getCenterPosition(cfg.mazeWidth, cfg.mazeHeight);
 
-    const newMaze = generateMaze(cfg.mazeSize, cfg.obstacleRate, cfg.customStart, center);
-    setMaze(newMaze);
+    const loaded = cfg.mazeSource === 'file' ? fileMazeRef.current : null;
+    const fileGoal = cfg.customGoal.x === 0 && cfg.customGoal.y === 0 ? center : cfg.customGoal;
+    const generated = (loaded && materializeFileMaze(loaded, cfg, fileGoal)) ?? generateMazes(cfg, center);
+    setMaze(generated.maze);
+    setWallMaze(generated.wallMaze);
+    recordHistory('reset', generated);
+    // Initialize agents after maze is set
     setTimeout(() => {
-      mazeRef.current = newMaze;
+      mazeRef.current = generated.maze;
+      wallMazeRef.current = generated.wallMaze;
       initializeAgents();
     }, 0);
-  }, [initializeAgents]);
+  }, [initializeAgents, recordHistory]);
 
   // ── Simulation tick ──
   const simulationTick = useCallback(() => {
     const cfg = configRef.current;
-    const m = mazeRef.current;
-    const size = m.length;
-    const goal = cfg.customGoal;
-
     tickCountRef.current++;
+    // Dynamic obstacles move first (never onto an agent); the agents then react to the new maze
+    const dynamics = currentDynamics();
+    if (dynamics) {
+      const occupied = occupiedBy(agentsRef.current);
+      commitDynamicStep(stepDynamicObstacles(dynamics, mazeRef.current, tickCountRef.current, occupied));
+    }
+    const version = mazeVersionRef.current;
+    const m = mazeRef.current;
+    const wm = wallMazeRef.current;
+    const grid = gridSettings(cfg);
+    const { movement } = grid;
+    const height = m.length;
+    const width = m[0].length;
+    const size = Math.max(width, height);
+    const goals = goalRegion(cfg.customGoal, cfg, width, height);
+    const goal = goals[0];
+    const isGoal = createGoalTest(goals);
+    const rng = raceRngRef.current;
 
     // Recalculate leader→goal cache periodically
     const RECALC_INTERVAL = Math.max(5, Math.floor(size / 20)); // scale with maze size
@@ -238,11 +740,17 @@ export function useMazeSimulation(config: SimulationConfig) {
       const updated = prevAgents.map(a => ({ ...a }));
       const active = updated.filter(a => a.isActive && a.position);
 
-      // Find leading agent (closest to goal)
+      // Find leading agent: fewest checkpoints left, then closest to where it is heading
+      const lead = (a: Agent) => [
+        remainingCheckpoints(a).length,
+        nearestGoalDistance(euclideanDistance, currentTargets(a, goals))(a.position),
+      ];
       const leader = active.length > 0
-        ? active.reduce((prev, cur) =>
-            euclideanDistance(cur.position, goal) < euclideanDistance(prev.position, goal) ? cur : prev,
-          )
+        ? active.reduce((prev, cur) => {
+          const [curLeft, curDistance] = lead(cur);
+          const [prevLeft, prevDistance] = lead(prev);
+          return curLeft < prevLeft || (curLeft === prevLeft && curDistance < prevDistance) ? cur : prev;
+        })
         : null;
 
       // Cache leader→goal path within this tick (used by multiple competitors)
@@ -256,25 +764,99 @@ export function useMazeSimulation(config: SimulationConfig) {
           cachedLeaderToGoal = leaderPathCache.current.path;
           return cachedLeaderToGoal;
         }
-        const result = findPath(
-          m, leader!.position, goal,
-          leader!.pathfindingAlgorithm, leader!.heuristicType,
+        const result = planRoute(
+          m, leader!.position, remainingCheckpoints(leader!), goals,
+          leader!, grid, wm,
         );
         cachedLeaderToGoal = result.path;
         leaderPathCache.current = { tick: tickCountRef.current, path: result.path };
         return cachedLeaderToGoal;
       };
 
+      // Agents whose replan just ran out of its expansion budget
+      const gaveUp: number[] = [];
+
       for (let i = 0; i < updated.length; i++) {
-        const agent = updated[i];
+        let agent = updated[i];
         if (!agent.isActive || !agent.position) continue;
 
-        // Check goal
-        if (agent.position.x === goal.x && agent.position.y === goal.y) {
+        // Mission: standing on the next checkpoint moves the agent on to the one after
+        const checkpoint = remainingCheckpoints(agent)[0];
+        if (checkpoint && checkpoint.x === agent.position.x && checkpoint.y === agent.position.y) {
+          agent = { ...agent, checkpointsReached: (agent.checkpointsReached ?? 0) + 1 };
+          if (agent.belief) {
+            const flood = floodDistances(agent.belief.maze, currentTargets(agent, goals), movement);
+            agent.belief = { ...agent.belief, flood };
+          }
+          updated[i] = agent;
+        }
+
+        // Check goal (which only counts once every checkpoint is reached)
+        if (isGoal(agent.position) && remainingCheckpoints(agent).length === 0) {
           updated[i] = { ...agent, isActive: false };
           continue;
         }
 
+        // Fog of war: sense, re-flood on new walls, step down the flood gradient
+        if (cfg.fogOfWar && agent.belief) {
+          const belief = senseSurroundings(agent.belief, m, agent.position, currentTargets(agent, goals), movement);
+          const next = nextFloodStep(belief, agent.position, movement);
+          if (!next) {
+            updated[i] = { ...agent, belief, isActive: false };
+            continue;
+          }
+          updated[i] = {
+            ...agent,
+            belief,
+            path: floodPath(belief, next, movement),
+            position: clampPosition(next, width, height),
+            previousPosition: { ...agent.position },
+            stepsTaken: agent.stepsTaken + 1,
+          };
+          continue;
+        }
+
+        /** Plan the rest of the route from here (D* Lite repairs its search) and count the replan */
+        const replan = (): Position[] => {
+          const dstar = dstarPlanners.current.get(agent.id);
+          const result = dstar
+            ? dstar.plan(agent.position, m)
+            : planRoute(m, agent.position, remainingCheckpoints(agent), goals, agent, grid, wm);
+          // Reference cost of the same replan from scratch: the replan itself for one-shot
+          // planners; a one-shot D* Lite search for D* agents, only when comparing is on
+          const fullExpansions = !dstar
+            ? result.expansions
+            : cfg.compareFullReplans
+              ? findPath(m, agent.position, goal, agent, grid, null, goals).expansions
+              : undefined;
+          updated[i].replans = (agent.replans ?? 0) + 1;
+          updated[i].repairExpansions = (agent.repairExpansions ?? 0) + result.expansions;
+          if (fullExpansions !== undefined) {
+            updated[i].fullReplanExpansions = (agent.fullReplanExpansions ?? 0) + fullExpansions;
+          }
+          if (result.gaveUp && !agent.searchGaveUp) gaveUp.push(agent.id + 1);
+          updated[i].searchGaveUp = result.gaveUp;
+          if (result.path.length > 0) {
+            updated[i].path = result.path;
+            updated[i].pathCost = result.cost;
+            updated[i].stepsTaken = 0;
+          }
+          return result.path;
+        };
+
+        // New maze version: replan at once when an obstacle has landed on the route ahead
+        if (agent.mazeVersion !== undefined && agent.mazeVersion < version) {
+          const since = agent.mazeVersion;
+          const blocked = new Set(
+            mazeChangesRef.current.filter(c => c.version > since).flatMap(c => c.blocked),
+          );
+          if (agent.path.slice(agent.stepsTaken + 1).some(p => blocked.has(p.y * width + p.x))) {
+            replan();
+            updated[i].dynamicReplans = (agent.dynamicReplans ?? 0) + 1;
+          }
+          updated[i].mazeVersion = version;
+        }
+
         let targetPos: Position | null = null;
 
         // Strategy logic — throttled for performance on large mazes
@@ -283,11 +865,11 @@ export function useMazeSimulation(config: SimulationConfig) {
             if (leader && leader.id !== agent.id && leader.position) {
               const toLeader = findPath(
                 m, agent.position, leader.position,
-                agent.pathfindingAlgorithm, agent.heuristicType,
+                agent, grid, wm,
               );
               if (toLeader.path.length > 1) {
                 const next = toLeader.path[1];
-                if (next && isValidPos(next, size) && m[next.y]?.[next.x]?.type !== 'obstacle') {
+                if (next && isValidPos(next, width, height) && m[next.y]?.[next.x]?.type !== 'obstacle') {
                   targetPos = next;
                 }
               }
@@ -305,14 +887,14 @@ export function useMazeSimulation(config: SimulationConfig) {
                 if (leadPath.length > 2) {
                   const interceptIdx = Math.min(3, leadPath.length - 1);
                   const interceptPt = leadPath[interceptIdx];
-                  if (interceptPt && isValidPos(interceptPt, size)) {
+                  if (interceptPt && isValidPos(interceptPt, width, height)) {
                     const toIntercept = findPath(
                       m, agent.position, interceptPt,
-                      agent.pathfindingAlgorithm, agent.heuristicType,
+                      agent, grid, wm,
                     );
                     if (toIntercept.path.length > 1) {
                       const next = toIntercept.path[1];
-                      if (next && isValidPos(next, size)) targetPos = next;
+                      if (next && isValidPos(next, width, height)) targetPos = next;
                     }
                   }
                 }
@@ -323,17 +905,8 @@ export function useMazeSimulation(config: SimulationConfig) {
             break;
           }
           case 'random': {
-            if (Math.random() < 0.1) {
-              const dirs = [
-                { x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 },
-              ];
-              const valid = dirs
-                .map(d => ({ x: agent.position.x + d.x, y: agent.position.y + d.y }))
-                .filter(p =>
-                  isValidPos(p, size) &&
-                  m[p.y] && m[p.y][p.x] && m[p.y][p.x].type !== 'obstacle',
-                );
-              if (valid.length > 0) targetPos = valid[Math.floor(Math.random() * valid.length)];
+            if (rng() < 0.1) {
+              targetPos = randomNeighbor(m, agent.position, grid, wm, rng);
             }
             break;
           }
@@ -347,7 +920,7 @@ export function useMazeSimulation(config: SimulationConfig) {
           if (
             path.length > nextIdx &&
             path[nextIdx] &&
-            isValidPos(path[nextIdx], size) &&
+            isValidPos(path[nextIdx], width, height) &&
             m[path[nextIdx].y] && m[path[nextIdx].y][path[nextIdx].x] &&
             m[path[nextIdx].y][path[nextIdx].x].type !== 'obstacle'
           ) {
@@ -356,28 +929,16 @@ export function useMazeSimulation(config: SimulationConfig) {
             // Throttle recalculation on large mazes (>100)
             const shouldRecalcPath = size <= 100 || tickCountRef.current % RECALC_INTERVAL === (agent.id % RECALC_INTERVAL);
             if (shouldRecalcPath) {
-              const result = findPath(m, agent.position, goal, agent.pathfindingAlgorithm, agent.heuristicType);
-              if (result.path.length > 0) {
-                updated[i].path = result.path;
-                targetPos = result.path[1] || result.path[0];
-                updated[i].stepsTaken = 0;
-              }
+              const path = replan();
+              if (path.length > 0) targetPos = path[1] || path[0];
             }
 
             // If throttled (not recalculating yet), try random move as fallback
             if (!targetPos) {
-              const dirs = [
-                { x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 },
-              ];
-              const valid = dirs
-                .map(d => ({ x: agent.position.x + d.x, y: agent.position.y + d.y }))
-                .filter(p =>
-                  isValidPos(p, size) &&
-                  m[p.y] && m[p.y][p.x] && m[p.y][p.x].type !== 'obstacle',
-                );
-              if (valid.length > 0) {
-                targetPos = valid[Math.floor(Math.random() * valid.length)];
-              } else {
+              targetPos = randomNeighbor(m, agent.position, grid, wm, rng);
+              // Boxed in: wait while moving obstacles may still clear the way, else give up
+              if (!targetPos && dynamics && hasMovingObstacles(dynamics)) continue;
+              if (!targetPos) {
                 updated[i] = { ...agent, isActive: false };
                 continue;
               }
@@ -388,7 +949,7 @@ export function useMazeSimulation(config: SimulationConfig) {
         if (targetPos) {
           updated[i] = {
             ...agent,
-            position: clampPosition(targetPos, size),
+            position: clampPosition(targetPos, width, height),
             previousPosition: { ...agent.position },
             stepsTaken: agent.stepsTaken + 1,
           };
@@ -396,17 +957,24 @@ export function useMazeSimulation(config: SimulationConfig) {
       }
 
       // Collision detection
-      const collisions = checkCollisions(updated, m, size);
+      const collisions = checkCollisions(updated, m, movement, wm, rng, grid.topology);
       if (collisions.length > 0) {
         toast.info(`碰撞：智能体 ${collisions.join(', ')}`);
       }
+      warnSearchGaveUp(gaveUp);
+
+      // Changes every racing agent has seen are no longer needed
+      const oldest = Math.min(...updated.filter(a => a.isActive).map(a => a.mazeVersion ?? version));
+      mazeChangesRef.current = mazeChangesRef.current.filter(c => c.version > oldest);
 
       // Check completion
       const allDone = updated.every(a => !a.isActive);
       if (allDone) {
         setIsRunning(false);
+        // The race is over: its dynamic obstacles leave the maze
+        clearDynamics();
         const goalAgents = updated.filter(
-          a => a.position && a.position.x === goal.x && a.position.y === goal.y,
+          a => a.position && isGoal(a.position) && remainingCheckpoints(a).length === 0,
         );
         if (goalAgents.length > 0) {
           goalAgents.sort((a, b) =>
@@ -424,8 +992,12 @@ export function useMazeSimulation(config: SimulationConfig) {
               agentId: winner.id,
               wins: 1,
               averagePathLength: winner.stepsTaken,
-              averageExploredNodes: winner.exploredNodes.length,
+              averageExploredNodes:
+                winner.exploredNodes.length + (winner.backwardExploredNodes?.length ?? 0),
               averagePathfindingTime: winner.pathfindingTime || 0,
+              averagePathCost: winner.pathCost || 0,
+              averagePeakOpenSize: winner.peakOpenSize || 0,
+              averageExpansions: winner.expansions || 0,
               collisionRate: winner.collisions / steps,
             };
             if (idx >= 0) {
@@ -437,6 +1009,9 @@ export function useMazeSimulation(config: SimulationConfig) {
                 averagePathLength: (old.averagePathLength * w + newResult.averagePathLength) / (w + 1),
                 averageExploredNodes: (old.averageExploredNodes * w + newResult.averageExploredNodes) / (w + 1),
                 averagePathfindingTime: (old.averagePathfindingTime * w + newResult.averagePathfindingTime) / (w + 1),
+                averagePathCost: (old.averagePathCost * w + newResult.averagePathCost) / (w + 1),
+                averagePeakOpenSize: (old.averagePeakOpenSize * w + newResult.averagePeakOpenSize) / (w + 1),
+                averageExpansions: (old.averageExpansions * w + newResult.averageExpansions) / (w + 1),
                 collisionRate: (old.collisionRate * w + newResult.collisionRate) / (w + 1),
               };
             } else {
@@ -449,13 +1024,16 @@ export function useMazeSimulation(config: SimulationConfig) {
 
       return updated;
     });
-  }, []);
+  }, [currentDynamics, commitDynamicStep, clearDynamics]);
 
   // ── Visualization animation ──
   useEffect(() => {
     if (!isRunning || isPaused || !config.showExploration) return;
 
-    const maxNodes = Math.max(...agents.map(a => a.exploredNodes.length), 0);
+    const maxNodes = Math.max(
+      ...agents.map(a => Math.max(a.exploredNodes.length, a.backwardExploredNodes?.length ?? 0)),
+      0,
+    );
     if (maxNodes === 0) return;
 
     setIsVisualizing(true);
@@ -487,26 +1065,134 @@ export function useMazeSimulation(config: SimulationConfig) {
   }, [isRunning, isPaused, simulationTick]);
 
   // ── File parsing ──
-  const loadMazeFile = useCallback((content: string): boolean => {
+  /**
+   * Parse a maze file (text grid, exported JSON, ASCII art, numeric
+   * bitmasks, or `.maz` bytes) and show it. Wall-maze files bring their own
+   * size and switch to the thin-wall model; the returned info lets the
+   * caller sync its settings.
+   */
+  const loadMazeFile = useCallback((data: string | Uint8Array, fileName = ''): LoadedMazeInfo | null => {
     const cfg = configRef.current;
-    const parsed = parseMazeFile(content, cfg.mazeSize);
-    if (!parsed) {
-      toast.error('无效的迷宫文件：行列数不匹配或包含非法字符');
-      return false;
+    const format = typeof data === 'string' ? detectMazeFormat(fileName, data) : 'maz';
+
+    let loaded: LoadedMaze;
+    let topology: GridTopology | undefined;
+    if (typeof data === 'string' && format === 'grid') {
+      const result = parseTextMaze(data);
+      if (!result.ok) {
+        const shown = result.errors.slice(0, MAX_TOAST_ERRORS).map(formatMazeFileError);
+        if (result.errors.length > MAX_TOAST_ERRORS) shown.push(`…共 ${result.errors.length} 处错误`);
+        toast.error(`无效的迷宫文件：\n${shown.join('\n')}`);
+        return null;
+      }
+      const { maze, starts, goals } = result;
+      loaded = { kind: 'grid', maze, starts, goals };
+    } else if (typeof data === 'string' && format === 'json') {
+      const result = parseMazeDocument(data);
+      if (!result.ok) {
+        toast.error(`无效的迷宫文件：${formatMazeFileError(result.error)}`);
+        return null;
+      }
+      const { maze, wallMaze: walls, start, goal, extraGoals } = result;
+      const goals = [goal, ...extraGoals];
+      topology = result.topology;
+      loaded = walls
+        ? { kind: 'wall', maze: walls, starts: [start], goals }
+        : { kind: 'grid', maze, starts: [start], goals };
+    } else {
+      const result = typeof data !== 'string'
+        ? parseMazBinary(data)
+        : format === 'ascii' ? parseAsciiMaze(data) : parseNumericMaze(data);
+      if (!result.ok) {
+        toast.error(`无效的迷宫文件：${formatMazeFileError(result.error)}`);
+        return null;
+      }
+      loaded = { kind: 'wall', maze: result.maze, starts: [], goals: [] };
     }
-    const start = clampPosition(cfg.customStart, cfg.mazeSize);
-    parsed[start.y][start.x].type = 'start';
-    const center = getCenterPosition(cfg.mazeSize);
-    const goalPos = clampPosition(cfg.customGoal.x === 0 && cfg.customGoal.y === 0 ? center : cfg.customGoal, cfg.mazeSize);
-    parsed[goalPos.y][goalPos.x].type = 'goal';
-    setMaze(parsed);
-    mazeRef.current = parsed;
-    toast.success('迷宫文件解析成功！');
-    return true;
+
+    const width = loaded.kind === 'wall' ? loaded.maze.width : loaded.maze[0].length;
+    const height = loaded.kind === 'wall' ? loaded.maze.height : loaded.maze.length;
+    // Hex grids only exist in the cell model
+    const model = loaded.kind === 'wall' ? 'wall' : topology === 'hex' ? 'cell' : cfg.mazeModel;
+    const fileStart = loaded.starts[0];
+    const fileGoal = loaded.goals[0];
+    // Several G markers form a goal region; files without any keep the configured one
+    const extraGoals = fileGoal ? loaded.goals.slice(1) : cfg.extraGoals;
+    // Settings follow on the next render; use the file's own size, model and markers right away
+    const useCenter = width !== cfg.mazeWidth || height !== cfg.mazeHeight ||
+      (cfg.customGoal.x === 0 && cfg.customGoal.y === 0);
+    const goal = fileGoal ?? (useCenter ? getCenterPosition(width, height) : cfg.customGoal);
+    const shown = materializeFileMaze(
+      loaded,
+      {
+        ...cfg, mazeWidth: width, mazeHeight: height, mazeModel: model,
+        customStart: fileStart ?? cfg.customStart, extraGoals,
+      },
+      goal,
+    )!;
+
+    fileMazeRef.current = loaded;
+    setMaze(shown.maze);
+    setWallMaze(shown.wallMaze);
+    mazeRef.current = shown.maze;
+    wallMazeRef.current = shown.wallMaze;
+    recordHistory('file', shown, fileName || undefined, topology);
+    toast.success(`迷宫文件解析成功！（${width}×${height}）`);
+    return { width, height, model, topology, start: fileStart, goal: fileGoal, extraGoals: fileGoal && extraGoals };
+  }, [recordHistory]);
+
+  /**
+   * Drop an obstacle on a cell mid-race, or lift one dropped there before.
+   * Agents and waypoints stay clear; like every dynamic obstacle it makes a
+   * new maze version, so agents whose route it blocks replan.
+   */
+  const dropObstacle = useCallback((cell: Position) => {
+    const obstacles = currentDynamics();
+    if (!obstacles) return;
+    const occupied = occupiedBy(agentsRef.current);
+    const waypoints = configRef.current.waypoints;
+    const keepOpen = (p: Position) => occupied(p) || waypoints.some(w => w.x === p.x && w.y === p.y);
+    const step = toggleDroppedObstacle(obstacles, mazeRef.current, cell, keepOpen);
+    if (step) commitDynamicStep(step);
+  }, [currentDynamics, commitDynamicStep]);
+
+  /** Record the maze after a finished editor stroke or marker drag */
+  const recordEdit = useCallback((edited: Maze) => {
+    recordHistory('edit', { maze: edited, wallMaze: wallMazeRef.current });
+  }, [recordHistory]);
+
+  /**
+   * Show history entry `index` again. Returns the entry so the caller can
+   * sync size, model, seed and endpoints; until they match, the maze is not
+   * regenerated over.
+   */
+  const restoreHistory = useCallback((index: number): MazeHistoryEntry | null => {
+    const entry = historyRef.current.entries[index];
+    if (!entry) return null;
+    const cfg = configRef.current;
+    const settled = entry.width === cfg.mazeWidth && entry.height === cfg.mazeHeight &&
+      entry.model === cfg.mazeModel && entry.topology === cfg.gridTopology && entry.seed === cfg.seed;
+    restoreRef.current = settled ? null : entry;
+
+    const restored = decodeMaze(entry.cells, entry.width);
+    setIsRunning(false);
+    setIsPaused(false);
+    setMaze(restored);
+    setWallMaze(entry.wallMaze);
+    mazeRef.current = restored;
+    wallMazeRef.current = entry.wallMaze;
+    setAgents([]);
+    setCompetitionResults([]);
+    setHistory(h => ({ ...h, index }));
+    return entry;
   }, []);
 
+  const undo = useCallback(() => restoreHistory(historyRef.current.index - 1), [restoreHistory]);
+  const redo = useCallback(() => restoreHistory(historyRef.current.index + 1), [restoreHistory]);
+
   return {
     maze,
+    wallMaze,
     agents,
     isRunning,
     isPaused,
@@ -520,5 +1206,12 @@ export function useMazeSimulation(config: SimulationConfig) {
     resetExperiment,
     loadMazeFile,
     setMaze,
+    mazeVersion,
+    dropObstacle,
+    history,
+    recordEdit,
+    restoreHistory,
+    undo,
+    redo,
   };
 }
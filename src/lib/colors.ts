@@ -0,0 +1,27 @@
+/** Maze palette shared by the canvas renderer and the SVG export; `dark*` keys are the dark-theme variants */
+export const MAZE_COLORS = {
+  empty: '#ffffff',
+  obstacle: '#374151',
+  start: '#22c55e',
+  goal: '#ef4444',
+  ramp: '#fde68a',
+  sand: '#f5d0a9',
+  mud: '#a16207',
+  darkRamp: '#78716c',
+  darkSand: '#92400e',
+  darkMud: '#451a03',
+  border: '#d1d5db',
+  darkEmpty: '#1f2937',
+  darkObstacle: '#111827',
+  darkBorder: '#4b5563',
+  legendBg: 'rgba(255,255,255,0.85)',
+  darkLegendBg: 'rgba(31,41,55,0.85)',
+  legendText: '#374151',
+  darkLegendText: '#e5e7eb',
+  fog: 'rgba(24,24,27,0.55)',
+  darkFog: 'rgba(0,0,0,0.6)',
+  wall: '#1f2937',
+  darkWall: '#e5e7eb',
+  preview: '#6366f1',
+  waypoint: '#f59e0b',
+};
@@ -0,0 +1,216 @@
+import type { CellType, DynamicObstacleSettings, Maze, Position, Rng } from '../types';
+import { PATROL_ROUTE_LENGTH, PATROL_STEP_TICKS } from '../types';
+import type { NeighborProvider } from '../algorithms/movement';
+import { randomChoice, randomInt } from '../algorithms';
+
+/*
+ * Obstacles that change during a race: cells toggling on a timer, blocks
+ * patrolling a short route, and obstacles dropped by clicking. Every step
+ * returns the new maze (untouched rows shared, as in the editor) and the
+ * cells that changed, which the simulation turns into a new maze version.
+ */
+
+/** A cell blocked for `period` ticks, open for the next `period`, and so on */
+interface ToggleObstacle {
+  cell: Position;
+  /** Cell type while open */
+  base: CellType;
+  period: number;
+  phase: number;
+}
+
+/** A block walking back and forth along `route`, one cell every `PATROL_STEP_TICKS` */
+interface PatrolObstacle {
+  route: Position[];
+  /** Cell types of the route while the block is elsewhere */
+  bases: CellType[];
+  index: number;
+  direction: 1 | -1;
+}
+
+export interface DynamicObstacles {
+  toggles: ToggleObstacle[];
+  patrols: PatrolObstacle[];
+  /** Obstacles dropped by clicking, by `y * width + x`, with the cell type they cover */
+  drops: Map<number, CellType>;
+}
+
+/** Outcome of a dynamic-obstacle event; `changed` is empty when nothing moved */
+export interface DynamicObstacleStep {
+  obstacles: DynamicObstacles;
+  maze: Maze;
+  changed: Position[];
+}
+
+/** Cells dynamic obstacles may use: passable, not a start or goal, not in `taken` */
+function isFreeCell(maze: Maze, p: Position, taken: Set<number>): boolean {
+  const type = maze[p.y]?.[p.x]?.type;
+  const width = maze[0].length;
+  return type !== undefined && type !== 'obstacle' && type !== 'start' && type !== 'goal' &&
+    !taken.has(p.y * width + p.x);
+}
+
+/**
+ * Pick the toggling cells and patrol routes of a race. `reserved` cells
+ * (agent starts, waypoints…) are never used; routes follow `neighbors`, so
+ * a patrol only steps where an agent could.
+ */
+export function createDynamicObstacles(
+  maze: Maze,
+  settings: DynamicObstacleSettings,
+  neighbors: NeighborProvider,
+  reserved: readonly Position[],
+  rng: Rng,
+): DynamicObstacles {
+  const width = maze[0].length;
+  const taken = new Set(reserved.map(p => p.y * width + p.x));
+  const free: Position[] = [];
+  for (let y = 0; y < maze.length; y++) {
+    for (let x = 0; x < width; x++) if (isFreeCell(maze, { x, y }, taken)) free.push({ x, y });
+  }
+  // Partial Fisher–Yates: the first k entries become a random sample
+  const sample = (k: number) => {
+    for (let i = 0; i < Math.min(k, free.length); i++) {
+      const j = i + randomInt(rng, free.length - i);
+      [free[i], free[j]] = [free[j], free[i]];
+    }
+  };
+
+  const patrols: PatrolObstacle[] = [];
+  sample(settings.patrols * 4);
+  for (const start of free.slice(0, settings.patrols * 4)) {
+    if (patrols.length >= settings.patrols) break;
+    if (taken.has(start.y * width + start.x)) continue;
+    const route = [start];
+    const used = new Set([start.y * width + start.x]);
+    while (route.length < PATROL_ROUTE_LENGTH) {
+      const options = neighbors(maze, route[route.length - 1])
+        .map(n => n.position)
+        .filter(p => isFreeCell(maze, p, taken) && !used.has(p.y * width + p.x));
+      const next = randomChoice(rng, options);
+      if (!next) break;
+      route.push(next);
+      used.add(next.y * width + next.x);
+    }
+    if (route.length < 2) continue;
+    for (const key of used) taken.add(key);
+    patrols.push({ route, bases: route.map(p => maze[p.y][p.x].type), index: 0, direction: 1 });
+  }
+
+  const toggles: ToggleObstacle[] = [];
+  const rest = free.filter(p => !taken.has(p.y * width + p.x));
+  for (let i = 0; i < settings.toggles && rest.length > 0; i++) {
+    const [cell] = rest.splice(randomInt(rng, rest.length), 1);
+    const period = settings.period + randomInt(rng, settings.period + 1);
+    toggles.push({ cell, base: maze[cell.y][cell.x].type, period, phase: randomInt(rng, 2 * period) });
+  }
+  return { toggles, patrols, drops: new Map() };
+}
+
+/** Applies cell changes copy-on-write, recording the cells that really changed */
+function mazeWriter(maze: Maze) {
+  const next = [...maze];
+  const changed: Position[] = [];
+  return {
+    /** The edited maze, or the original one when nothing changed */
+    get maze() {
+      return changed.length > 0 ? next : maze;
+    },
+    changed,
+    type: (p: Position) => next[p.y][p.x].type,
+    set: (p: Position, type: CellType) => {
+      if (next[p.y][p.x].type === type) return;
+      if (next[p.y] === maze[p.y]) next[p.y] = maze[p.y].map(c => ({ ...c }));
+      next[p.y][p.x] = { type };
+      changed.push(p);
+    },
+  };
+}
+
+/**
+ * Advance toggles and patrols to `tick`. A toggle blocks its cell during the
+ * odd periods of its schedule; a patrol steps every `PATROL_STEP_TICKS`,
+ * turning at the ends of its route. Neither moves onto a `keepOpen` cell
+ * (an agent); they wait for it to leave.
+ */
+export function stepDynamicObstacles(
+  obstacles: DynamicObstacles,
+  maze: Maze,
+  tick: number,
+  keepOpen: (p: Position) => boolean,
+): DynamicObstacleStep {
+  const writer = mazeWriter(maze);
+
+  for (const t of obstacles.toggles) {
+    const blocked = Math.floor((tick + t.phase) / t.period) % 2 === 1;
+    if (!blocked) writer.set(t.cell, t.base);
+    else if (!keepOpen(t.cell)) writer.set(t.cell, 'obstacle');
+  }
+
+  const patrols = obstacles.patrols.map(patrol => {
+    const { route, bases } = patrol;
+    let { index, direction } = patrol;
+    if (writer.type(route[index]) !== 'obstacle') {
+      // Not placed yet, or waiting for an agent to leave its cell
+      if (!keepOpen(route[index])) writer.set(route[index], 'obstacle');
+      return patrol;
+    }
+    if (tick % PATROL_STEP_TICKS !== 0) return patrol;
+    if (index + direction < 0 || index + direction >= route.length) direction = direction === 1 ? -1 : 1;
+    const next = index + direction;
+    if (keepOpen(route[next])) return { ...patrol, direction };
+    writer.set(route[index], bases[index]);
+    writer.set(route[next], 'obstacle');
+    index = next;
+    return { ...patrol, index, direction };
+  });
+
+  return { obstacles: { ...obstacles, patrols }, maze: writer.maze, changed: writer.changed };
+}
+
+/**
+ * Drop an obstacle on `cell`, or lift one dropped there before. Null when
+ * the cell cannot take one: a wall, start or goal, a `keepOpen` cell (agents,
+ * waypoints), or a cell that a toggle or patrol uses.
+ */
+export function toggleDroppedObstacle(
+  obstacles: DynamicObstacles,
+  maze: Maze,
+  cell: Position,
+  keepOpen: (p: Position) => boolean,
+): DynamicObstacleStep | null {
+  const width = maze[0].length;
+  const key = cell.y * width + cell.x;
+  const writer = mazeWriter(maze);
+  const drops = new Map(obstacles.drops);
+  const base = drops.get(key);
+  if (base !== undefined) {
+    drops.delete(key);
+    writer.set(cell, base);
+    return { obstacles: { ...obstacles, drops }, maze: writer.maze, changed: writer.changed };
+  }
+
+  const dynamic = new Set([
+    ...obstacles.toggles.map(t => t.cell.y * width + t.cell.x),
+    ...obstacles.patrols.flatMap(p => p.route.map(r => r.y * width + r.x)),
+  ]);
+  if (!isFreeCell(maze, cell, dynamic) || keepOpen(cell)) return null;
+  drops.set(key, maze[cell.y][cell.x].type);
+  writer.set(cell, 'obstacle');
+  return { obstacles: { ...obstacles, drops }, maze: writer.maze, changed: writer.changed };
+}
+
+/** The maze with every dynamic obstacle taken away again (the cells' own types restored) */
+export function clearDynamicObstacles(obstacles: DynamicObstacles, maze: Maze): Maze {
+  const writer = mazeWriter(maze);
+  const width = maze[0].length;
+  for (const t of obstacles.toggles) writer.set(t.cell, t.base);
+  for (const p of obstacles.patrols) p.route.forEach((cell, i) => writer.set(cell, p.bases[i]));
+  for (const [key, base] of obstacles.drops) writer.set({ x: key % width, y: Math.floor(key / width) }, base);
+  return writer.maze;
+}
+
+/** Whether any obstacle still moves on its own (drops stay where they are) */
+export function hasMovingObstacles(obstacles: DynamicObstacles): boolean {
+  return obstacles.toggles.length > 0 || obstacles.patrols.length > 0;
+}
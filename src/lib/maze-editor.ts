@@ -0,0 +1,135 @@
+import type { EditorTool, Maze, PaintType, Position } from '../types';
+
+/*
+ * Pure helpers behind the maze editor. Edits return a new maze that shares
+ * the untouched rows with the old one, so React sees a change while large
+ * mazes are not copied wholesale on every pointer move.
+ */
+
+/** Cells on the straight line a→b (Bresenham), both ends included */
+export function lineCells(a: Position, b: Position): Position[] {
+  const cells: Position[] = [];
+  const dx = Math.abs(b.x - a.x);
+  const dy = -Math.abs(b.y - a.y);
+  const sx = a.x < b.x ? 1 : -1;
+  const sy = a.y < b.y ? 1 : -1;
+  let err = dx + dy;
+  let { x, y } = a;
+  while (true) {
+    cells.push({ x, y });
+    if (x === b.x && y === b.y) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y += sy;
+    }
+  }
+  return cells;
+}
+
+/** Cells of the rectangle spanned by corners a and b: its outline, or all of it when `filled` */
+export function rectCells(a: Position, b: Position, filled: boolean): Position[] {
+  const x0 = Math.min(a.x, b.x);
+  const x1 = Math.max(a.x, b.x);
+  const y0 = Math.min(a.y, b.y);
+  const y1 = Math.max(a.y, b.y);
+  const cells: Position[] = [];
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      if (filled || y === y0 || y === y1 || x === x0 || x === x1) cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+/** Cells a shape tool covers between the drag anchor and the pointer */
+export function shapeCells(tool: EditorTool, anchor: Position, end: Position): Position[] {
+  if (tool === 'rect' || tool === 'fill') return rectCells(anchor, end, tool === 'fill');
+  return lineCells(anchor, end);
+}
+
+/**
+ * Widen `cells` to a `size`×`size` brush (centred, rounding towards the top
+ * left for even sizes), dropping duplicates and cells outside the maze.
+ */
+export function brushCells(cells: Position[], size: number, width: number, height: number): Position[] {
+  const offset = Math.floor((size - 1) / 2);
+  const seen = new Set<number>();
+  const result: Position[] = [];
+  for (const c of cells) {
+    for (let dy = 0; dy < size; dy++) {
+      for (let dx = 0; dx < size; dx++) {
+        const x = c.x - offset + dx;
+        const y = c.y - offset + dy;
+        if (x < 0 || x >= width || y < 0 || y >= height || seen.has(y * width + x)) continue;
+        seen.add(y * width + x);
+        result.push({ x, y });
+      }
+    }
+  }
+  return result;
+}
+
+/** Paint `cells` with `type`; start and goal cells are never painted over */
+export function paintCells(maze: Maze, cells: Position[], type: PaintType): Maze {
+  const next = [...maze];
+  const copied = new Set<number>();
+  for (const { x, y } of cells) {
+    const cell = maze[y]?.[x];
+    if (!cell || cell.type === 'start' || cell.type === 'goal' || cell.type === type) continue;
+    if (!copied.has(y)) {
+      next[y] = maze[y].map(c => ({ ...c }));
+      copied.add(y);
+    }
+    next[y][x] = { type };
+  }
+  return copied.size > 0 ? next : maze;
+}
+
+/** First cell marked `type`, or null */
+export function findMarker(maze: Maze, type: 'start' | 'goal'): Position | null {
+  for (let y = 0; y < maze.length; y++) {
+    for (let x = 0; x < maze[y].length; x++) {
+      if (maze[y][x].type === type) return { x, y };
+    }
+  }
+  return null;
+}
+
+/** Every cell marked `type` (all cells of a goal region), row by row */
+export function findMarkers(maze: Maze, type: 'start' | 'goal'): Position[] {
+  const found: Position[] = [];
+  for (let y = 0; y < maze.length; y++) {
+    for (let x = 0; x < maze[y].length; x++) {
+      if (maze[y][x].type === type) found.push({ x, y });
+    }
+  }
+  return found;
+}
+
+/**
+ * Move the start or goal marker to `to`, leaving an empty cell behind.
+ * `from` picks which marker moves (one cell of a goal region); by default
+ * the first. Refuses (returns the maze unchanged) to land on another marker.
+ */
+export function moveMarker(
+  maze: Maze,
+  type: 'start' | 'goal',
+  to: Position,
+  from: Position | null = findMarker(maze, type),
+): Maze {
+  const target = maze[to.y]?.[to.x];
+  if (!target || target.type === 'start' || target.type === 'goal') return maze;
+  const next = [...maze];
+  if (from) {
+    next[from.y] = maze[from.y].map(c => ({ ...c }));
+    next[from.y][from.x] = { type: 'empty' };
+  }
+  if (next[to.y] === maze[to.y]) next[to.y] = maze[to.y].map(c => ({ ...c }));
+  next[to.y][to.x] = { type };
+  return next;
+}
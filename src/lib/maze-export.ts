@@ -0,0 +1,142 @@
+import type { Agent, CellType, GridTopology, Maze, WallMaze } from '../types';
+import { WALL_NORTH, WALL_WEST, hasWall } from '../algorithms';
+import { MAZE_COLORS } from './colors';
+
+/** Light-theme fill per cell type; cells not listed are drawn as empty */
+const SVG_FILLS: Partial<Record<CellType, string>> = {
+  obstacle: MAZE_COLORS.obstacle,
+  start: MAZE_COLORS.start,
+  goal: MAZE_COLORS.goal,
+  ramp: MAZE_COLORS.ramp,
+  sand: MAZE_COLORS.sand,
+  mud: MAZE_COLORS.mud,
+};
+
+export interface MazeSvgOptions {
+  wallMaze?: WallMaze | null;
+  agents?: Agent[];
+  /** Hex grids draw pointy-top hexagons, odd rows shifted right by half a cell, as `MazeGrid` does */
+  topology?: GridTopology;
+  /** Side of one cell in SVG units (the width of a hexagon on hex grids) */
+  cellSize?: number;
+}
+
+const SQRT3 = Math.sqrt(3);
+
+/** Coordinates rounded to 0.01, which keeps hexagon outlines short */
+function round(v: number): number {
+  return Math.round(v * 100) / 100;
+}
+
+/**
+ * Vector drawing of the maze for reports: cells, thin walls, and each
+ * agent's planned path and current position. Always uses the light palette.
+ */
+export function renderMazeSvg(maze: Maze, options: MazeSvgOptions = {}): string {
+  const { wallMaze = null, agents = [], topology = 'square', cellSize = 20 } = options;
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  const hex = topology === 'hex';
+  // Hexagons of circumradius cellSize / √3: rows 1.5 radii apart, odd rows half a cell to the right
+  const radius = cellSize / SQRT3;
+  const w = hex ? round(cellSize * (width + 0.5)) : width * cellSize;
+  const h = hex ? round(radius * (1.5 * height + 0.5)) : height * cellSize;
+  const center = (x: number, y: number) => (hex
+    ? { cx: round(cellSize * (x + 0.5 + (y & 1) / 2)), cy: round(radius * (1 + 1.5 * y)) }
+    : { cx: (x + 0.5) * cellSize, cy: (y + 0.5) * cellSize });
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`,
+    `<rect width="${w}" height="${h}" fill="${MAZE_COLORS.empty}"/>`,
+  ];
+
+  if (hex) {
+    // Corner k of a hexagon sits at 60k + 30°, clockwise from east (SVG y points down)
+    const hexagon = (x: number, y: number) => {
+      const { cx, cy } = center(x, y);
+      const corners = Array.from({ length: 6 }, (_, k) => {
+        const angle = (Math.PI / 3) * k + Math.PI / 6;
+        return `${round(cx + radius * Math.cos(angle))} ${round(cy + radius * Math.sin(angle))}`;
+      });
+      return `M${corners.join('L')}Z`;
+    };
+    const outlines: string[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const fill = SVG_FILLS[maze[y][x].type];
+        if (fill) parts.push(`<path d="${hexagon(x, y)}" fill="${fill}"/>`);
+        outlines.push(hexagon(x, y));
+      }
+    }
+    parts.push(`<path d="${outlines.join('')}" stroke="${MAZE_COLORS.border}" stroke-width="0.5" fill="none"/>`);
+  } else {
+    // Runs of equal cells in a row become one rect, which keeps large mazes small
+    for (let y = 0; y < height; y++) {
+      let x = 0;
+      while (x < width) {
+        const fill = SVG_FILLS[maze[y][x].type];
+        let end = x + 1;
+        while (end < width && SVG_FILLS[maze[y][end].type] === fill) end++;
+        if (fill) {
+          parts.push(
+            `<rect x="${x * cellSize}" y="${y * cellSize}" width="${(end - x) * cellSize}" height="${cellSize}" fill="${fill}"/>`,
+          );
+        }
+        x = end;
+      }
+    }
+
+    // Grid lines
+    const grid: string[] = [];
+    for (let x = 0; x <= width; x++) grid.push(`M${x * cellSize} 0V${h}`);
+    for (let y = 0; y <= height; y++) grid.push(`M0 ${y * cellSize}H${w}`);
+    parts.push(`<path d="${grid.join('')}" stroke="${MAZE_COLORS.border}" stroke-width="0.5" fill="none"/>`);
+  }
+
+  // Thin walls only exist on square grids
+  if (wallMaze && !hex) {
+    const walls: string[] = [];
+    for (let y = 0; y < wallMaze.height; y++) {
+      for (let x = 0; x < wallMaze.width; x++) {
+        const px = x * cellSize;
+        const py = y * cellSize;
+        if (hasWall(wallMaze, { x, y }, WALL_NORTH)) walls.push(`M${px} ${py}h${cellSize}`);
+        if (hasWall(wallMaze, { x, y }, WALL_WEST)) walls.push(`M${px} ${py}v${cellSize}`);
+      }
+    }
+    // East and south boundary
+    walls.push(`M${w} 0V${h}M0 ${h}H${w}`);
+    parts.push(
+      `<path d="${walls.join('')}" stroke="${MAZE_COLORS.wall}" stroke-width="${Math.max(1, cellSize / 8)}" stroke-linecap="square" fill="none"/>`,
+    );
+  }
+
+  for (const agent of agents) {
+    if (agent.path.length > 1) {
+      const points = agent.path.map(p => {
+        const { cx, cy } = center(p.x, p.y);
+        return `${cx},${cy}`;
+      }).join(' ');
+      parts.push(
+        `<polyline points="${points}" fill="none" stroke="${agent.color}" stroke-width="${Math.max(1, cellSize / 6)}" stroke-linejoin="round" stroke-linecap="round" opacity="0.85"/>`,
+      );
+    }
+    const { cx, cy } = center(agent.position.x, agent.position.y);
+    parts.push(
+      `<circle cx="${cx}" cy="${cy}" r="${cellSize * 0.35}" fill="${agent.color}" stroke="#ffffff" stroke-width="1"/>`,
+    );
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+/** Save `data` through a temporary download link */
+export function downloadFile(data: Blob, fileName: string) {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,103 @@
+import type {
+  CellType, GridTopology, Maze, MazeHistory, MazeHistoryEntry, MazeHistorySource, Position, WallMaze,
+} from '../types';
+import { MAX_MAZE_HISTORY } from '../types';
+import { findMarker, findMarkers } from './maze-editor';
+
+/** Byte code of each cell type in `MazeHistoryEntry.cells` (index = code) */
+const CELL_CODES: CellType[] = [
+  'empty', 'obstacle', 'ramp', 'sand', 'mud', 'start', 'goal', 'explored', 'final-path',
+];
+const CODE_OF = new Map(CELL_CODES.map((type, code) => [type, code]));
+
+/** Pack the cell types row-major, one byte per cell */
+export function encodeMaze(maze: Maze): Uint8Array {
+  const width = maze[0]?.length ?? 0;
+  const cells = new Uint8Array(maze.length * width);
+  for (let y = 0; y < maze.length; y++) {
+    for (let x = 0; x < width; x++) cells[y * width + x] = CODE_OF.get(maze[y][x].type) ?? 0;
+  }
+  return cells;
+}
+
+/** Inverse of `encodeMaze` */
+export function decodeMaze(cells: Uint8Array, width: number): Maze {
+  const maze: Maze = [];
+  for (let start = 0; start < cells.length; start += width) {
+    maze.push(Array.from(cells.subarray(start, start + width), code => ({ type: CELL_CODES[code] })));
+  }
+  return maze;
+}
+
+/** Settings a history entry falls back on for what the maze itself does not say */
+export interface HistorySettings {
+  customStart: Position;
+  customGoal: Position;
+  gridTopology: GridTopology;
+  seed: number;
+}
+
+/**
+ * Entry for a shown maze, endpoints read from its markers (the configured
+ * goal leads the goal region when it is still marked). `topology` is the grid
+ * the maze is shown on when it differs from the settings, e.g. a loaded file's.
+ */
+export function createHistoryEntry(
+  id: number,
+  source: MazeHistorySource,
+  shown: { maze: Maze; wallMaze: WallMaze | null },
+  settings: HistorySettings,
+  detail?: string,
+  topology = settings.gridTopology,
+): MazeHistoryEntry {
+  const marked = findMarkers(shown.maze, 'goal');
+  const goal = marked.find(g => g.x === settings.customGoal.x && g.y === settings.customGoal.y) ??
+    marked[0] ?? settings.customGoal;
+  return {
+    id,
+    source,
+    detail,
+    width: shown.maze[0].length,
+    height: shown.maze.length,
+    model: shown.wallMaze ? 'wall' : 'cell',
+    topology: shown.wallMaze ? 'square' : topology,
+    seed: settings.seed,
+    start: findMarker(shown.maze, 'start') ?? settings.customStart,
+    goal,
+    extraGoals: marked.filter(g => g !== goal),
+    cells: encodeMaze(shown.maze),
+    wallMaze: shown.wallMaze,
+    time: Date.now(),
+  };
+}
+
+/** Same maze shown the same way: cells, walls, size, model and topology */
+function sameMaze(a: MazeHistoryEntry, b: MazeHistoryEntry): boolean {
+  if (a.width !== b.width || a.height !== b.height || a.model !== b.model || a.topology !== b.topology) return false;
+  if (!sameBytes(a.cells, b.cells)) return false;
+  if (!a.wallMaze || !b.wallMaze) return a.wallMaze === b.wallMaze;
+  return sameBytes(a.wallMaze.walls, b.wallMaze.walls);
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+/**
+ * Record `entry` as the current state: anything after the current index
+ * (the redo tail) is dropped, and the oldest entries go beyond `limit`.
+ * A maze identical to the current entry is not recorded twice.
+ */
+export function pushHistory(
+  history: MazeHistory,
+  entry: MazeHistoryEntry,
+  limit = MAX_MAZE_HISTORY,
+): MazeHistory {
+  const current = history.entries[history.index];
+  if (current && sameMaze(current, entry)) return history;
+  const entries = [...history.entries.slice(0, history.index + 1), entry];
+  const overflow = Math.max(0, entries.length - limit);
+  return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+}
@@ -0,0 +1,290 @@
+import type {
+  DynamicObstacleSettings, HeuristicType, Maze, MazeGeneratorType, MazeModel, MazeSize, MissionMode, MovementModel, PathfindingAlgorithm,
+  Position, SharedConfig, TieBreaking, WallMaze,
+} from '../types';
+import {
+  DEFAULT_MAZE_SIZE, GRID_TOPOLOGY_LABELS, MAX_AGENTS, MAX_DYNAMIC_PATROLS, MAX_DYNAMIC_PERIOD, MAX_DYNAMIC_TOGGLES,
+  MAX_HEURISTIC_WEIGHT, MAX_MAZE_SIZE, MAX_WAYPOINTS, MAZE_GENERATOR_LABELS, MIN_DYNAMIC_PERIOD, MIN_MAZE_SIZE,
+  MISSION_MODE_LABELS, TIE_BREAKING_LABELS,
+} from '../types';
+import { MAX_SEED, WALL_EAST, WALL_SOUTH, createWallMaze, setWall } from '../algorithms';
+
+/*
+ * Scenario links: the simulation settings as readable query parameters
+ * (`?width=30&height=20&rate=0.3&algos=bfs,astar&seed=42…`, a goal region as
+ * `goals=8,7;7,8;8,8`, mission waypoints as `wps=2,3;9,1&mission=any-order`,
+ * dynamic obstacles as `dyn=toggles,patrols,period`), plus optionally the maze
+ * itself bit-packed into `maze=`, for mazes the seed cannot reproduce
+ * (edited or imported ones). Unknown or out-of-range values are ignored, so
+ * a hand-edited link falls back to the defaults instead of breaking the page.
+ */
+
+export interface SharedScenario {
+  config: Partial<SharedConfig>;
+  maze?: { maze: Maze; wallMaze: WallMaze | null };
+}
+
+const ALGORITHMS: Record<PathfindingAlgorithm, true> = {
+  'bfs': true, 'astar': true, 'dijkstra': true, 'jps': true, 'bidirectional-bfs': true,
+  'bidirectional-astar': true, 'idastar': true, 'dstar-lite': true, 'floodfill': true,
+};
+const HEURISTICS: Record<HeuristicType | 'auto', true> = {
+  auto: true, manhattan: true, euclidean: true, diagonal: true, hex: true,
+};
+const MOVEMENTS: Record<MovementModel, true> = {
+  '4-connected': true, '8-no-corner-cutting': true, '8-corner-cutting': true,
+};
+const MODELS: Record<MazeModel, true> = { cell: true, wall: true };
+
+/** Longest goal region a link may carry */
+const MAX_EXTRA_GOALS = 64;
+
+/** Cell codes of the packed cell bitmap; start/goal are carried by `start=` / `goal=` */
+const CELL_CODES = ['empty', 'obstacle', 'ramp', 'sand', 'mud'] as const;
+
+/** Whether `raw` names one of `allowed`'s own keys (not an inherited one such as `toString`) */
+function isKeyOf<T extends string>(raw: string, allowed: Record<T, unknown>): raw is T {
+  return Object.prototype.hasOwnProperty.call(allowed, raw);
+}
+
+export function encodeScenario(config: SharedConfig, maze?: SharedScenario['maze']): URLSearchParams {
+  const p = new URLSearchParams();
+  p.set('width', `${config.mazeWidth}`);
+  p.set('height', `${config.mazeHeight}`);
+  p.set('model', config.mazeModel);
+  p.set('grid', config.gridTopology);
+  p.set('gen', config.mazeGenerator);
+  p.set('rate', `${config.obstacleRate}`);
+  p.set('terrain', `${config.terrainRate}`);
+  p.set('braid', `${config.braidFactor}`);
+  p.set('loops', `${config.loopRate}`);
+  p.set('move', config.movementModel);
+  p.set('agents', `${config.agentCount}`);
+  p.set('algo', config.selectedAlgorithm);
+  p.set('h', config.selectedHeuristic);
+  p.set('tie', config.selectedTieBreaking);
+  p.set('w', `${config.selectedWeight}`);
+  p.set('algos', config.agentAlgorithms.join(','));
+  p.set('hs', config.agentHeuristics.join(','));
+  p.set('ties', config.agentTieBreaking.join(','));
+  p.set('ws', config.agentWeights.join(','));
+  p.set('same', config.useSameStart ? '1' : '0');
+  p.set('fog', config.fogOfWar ? '1' : '0');
+  p.set('full', config.compareFullReplans ? '1' : '0');
+  p.set('explore', config.showExploration ? '1' : '0');
+  p.set('path', config.showPath ? '1' : '0');
+  p.set('speed', `${config.visualizationSpeed}`);
+  p.set('start', `${config.customStart.x},${config.customStart.y}`);
+  p.set('goal', `${config.customGoal.x},${config.customGoal.y}`);
+  if (config.extraGoals.length > 0) p.set('goals', config.extraGoals.map(g => `${g.x},${g.y}`).join(';'));
+  if (config.waypoints.length > 0) {
+    p.set('wps', config.waypoints.map(w => `${w.x},${w.y}`).join(';'));
+    p.set('mission', config.missionMode);
+  }
+  const { toggles, patrols, period } = config.dynamicObstacles;
+  if (toggles > 0 || patrols > 0) p.set('dyn', `${toggles},${patrols},${period}`);
+  p.set('seed', `${config.seed}`);
+  if (maze) p.set('maze', encodeMazeBitmap(maze.maze, maze.wallMaze));
+  return p;
+}
+
+export function decodeScenario(params: URLSearchParams): SharedScenario {
+  const config: Partial<SharedConfig> = {};
+  const num = (key: string, min: number, max: number, integer = false) => {
+    const raw = params.get(key);
+    if (raw === null || raw.trim() === '') return undefined;
+    const v = Number(raw);
+    return Number.isFinite(v) && v >= min && v <= max && (!integer || Number.isInteger(v)) ? v : undefined;
+  };
+  const oneOf = <T extends string>(key: string, allowed: Record<T, unknown>) => {
+    const raw = params.get(key);
+    return raw !== null && isKeyOf(raw, allowed) ? raw : undefined;
+  };
+  const flag = (key: string) => {
+    const raw = params.get(key);
+    return raw === '1' ? true : raw === '0' ? false : undefined;
+  };
+  const list = <T>(key: string, parse: (s: string) => T | undefined) => {
+    const raw = params.get(key);
+    if (!raw) return undefined;
+    const items = raw.split(',').map(parse);
+    return items.every(v => v !== undefined) && items.length <= MAX_AGENTS ? items as T[] : undefined;
+  };
+  const parsePosition = (raw: string, width: number, height: number) => {
+    const m = /^(\d+),(\d+)$/.exec(raw);
+    if (!m) return undefined;
+    const pos = { x: Number(m[1]), y: Number(m[2]) };
+    return pos.x < width && pos.y < height ? pos : undefined;
+  };
+  const position = (key: string, width: number, height: number) =>
+    parsePosition(params.get(key) ?? '', width, height);
+  const positions = (key: string, width: number, height: number, max: number) => {
+    const raw = params.get(key);
+    if (!raw) return undefined;
+    const items = raw.split(';').map(s => parsePosition(s, width, height));
+    return items.every(v => v !== undefined) && items.length <= max ? items as Position[] : undefined;
+  };
+  const dynamic = (): DynamicObstacleSettings | undefined => {
+    const m = /^(\d+),(\d+),(\d+)$/.exec(params.get('dyn') ?? '');
+    if (!m) return undefined;
+    const [toggles, patrols, period] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    return toggles <= MAX_DYNAMIC_TOGGLES && patrols <= MAX_DYNAMIC_PATROLS &&
+      period >= MIN_DYNAMIC_PERIOD && period <= MAX_DYNAMIC_PERIOD
+      ? { toggles, patrols, period }
+      : undefined;
+  };
+  const weight = (s: string) => {
+    const v = Number(s);
+    return Number.isFinite(v) && v >= 1 && v <= MAX_HEURISTIC_WEIGHT ? v : undefined;
+  };
+
+  // `size` sets both sides of a square maze; `width` / `height` override it
+  const size = num('size', MIN_MAZE_SIZE, MAX_MAZE_SIZE, true);
+  config.mazeWidth = num('width', MIN_MAZE_SIZE, MAX_MAZE_SIZE, true) ?? size;
+  config.mazeHeight = num('height', MIN_MAZE_SIZE, MAX_MAZE_SIZE, true) ?? size;
+  config.mazeModel = oneOf('model', MODELS);
+  config.gridTopology = oneOf('grid', GRID_TOPOLOGY_LABELS);
+  config.mazeGenerator = oneOf<MazeGeneratorType>('gen', MAZE_GENERATOR_LABELS);
+  config.obstacleRate = num('rate', 0, 1);
+  config.terrainRate = num('terrain', 0, 1);
+  config.braidFactor = num('braid', 0, 1);
+  config.loopRate = num('loops', 0, 1);
+  config.movementModel = oneOf('move', MOVEMENTS);
+  config.agentCount = num('agents', 1, MAX_AGENTS, true);
+  config.selectedAlgorithm = oneOf('algo', ALGORITHMS);
+  config.selectedHeuristic = oneOf('h', HEURISTICS);
+  config.selectedTieBreaking = oneOf<TieBreaking>('tie', TIE_BREAKING_LABELS);
+  config.selectedWeight = num('w', 1, MAX_HEURISTIC_WEIGHT);
+  config.agentAlgorithms = list('algos', s => isKeyOf(s, ALGORITHMS) ? s : undefined);
+  config.agentHeuristics = list('hs', s => isKeyOf(s, HEURISTICS) ? s : undefined);
+  config.agentTieBreaking = list('ties', s => isKeyOf(s, TIE_BREAKING_LABELS) ? s : undefined);
+  config.agentWeights = list('ws', weight);
+  config.useSameStart = flag('same');
+  config.fogOfWar = flag('fog');
+  config.compareFullReplans = flag('full');
+  config.showExploration = flag('explore');
+  config.showPath = flag('path');
+  config.visualizationSpeed = num('speed', 1, 10_000, true);
+  config.dynamicObstacles = dynamic();
+  config.seed = num('seed', 0, MAX_SEED, true);
+
+  // Without a size the page keeps its default one
+  const width = config.mazeWidth ?? DEFAULT_MAZE_SIZE;
+  const height = config.mazeHeight ?? DEFAULT_MAZE_SIZE;
+  config.customStart = position('start', width, height);
+  config.customGoal = position('goal', width, height);
+  config.extraGoals = positions('goals', width, height, MAX_EXTRA_GOALS);
+  config.waypoints = positions('wps', width, height, MAX_WAYPOINTS);
+  config.missionMode = oneOf<MissionMode>('mission', MISSION_MODE_LABELS);
+  for (const key of Object.keys(config) as (keyof SharedConfig)[]) {
+    if (config[key] === undefined) delete config[key];
+  }
+
+  const scenario: SharedScenario = { config };
+  const bitmap = params.get('maze');
+  if (bitmap && config.mazeWidth !== undefined && config.mazeHeight !== undefined) {
+    const size = { width: config.mazeWidth, height: config.mazeHeight };
+    const maze = decodeMazeBitmap(bitmap, size, config.customStart, config.customGoal);
+    // A wall bitmap under `model=cell` (or the reverse) was not made by `encodeScenario`
+    const model = maze?.wallMaze ? 'wall' : 'cell';
+    if (maze && (config.mazeModel === undefined || config.mazeModel === model)) scenario.maze = maze;
+  }
+  return scenario;
+}
+
+/**
+ * Maze as `<kind><bits>.<base64url>`: `c1` / `c3` cell codes at 1 bit
+ * (obstacles only) or 3 bits (with terrain) per cell, `w2` the east and
+ * south wall of every cell (the other two are the neighbours' east/south).
+ */
+export function encodeMazeBitmap(maze: Maze, wallMaze: WallMaze | null): string {
+  if (wallMaze) {
+    const values = Array.from(wallMaze.walls, bits => ((bits & WALL_EAST) ? 1 : 0) | ((bits & WALL_SOUTH) ? 2 : 0));
+    return `w2.${toBase64Url(packBits(values, 2))}`;
+  }
+  const codes = maze.flat().map(cell => Math.max(0, CELL_CODES.indexOf(cell.type as typeof CELL_CODES[number])));
+  const bits = codes.some(c => c > 1) ? 3 : 1;
+  return `c${bits}.${toBase64Url(packBits(codes, bits))}`;
+}
+
+/** Inverse of `encodeMazeBitmap` for a maze of the given size; null when malformed or of a kind it never writes */
+export function decodeMazeBitmap(
+  value: string,
+  size: MazeSize,
+  start?: Position,
+  goal?: Position,
+): SharedScenario['maze'] | null {
+  const m = /^(c1|c3|w2)\.([A-Za-z0-9_-]*)$/.exec(value);
+  if (!m) return null;
+  const [, kind, data] = m;
+  const bits = Number(kind[1]);
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(data);
+  } catch {
+    return null;
+  }
+  const { width, height } = size;
+  const count = width * height;
+  if (bytes.length !== Math.ceil((count * bits) / 8)) return null;
+  const values = unpackBits(bytes, bits, count);
+
+  const maze: Maze = Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => ({ type: 'empty' as const })),
+  );
+  let wallMaze: WallMaze | null = null;
+  if (kind === 'w2') {
+    wallMaze = createWallMaze(width, height);
+    values.forEach((v, i) => {
+      const p = { x: i % width, y: Math.floor(i / width) };
+      if (v & 1) setWall(wallMaze!, p, WALL_EAST, true);
+      if (v & 2) setWall(wallMaze!, p, WALL_SOUTH, true);
+    });
+  } else {
+    for (let i = 0; i < count; i++) {
+      const type = CELL_CODES[values[i]];
+      if (!type) return null;
+      maze[Math.floor(i / width)][i % width] = { type };
+    }
+  }
+  if (start) maze[start.y][start.x] = { type: 'start' };
+  if (goal && !(start && goal.x === start.x && goal.y === start.y)) maze[goal.y][goal.x] = { type: 'goal' };
+  return { maze, wallMaze };
+}
+
+function packBits(values: number[], bits: number): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil((values.length * bits) / 8));
+  values.forEach((v, i) => {
+    for (let b = 0; b < bits; b++) {
+      if (v & (1 << b)) {
+        const bit = i * bits + b;
+        bytes[bit >> 3] |= 1 << (bit & 7);
+      }
+    }
+  });
+  return bytes;
+}
+
+function unpackBits(bytes: Uint8Array, bits: number, count: number): number[] {
+  const values: number[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    let v = 0;
+    for (let b = 0; b < bits; b++) {
+      const bit = i * bits + b;
+      if (bytes[bit >> 3] & (1 << (bit & 7))) v |= 1 << b;
+    }
+    values[i] = v;
+  }
+  return values;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
@@ -1,39 +1,83 @@
-import { useState, useEffect, useCallback } from 'react';
-import { BarChart3, Github } from 'lucide-react';
-import type { HeuristicType, PathfindingAlgorithm, Position } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { BarChart3, Github, Pencil, Scale } from 'lucide-react';
+import type {
+  HeuristicType, PathfindingAlgorithm, Position, MovementModel, TieBreaking, MazeModel,
+  MazeGeneratorType, MazeHistoryEntry, GridTopology, MissionMode, DynamicObstacleSettings, CellPointerPhase,
+} from '../types';
 import {
-  DEFAULT_MAZE_SIZE, DEFAULT_OBSTACLE_RATE,
+  DEFAULT_MAZE_SIZE, DEFAULT_OBSTACLE_RATE, DEFAULT_TERRAIN_RATE, DEFAULT_MOVEMENT_MODEL,
+  DEFAULT_TIE_BREAKING, DEFAULT_HEURISTIC_WEIGHT, DEFAULT_MAZE_MODEL, DEFAULT_MAZE_GENERATOR,
+  DEFAULT_BRAID_FACTOR, DEFAULT_LOOP_RATE, DEFAULT_GRID_TOPOLOGY, DEFAULT_MISSION_MODE, DEFAULT_DYNAMIC_PERIOD,
 } from '../types';
+import { createMazeDocument, randomSeed } from '../algorithms';
+import { decodeScenario } from '../lib/share-url';
 import { useMazeSimulation } from '../hooks/useMazeSimulation';
 import { useExperiment } from '../hooks/useExperiment';
+import { useMazeEditor } from '../hooks/useMazeEditor';
 import { useTheme } from '../hooks/useTheme';
 import MazeGrid from '../components/MazeGrid';
 import ControlPanel from '../components/ControlPanel';
+import ExportMenu from '../components/ExportMenu';
+import ShareMenu from '../components/ShareMenu';
+import MazeEditorToolbar from '../components/MazeEditorToolbar';
+import MazeHistoryMenu from '../components/MazeHistoryMenu';
+import MazeAnalysisPanel from '../components/MazeAnalysisPanel';
 import StatsPanel from '../components/StatsPanel';
 
 export default function Home() {
   const { theme, handleToggleTheme } = useTheme();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Settings (and maybe a maze) from a shared link; read once on mount
+  const [shared] = useState(() => decodeScenario(searchParams));
+  const initial = shared.config;
 
-  const [mazeSize, setMazeSize] = useState(DEFAULT_MAZE_SIZE);
-  const [obstacleRate, setObstacleRate] = useState(DEFAULT_OBSTACLE_RATE);
-  const [agentCount, setAgentCount] = useState(2);
-  const [selectedHeuristic, setSelectedHeuristic] = useState<HeuristicType | 'auto'>('auto');
-  const [selectedAlgorithm, setSelectedAlgorithm] = useState<PathfindingAlgorithm>('astar');
+  const [mazeWidth, setMazeWidth] = useState(initial.mazeWidth ?? DEFAULT_MAZE_SIZE);
+  const [mazeHeight, setMazeHeight] = useState(initial.mazeHeight ?? DEFAULT_MAZE_SIZE);
+  const [obstacleRate, setObstacleRate] = useState(initial.obstacleRate ?? DEFAULT_OBSTACLE_RATE);
+  const [terrainRate, setTerrainRate] = useState(initial.terrainRate ?? DEFAULT_TERRAIN_RATE);
+  const [movementModel, setMovementModel] = useState<MovementModel>(initial.movementModel ?? DEFAULT_MOVEMENT_MODEL);
+  const [mazeModel, setMazeModel] = useState<MazeModel>(initial.mazeModel ?? DEFAULT_MAZE_MODEL);
+  const [gridTopology, setGridTopology] = useState<GridTopology>(initial.gridTopology ?? DEFAULT_GRID_TOPOLOGY);
+  const [mazeGenerator, setMazeGenerator] = useState<MazeGeneratorType>(initial.mazeGenerator ?? DEFAULT_MAZE_GENERATOR);
+  const [braidFactor, setBraidFactor] = useState(initial.braidFactor ?? DEFAULT_BRAID_FACTOR);
+  const [loopRate, setLoopRate] = useState(initial.loopRate ?? DEFAULT_LOOP_RATE);
+  const [agentCount, setAgentCount] = useState(initial.agentCount ?? 2);
+  const [selectedHeuristic, setSelectedHeuristic] = useState<HeuristicType | 'auto'>(initial.selectedHeuristic ?? 'auto');
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState<PathfindingAlgorithm>(initial.selectedAlgorithm ?? 'astar');
   const [agentHeuristics, setAgentHeuristics] = useState<(HeuristicType | 'auto')[]>(
-    ['auto', 'auto'],
+    initial.agentHeuristics ?? ['auto', 'auto'],
   );
   const [agentAlgorithms, setAgentAlgorithms] = useState<PathfindingAlgorithm[]>(
-    ['bfs', 'astar'],
+    initial.agentAlgorithms ?? ['bfs', 'astar'],
+  );
+  const [selectedTieBreaking, setSelectedTieBreaking] = useState<TieBreaking>(initial.selectedTieBreaking ?? DEFAULT_TIE_BREAKING);
+  const [selectedWeight, setSelectedWeight] = useState(initial.selectedWeight ?? DEFAULT_HEURISTIC_WEIGHT);
+  const [agentTieBreaking, setAgentTieBreaking] = useState<TieBreaking[]>(
+    initial.agentTieBreaking ?? [DEFAULT_TIE_BREAKING, DEFAULT_TIE_BREAKING],
+  );
+  const [agentWeights, setAgentWeights] = useState<number[]>(
+    initial.agentWeights ?? [DEFAULT_HEURISTIC_WEIGHT, DEFAULT_HEURISTIC_WEIGHT],
   );
-  const [useSameStart, setUseSameStart] = useState(false);
-  const [showExploration, setShowExploration] = useState(true);
-  const [showPath, setShowPath] = useState(true);
-  const [visualizationSpeed, setVisualizationSpeed] = useState(50);
+  const [useSameStart, setUseSameStart] = useState(initial.useSameStart ?? false);
+  const [fogOfWar, setFogOfWar] = useState(initial.fogOfWar ?? false);
+  const [compareFullReplans, setCompareFullReplans] = useState(initial.compareFullReplans ?? false);
+  const [beliefAgentId, setBeliefAgentId] = useState<number | null>(null);
+  const [showExploration, setShowExploration] = useState(initial.showExploration ?? true);
+  const [showPath, setShowPath] = useState(initial.showPath ?? true);
+  const [visualizationSpeed, setVisualizationSpeed] = useState(initial.visualizationSpeed ?? 50);
   const [mazeSource, setMazeSource] = useState<'random' | 'file'>('random');
-  const [customStart, setCustomStart] = useState<Position>({ x: 0, y: 0 });
-  const [customGoal, setCustomGoal] = useState<Position>({ x: 0, y: 0 });
-  const [fileContent, setFileContent] = useState('');
+  const [customStart, setCustomStart] = useState<Position>(initial.customStart ?? { x: 0, y: 0 });
+  const [customGoal, setCustomGoal] = useState<Position>(initial.customGoal ?? { x: 0, y: 0 });
+  const [extraGoals, setExtraGoals] = useState<Position[]>(initial.extraGoals ?? []);
+  const [waypoints, setWaypoints] = useState<Position[]>(initial.waypoints ?? []);
+  const [missionMode, setMissionMode] = useState<MissionMode>(initial.missionMode ?? DEFAULT_MISSION_MODE);
+  const [dynamicObstacles, setDynamicObstacles] = useState<DynamicObstacleSettings>(
+    initial.dynamicObstacles ?? { toggles: 0, patrols: 0, period: DEFAULT_DYNAMIC_PERIOD },
+  );
+  const [seed, setSeed] = useState(() => initial.seed ?? randomSeed());
   const [mazeFileName, setMazeFileName] = useState('');
+  const [editMode, setEditMode] = useState(false);
 
   useEffect(() => {
     setAgentHeuristics(prev => {
@@ -54,42 +98,189 @@ export default function Home() {
   }, [agentCount, selectedAlgorithm]);
 
   useEffect(() => {
-    const size = mazeSize;
-    setCustomGoal({ x: Math.floor(size / 2), y: Math.floor(size / 2) });
-    setCustomStart(prev => ({
-      x: Math.min(prev.x, size - 1),
-      y: Math.min(prev.y, size - 1),
-    }));
-  }, [mazeSize]);
-
-  const simulation = useMazeSimulation({
-    mazeSize, obstacleRate, agentCount,
+    setAgentTieBreaking(prev => {
+      const next = [...prev];
+      while (next.length < agentCount) next.push(selectedTieBreaking);
+      if (next.length > agentCount) next.splice(agentCount);
+      return next;
+    });
+  }, [agentCount, selectedTieBreaking]);
+
+  useEffect(() => {
+    setAgentWeights(prev => {
+      const next = [...prev];
+      while (next.length < agentCount) next.push(selectedWeight);
+      if (next.length > agentCount) next.splice(agentCount);
+      return next;
+    });
+  }, [agentCount, selectedWeight]);
+
+  useEffect(() => {
+    setBeliefAgentId(prev => (prev !== null && prev >= agentCount ? null : prev));
+  }, [agentCount]);
+
+  // S/G markers of a loaded file that changed the maze size; applied instead of the defaults below.
+  // Starts out with a shared link's endpoints, which the first run would otherwise reset
+  const pendingEndpoints = useRef<{ start?: Position; goal?: Position; extraGoals?: Position[] } | null>(
+    initial.customStart || initial.customGoal
+      ? { start: initial.customStart, goal: initial.customGoal, extraGoals: initial.extraGoals }
+      : null,
+  );
+
+  useEffect(() => {
+    const pending = pendingEndpoints.current;
+    pendingEndpoints.current = null;
+    setCustomGoal(pending?.goal ?? { x: Math.floor(mazeWidth / 2), y: Math.floor(mazeHeight / 2) });
+    setExtraGoals(pending?.extraGoals ?? []);
+    setCustomStart(prev => pending?.start ?? {
+      x: Math.min(prev.x, mazeWidth - 1),
+      y: Math.min(prev.y, mazeHeight - 1),
+    });
+    setWaypoints(prev => prev.filter(p => p.x < mazeWidth && p.y < mazeHeight));
+  }, [mazeWidth, mazeHeight]);
+
+  const config = {
+    mazeWidth, mazeHeight, obstacleRate, terrainRate, movementModel, mazeModel, gridTopology,
+    mazeGenerator, braidFactor, loopRate,
+    agentCount,
     selectedHeuristic, selectedAlgorithm,
     agentHeuristics, agentAlgorithms,
-    useSameStart, showExploration, showPath, visualizationSpeed,
-    mazeSource, customStart, customGoal, fileContent,
-  });
+    selectedTieBreaking, selectedWeight,
+    agentTieBreaking, agentWeights,
+    useSameStart, fogOfWar, compareFullReplans, showExploration, showPath, visualizationSpeed,
+    mazeSource, customStart, customGoal, extraGoals, waypoints, missionMode, dynamicObstacles, seed,
+  };
+  const simulation = useMazeSimulation(config);
 
-  const experiment = useExperiment(mazeSize);
+  // A link with the maze itself: load it like a maze file, replacing the generated one
+  useEffect(() => {
+    if (!shared.maze) return;
+    const doc = createMazeDocument({
+      ...shared.maze,
+      topology: gridTopology,
+      start: customStart,
+      goal: customGoal,
+      extraGoals,
+      movementModel: mazeModel === 'wall' ? '4-connected' : movementModel,
+      agents: [],
+      seed,
+    });
+    const info = simulation.loadMazeFile(JSON.stringify(doc), '分享链接.json');
+    if (info) {
+      setMazeSource('file');
+      setMazeFileName('分享链接');
+      // The bitmap decides the model when the link names none
+      setMazeModel(info.model);
+      if (info.model === 'wall') setGridTopology('square');
+    }
+    // Only the maze of the link the page was opened with
+  }, [shared]);
+
+  const experiment = useExperiment(mazeWidth, mazeHeight, movementModel, seed);
+
+  // The editor paints cells, so it only applies to the cell model and never mid-race
+  const canEdit = mazeModel === 'cell' && !simulation.isRunning;
+  // A dragged goal cell is either the goal itself or one of the extra goal-region cells
+  const handleMoveEndpoint = useCallback((type: 'start' | 'goal', pos: Position, from: Position) => {
+    if (type === 'start') {
+      setCustomStart(pos);
+      return;
+    }
+    const moved = (p: Position) => p.x === from.x && p.y === from.y;
+    setCustomGoal(prev => (moved(prev) ? pos : prev));
+    setExtraGoals(prev => prev.map(p => (moved(p) ? pos : p)));
+  }, []);
+  const editor = useMazeEditor(
+    simulation.maze, simulation.setMaze, handleMoveEndpoint, { movement: movementModel, topology: gridTopology },
+    editMode && canEdit, simulation.recordEdit,
+  );
+
+  // A restored history entry brings its own size, model, topology, seed and endpoints
+  const applyHistoryEntry = useCallback((entry: MazeHistoryEntry | null) => {
+    if (!entry) return;
+    setMazeModel(entry.model);
+    setGridTopology(entry.topology);
+    setSeed(entry.seed);
+    if (entry.width !== mazeWidth || entry.height !== mazeHeight) {
+      pendingEndpoints.current = { start: entry.start, goal: entry.goal, extraGoals: entry.extraGoals };
+      setMazeWidth(entry.width);
+      setMazeHeight(entry.height);
+    } else {
+      setCustomStart(entry.start);
+      setCustomGoal(entry.goal);
+      setExtraGoals(entry.extraGoals);
+    }
+  }, [mazeWidth, mazeHeight]);
+  // Mid-race clicks drop (or lift) dynamic obstacles; cell model only, like the editor
+  const canDrop = mazeModel === 'cell' && simulation.isRunning;
+  const handleDropPointer = useCallback((cell: Position, phase: CellPointerPhase) => {
+    if (phase === 'down') simulation.dropObstacle(cell);
+  }, [simulation]);
+
+  const handleUndo = useCallback(() => applyHistoryEntry(simulation.undo()), [simulation, applyHistoryEntry]);
+  const handleRedo = useCallback(() => applyHistoryEntry(simulation.redo()), [simulation, applyHistoryEntry]);
+  const handleRestore = useCallback(
+    (index: number) => applyHistoryEntry(simulation.restoreHistory(index)),
+    [simulation, applyHistoryEntry],
+  );
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y), except while typing in a form field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || simulation.isRunning) return;
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo, simulation.isRunning]);
+
+  // Reset means a new maze: draw a new seed and show it
+  const handleReset = useCallback(() => {
+    const next = randomSeed();
+    setSeed(next);
+    simulation.resetExperiment(next);
+  }, [simulation]);
+  const mazeCanvasRef = useRef<HTMLCanvasElement>(null);
 
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    if (file.type !== 'text/plain') return;
+    // .maz files are raw wall bytes; everything else is text
+    const binary = /\.maz$/i.test(file.name);
 
     const reader = new FileReader();
     reader.onload = (event) => {
-      const content = event.target?.result as string;
-      setFileContent(content);
-      setMazeFileName(file.name);
-      const ok = simulation.loadMazeFile(content);
-      if (!ok) {
-        setFileContent('');
+      const result = event.target?.result;
+      const data = binary ? new Uint8Array(result as ArrayBuffer) : result as string;
+      const info = simulation.loadMazeFile(data, file.name);
+      if (!info) {
         setMazeFileName('');
+        return;
+      }
+      setMazeFileName(file.name);
+      setMazeModel(info.model);
+      // Wall files are square grids; exported JSON says which grid it was drawn on
+      if (info.model === 'wall') setGridTopology('square');
+      else if (info.topology) setGridTopology(info.topology);
+      if (info.width !== mazeWidth || info.height !== mazeHeight) {
+        pendingEndpoints.current = { start: info.start, goal: info.goal, extraGoals: info.extraGoals };
+        setMazeWidth(info.width);
+        setMazeHeight(info.height);
+      } else {
+        if (info.start) setCustomStart(info.start);
+        if (info.goal) setCustomGoal(info.goal);
+        if (info.extraGoals) setExtraGoals(info.extraGoals);
       }
     };
-    reader.readAsText(file);
-  }, [simulation]);
+    if (binary) reader.readAsArrayBuffer(file);
+    else reader.readAsText(file);
+  }, [simulation, mazeWidth, mazeHeight]);
 
   const btnBase = 'inline-flex items-center justify-center font-medium rounded-lg transition-all duration-200 active:scale-[0.97] focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-500';
   const btnPrimary = `${btnBase} px-5 py-2.5 bg-indigo-600 text-white hover:bg-indigo-700`;
@@ -106,7 +297,7 @@ export default function Home() {
                 迷宫电脑鼠实验
               </h1>
               <p className="text-xs text-zinc-500 dark:text-zinc-400 tracking-wide">
-                A* · BFS · 多智能体竞赛
+                A* · JPS · BFS · Dijkstra · 多智能体竞赛
               </p>
             </div>
           </div>
@@ -114,7 +305,7 @@ export default function Home() {
           <div className="flex items-center gap-2">
             <button
               onClick={experiment.runHeuristicComparison}
-              disabled={experiment.isRunning}
+              disabled={experiment.isRunning || experiment.isSweeping}
               className={`${btnPrimary} text-sm px-4 py-2`}
             >
               <BarChart3 className={`w-4 h-4 mr-1.5 ${experiment.isRunning ? 'animate-spin' : ''}`} />
@@ -123,6 +314,15 @@ export default function Home() {
                 : '启发式对比'}
             </button>
 
+            <button
+              onClick={experiment.runWeightSweep}
+              disabled={experiment.isRunning || experiment.isSweeping}
+              className={`${btnPrimary} text-sm px-4 py-2`}
+            >
+              <Scale className={`w-4 h-4 mr-1.5 ${experiment.isSweeping ? 'animate-pulse' : ''}`} />
+              {experiment.isSweeping ? '扫描中…' : '权重扫描'}
+            </button>
+
             <button
               onClick={handleToggleTheme}
               className="p-2 rounded-lg text-zinc-500 dark:text-zinc-400 hover:bg-zinc-200/60 dark:hover:bg-zinc-800/60 transition-colors duration-200 active:scale-[0.95]"
@@ -152,25 +352,45 @@ export default function Home() {
           <div className="lg:col-span-1">
             <ControlPanel
               agentCount={agentCount} setAgentCount={setAgentCount}
-              mazeSize={mazeSize} setMazeSize={setMazeSize}
+              mazeWidth={mazeWidth} setMazeWidth={setMazeWidth}
+              mazeHeight={mazeHeight} setMazeHeight={setMazeHeight}
               obstacleRate={obstacleRate} setObstacleRate={setObstacleRate}
+              terrainRate={terrainRate} setTerrainRate={setTerrainRate}
+              movementModel={movementModel} setMovementModel={setMovementModel}
+              mazeModel={mazeModel} setMazeModel={setMazeModel}
+              gridTopology={gridTopology} setGridTopology={setGridTopology}
+              mazeGenerator={mazeGenerator} setMazeGenerator={setMazeGenerator}
+              braidFactor={braidFactor} setBraidFactor={setBraidFactor}
+              loopRate={loopRate} setLoopRate={setLoopRate}
               selectedHeuristic={selectedHeuristic} setSelectedHeuristic={setSelectedHeuristic}
               selectedAlgorithm={selectedAlgorithm} setSelectedAlgorithm={setSelectedAlgorithm}
               agentHeuristics={agentHeuristics} setAgentHeuristics={setAgentHeuristics}
               agentAlgorithms={agentAlgorithms} setAgentAlgorithms={setAgentAlgorithms}
+              selectedTieBreaking={selectedTieBreaking} setSelectedTieBreaking={setSelectedTieBreaking}
+              selectedWeight={selectedWeight} setSelectedWeight={setSelectedWeight}
+              agentTieBreaking={agentTieBreaking} setAgentTieBreaking={setAgentTieBreaking}
+              agentWeights={agentWeights} setAgentWeights={setAgentWeights}
               useSameStart={useSameStart} setUseSameStart={setUseSameStart}
+              fogOfWar={fogOfWar} setFogOfWar={setFogOfWar}
+              compareFullReplans={compareFullReplans} setCompareFullReplans={setCompareFullReplans}
+              beliefAgentId={beliefAgentId} setBeliefAgentId={setBeliefAgentId}
               showExploration={showExploration} setShowExploration={setShowExploration}
               showPath={showPath} setShowPath={setShowPath}
               visualizationSpeed={visualizationSpeed} setVisualizationSpeed={setVisualizationSpeed}
               mazeSource={mazeSource} setMazeSource={setMazeSource}
               customStart={customStart} setCustomStart={setCustomStart}
               customGoal={customGoal} setCustomGoal={setCustomGoal}
+              extraGoals={extraGoals} setExtraGoals={setExtraGoals}
+              waypoints={waypoints} setWaypoints={setWaypoints}
+              missionMode={missionMode} setMissionMode={setMissionMode}
+              dynamicObstacles={dynamicObstacles} setDynamicObstacles={setDynamicObstacles}
+              seed={seed} setSeed={setSeed}
               isRunning={simulation.isRunning}
               isPaused={simulation.isPaused}
               onStart={simulation.startExperiment}
               onPause={simulation.pauseExperiment}
               onResume={simulation.resumeExperiment}
-              onReset={simulation.resetExperiment}
+              onReset={handleReset}
               onFileUpload={handleFileUpload}
               mazeFileName={mazeFileName}
             />
@@ -180,20 +400,91 @@ export default function Home() {
           <div className="lg:col-span-2 space-y-6">
             <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 overflow-hidden">
               <div className="p-5">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-base font-semibold text-zinc-900 dark:text-zinc-100 tracking-tight">
+                    迷宫
+                  </h2>
+                  <div className="flex items-center gap-2">
+                    <MazeHistoryMenu
+                      history={simulation.history}
+                      onUndo={handleUndo}
+                      onRedo={handleRedo}
+                      onRestore={handleRestore}
+                      disabled={simulation.isRunning}
+                    />
+                    <button
+                      onClick={() => setEditMode(!editMode)}
+                      disabled={!canEdit}
+                      title={mazeModel === 'wall' ? '编辑器仅支持格子模型' : undefined}
+                      className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-colors duration-150 disabled:opacity-50 ${
+                        editMode && canEdit
+                          ? 'bg-indigo-500 text-white hover:bg-indigo-600'
+                          : 'text-zinc-600 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+                      }`}
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                      编辑
+                    </button>
+                    <ShareMenu
+                      config={config}
+                      maze={simulation.maze}
+                      wallMaze={simulation.wallMaze}
+                      onShare={params => setSearchParams(params, { replace: true })}
+                    />
+                    <ExportMenu
+                      maze={simulation.maze}
+                      wallMaze={simulation.wallMaze}
+                      agents={simulation.agents}
+                      start={customStart}
+                      goal={customGoal}
+                      extraGoals={extraGoals}
+                      movementModel={mazeModel === 'wall' ? '4-connected' : movementModel}
+                      topology={gridTopology}
+                      seed={seed}
+                      canvasRef={mazeCanvasRef}
+                    />
+                  </div>
+                </div>
+                {editMode && canEdit && (
+                  <MazeEditorToolbar
+                    tool={editor.tool} setTool={editor.setTool}
+                    paint={editor.paint} setPaint={editor.setPaint}
+                    brushSize={editor.brushSize} setBrushSize={editor.setBrushSize}
+                    solvable={editor.solvable}
+                  />
+                )}
                 <MazeGrid
                   maze={simulation.maze}
-                  mazeSize={mazeSize}
                   agents={simulation.agents}
                   showExploration={showExploration}
                   showPath={showPath}
                   currentSearchStep={simulation.currentSearchStep}
+                  beliefAgentId={fogOfWar ? beliefAgentId : null}
+                  wallMaze={simulation.wallMaze}
+                  topology={simulation.wallMaze ? 'square' : gridTopology}
+                  canvasRef={mazeCanvasRef}
+                  onCellPointer={
+                    editMode && canEdit ? editor.handleCellPointer : canDrop ? handleDropPointer : undefined
+                  }
+                  previewCells={editor.preview}
+                  waypoints={waypoints}
                 />
               </div>
             </div>
 
+            <MazeAnalysisPanel
+              maze={simulation.maze}
+              wallMaze={simulation.wallMaze}
+              topology={simulation.wallMaze ? 'square' : gridTopology}
+            />
+
             <StatsPanel
+              agents={simulation.agents}
+              waypoints={waypoints}
+              mazeVersion={simulation.mazeVersion}
               competitionResults={simulation.competitionResults}
               experimentResults={experiment.experimentResults}
+              sweepResults={experiment.sweepResults}
             />
           </div>
         </div>
@@ -1,8 +1,14 @@
 export type Position = { x: number; y: number };
 
+/** Uniform random number in [0, 1), like `Math.random` (which is one) */
+export type Rng = () => number;
+
+export type TerrainType = 'ramp' | 'sand' | 'mud';
+
 export type CellType =
   | 'empty'
   | 'obstacle'
+  | TerrainType
   | 'start'
   | 'goal'
   | 'explored'
@@ -10,10 +16,294 @@ export type CellType =
 
 export type Cell = { type: CellType; agentId?: number };
 export type Maze = Cell[][];
+/** Maze dimensions in cells */
+export type MazeSize = { width: number; height: number };
+
+/** Maze editor: freehand brush, straight line, rectangle outline, filled rectangle */
+export type EditorTool = 'brush' | 'line' | 'rect' | 'fill';
+/** What the editor paints; `empty` erases */
+export type PaintType = 'obstacle' | 'empty' | TerrainType;
+/** Pointer events on a maze cell, as reported by `MazeGrid` */
+export type CellPointerPhase = 'down' | 'move' | 'up';
+
+/**
+ * Thin-wall maze as used in micromouse competitions: walls sit between cells.
+ * `walls[y * width + x]` holds WALL_NORTH/EAST/SOUTH/WEST bits; a wall is
+ * always recorded on both cells it separates.
+ */
+export interface WallMaze {
+  width: number;
+  height: number;
+  walls: Uint8Array;
+}
+
+/** Whole-cell obstacles (`Maze`) or thin walls between cells (`WallMaze`) */
+export type MazeModel = 'cell' | 'wall';
+
+/**
+ * Cell shape: squares, or pointy-top hexagons in "odd-r" offset layout
+ * (the `Maze` array is unchanged; odd rows are drawn shifted right by half a cell)
+ */
+export type GridTopology = 'square' | 'hex';
+
+/**
+ * Random maze generators: spanning-tree mazes (backtracker … division), cellular-automaton
+ * caves, or scattered obstacles on an open grid
+ */
+export type MazeGeneratorType =
+  | 'backtracker' | 'prim' | 'kruskal' | 'eller' | 'wilson' | 'aldous-broder' | 'division'
+  | 'caves' | 'open';
 
-export type HeuristicType = 'manhattan' | 'euclidean' | 'diagonal';
+export interface MazeGenerationOptions {
+  generator?: MazeGeneratorType;
+  /** Fraction (0–1) of dead ends opened into a neighbouring passage; 1 removes them all */
+  braid?: number;
+  /** Fraction (0–1) of the walls between two passages knocked down, each adding a loop */
+  loops?: number;
+  /** Hex grids support the generators in `HEX_MAZE_GENERATORS`; braid and loops apply to squares only */
+  topology?: GridTopology;
+}
+
+/** Community micromouse maze formats: ASCII art, 256-byte `.maz`, numeric wall bitmasks */
+export type MazeFileFormat = 'ascii' | 'maz' | 'numeric';
+
+/** Where a maze file failed to parse; 1-based (binary files: line 1, column = byte offset + 1) */
+export interface MazeFileError {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export type MazeFileResult =
+  | { ok: true; maze: WallMaze }
+  | { ok: false; error: MazeFileError };
+
+/** Plain-text cell maze with its S / G markers (marker cells are left empty in `maze`) */
+export interface TextMaze {
+  maze: Maze;
+  starts: Position[];
+  goals: Position[];
+}
+
+export type TextMazeResult =
+  | ({ ok: true } & TextMaze)
+  | { ok: false; errors: MazeFileError[] };
+
+/** One agent's run as saved in a maze document */
+export interface AgentRecord {
+  id: number;
+  algorithm: PathfindingAlgorithm;
+  heuristic: HeuristicType | 'auto';
+  path: Position[];
+  stepsTaken: number;
+  collisions: number;
+  cost?: number;
+  expansions?: number;
+}
+
+/**
+ * A maze saved as JSON, with its endpoints and the race it was used for.
+ * `cells` holds one string per row, one digit per cell: 0 empty, 1 obstacle,
+ * and the terrain cost for terrain (2 ramp, 3 sand, 5 mud).
+ */
+export interface MazeDocument {
+  format: 'maze-micromouse';
+  version: 1;
+  model: MazeModel;
+  /** Hex grids only; absent means the square grid */
+  topology?: GridTopology;
+  width: number;
+  height: number;
+  start: Position;
+  goal: Position;
+  /** Further cells of a goal region besides `goal`; absent for a single goal */
+  extraGoals?: Position[];
+  cells: string[];
+  /** Thin-wall model only: `WallMaze.walls` as a plain array */
+  walls?: number[];
+  metadata: {
+    exportedAt: string;
+    movementModel: MovementModel;
+    /** Random seed the maze and race were generated from */
+    seed?: number;
+    agents: AgentRecord[];
+  };
+}
+
+export type MazeDocumentResult =
+  | {
+    ok: true; maze: Maze; wallMaze: WallMaze | null; topology: GridTopology;
+    start: Position; goal: Position; extraGoals: Position[];
+  }
+  | { ok: false; error: MazeFileError };
+
+export type HeuristicType = 'manhattan' | 'euclidean' | 'diagonal' | 'hex';
 export type AgentStrategy = 'follower' | 'competitor' | 'random';
-export type PathfindingAlgorithm = 'bfs' | 'astar';
+export type PathfindingAlgorithm =
+  | 'bfs'
+  | 'astar'
+  | 'dijkstra'
+  | 'jps'
+  | 'bidirectional-bfs'
+  | 'bidirectional-astar'
+  | 'idastar'
+  | 'dstar-lite'
+  | 'floodfill';
+export type MovementModel = '4-connected' | '8-no-corner-cutting' | '8-corner-cutting';
+
+/** How A* orders open nodes with equal f */
+export type TieBreaking = 'none' | 'high-g' | 'low-h' | 'lifo' | 'fifo';
+
+export interface PathfindingOptions {
+  movement?: MovementModel;
+  /** Hex grids replace the movement model with the 6 hex neighbours (BFS, A*, Dijkstra) */
+  topology?: GridTopology;
+  /** A* only: tie-breaking policy among equal-f nodes */
+  tieBreaking?: TieBreaking;
+  /** A* only: f = g + weight·h; weight > 1 trades optimality for speed (ε-admissible) */
+  weight?: number;
+  /** Goal region: the search ends on any of these cells (the `goal` argument always counts) */
+  goals?: Position[];
+}
+
+/** Checkpoint missions: visit the waypoints in the listed order, or in any order (shortest tour) */
+export type MissionMode = 'ordered' | 'any-order';
+
+/** Visiting order of a mission's waypoints, from `planMission` */
+export interface MissionPlan {
+  /** Waypoint indices in visiting order */
+  order: number[];
+  /** A* cost of start → waypoints → goal in that order; Infinity when a leg is unreachable */
+  cost: number;
+  /** Whether the order is provably the cheapest (ordered missions have no choice, so always) */
+  exact: boolean;
+}
+
+/** How many dynamic obstacles a race has and how often they change */
+export interface DynamicObstacleSettings {
+  /** Cells that flip between open and blocked on a timer */
+  toggles: number;
+  /** Blocks that patrol back and forth along a short route */
+  patrols: number;
+  /** Ticks a toggling cell stays in one state (each cell gets a random period of 1–2× this) */
+  period: number;
+}
+
+export interface SimulationConfig {
+  mazeWidth: number;
+  mazeHeight: number;
+  obstacleRate: number;
+  terrainRate: number;
+  movementModel: MovementModel;
+  /** Whole-cell obstacles or thin walls between cells (orthogonal moves only) */
+  mazeModel: MazeModel;
+  /** Hex cells replace the movement model with 6 neighbours; cell model only */
+  gridTopology: GridTopology;
+  mazeGenerator: MazeGeneratorType;
+  /** Share of dead ends opened (0–1), giving competing routes */
+  braidFactor: number;
+  /** Share of walls between passages knocked down to add loops (0–1) */
+  loopRate: number;
+  agentCount: number;
+  selectedHeuristic: HeuristicType | 'auto';
+  selectedAlgorithm: PathfindingAlgorithm;
+  agentHeuristics: (HeuristicType | 'auto')[];
+  agentAlgorithms: PathfindingAlgorithm[];
+  selectedTieBreaking: TieBreaking;
+  selectedWeight: number;
+  agentTieBreaking: TieBreaking[];
+  agentWeights: number[];
+  useSameStart: boolean;
+  /** Agents sense only adjacent cells and explore with flood-fill instead of planning */
+  fogOfWar: boolean;
+  /** Also run a from-scratch search on every D* Lite repair, for the repair-vs-full statistics */
+  compareFullReplans: boolean;
+  showExploration: boolean;
+  showPath: boolean;
+  visualizationSpeed: number;
+  mazeSource: 'random' | 'file';
+  customStart: Position;
+  customGoal: Position;
+  /** Further goal cells (e.g. the rest of a 2×2 centre); reaching any goal cell finishes */
+  extraGoals: Position[];
+  /** Checkpoints every agent must reach before the goal counts */
+  waypoints: Position[];
+  /** Visit the waypoints as listed, or in the cheapest order found */
+  missionMode: MissionMode;
+  /** Toggling cells and patrolling blocks during a race; cell model only */
+  dynamicObstacles: DynamicObstacleSettings;
+  /** Seeds maze generation and every random choice of the race */
+  seed: number;
+}
+
+/** Settings a scenario link carries; the maze source follows from whether a maze is included */
+export type SharedConfig = Omit<SimulationConfig, 'mazeSource'>;
+
+/** What put a maze into the undo history */
+export type MazeHistorySource = 'generate' | 'reset' | 'file' | 'edit';
+
+/** One maze state in the undo history, with the settings needed to show it again */
+export interface MazeHistoryEntry {
+  id: number;
+  source: MazeHistorySource;
+  /** Extra detail for the history list, e.g. the file name */
+  detail?: string;
+  width: number;
+  height: number;
+  model: MazeModel;
+  topology: GridTopology;
+  seed: number;
+  start: Position;
+  goal: Position;
+  /** Goal-region cells besides `goal` */
+  extraGoals: Position[];
+  /** Cell types, row-major, packed by `encodeMaze` (a fraction of the memory of a `Maze`) */
+  cells: Uint8Array;
+  wallMaze: WallMaze | null;
+  /** `Date.now()` when recorded */
+  time: number;
+}
+
+/** Bounded undo/redo stack; `index` is the entry currently shown */
+export interface MazeHistory {
+  entries: MazeHistoryEntry[];
+  index: number;
+}
+
+/** Structural measures of a maze, from `analyzeMaze` */
+export interface MazeAnalysis {
+  /** Open (non-obstacle) cells over all cells; 1 in the thin-wall model */
+  openRatio: number;
+  openCells: number;
+  /** Open cells with exactly one open neighbour */
+  deadEnds: number;
+  /** Open cells with three / four open neighbours */
+  junctions: { threeWay: number; fourWay: number };
+  /** Mean number of open neighbours per open cell */
+  branchingFactor: number;
+  /** Mean length in cells of the maximal runs of two-neighbour cells */
+  averageCorridorLength: number;
+  /** Connected regions of open cells */
+  components: number;
+  /** Steps on a 4-connected shortest path start→goal; null when unreachable */
+  shortestPathLength: number | null;
+  /** Distinct 4-connected shortest paths (a float: may be huge on open grids) */
+  shortestPathCount: number;
+  /** 0 (trivial) – 100 (hard); null when the goal is unreachable */
+  difficulty: number | null;
+}
+
+/** What a fog-of-war agent knows about the maze */
+export interface BeliefMap {
+  /** Optimistic copy of the maze: cells not yet sensed are assumed empty */
+  maze: Maze;
+  /** 1 where the agent has sensed the cell, row-major */
+  known: Uint8Array;
+  /** Flood-fill step distance to the goal on `maze`; -1 where unreachable */
+  flood: Int32Array;
+  /** Times the flood was recomputed after discovering a wall */
+  refloods: number;
+}
 
 export interface Agent {
   id: number;
@@ -21,6 +311,8 @@ export interface Agent {
   previousPosition: Position | null;
   path: Position[];
   exploredNodes: Position[];
+  /** Goal-side explored cells of a bidirectional search */
+  backwardExploredNodes?: Position[];
   color: string;
   isActive: boolean;
   strategy: AgentStrategy;
@@ -28,7 +320,32 @@ export interface Agent {
   collisions: number;
   heuristicType: HeuristicType | 'auto';
   pathfindingAlgorithm: PathfindingAlgorithm;
+  tieBreaking: TieBreaking;
+  heuristicWeight: number;
   pathfindingTime?: number;
+  pathCost?: number;
+  peakOpenSize?: number;
+  expansions?: number;
+  /** Replans after the initial plan (path blocked or exhausted) */
+  replans?: number;
+  /** Expansions spent by those replans — incremental repairs for D* Lite */
+  repairExpansions?: number;
+  /** Expansions the same replans would cost as searches from scratch; unset for D* Lite unless compared */
+  fullReplanExpansions?: number;
+  /** The latest plan ran out of its expansion budget (IDA*), leaving the agent without a route */
+  searchGaveUp?: boolean;
+  /** Fog-of-war mode only: the agent's discovered map */
+  belief?: BeliefMap;
+  /** Mission waypoints in this agent's visiting order; the goal only counts once all are reached */
+  checkpoints?: Position[];
+  /** How many of `checkpoints` the agent has reached */
+  checkpointsReached?: number;
+  /** Whether the visiting order of `checkpoints` is provably the cheapest */
+  missionExact?: boolean;
+  /** Maze version the agent last checked its route against (dynamic obstacles) */
+  mazeVersion?: number;
+  /** Replans forced by a dynamic obstacle landing on the route */
+  dynamicReplans?: number;
 }
 
 export interface ExperimentResult {
@@ -37,6 +354,16 @@ export interface ExperimentResult {
   euclideanNodes: number;
   diagonalNodes: number;
   optimalNodes: number;
+  jpsNodes: number;
+}
+
+/** One (weight, tie-breaking) sample of the weighted-A* sweep, averaged over several mazes */
+export interface WeightSweepPoint {
+  weight: number;
+  tieBreaking: TieBreaking;
+  exploredNodes: number;
+  /** Relative extra cost over the optimal path: cost / optimal − 1 */
+  suboptimality: number;
 }
 
 export interface CompetitionResult {
@@ -45,28 +372,141 @@ export interface CompetitionResult {
   averagePathLength: number;
   averageExploredNodes: number;
   averagePathfindingTime: number;
+  averagePathCost: number;
+  averagePeakOpenSize: number;
+  averageExpansions: number;
   collisionRate: number;
 }
 
 export interface PathfindingResult {
   path: Position[];
+  /** Expansion order (the start-side search for bidirectional planners) */
   exploredNodes: Position[];
+  /** Goal-side expansion order, only set by bidirectional planners */
+  backwardExploredNodes?: Position[];
   time: number;
+  /** Sum of step length × terrain cost along the path (start cell excluded) */
+  cost: number;
+  /** Largest open-set size reached (DFS stack depth for IDA*) — a proxy for peak memory */
+  peakOpenSize: number;
+  /** Nodes taken off the open set and expanded, re-expansions included */
+  expansions: number;
+  /** Set when the search hit its expansion budget (IDA*): no path found, yet none ruled out */
+  gaveUp?: boolean;
 }
 
 export const DEFAULT_MAZE_SIZE = 20;
 export const DEFAULT_OBSTACLE_RATE = 0.3;
+export const DEFAULT_TERRAIN_RATE = 0;
+export const DEFAULT_MOVEMENT_MODEL: MovementModel = '4-connected';
+export const DEFAULT_MAZE_MODEL: MazeModel = 'cell';
+export const DEFAULT_GRID_TOPOLOGY: GridTopology = 'square';
+export const DEFAULT_MAZE_GENERATOR: MazeGeneratorType = 'backtracker';
+export const DEFAULT_BRAID_FACTOR = 0;
+export const DEFAULT_LOOP_RATE = 0;
+export const DEFAULT_TIE_BREAKING: TieBreaking = 'none';
+export const DEFAULT_HEURISTIC_WEIGHT = 1;
+export const DEFAULT_MISSION_MODE: MissionMode = 'ordered';
+export const MAX_HEURISTIC_WEIGHT = 5;
+
+export const TIE_BREAKING_LABELS: Record<TieBreaking, string> = {
+  'none': '无',
+  'high-g': '优先大 g',
+  'low-h': '优先小 h',
+  'lifo': 'LIFO',
+  'fifo': 'FIFO',
+};
+export const MAZE_GENERATOR_LABELS: Record<MazeGeneratorType, string> = {
+  'backtracker': '递归回溯',
+  'prim': 'Prim 算法',
+  'kruskal': 'Kruskal 算法',
+  'eller': 'Eller 算法',
+  'wilson': 'Wilson（均匀生成树）',
+  'aldous-broder': 'Aldous-Broder',
+  'division': '递归分割',
+  'caves': '元胞自动机洞穴',
+  'open': '随机散布障碍',
+};
+export const MISSION_MODE_LABELS: Record<MissionMode, string> = {
+  'ordered': '按顺序',
+  'any-order': '任意顺序',
+};
+export const GRID_TOPOLOGY_LABELS: Record<GridTopology, string> = {
+  square: '方格',
+  hex: '六边形',
+};
+/** Generators and planners that work on hex grids; the others fall back to the backtracker / A* */
+export const HEX_MAZE_GENERATORS: MazeGeneratorType[] = ['backtracker', 'prim', 'caves', 'open'];
+export const HEX_ALGORITHMS: PathfindingAlgorithm[] = ['bfs', 'astar', 'dijkstra'];
 export const AGENT_COLORS = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8'];
 export const MAX_AGENTS = 5;
 export const MIN_MAZE_SIZE = 10;
 export const MAX_MAZE_SIZE = 500;
 
+// ── Terrain traversal costs (entering an empty cell costs 1) ──
+export const TERRAIN_COSTS: Record<TerrainType, number> = {
+  ramp: 2,
+  sand: 3,
+  mud: 5,
+};
+export const TERRAIN_TYPES: TerrainType[] = ['ramp', 'sand', 'mud'];
+
+// ── Maze editor ──
+export const EDITOR_TOOL_LABELS: Record<EditorTool, string> = {
+  brush: '画笔',
+  line: '直线',
+  rect: '矩形框',
+  fill: '填充矩形',
+};
+export const PAINT_TYPE_LABELS: Record<PaintType, string> = {
+  obstacle: '障碍',
+  empty: '擦除',
+  ramp: '斜坡',
+  sand: '沙地',
+  mud: '泥地',
+};
+export const BRUSH_SIZES = [1, 2, 3, 5];
+
+// ── Checkpoint missions ──
+export const MAX_WAYPOINTS = 20;
+/** Any-order missions up to this many waypoints are solved exactly (Held–Karp, O(2ⁿ·n²)) */
+export const EXACT_TOUR_MAX_WAYPOINTS = 10;
+
+// ── Dynamic obstacles ──
+export const MAX_DYNAMIC_TOGGLES = 50;
+export const MAX_DYNAMIC_PATROLS = 10;
+export const DEFAULT_DYNAMIC_PERIOD = 10;
+export const MIN_DYNAMIC_PERIOD = 2;
+export const MAX_DYNAMIC_PERIOD = 100;
+/** Cells in a patrol route, and ticks per patrol step */
+export const PATROL_ROUTE_LENGTH = 6;
+export const PATROL_STEP_TICKS = 2;
+
+// ── Maze history ──
+export const MAX_MAZE_HISTORY = 30;
+export const MAZE_HISTORY_SOURCE_LABELS: Record<MazeHistorySource, string> = {
+  generate: '生成',
+  reset: '重置',
+  file: '导入',
+  edit: '编辑',
+};
+
 // ── Simulation timing constants ──
 export const SIM_TICK_MS = 200;
 export const EXPERIMENT_DEFER_MS = 50;
+/**
+ * IDA* gives up after this many expansions (it is exponential on open grids).
+ * It runs on the main thread during a tick at roughly 1 µs per expansion, so
+ * this keeps one search near 0.1 s.
+ */
+export const IDA_STAR_MAX_EXPANSIONS = 100_000;
+export const WEIGHT_SWEEP_VALUES = [1, 1.25, 1.5, 2, 3, 5];
+export const WEIGHT_SWEEP_RUNS = 3;
+export const WEIGHT_SWEEP_OBSTACLE_RATE = 0.2;
 export const COLLISION_MAX_ROUNDS = 10;
 
 // ── Rendering thresholds ──
 export const CELL_SIZE_LABEL_THRESHOLD = 10;
 export const CELL_SIZE_SG_THRESHOLD = 12;
 export const CELL_SIZE_BORDER_THRESHOLD = 6;
+export const CELL_SIZE_FLOOD_LABEL_THRESHOLD = 18;
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bidirectionalBfsPathfinding,
+  bidirectionalAStarPathfinding,
+} from '../src/algorithms/bidirectional';
+import { bfsPathfinding } from '../src/algorithms/bfs';
+import { aStarPathfinding } from '../src/algorithms/astar';
+import { dijkstraPathfinding } from '../src/algorithms/dijkstra';
+import type { Cell } from '../src/types';
+import { createEmptyMaze, createRandomMaze, createRng } from './fixtures';
+
+const KINDS: Cell['type'][] = ['obstacle', 'mud', 'sand'];
+
+describe('Bidirectional BFS', () => {
+  it('should find a shortest path from start to goal', () => {
+    const maze = createEmptyMaze(10);
+    const result = bidirectionalBfsPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 });
+    expect(result.path.length).toBe(19);
+    expect(result.path[0]).toEqual({ x: 0, y: 0 });
+    expect(result.path[result.path.length - 1]).toEqual({ x: 9, y: 9 });
+  });
+
+  it('should report forward and backward explored sets separately', () => {
+    const maze = createEmptyMaze(10);
+    const result = bidirectionalBfsPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 });
+    expect(result.exploredNodes.length).toBeGreaterThan(0);
+    expect(result.backwardExploredNodes?.length).toBeGreaterThan(0);
+    expect(result.exploredNodes[0]).toEqual({ x: 0, y: 0 });
+    expect(result.backwardExploredNodes?.[0]).toEqual({ x: 9, y: 9 });
+  });
+
+  it('should explore fewer nodes than BFS', () => {
+    const maze = createEmptyMaze(30);
+    const bfs = bfsPathfinding(maze, { x: 0, y: 15 }, { x: 29, y: 15 });
+    const bi = bidirectionalBfsPathfinding(maze, { x: 0, y: 15 }, { x: 29, y: 15 });
+    const biTotal = bi.exploredNodes.length + (bi.backwardExploredNodes?.length ?? 0);
+    expect(bi.path.length).toBe(bfs.path.length);
+    expect(biTotal).toBeLessThan(bfs.exploredNodes.length);
+  });
+
+  it('should return empty path when blocked', () => {
+    const maze = createEmptyMaze(5);
+    for (let y = 0; y < 5; y++) maze[y][2].type = 'obstacle';
+    const result = bidirectionalBfsPathfinding(maze, { x: 0, y: 0 }, { x: 4, y: 4 });
+    expect(result.path.length).toBe(0);
+  });
+
+  it('should handle start == goal', () => {
+    const maze = createEmptyMaze(5);
+    const result = bidirectionalBfsPathfinding(maze, { x: 2, y: 2 }, { x: 2, y: 2 });
+    expect(result.path).toEqual([{ x: 2, y: 2 }]);
+  });
+
+  it('should match BFS path length on random mazes', () => {
+    const rng = createRng(1);
+    for (let i = 0; i < 30; i++) {
+      const start = { x: 0, y: 0 };
+      const goal = { x: 14, y: 14 };
+      const maze = createRandomMaze(rng, 15, 0.3, { kinds: KINDS, keepOpen: [start, goal] });
+      const bfs = bfsPathfinding(maze, start, goal);
+      const bi = bidirectionalBfsPathfinding(maze, start, goal);
+      expect(bi.path.length).toBe(bfs.path.length);
+    }
+  });
+});
+
+describe('Bidirectional A*', () => {
+  it('should find the optimal path in an empty maze', () => {
+    const maze = createEmptyMaze(10);
+    const result = bidirectionalAStarPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 });
+    expect(result.path.length).toBe(19);
+    expect(result.cost).toBe(18);
+  });
+
+  it('should return empty path when blocked', () => {
+    const maze = createEmptyMaze(5);
+    for (let y = 0; y < 5; y++) maze[y][2].type = 'obstacle';
+    const result = bidirectionalAStarPathfinding(maze, { x: 0, y: 0 }, { x: 4, y: 4 });
+    expect(result.path.length).toBe(0);
+  });
+
+  it('should match Dijkstra cost on random weighted mazes', () => {
+    const rng = createRng(2);
+    for (let i = 0; i < 30; i++) {
+      const start = { x: 0, y: 0 };
+      const goal = { x: 14, y: 14 };
+      const maze = createRandomMaze(rng, 15, 0.35, { kinds: KINDS, keepOpen: [start, goal] });
+      const dijkstra = dijkstraPathfinding(maze, start, goal);
+      const bi = bidirectionalAStarPathfinding(maze, start, goal, 'manhattan');
+      expect(bi.path.length > 0).toBe(dijkstra.path.length > 0);
+      expect(bi.cost).toBeCloseTo(dijkstra.cost, 6);
+    }
+  });
+
+  it('should stay optimal with diagonal movement', () => {
+    const maze = createEmptyMaze(12);
+    for (let y = 0; y < 10; y++) maze[y][6].type = 'obstacle';
+    const options = { movement: '8-no-corner-cutting' as const };
+    const astar = aStarPathfinding(maze, { x: 0, y: 0 }, { x: 11, y: 0 }, 'diagonal', options);
+    const bi = bidirectionalAStarPathfinding(maze, { x: 0, y: 0 }, { x: 11, y: 0 }, 'diagonal', options);
+    expect(bi.cost).toBeCloseTo(astar.cost, 6);
+  });
+});
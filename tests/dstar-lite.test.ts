@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { DStarLitePlanner, dStarLitePathfinding } from '../src/algorithms/dstar-lite';
+import { dijkstraPathfinding } from '../src/algorithms/dijkstra';
+import type { Maze, Cell, Position, MovementModel } from '../src/types';
+import { createEmptyMaze, createRandomMaze, createRng } from './fixtures';
+
+const KINDS: Cell['type'][] = ['empty', 'empty', 'obstacle', 'obstacle', 'mud', 'sand'];
+
+function randomizeCell(rng: () => number, maze: Maze, p: Position) {
+  maze[p.y][p.x].type = KINDS[Math.floor(rng() * KINDS.length)];
+}
+
+const MODELS: MovementModel[] = ['4-connected', '8-no-corner-cutting', '8-corner-cutting'];
+
+describe('D* Lite', () => {
+  it('should find a shortest path on an open grid', () => {
+    const maze = createEmptyMaze(10);
+    const result = dStarLitePathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 }, 'manhattan');
+    expect(result.path.length).toBe(19);
+    expect(result.path[0]).toEqual({ x: 0, y: 0 });
+    expect(result.path[18]).toEqual({ x: 9, y: 9 });
+    expect(result.cost).toBe(18);
+  });
+
+  it('should return an empty path when the goal is walled off', () => {
+    const maze = createEmptyMaze(6);
+    for (let y = 0; y < 6; y++) maze[y][3].type = 'obstacle';
+    expect(dStarLitePathfinding(maze, { x: 0, y: 0 }, { x: 5, y: 5 }).path).toEqual([]);
+  });
+
+  it('should match Dijkstra cost on random weighted mazes', () => {
+    const rng = createRng(1);
+    for (let i = 0; i < 30; i++) {
+      const size = 6 + Math.floor(rng() * 15);
+      const start = { x: 0, y: 0 };
+      const goal = { x: size - 1, y: size - 1 };
+      const maze = createRandomMaze(rng, size, 0.4, { kinds: KINDS, keepOpen: [start, goal] });
+      for (const movement of MODELS) {
+        const dijkstra = dijkstraPathfinding(maze, start, goal, { movement });
+        const dstar = dStarLitePathfinding(maze, start, goal, undefined, { movement });
+        expect(dstar.path.length > 0).toBe(dijkstra.path.length > 0);
+        expect(dstar.cost).toBeCloseTo(dijkstra.cost, 9);
+      }
+    }
+  });
+
+  it('should stay optimal while the agent moves and cells change', () => {
+    const rng = createRng(2);
+    for (let round = 0; round < 20; round++) {
+      const size = 8 + Math.floor(rng() * 10);
+      const goal = { x: size - 1, y: size - 1 };
+      let position = { x: 0, y: 0 };
+      const maze = createRandomMaze(rng, size, 0.3, { kinds: KINDS, keepOpen: [position, goal] });
+      const movement = MODELS[round % MODELS.length];
+      const planner = new DStarLitePlanner(maze, goal, undefined, { movement });
+      let result = planner.plan(position, maze);
+
+      for (let step = 0; step < 15; step++) {
+        // Advance a couple of cells along the current plan
+        if (result.path.length > 2) position = result.path[2];
+        for (let k = 0; k < 4; k++) {
+          const cell = { x: Math.floor(rng() * size), y: Math.floor(rng() * size) };
+          const isEndpoint = (cell.x === position.x && cell.y === position.y) ||
+            (cell.x === goal.x && cell.y === goal.y);
+          if (!isEndpoint) {
+            randomizeCell(rng, maze, cell);
+            planner.markChanged([cell]);
+          }
+        }
+
+        result = planner.plan(position, maze);
+        const dijkstra = dijkstraPathfinding(maze, position, goal, { movement });
+        expect(result.path.length > 0).toBe(dijkstra.path.length > 0);
+        expect(result.cost).toBeCloseTo(dijkstra.cost, 9);
+        if (result.path.length > 0) {
+          expect(result.path[0]).toEqual(position);
+          expect(result.path[result.path.length - 1]).toEqual(goal);
+        }
+      }
+    }
+  });
+
+  it('should repair a change near the agent with fewer expansions than a fresh search', () => {
+    const size = 40;
+    const start = { x: 0, y: 20 };
+    const goal = { x: 39, y: 20 };
+    const maze = createEmptyMaze(size);
+    const planner = new DStarLitePlanner(maze, goal, 'manhattan');
+    const initial = planner.plan(start, maze);
+
+    // Block the planned route just ahead of the agent, where D* Lite repairs are cheap
+    const blocked = initial.path[3];
+    maze[blocked.y][blocked.x].type = 'obstacle';
+    planner.markChanged([blocked]);
+
+    const repair = planner.plan(start, maze);
+    const fresh = dStarLitePathfinding(maze, start, goal, 'manhattan');
+    expect(repair.cost).toBe(fresh.cost);
+    expect(repair.expansions).toBeLessThan(fresh.expansions);
+    expect(planner.totalExpansions).toBe(initial.expansions + repair.expansions);
+  });
+
+  it('should only re-read cells reported as changed', () => {
+    const maze = createEmptyMaze(10);
+    const start = { x: 0, y: 5 };
+    const goal = { x: 9, y: 5 };
+    const planner = new DStarLitePlanner(maze, goal, 'manhattan');
+    const initial = planner.plan(start, maze);
+    const ahead = initial.path[2];
+
+    // An unreported change is not seen, and nothing needs repairing
+    maze[ahead.y][ahead.x].type = 'obstacle';
+    const unaware = planner.plan(start, maze);
+    expect(unaware.expansions).toBe(0);
+    expect(unaware.path).toContainEqual(ahead);
+
+    planner.markChanged([ahead]);
+    const repaired = planner.plan(start, maze);
+    expect(repaired.path).not.toContainEqual(ahead);
+    expect(repaired.cost).toBe(dijkstraPathfinding(maze, start, goal).cost);
+  });
+});
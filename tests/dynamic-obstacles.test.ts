@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDynamicObstacles, stepDynamicObstacles, toggleDroppedObstacle, clearDynamicObstacles, hasMovingObstacles,
+} from '../src/lib/dynamic-obstacles';
+import { neighborProvider } from '../src/algorithms/movement';
+import { createRng } from '../src/algorithms/random';
+import { PATROL_ROUTE_LENGTH, PATROL_STEP_TICKS } from '../src/types';
+import type { Maze, Position } from '../src/types';
+import { createEmptyMaze } from './fixtures';
+
+const neighbors = neighborProvider('4-connected');
+const never = () => false;
+const at = (q: Position) => (p: Position) => p.x === q.x && p.y === q.y;
+const obstacleCount = (maze: Maze) => maze.flat().filter(c => c.type === 'obstacle').length;
+
+describe('Dynamic obstacles', () => {
+  it('should place toggles and patrol routes on free cells away from reserved ones', () => {
+    const maze = createEmptyMaze(12, 10);
+    maze[0][0].type = 'start';
+    maze[9][11].type = 'goal';
+    maze[4][4].type = 'obstacle';
+    const reserved = [{ x: 3, y: 3 }, { x: 6, y: 2 }];
+    const obstacles = createDynamicObstacles(
+      maze, { toggles: 20, patrols: 3, period: 5 }, neighbors, reserved, createRng(7),
+    );
+
+    expect(obstacles.toggles).toHaveLength(20);
+    expect(obstacles.patrols).toHaveLength(3);
+    const cells = [...obstacles.toggles.map(t => t.cell), ...obstacles.patrols.flatMap(p => p.route)];
+    const keys = cells.map(p => `${p.x},${p.y}`);
+    expect(new Set(keys).size).toBe(keys.length);
+    for (const p of cells) {
+      expect(maze[p.y][p.x].type).toBe('empty');
+      expect(reserved.some(at(p))).toBe(false);
+    }
+    for (const { route } of obstacles.patrols) {
+      expect(route.length).toBeGreaterThanOrEqual(2);
+      expect(route.length).toBeLessThanOrEqual(PATROL_ROUTE_LENGTH);
+      for (let i = 1; i < route.length; i++) {
+        expect(Math.abs(route[i].x - route[i - 1].x) + Math.abs(route[i].y - route[i - 1].y)).toBe(1);
+      }
+    }
+    for (const t of obstacles.toggles) {
+      expect(t.period).toBeGreaterThanOrEqual(5);
+      expect(t.period).toBeLessThanOrEqual(10);
+    }
+    expect(hasMovingObstacles(obstacles)).toBe(true);
+  });
+
+  it('should be reproducible from the seed', () => {
+    const maze = createEmptyMaze(8, 8);
+    const settings = { toggles: 5, patrols: 2, period: 10 };
+    expect(createDynamicObstacles(maze, settings, neighbors, [], createRng(3)))
+      .toEqual(createDynamicObstacles(maze, settings, neighbors, [], createRng(3)));
+  });
+
+  it('should block toggles during the odd periods of their schedule', () => {
+    const maze = createEmptyMaze(5, 5);
+    const cell = { x: 2, y: 2 };
+    let step = stepDynamicObstacles(
+      { toggles: [{ cell, base: 'empty', period: 3, phase: 0 }], patrols: [], drops: new Map() }, maze, 0, never,
+    );
+    expect(step.maze).toBe(maze);
+    expect(step.changed).toEqual([]);
+
+    const states: boolean[] = [];
+    for (let tick = 0; tick < 12; tick++) {
+      step = stepDynamicObstacles(step.obstacles, step.maze, tick, never);
+      states.push(step.maze[2][2].type === 'obstacle');
+    }
+    expect(states).toEqual([false, false, false, true, true, true, false, false, false, true, true, true]);
+    // Untouched rows are shared with the original maze
+    expect(step.maze[0]).toBe(maze[0]);
+    expect(maze[2][2].type).toBe('empty');
+  });
+
+  it('should not close a toggle on a cell kept open', () => {
+    const maze = createEmptyMaze(5, 5);
+    const cell = { x: 1, y: 1 };
+    const obstacles = { toggles: [{ cell, base: 'empty' as const, period: 2, phase: 2 }], patrols: [], drops: new Map() };
+    expect(stepDynamicObstacles(obstacles, maze, 0, at(cell)).maze[1][1].type).toBe('empty');
+    expect(stepDynamicObstacles(obstacles, maze, 0, never).maze[1][1].type).toBe('obstacle');
+  });
+
+  it('should walk patrols back and forth and wait for agents in the way', () => {
+    const maze = createEmptyMaze(5, 3);
+    const route = [{ x: 0, y: 1 }, { x: 1, y: 1 }, { x: 2, y: 1 }];
+    let step = stepDynamicObstacles(
+      { toggles: [], patrols: [{ route, bases: ['empty', 'empty', 'empty'], index: 0, direction: 1 }], drops: new Map() },
+      maze, 0, never,
+    );
+    expect(step.maze[1][0].type).toBe('obstacle');
+
+    const positions: number[] = [];
+    for (let tick = 1; tick <= 5 * PATROL_STEP_TICKS; tick++) {
+      step = stepDynamicObstacles(step.obstacles, step.maze, tick, never);
+      if (tick % PATROL_STEP_TICKS === 0) positions.push(step.obstacles.patrols[0].index);
+      expect(obstacleCount(step.maze)).toBe(1);
+    }
+    expect(positions).toEqual([1, 2, 1, 0, 1]);
+
+    // An agent on the next cell holds the patrol where it is
+    const blocked = stepDynamicObstacles(step.obstacles, step.maze, 6 * PATROL_STEP_TICKS, at(route[2]));
+    expect(blocked.obstacles.patrols[0].index).toBe(1);
+    expect(blocked.changed).toEqual([]);
+  });
+
+  it('should drop and lift obstacles by clicking, refusing cells that cannot take one', () => {
+    const maze = createEmptyMaze(5, 5);
+    maze[0][0].type = 'start';
+    maze[4][4].type = 'goal';
+    maze[2][2].type = 'mud';
+    const obstacles = {
+      toggles: [{ cell: { x: 3, y: 3 }, base: 'empty' as const, period: 4, phase: 0 }], patrols: [], drops: new Map(),
+    };
+
+    expect(toggleDroppedObstacle(obstacles, maze, { x: 0, y: 0 }, never)).toBeNull();
+    expect(toggleDroppedObstacle(obstacles, maze, { x: 4, y: 4 }, never)).toBeNull();
+    expect(toggleDroppedObstacle(obstacles, maze, { x: 3, y: 3 }, never)).toBeNull();
+    expect(toggleDroppedObstacle(obstacles, maze, { x: 1, y: 1 }, at({ x: 1, y: 1 }))).toBeNull();
+
+    const dropped = toggleDroppedObstacle(obstacles, maze, { x: 2, y: 2 }, never)!;
+    expect(dropped.maze[2][2].type).toBe('obstacle');
+    expect(dropped.changed).toEqual([{ x: 2, y: 2 }]);
+    expect(maze[2][2].type).toBe('mud');
+
+    const lifted = toggleDroppedObstacle(dropped.obstacles, dropped.maze, { x: 2, y: 2 }, never)!;
+    expect(lifted.maze[2][2].type).toBe('mud');
+    expect(lifted.obstacles.drops.size).toBe(0);
+  });
+
+  it('should restore every cell when cleared', () => {
+    const maze = createEmptyMaze(10, 10);
+    maze[5][5].type = 'sand';
+    let obstacles = createDynamicObstacles(maze, { toggles: 10, patrols: 2, period: 2 }, neighbors, [], createRng(11));
+    let current = maze;
+    for (let tick = 0; tick < 20; tick++) {
+      const step = stepDynamicObstacles(obstacles, current, tick, never);
+      obstacles = step.obstacles;
+      current = step.maze;
+    }
+    const drop = toggleDroppedObstacle(obstacles, current, { x: 5, y: 5 }, never);
+    if (drop) {
+      obstacles = drop.obstacles;
+      current = drop.maze;
+    }
+    expect(obstacleCount(current)).toBeGreaterThan(0);
+    expect(clearDynamicObstacles(obstacles, current)).toEqual(maze);
+    expect(clearDynamicObstacles(obstacles, maze)).toBe(maze);
+  });
+});
@@ -0,0 +1,44 @@
+import type { Cell, CellType, Maze, Position, Rng } from '../src/types';
+import { randomInt } from '../src/algorithms/random';
+
+/*
+ * Mazes shared by the test files. Random ones are drawn from a seeded `Rng`
+ * (`createRng(seed)`), so a failing property test replays exactly.
+ */
+
+export { createRng } from '../src/algorithms/random';
+
+/** width × height maze of empty cells; square when `height` is omitted */
+export function createEmptyMaze(width: number, height = width): Maze {
+  const maze: Maze = [];
+  for (let y = 0; y < height; y++) {
+    const row: Cell[] = [];
+    for (let x = 0; x < width; x++) {
+      row.push({ type: 'empty' });
+    }
+    maze.push(row);
+  }
+  return maze;
+}
+
+export interface RandomMazeOptions {
+  /** What a randomized cell becomes, picked uniformly; obstacles by default */
+  kinds?: readonly CellType[];
+  /** Cells left empty whatever was drawn, e.g. the start and goal */
+  keepOpen?: readonly Position[];
+}
+
+/** size × size maze where each cell is, with probability `rate`, one of `kinds` */
+export function createRandomMaze(
+  rng: Rng, size: number, rate: number, options: RandomMazeOptions = {},
+): Maze {
+  const { kinds = ['obstacle'], keepOpen = [] } = options;
+  const maze = createEmptyMaze(size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (rng() < rate) maze[y][x].type = kinds[randomInt(rng, kinds.length)];
+    }
+  }
+  for (const p of keepOpen) maze[p.y][p.x].type = 'empty';
+  return maze;
+}
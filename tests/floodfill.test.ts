@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  floodDistances, createBeliefMap, senseSurroundings, nextFloodStep, floodPath, floodFillPathfinding,
+} from '../src/algorithms/floodfill';
+import { bfsPathfinding } from '../src/algorithms/bfs';
+import type { Maze, Position, MovementModel } from '../src/types';
+import { createEmptyMaze, createRandomMaze, createRng } from './fixtures';
+
+/** Sense-then-step until the goal is reached or the agent gives up */
+function explore(maze: Maze, start: Position, goal: Position, movement: MovementModel) {
+  const size = maze.length;
+  let belief = senseSurroundings(createBeliefMap(size, size, goal, movement), maze, start, goal, movement);
+  let position = start;
+  let steps = 0;
+  while (!(position.x === goal.x && position.y === goal.y) && steps < size * size * 4) {
+    const next = nextFloodStep(belief, position, movement);
+    if (!next) break;
+    expect(maze[next.y][next.x].type).not.toBe('obstacle');
+    position = next;
+    steps++;
+    belief = senseSurroundings(belief, maze, position, goal, movement);
+  }
+  return { position, steps, belief };
+}
+
+const MODELS: MovementModel[] = ['4-connected', '8-no-corner-cutting', '8-corner-cutting'];
+
+describe('Flood fill', () => {
+  it('should match BFS step counts from the goal', () => {
+    const rng = createRng(1);
+    for (const movement of MODELS) {
+      for (let trial = 0; trial < 10; trial++) {
+        const goal = { x: 11, y: 11 };
+        const maze = createRandomMaze(rng, 12, 0.25, { keepOpen: [{ x: 0, y: 0 }, goal] });
+        const flood = floodDistances(maze, goal, movement);
+        for (let y = 0; y < 12; y += 3) {
+          for (let x = 0; x < 12; x += 3) {
+            if (maze[y][x].type === 'obstacle') continue;
+            const result = bfsPathfinding(maze, { x, y }, goal, { movement });
+            expect(flood[y * 12 + x]).toBe(result.path.length - 1);
+          }
+        }
+      }
+    }
+  });
+
+  it('should mark obstacles and walled-off cells as -1', () => {
+    const maze = createEmptyMaze(6);
+    for (let y = 0; y < 6; y++) maze[y][3].type = 'obstacle';
+    const flood = floodDistances(maze, { x: 5, y: 5 }, '4-connected');
+    expect(flood[0]).toBe(-1);
+    expect(flood[3]).toBe(-1);
+    expect(flood[5 * 6 + 4]).toBe(1);
+  });
+
+  it('should plan BFS-length paths on the known maze', () => {
+    const rng = createRng(2);
+    for (const movement of MODELS) {
+      for (let trial = 0; trial < 10; trial++) {
+        const start = { x: 0, y: 0 };
+        const goal = { x: 9, y: 9 };
+        const maze = createRandomMaze(rng, 10, 0.3, { keepOpen: [start, goal] });
+        const bfs = bfsPathfinding(maze, start, goal, { movement });
+        const flood = floodFillPathfinding(maze, start, goal, { movement });
+        expect(flood.path.length).toBe(bfs.path.length);
+        if (flood.path.length > 0) expect(flood.path[flood.path.length - 1]).toEqual(goal);
+      }
+    }
+  });
+
+  it('should start from the optimistic all-open belief', () => {
+    const belief = createBeliefMap(8, 8, { x: 7, y: 7 }, '4-connected');
+    expect(belief.known.every(k => k === 0)).toBe(true);
+    expect(belief.flood[0]).toBe(14);
+    expect(floodPath(belief, { x: 0, y: 0 }, '4-connected').length).toBe(15);
+  });
+
+  it('should only sense adjacent cells and reflood on walls', () => {
+    const maze = createEmptyMaze(6);
+    maze[0][1].type = 'obstacle';
+    const goal = { x: 5, y: 5 };
+    const belief = createBeliefMap(6, 6, goal, '4-connected');
+    const sensed = senseSurroundings(belief, maze, { x: 0, y: 0 }, goal, '4-connected');
+
+    expect(sensed.refloods).toBe(1);
+    expect(sensed.known[0]).toBe(1);
+    expect(sensed.known[1]).toBe(1);
+    expect(sensed.known[6]).toBe(1);
+    expect(sensed.known[7]).toBe(0);
+    expect(sensed.flood[1]).toBe(-1);
+
+    // Same cell again: nothing new
+    expect(senseSurroundings(sensed, maze, { x: 0, y: 0 }, goal, '4-connected')).toBe(sensed);
+  });
+
+  it('should re-sense known cells that changed and reflood when a wall comes or goes', () => {
+    const maze = createEmptyMaze(6);
+    const goal = { x: 5, y: 5 };
+    const sensed = senseSurroundings(createBeliefMap(6, 6, goal, '4-connected'), maze, { x: 0, y: 0 }, goal, '4-connected');
+    expect(sensed.refloods).toBe(0);
+
+    const blocked = maze.map(row => row.map(c => ({ ...c })));
+    blocked[0][1].type = 'obstacle';
+    const afterBlock = senseSurroundings(sensed, blocked, { x: 0, y: 0 }, goal, '4-connected');
+    expect(afterBlock.refloods).toBe(1);
+    expect(afterBlock.flood[1]).toBe(-1);
+
+    const reopened = senseSurroundings(afterBlock, maze, { x: 0, y: 0 }, goal, '4-connected');
+    expect(reopened.refloods).toBe(2);
+    expect(reopened.flood[1]).toBe(9);
+  });
+
+  it('should leave the previous belief untouched', () => {
+    const maze = createEmptyMaze(6);
+    maze[0][1].type = 'obstacle';
+    const goal = { x: 5, y: 5 };
+    const belief = createBeliefMap(6, 6, goal, '4-connected');
+    const { known, flood } = belief;
+    const rows = [...belief.maze];
+    const sensed = senseSurroundings(belief, maze, { x: 0, y: 0 }, goal, '4-connected');
+
+    expect(belief.known).toBe(known);
+    expect([...known].every(v => v === 0)).toBe(true);
+    expect(belief.flood).toBe(flood);
+    expect(belief.maze.every((row, y) => row === rows[y])).toBe(true);
+    expect(belief.maze[0][1].type).toBe('empty');
+    expect(sensed.maze[0][1].type).toBe('obstacle');
+    // Rows it did not touch are shared
+    expect(sensed.maze[3]).toBe(belief.maze[3]);
+  });
+
+  it('should reach the goal in solvable mazes, never shorter than the known-map optimum', () => {
+    const rng = createRng(3);
+    for (const movement of MODELS) {
+      for (let trial = 0; trial < 20; trial++) {
+        const start = { x: 0, y: 0 };
+        const goal = { x: 14, y: 14 };
+        const maze = createRandomMaze(rng, 15, 0.3, { keepOpen: [start, goal] });
+        const optimal = bfsPathfinding(maze, start, goal, { movement });
+        if (optimal.path.length === 0) continue;
+
+        const { position, steps, belief } = explore(maze, start, goal, movement);
+        expect(position).toEqual(goal);
+        expect(steps).toBeGreaterThanOrEqual(optimal.path.length - 1);
+        if (steps > optimal.path.length - 1) expect(belief.refloods).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('should stop when the goal turns out to be unreachable', () => {
+    const maze = createEmptyMaze(8);
+    for (let y = 0; y < 8; y++) maze[y][4].type = 'obstacle';
+    const goal = { x: 7, y: 7 };
+    const { position, belief } = explore(maze, { x: 0, y: 0 }, goal, '4-connected');
+
+    expect(position).not.toEqual(goal);
+    expect(belief.flood[position.y * 8 + position.x]).toBe(-1);
+    expect(nextFloodStep(belief, position, '4-connected')).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { centerGoalRegion, createGoalTest, goalCells, nearestGoalDistance } from '../src/algorithms/goals';
+import { manhattanDistance } from '../src/algorithms/heuristics';
+import { bfsPathfinding } from '../src/algorithms/bfs';
+import { aStarPathfinding } from '../src/algorithms/astar';
+import { dijkstraPathfinding } from '../src/algorithms/dijkstra';
+import { jpsPathfinding } from '../src/algorithms/jps';
+import { idaStarPathfinding } from '../src/algorithms/idastar';
+import { bidirectionalAStarPathfinding, bidirectionalBfsPathfinding } from '../src/algorithms/bidirectional';
+import { dStarLitePathfinding } from '../src/algorithms/dstar-lite';
+import { floodDistances, floodFillPathfinding } from '../src/algorithms/floodfill';
+import { createWallMaze, generateWallMaze } from '../src/algorithms/wall-maze';
+import {
+  wallAStarPathfinding, wallBfsPathfinding, wallFloodDistances, wallFloodFillPathfinding,
+} from '../src/algorithms/wall-pathfinding';
+import { createRng } from '../src/algorithms/random';
+import type { Maze, PathfindingOptions, Position, PathfindingResult } from '../src/types';
+import { createEmptyMaze } from './fixtures';
+
+/** Every planner with the cell-maze signature, heuristic-free ones adapted */
+const PLANNERS: [string, (m: Maze, s: Position, g: Position, o: PathfindingOptions) => PathfindingResult][] = [
+  ['BFS', bfsPathfinding],
+  ['A*', (m, s, g, o) => aStarPathfinding(m, s, g, undefined, o)],
+  ['Dijkstra', dijkstraPathfinding],
+  ['JPS', (m, s, g, o) => jpsPathfinding(m, s, g, undefined, o)],
+  ['IDA*', (m, s, g, o) => idaStarPathfinding(m, s, g, undefined, o)],
+  ['bidirectional BFS', bidirectionalBfsPathfinding],
+  ['bidirectional A*', (m, s, g, o) => bidirectionalAStarPathfinding(m, s, g, undefined, o)],
+  ['D* Lite', (m, s, g, o) => dStarLitePathfinding(m, s, g, undefined, o)],
+  ['flood fill', floodFillPathfinding],
+];
+
+describe('Goal regions', () => {
+  it('should add the primary goal to the region once', () => {
+    const goal = { x: 1, y: 1 };
+    expect(goalCells(goal)).toEqual([goal]);
+    expect(goalCells(goal, [])).toEqual([goal]);
+    expect(goalCells(goal, [{ x: 2, y: 1 }])).toEqual([goal, { x: 2, y: 1 }]);
+    expect(goalCells(goal, [{ x: 2, y: 1 }, { x: 1, y: 1 }])).toHaveLength(2);
+
+    const isGoal = createGoalTest([goal, { x: 2, y: 1 }]);
+    expect(isGoal({ x: 2, y: 1 })).toBe(true);
+    expect(isGoal({ x: 1, y: 2 })).toBe(false);
+  });
+
+  it('should measure the distance to the nearest goal', () => {
+    const h = nearestGoalDistance(manhattanDistance, [{ x: 0, y: 0 }, { x: 9, y: 9 }]);
+    expect(h({ x: 1, y: 2 })).toBe(3);
+    expect(h({ x: 8, y: 6 })).toBe(4);
+  });
+
+  it('should place the 2×2 centre region in the middle of the maze', () => {
+    expect(centerGoalRegion(16, 16)).toEqual([{ x: 7, y: 7 }, { x: 8, y: 7 }, { x: 7, y: 8 }, { x: 8, y: 8 }]);
+    expect(centerGoalRegion(10, 6)[0]).toEqual({ x: 4, y: 2 });
+  });
+
+  it.each(PLANNERS)('%s should stop at the nearest goal cell', (_, plan) => {
+    // The primary goal is far; a region cell next to the start is nearest
+    const maze = createEmptyMaze(12, 8);
+    maze[3][6].type = 'obstacle';
+    const goals = [{ x: 11, y: 7 }, { x: 5, y: 0 }, { x: 11, y: 0 }];
+    const result = plan(maze, { x: 1, y: 1 }, goals[0], { goals });
+
+    expect(result.path[0]).toEqual({ x: 1, y: 1 });
+    expect(result.path[result.path.length - 1]).toEqual({ x: 5, y: 0 });
+    expect(result.path).toHaveLength(6);
+  });
+
+  it.each(PLANNERS)('%s should reach a region whose primary goal is walled off', (_, plan) => {
+    const maze = createEmptyMaze(9, 9);
+    // Box in (8,8); its neighbour (6,8) stays reachable
+    maze[7][7].type = 'obstacle';
+    maze[7][8].type = 'obstacle';
+    maze[8][7].type = 'obstacle';
+    const result = plan(maze, { x: 0, y: 0 }, { x: 8, y: 8 }, { goals: [{ x: 6, y: 8 }] });
+
+    expect(result.path[result.path.length - 1]).toEqual({ x: 6, y: 8 });
+    expect(result.path).toHaveLength(15);
+  });
+
+  it('should flood from every goal cell at once', () => {
+    const maze = createEmptyMaze(5, 1);
+    const flood = floodDistances(maze, [{ x: 0, y: 0 }, { x: 4, y: 0 }], '4-connected');
+    expect(Array.from(flood)).toEqual([0, 1, 2, 1, 0]);
+  });
+
+  it('should stop thin-wall planners on any goal cell', () => {
+    const walls = generateWallMaze(8, 8, { x: 0, y: 0 }, createRng(3));
+    const start = { x: 0, y: 0 };
+    const goals = [{ x: 7, y: 7 }, { x: 3, y: 4 }, { x: 4, y: 4 }];
+    // Distance from each cell to the nearest goal cell
+    const flood = wallFloodDistances(walls, goals);
+
+    for (const result of [
+      wallBfsPathfinding(walls, start, goals[0], { goals }),
+      wallAStarPathfinding(walls, start, goals[0], { goals }),
+      wallFloodFillPathfinding(walls, start, goals[0], { goals }),
+    ]) {
+      const end = result.path[result.path.length - 1];
+      expect(createGoalTest(goals)(end)).toBe(true);
+      expect(result.cost).toBe(flood[0]);
+    }
+    // An open maze: the region cell two steps away wins over the far corner
+    const open = createWallMaze(6, 6);
+    const near = wallBfsPathfinding(open, start, { x: 5, y: 5 }, { goals: [{ x: 1, y: 1 }] });
+    expect(near.path).toHaveLength(3);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { MinHeap } from '../src/algorithms/heap';
+import { MinHeap, IndexedMinHeap } from '../src/algorithms/heap';
+import { createRng } from './fixtures';
 
 describe('MinHeap', () => {
   it('should maintain min-heap property', () => {
@@ -41,3 +42,130 @@ describe('MinHeap', () => {
     expect(heap.pop()).toBe(3);
   });
 });
+
+interface Entry {
+  key: string;
+  priority: number;
+}
+
+function createIndexedHeap() {
+  return new IndexedMinHeap<Entry>((a, b) => a.priority - b.priority, e => e.key);
+}
+
+describe('IndexedMinHeap', () => {
+  it('should pop in priority order', () => {
+    const heap = createIndexedHeap();
+    heap.push({ key: 'a', priority: 5 });
+    heap.push({ key: 'b', priority: 3 });
+    heap.push({ key: 'c', priority: 7 });
+    expect(heap.pop()?.key).toBe('b');
+    expect(heap.pop()?.key).toBe('a');
+    expect(heap.pop()?.key).toBe('c');
+    expect(heap.pop()).toBeUndefined();
+  });
+
+  it('should track membership by key', () => {
+    const heap = createIndexedHeap();
+    heap.push({ key: 'a', priority: 1 });
+    expect(heap.contains('a')).toBe(true);
+    expect(heap.get('a')?.priority).toBe(1);
+    heap.pop();
+    expect(heap.contains('a')).toBe(false);
+    expect(heap.get('a')).toBeUndefined();
+  });
+
+  it('decreaseKey should move an entry to the top', () => {
+    const heap = createIndexedHeap();
+    heap.push({ key: 'a', priority: 1 });
+    heap.push({ key: 'b', priority: 5 });
+    heap.push({ key: 'c', priority: 9 });
+    heap.decreaseKey({ key: 'c', priority: 0 });
+    expect(heap.size).toBe(3);
+    expect(heap.pop()?.key).toBe('c');
+    expect(heap.pop()?.key).toBe('a');
+  });
+
+  it('should reject duplicate pushes and unknown decreaseKey', () => {
+    const heap = createIndexedHeap();
+    heap.push({ key: 'a', priority: 1 });
+    expect(() => heap.push({ key: 'a', priority: 2 })).toThrow();
+    expect(() => heap.decreaseKey({ key: 'z', priority: 0 })).toThrow();
+  });
+
+  it('should agree with a sorted reference under random pushes and decreases', () => {
+    const rng = createRng(1);
+    for (let round = 0; round < 20; round++) {
+      const heap = createIndexedHeap();
+      const reference = new Map<string, number>();
+
+      for (let i = 0; i < 200; i++) {
+        const op = rng();
+        if (op < 0.5 || reference.size === 0) {
+          const key = `k${i}`;
+          const priority = Math.floor(rng() * 1000);
+          heap.push({ key, priority });
+          reference.set(key, priority);
+        } else if (op < 0.8) {
+          const keys = [...reference.keys()];
+          const key = keys[Math.floor(rng() * keys.length)];
+          const priority = reference.get(key)! - Math.floor(rng() * 50);
+          heap.decreaseKey({ key, priority });
+          reference.set(key, priority);
+        } else {
+          const min = Math.min(...reference.values());
+          const popped = heap.pop()!;
+          expect(popped.priority).toBe(min);
+          reference.delete(popped.key);
+        }
+        expect(heap.size).toBe(reference.size);
+      }
+
+      let last = -Infinity;
+      while (heap.size > 0) {
+        const popped = heap.pop()!;
+        expect(popped.priority).toBeGreaterThanOrEqual(last);
+        last = popped.priority;
+      }
+    }
+  });
+
+  it('update and remove should keep order under random changes', () => {
+    const rng = createRng(2);
+    for (let round = 0; round < 20; round++) {
+      const heap = createIndexedHeap();
+      const reference = new Map<string, number>();
+
+      for (let i = 0; i < 200; i++) {
+        const op = rng();
+        const keys = [...reference.keys()];
+        const key = keys[Math.floor(rng() * keys.length)];
+        if (op < 0.4 || reference.size === 0) {
+          const priority = Math.floor(rng() * 1000);
+          heap.push({ key: `k${i}`, priority });
+          reference.set(`k${i}`, priority);
+        } else if (op < 0.7) {
+          const priority = Math.floor(rng() * 1000);
+          heap.update({ key, priority });
+          reference.set(key, priority);
+        } else if (op < 0.85) {
+          expect(heap.remove(key)?.key).toBe(key);
+          reference.delete(key);
+        } else {
+          const min = Math.min(...reference.values());
+          const popped = heap.pop()!;
+          expect(popped.priority).toBe(min);
+          reference.delete(popped.key);
+        }
+        expect(heap.size).toBe(reference.size);
+      }
+
+      expect(heap.remove('missing')).toBeUndefined();
+      let last = -Infinity;
+      while (heap.size > 0) {
+        const popped = heap.pop()!;
+        expect(popped.priority).toBeGreaterThanOrEqual(last);
+        last = popped.priority;
+      }
+    }
+  });
+});
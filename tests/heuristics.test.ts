@@ -3,8 +3,11 @@ import {
   manhattanDistance,
   euclideanDistance,
   diagonalDistance,
+  hexDistance,
   getHeuristicFunction,
 } from '../src/algorithms/heuristics';
+import { bfsPathfinding } from '../src/algorithms/bfs';
+import type { Cell, Maze } from '../src/types';
 
 describe('Heuristic Functions', () => {
   it('manhattan distance should be |dx| + |dy|', () => {
@@ -55,3 +58,31 @@ describe('Heuristic Functions', () => {
     expect(high(pos1, pos2)).toBeCloseTo(5.243, 2);
   });
 });
+
+describe('Hex distance', () => {
+  it('should count hex steps on the odd-r layout', () => {
+    expect(hexDistance({ x: 2, y: 2 }, { x: 2, y: 2 })).toBe(0);
+    expect(hexDistance({ x: 0, y: 0 }, { x: 5, y: 0 })).toBe(5);
+    // Odd rows sit half a cell right, so (0,1) and (0,0) touch, as do (1,1) and (2,2)
+    expect(hexDistance({ x: 0, y: 0 }, { x: 0, y: 1 })).toBe(1);
+    expect(hexDistance({ x: 1, y: 1 }, { x: 2, y: 2 })).toBe(1);
+    expect(hexDistance({ x: 0, y: 0 }, { x: 0, y: 4 })).toBe(4);
+    expect(hexDistance({ x: 0, y: 0 }, { x: 2, y: 4 })).toBe(4);
+  });
+
+  it('should equal the BFS step count on an empty hex grid', () => {
+    const maze: Maze = Array.from({ length: 9 }, () => Array.from({ length: 9 }, (): Cell => ({ type: 'empty' })));
+    const start = { x: 4, y: 3 };
+    for (let y = 0; y < 9; y++) {
+      for (let x = 0; x < 9; x++) {
+        const steps = bfsPathfinding(maze, start, { x, y }, { topology: 'hex' }).path.length - 1;
+        expect(hexDistance(start, { x, y })).toBe(steps);
+      }
+    }
+  });
+
+  it('auto mode should pick the hex distance on hex grids', () => {
+    expect(getHeuristicFunction(0.1, undefined, '4-connected', 'hex')).toBe(hexDistance);
+    expect(getHeuristicFunction(0.1, 'hex')).toBe(hexDistance);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { idaStarPathfinding } from '../src/algorithms/idastar';
+import { aStarPathfinding } from '../src/algorithms/astar';
+import { bfsPathfinding } from '../src/algorithms/bfs';
+import { dijkstraPathfinding } from '../src/algorithms/dijkstra';
+import { IDA_STAR_MAX_EXPANSIONS } from '../src/types';
+import { createEmptyMaze, createRandomMaze, createRng } from './fixtures';
+
+describe('IDA* Pathfinding', () => {
+  it('should find a shortest path on an open grid', () => {
+    const maze = createEmptyMaze(10);
+    const result = idaStarPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 }, 'manhattan');
+    expect(result.path.length).toBe(19);
+    expect(result.path[0]).toEqual({ x: 0, y: 0 });
+    expect(result.path[18]).toEqual({ x: 9, y: 9 });
+    expect(result.cost).toBe(18);
+    expect(result.gaveUp).toBeUndefined();
+  });
+
+  it('should flag a search that runs out of its expansion budget', () => {
+    // A wall down the middle of an open 20×20 grid, gap at the bottom: Manhattan
+    // distance misses the detour by 38 steps, and every iteration re-walks the
+    // combinatorially many equal-cost routes (each 2 columns wider costs ~30×)
+    const maze = createEmptyMaze(20);
+    for (let y = 0; y < 19; y++) maze[y][10].type = 'obstacle';
+    const start = { x: 0, y: 0 };
+    const goal = { x: 19, y: 0 };
+
+    const result = idaStarPathfinding(maze, start, goal, 'manhattan');
+    expect(result.gaveUp).toBe(true);
+    expect(result.path).toEqual([]);
+    expect(result.expansions).toBe(IDA_STAR_MAX_EXPANSIONS);
+    expect(dijkstraPathfinding(maze, start, goal).cost).toBe(57);
+  });
+
+  it('should return an empty path when the goal is walled off', () => {
+    const maze = createEmptyMaze(6);
+    for (let y = 0; y < 6; y++) maze[y][3].type = 'obstacle';
+    const result = idaStarPathfinding(maze, { x: 0, y: 0 }, { x: 5, y: 5 });
+    expect(result.path).toEqual([]);
+  });
+
+  it('should match Dijkstra cost on random weighted 4-connected mazes', () => {
+    const start = { x: 0, y: 0 };
+    const rng = createRng(1);
+    for (let i = 0; i < 40; i++) {
+      const size = 5 + Math.floor(rng() * 5);
+      const goal = { x: size - 1, y: size - 1 };
+      const maze = createRandomMaze(rng, size, 0.35, {
+        kinds: ['obstacle', 'obstacle', 'mud', 'sand'],
+        keepOpen: [start, goal],
+      });
+      const dijkstra = dijkstraPathfinding(maze, start, goal);
+      const ida = idaStarPathfinding(maze, start, goal, 'manhattan');
+      expect(ida.path.length > 0).toBe(dijkstra.path.length > 0);
+      expect(ida.cost).toBe(dijkstra.cost);
+    }
+  });
+
+  it('should match Dijkstra cost on random 8-connected mazes', () => {
+    const start = { x: 0, y: 0 };
+    const rng = createRng(2);
+    for (let i = 0; i < 40; i++) {
+      const size = 5 + Math.floor(rng() * 5);
+      const goal = { x: size - 1, y: size - 1 };
+      const maze = createRandomMaze(rng, size, 0.3, { keepOpen: [start, goal] });
+      const options = { movement: '8-no-corner-cutting' as const };
+      const dijkstra = dijkstraPathfinding(maze, start, goal, options);
+      const ida = idaStarPathfinding(maze, start, goal, 'diagonal', options);
+      expect(ida.path.length > 0).toBe(dijkstra.path.length > 0);
+      expect(ida.cost).toBeCloseTo(dijkstra.cost, 9);
+    }
+  });
+
+  it('should keep its stack no deeper than the path while re-expanding cells', () => {
+    const start = { x: 0, y: 0 };
+    const goal = { x: 7, y: 0 };
+    const maze = createEmptyMaze(8);
+    for (let y = 0; y < 7; y++) maze[y][4].type = 'obstacle';
+    const ida = idaStarPathfinding(maze, start, goal, 'manhattan');
+    const astar = aStarPathfinding(maze, start, goal, 'manhattan');
+    expect(ida.cost).toBe(astar.cost);
+    expect(ida.expansions).toBeGreaterThan(ida.exploredNodes.length);
+    expect(ida.peakOpenSize).toBeLessThanOrEqual(ida.path.length);
+  });
+});
+
+describe('Search metrics', () => {
+  it('should report peak open-set size and expansions for every planner', () => {
+    const maze = createEmptyMaze(12);
+    const start = { x: 0, y: 0 };
+    const goal = { x: 11, y: 11 };
+    for (const result of [
+      bfsPathfinding(maze, start, goal),
+      aStarPathfinding(maze, start, goal, 'manhattan'),
+      dijkstraPathfinding(maze, start, goal),
+    ]) {
+      expect(result.peakOpenSize).toBeGreaterThan(0);
+      expect(result.expansions).toBeGreaterThanOrEqual(result.exploredNodes.length);
+    }
+  });
+
+  it('should count A* re-expansions of reopened nodes', () => {
+    const maze = createEmptyMaze(10);
+    const result = aStarPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 }, 'manhattan', { weight: 3 });
+    expect(result.expansions).toBeGreaterThanOrEqual(new Set(
+      result.exploredNodes.map(p => `${p.x},${p.y}`),
+    ).size);
+  });
+});
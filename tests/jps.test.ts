@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { jpsPathfinding } from '../src/algorithms/jps';
+import { aStarPathfinding } from '../src/algorithms/astar';
+import { dijkstraPathfinding } from '../src/algorithms/dijkstra';
+import { getNeighbors } from '../src/algorithms/movement';
+import type { MovementModel } from '../src/types';
+import { createEmptyMaze, createRandomMaze, createRng } from './fixtures';
+
+const MODELS: MovementModel[] = ['4-connected', '8-no-corner-cutting', '8-corner-cutting'];
+
+describe('Jump Point Search', () => {
+  it('should find the optimal path in an empty maze', () => {
+    const maze = createEmptyMaze(10);
+    const result = jpsPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 });
+    expect(result.path.length).toBe(19);
+    expect(result.path[0]).toEqual({ x: 0, y: 0 });
+    expect(result.path[result.path.length - 1]).toEqual({ x: 9, y: 9 });
+  });
+
+  it('should expand far fewer nodes than A* on open grids', () => {
+    const maze = createEmptyMaze(40);
+    const options = { movement: '8-no-corner-cutting' as const };
+    const astar = aStarPathfinding(maze, { x: 0, y: 0 }, { x: 39, y: 20 }, 'diagonal', options);
+    const jps = jpsPathfinding(maze, { x: 0, y: 0 }, { x: 39, y: 20 }, 'diagonal', options);
+    expect(jps.cost).toBeCloseTo(astar.cost, 6);
+    expect(jps.exploredNodes.length).toBeLessThan(astar.exploredNodes.length);
+  });
+
+  it('should return empty path when blocked', () => {
+    const maze = createEmptyMaze(5);
+    for (let y = 0; y < 5; y++) maze[y][2].type = 'obstacle';
+    for (const movement of MODELS) {
+      const result = jpsPathfinding(maze, { x: 0, y: 0 }, { x: 4, y: 4 }, undefined, { movement });
+      expect(result.path.length).toBe(0);
+    }
+  });
+
+  it('should match Dijkstra cost on random mazes under every movement model', () => {
+    const rng = createRng(1);
+    for (const movement of MODELS) {
+      for (let i = 0; i < 40; i++) {
+        const start = { x: 0, y: 0 };
+        const goal = { x: 14, y: 14 };
+        const maze = createRandomMaze(rng, 15, 0.3, { keepOpen: [start, goal] });
+        const jps = jpsPathfinding(maze, start, goal, undefined, { movement });
+        const dijkstra = dijkstraPathfinding(maze, start, goal, { movement });
+
+        expect(jps.path.length > 0).toBe(dijkstra.path.length > 0);
+        expect(jps.cost).toBeCloseTo(dijkstra.cost, 6);
+        // Expanded path must be a chain of legal single steps
+        for (let k = 1; k < jps.path.length; k++) {
+          const legal = getNeighbors(maze, jps.path[k - 1], movement)
+            .some(n => n.position.x === jps.path[k].x && n.position.y === jps.path[k].y);
+          expect(legal).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('should fall back to A* on weighted terrain', () => {
+    const maze = createEmptyMaze(6);
+    maze[0][3].type = 'mud';
+    const jps = jpsPathfinding(maze, { x: 0, y: 0 }, { x: 5, y: 0 });
+    const astar = aStarPathfinding(maze, { x: 0, y: 0 }, { x: 5, y: 0 });
+    expect(jps.cost).toBe(astar.cost);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeMaze } from '../src/algorithms/maze-analysis';
+import { generateMaze } from '../src/algorithms/maze-generator';
+import { createWallMaze, generateKruskalWallMaze } from '../src/algorithms/wall-maze';
+import { createRng } from '../src/algorithms/random';
+import type { Cell, Maze } from '../src/types';
+
+/** Maze from rows of '#' (obstacle), '.' (empty), 'S' and 'G' */
+function parse(rows: string[]): Maze {
+  const types: Record<string, Cell['type']> = { '#': 'obstacle', '.': 'empty', S: 'start', G: 'goal' };
+  return rows.map(row => [...row].map((c): Cell => ({ type: types[c] })));
+}
+
+describe('Maze analysis', () => {
+  it('should measure a corridor with a side branch', () => {
+    const analysis = analyzeMaze(parse([
+      'S...G',
+      '##.##',
+      '##.##',
+    ]));
+    expect(analysis.openCells).toBe(7);
+    expect(analysis.openRatio).toBeCloseTo(7 / 15);
+    // S, G and the bottom of the branch
+    expect(analysis.deadEnds).toBe(3);
+    expect(analysis.junctions).toEqual({ threeWay: 1, fourWay: 0 });
+    expect(analysis.branchingFactor).toBeCloseTo(12 / 7);
+    // Corridors: (1,0), (3,0), and (2,1) alone
+    expect(analysis.averageCorridorLength).toBeCloseTo(1);
+    expect(analysis.components).toBe(1);
+    expect(analysis.shortestPathLength).toBe(4);
+    expect(analysis.shortestPathCount).toBe(1);
+  });
+
+  it('should count distinct shortest paths on an open grid', () => {
+    // 3×3 open grid, corner to corner: C(4, 2) = 6 monotone paths
+    const analysis = analyzeMaze(parse(['S..', '...', '..G']));
+    expect(analysis.shortestPathLength).toBe(4);
+    expect(analysis.shortestPathCount).toBe(6);
+    expect(analysis.deadEnds).toBe(0);
+    expect(analysis.junctions).toEqual({ threeWay: 4, fourWay: 1 });
+  });
+
+  it('should measure the shortest paths to the nearest cells of a goal region', () => {
+    // (2,1) and (1,2) are both 3 steps away with 3 paths each; (2,2) is farther
+    const analysis = analyzeMaze(parse(['S..', '..G', '.GG']));
+    expect(analysis.shortestPathLength).toBe(3);
+    expect(analysis.shortestPathCount).toBe(6);
+  });
+
+  it('should report unreachable goals and separate components', () => {
+    const analysis = analyzeMaze(parse(['S.#..', '..#.G']));
+    expect(analysis.components).toBe(2);
+    expect(analysis.shortestPathLength).toBeNull();
+    expect(analysis.shortestPathCount).toBe(0);
+    expect(analysis.difficulty).toBeNull();
+  });
+
+  it('should use walls for adjacency in the thin-wall model', () => {
+    const walls = generateKruskalWallMaze(8, 8, createRng(1));
+    const open = parse(Array.from({ length: 8 }, () => '.'.repeat(8)));
+    const analysis = analyzeMaze(open, { wallMaze: walls, start: { x: 0, y: 0 }, goal: { x: 7, y: 7 } });
+    expect(analysis.openRatio).toBe(1);
+    expect(analysis.components).toBe(1);
+    // A perfect maze has exactly one route between any two cells
+    expect(analysis.shortestPathCount).toBe(1);
+
+    const empty = analyzeMaze(open, { wallMaze: createWallMaze(8, 8), start: { x: 0, y: 0 }, goal: { x: 7, y: 7 } });
+    expect(empty.shortestPathCount).toBe(3432);
+  });
+
+  it('should rate a perfect maze harder than its braided version', () => {
+    const start = { x: 0, y: 0 };
+    const goal = { x: 20, y: 20 };
+    const perfect = analyzeMaze(generateMaze(21, 0.3, start, goal, createRng(9)));
+    const braided = analyzeMaze(generateMaze(21, 0.3, start, goal, createRng(9), { braid: 1, loops: 0.3 }));
+    expect(perfect.difficulty).not.toBeNull();
+    expect(braided.deadEnds).toBe(0);
+    expect(braided.shortestPathCount).toBeGreaterThanOrEqual(perfect.shortestPathCount);
+    expect(braided.difficulty!).toBeLessThan(perfect.difficulty!);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  brushCells, findMarker, findMarkers, lineCells, moveMarker, paintCells, rectCells, shapeCells,
+} from '../src/lib/maze-editor';
+import type { Maze } from '../src/types';
+import { createEmptyMaze } from './fixtures';
+
+/** Empty maze with the start in the top-left corner and the goal in the bottom-right */
+function createMarkedMaze(size: number): Maze {
+  const maze = createEmptyMaze(size);
+  maze[0][0].type = 'start';
+  maze[size - 1][size - 1].type = 'goal';
+  return maze;
+}
+
+describe('Maze editor shapes', () => {
+  it('should draw continuous lines in every direction', () => {
+    expect(lineCells({ x: 0, y: 0 }, { x: 3, y: 0 })).toHaveLength(4);
+    expect(lineCells({ x: 2, y: 2 }, { x: 2, y: 2 })).toEqual([{ x: 2, y: 2 }]);
+    const diagonal = lineCells({ x: 4, y: 4 }, { x: 0, y: 1 });
+    expect(diagonal[0]).toEqual({ x: 4, y: 4 });
+    expect(diagonal[diagonal.length - 1]).toEqual({ x: 0, y: 1 });
+    // Each step moves at most one cell on each axis
+    for (let i = 1; i < diagonal.length; i++) {
+      expect(Math.abs(diagonal[i].x - diagonal[i - 1].x)).toBeLessThanOrEqual(1);
+      expect(Math.abs(diagonal[i].y - diagonal[i - 1].y)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should outline or fill rectangles from any two corners', () => {
+    expect(rectCells({ x: 3, y: 2 }, { x: 0, y: 0 }, true)).toHaveLength(12);
+    expect(rectCells({ x: 0, y: 0 }, { x: 3, y: 2 }, false)).toHaveLength(10);
+    expect(shapeCells('fill', { x: 1, y: 1 }, { x: 2, y: 2 })).toHaveLength(4);
+    expect(shapeCells('line', { x: 1, y: 1 }, { x: 2, y: 2 })).toHaveLength(2);
+  });
+
+  it('should widen cells to the brush size inside the maze', () => {
+    expect(brushCells([{ x: 2, y: 2 }], 3, 5, 5)).toHaveLength(9);
+    // Clipped at the corner, duplicates dropped
+    expect(brushCells([{ x: 0, y: 0 }, { x: 1, y: 0 }], 3, 5, 5)).toHaveLength(6);
+  });
+});
+
+describe('Maze editor edits', () => {
+  it('should paint without touching the markers or the original maze', () => {
+    const maze = createMarkedMaze(4);
+    const painted = paintCells(maze, rectCells({ x: 0, y: 0 }, { x: 3, y: 0 }, true), 'obstacle');
+    expect(painted).not.toBe(maze);
+    expect(painted[0].map(c => c.type)).toEqual(['start', 'obstacle', 'obstacle', 'obstacle']);
+    expect(maze[0][1].type).toBe('empty');
+    // Untouched rows are shared
+    expect(painted[2]).toBe(maze[2]);
+    // Nothing to change: same maze back
+    expect(paintCells(painted, [{ x: 1, y: 0 }], 'obstacle')).toBe(painted);
+  });
+
+  it('should move markers but never onto each other', () => {
+    const maze = createMarkedMaze(4);
+    const moved = moveMarker(maze, 'start', { x: 2, y: 1 });
+    expect(findMarker(moved, 'start')).toEqual({ x: 2, y: 1 });
+    expect(moved[0][0].type).toBe('empty');
+    expect(moveMarker(moved, 'start', { x: 3, y: 3 })).toBe(moved);
+    // Moving within one row
+    const sameRow = moveMarker(moved, 'start', { x: 0, y: 1 });
+    expect(sameRow[1].map(c => c.type)).toEqual(['start', 'empty', 'empty', 'empty']);
+  });
+
+  it('should move one cell of a goal region', () => {
+    const maze = createMarkedMaze(4);
+    maze[3][2].type = 'goal';
+    const moved = moveMarker(maze, 'goal', { x: 0, y: 2 }, { x: 2, y: 3 });
+    expect(findMarkers(moved, 'goal')).toEqual([{ x: 0, y: 2 }, { x: 3, y: 3 }]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { renderMazeSvg } from '../src/lib/maze-export';
+import { createWallMaze } from '../src/algorithms/wall-maze';
+import type { Agent } from '../src/types';
+import { createEmptyMaze } from './fixtures';
+
+describe('SVG export', () => {
+  it('should size the drawing from the maze and merge runs of equal cells', () => {
+    const maze = createEmptyMaze(5);
+    for (let x = 1; x < 4; x++) maze[2][x].type = 'obstacle';
+    const svg = renderMazeSvg(maze, { cellSize: 10 });
+
+    expect(svg.startsWith('<svg')).toBe(true);
+    expect(svg).toContain('width="50" height="50"');
+    // One rect for the background, one for the obstacle run
+    expect(svg.match(/<rect/g)).toHaveLength(2);
+    expect(svg).toContain('<rect x="10" y="20" width="30" height="10"');
+  });
+
+  it('should draw walls and agent paths', () => {
+    const maze = createEmptyMaze(3);
+    const agent = {
+      id: 0, color: '#FF6B6B', position: { x: 2, y: 2 },
+      path: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }],
+    } as Agent;
+    const svg = renderMazeSvg(maze, { wallMaze: createWallMaze(3, 3), agents: [agent], cellSize: 10 });
+
+    expect(svg).toContain('<polyline points="5,5 15,5 25,5"');
+    expect(svg).toContain('<circle cx="25" cy="25"');
+    expect(svg).toContain('M0 0h10');
+  });
+
+  it('should lay hex grids out as offset hexagons with paths through their centres', () => {
+    const maze = createEmptyMaze(3);
+    maze[1][0].type = 'obstacle';
+    const agent = {
+      id: 0, color: '#FF6B6B', position: { x: 0, y: 1 },
+      path: [{ x: 0, y: 0 }, { x: 0, y: 1 }],
+    } as Agent;
+    const svg = renderMazeSvg(maze, { agents: [agent], topology: 'hex', cellSize: 10 });
+    const radius = 10 / Math.sqrt(3);
+    const round = (v: number) => Math.round(v * 100) / 100;
+
+    // 3.5 cells wide, 1.5 radii per row plus half a radius
+    expect(svg).toContain(`width="35" height="${round(radius * 5)}"`);
+    expect(svg).not.toContain('<rect x=');
+    // Row 1 is shifted half a cell to the right
+    expect(svg).toContain(`<polyline points="5,${round(radius)} 10,${round(radius * 2.5)}"`);
+    expect(svg).toContain(`<circle cx="10" cy="${round(radius * 2.5)}"`);
+    // One filled hexagon for the obstacle, nine outlines in the grid path
+    const obstacle = svg.split('\n').find(line => line.includes('fill="#') && line.startsWith('<path'));
+    expect(obstacle?.match(/L/g)).toHaveLength(5);
+    expect(svg.split('\n').find(line => line.includes('stroke-width="0.5"'))?.match(/Z/g)).toHaveLength(9);
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectMazeFormat, parseAsciiMaze, formatAsciiMaze, parseMazBinary, formatMazBinary,
+  parseNumericMaze, formatNumericMaze, parseTextMaze, formatTextMaze, createMazeDocument, parseMazeDocument,
+} from '../src/algorithms/maze-files';
+import {
+  WALL_NORTH, WALL_EAST, WALL_SOUTH, WALL_WEST, generateKruskalWallMaze, hasWall,
+} from '../src/algorithms/wall-maze';
+import type { Maze, MazeFileResult, WallMaze } from '../src/types';
+import { MAX_MAZE_SIZE } from '../src/types';
+
+const SMALL = [
+  'o---o---o---o',
+  '|       |   |',
+  'o   o---o   o',
+  '| S |     G |',
+  'o---o---o---o',
+].join('\n');
+
+function unwrap(result: MazeFileResult): WallMaze {
+  if (!result.ok) throw new Error(`${result.error.line}:${result.error.column} ${result.error.message}`);
+  return result.maze;
+}
+
+describe('Maze file formats', () => {
+  it('should detect formats from name and content', () => {
+    expect(detectMazeFormat('japan.maz', '')).toBe('maz');
+    expect(detectMazeFormat('a.txt', `\n${SMALL}`)).toBe('ascii');
+    expect(detectMazeFormat('a.txt', '+---+\n|   |\n+---+')).toBe('ascii');
+    expect(detectMazeFormat('a.txt', '0101\n1100')).toBe('grid');
+    expect(detectMazeFormat('a.txt', '# comment\n..S.\n1..G')).toBe('grid');
+    expect(detectMazeFormat('a.txt', '9 1 3\n12 4 6')).toBe('numeric');
+    expect(detectMazeFormat('maze.json', '')).toBe('json');
+    expect(detectMazeFormat('a.txt', '  {"format": "maze-micromouse"}')).toBe('json');
+  });
+
+  it('should parse ASCII art walls and size', () => {
+    const maze = unwrap(parseAsciiMaze(SMALL));
+    expect(maze.width).toBe(3);
+    expect(maze.height).toBe(2);
+    expect(hasWall(maze, { x: 0, y: 0 }, WALL_EAST)).toBe(false);
+    expect(hasWall(maze, { x: 1, y: 0 }, WALL_EAST)).toBe(true);
+    expect(hasWall(maze, { x: 2, y: 0 }, WALL_WEST)).toBe(true);
+    expect(hasWall(maze, { x: 1, y: 0 }, WALL_SOUTH)).toBe(true);
+    expect(hasWall(maze, { x: 1, y: 1 }, WALL_NORTH)).toBe(true);
+    expect(hasWall(maze, { x: 0, y: 1 }, WALL_NORTH)).toBe(false);
+    expect(hasWall(maze, { x: 0, y: 1 }, WALL_EAST)).toBe(true);
+  });
+
+  it('should report ASCII errors with line and column', () => {
+    const bad = SMALL.replace('o   o---o   o', 'o   o-x-o   o');
+    const result = parseAsciiMaze(`\n${bad}`);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatchObject({ line: 4, column: 6 });
+
+    const post = parseAsciiMaze(SMALL.replace('o   o---o   o', 'o   |---o   o'));
+    if (!post.ok) expect(post.error).toMatchObject({ line: 3, column: 5 });
+    expect(post.ok).toBe(false);
+
+    const short = parseAsciiMaze(SMALL.split('\n').slice(0, 4).join('\n'));
+    expect(short.ok).toBe(false);
+  });
+
+  it('should parse numeric bitmasks and report bad tokens', () => {
+    const maze = unwrap(parseNumericMaze('9, 5, 3\n\n0x0c 5 6\n'));
+    expect(maze.width).toBe(3);
+    expect(maze.height).toBe(2);
+    expect(hasWall(maze, { x: 0, y: 0 }, WALL_WEST | WALL_NORTH)).toBe(true);
+    expect(hasWall(maze, { x: 1, y: 0 }, WALL_SOUTH)).toBe(true);
+    expect(hasWall(maze, { x: 1, y: 1 }, WALL_NORTH)).toBe(true);
+
+    const token = parseNumericMaze('1 2 3\n4 x 6');
+    expect(token.ok).toBe(false);
+    if (!token.ok) expect(token.error).toMatchObject({ line: 2, column: 3 });
+
+    const range = parseNumericMaze('1 2 16');
+    if (!range.ok) expect(range.error).toMatchObject({ line: 1, column: 5 });
+    expect(range.ok).toBe(false);
+
+    const ragged = parseNumericMaze('1 2 3\n4 5');
+    if (!ragged.ok) expect(ragged.error.line).toBe(2);
+    expect(ragged.ok).toBe(false);
+  });
+
+  it('should read .maz bytes column by column from the south-west corner', () => {
+    const bytes = new Uint8Array(256);
+    bytes[0] = WALL_WEST | WALL_SOUTH | WALL_EAST;  // (0, 0) = bottom-left → our (0, 15)
+    bytes[16] = WALL_NORTH;                         // (1, 0) → our (1, 15)
+    const maze = unwrap(parseMazBinary(bytes));
+    expect(maze.width).toBe(16);
+    expect(hasWall(maze, { x: 0, y: 15 }, WALL_EAST)).toBe(true);
+    expect(hasWall(maze, { x: 1, y: 15 }, WALL_WEST)).toBe(true);
+    expect(hasWall(maze, { x: 1, y: 14 }, WALL_SOUTH)).toBe(true);
+
+    const bad = parseMazBinary(new Uint8Array(255));
+    expect(bad.ok).toBe(false);
+    const value = parseMazBinary(new Uint8Array(256).fill(16));
+    if (!value.ok) expect(value.error).toMatchObject({ line: 1, column: 1 });
+  });
+
+  it('should reject wall mazes past the size limit', () => {
+    const n = MAX_MAZE_SIZE + 1;
+    const ascii = parseAsciiMaze(['o' + '---o'.repeat(n), '|' + '    '.repeat(n), 'o' + '---o'.repeat(n)].join('\n'));
+    const numeric = parseNumericMaze(Array(n).fill('0').join('\n'));
+    const maz = parseMazBinary(new Uint8Array(n * n));
+    for (const result of [ascii, numeric, maz]) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.message).toContain(`超过上限 ${MAX_MAZE_SIZE}`);
+    }
+    expect(parseNumericMaze(Array(MAX_MAZE_SIZE).fill('0').join('\n')).ok).toBe(true);
+  });
+
+  it('should round-trip every format through its exporter', () => {
+    for (let trial = 0; trial < 5; trial++) {
+      const maze = generateKruskalWallMaze(16, 16);
+      expect(unwrap(parseAsciiMaze(formatAsciiMaze(maze))).walls).toEqual(maze.walls);
+      expect(unwrap(parseNumericMaze(formatNumericMaze(maze))).walls).toEqual(maze.walls);
+      const bytes = formatMazBinary(maze);
+      expect(bytes.length).toBe(256);
+      expect(unwrap(parseMazBinary(bytes)).walls).toEqual(maze.walls);
+    }
+
+    const rect = generateKruskalWallMaze(5, 3);
+    const ascii = unwrap(parseAsciiMaze(formatAsciiMaze(rect)));
+    expect([ascii.width, ascii.height]).toEqual([5, 3]);
+    expect(ascii.walls).toEqual(rect.walls);
+    expect(() => formatMazBinary(rect)).toThrow();
+  });
+});
+
+describe('Text maze format', () => {
+  it('should read markers, comments and the size from the file', () => {
+    const result = parseTextMaze([
+      '# 5×3 test maze',
+      '',
+      'S.1..',
+      '  .11G1  ',
+      '# mid-file comment',
+      's...g',
+    ].join('\n'));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.maze.length).toBe(3);
+    expect(result.maze[0].length).toBe(5);
+    expect(result.maze[0][2].type).toBe('obstacle');
+    expect(result.maze[1][3].type).toBe('empty');
+    expect(result.starts).toEqual([{ x: 0, y: 0 }, { x: 0, y: 2 }]);
+    expect(result.goals).toEqual([{ x: 3, y: 1 }, { x: 4, y: 2 }]);
+  });
+
+  it('should list every error with its line and column', () => {
+    const result = parseTextMaze([
+      '0000',
+      '  01x0',
+      '000',
+      '0?00',
+    ].join('\n'));
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors[0]).toMatchObject({ line: 2, column: 5 });
+    expect(result.errors[1]).toMatchObject({ line: 3, column: 4 });
+    expect(result.errors[2]).toMatchObject({ line: 4, column: 2 });
+  });
+
+  it('should reject empty and oversized files', () => {
+    expect(parseTextMaze('# only a comment\n').ok).toBe(false);
+    expect(parseTextMaze('0'.repeat(MAX_MAZE_SIZE + 1)).ok).toBe(false);
+  });
+
+  it('should write text mazes that read back with their markers', () => {
+    const maze: Maze = ['S.1', '.m.', '1.G'].map(row => [...row].map(ch => ({
+      type: ch === 'S' ? 'start' : ch === 'G' ? 'goal' : ch === '1' ? 'obstacle' : ch === 'm' ? 'mud' : 'empty',
+    })));
+    const text = formatTextMaze(maze, 'exported\nsecond line');
+    expect(text).toBe('# exported\n# second line\nS01\n000\n10G\n');
+
+    const result = parseTextMaze(text);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.starts).toEqual([{ x: 0, y: 0 }]);
+    expect(result.goals).toEqual([{ x: 2, y: 2 }]);
+    expect(result.maze[0][2].type).toBe('obstacle');
+  });
+});
+
+describe('Maze JSON documents', () => {
+  const maze: Maze = ['0152', '3000', '0110'].map(row => [...row].map(ch => ({
+    type: ({ 0: 'empty', 1: 'obstacle', 2: 'ramp', 3: 'sand', 5: 'mud' } as const)[ch as '0'],
+  })));
+
+  it('should round-trip cells, terrain, walls and endpoints', () => {
+    const walls = generateKruskalWallMaze(4, 3);
+    const doc = createMazeDocument({
+      maze, wallMaze: walls, start: { x: 0, y: 0 }, goal: { x: 3, y: 2 }, movementModel: '4-connected', agents: [],
+    });
+    expect(doc.cells).toEqual(['0152', '3000', '0110']);
+    expect(doc.model).toBe('wall');
+
+    const result = parseMazeDocument(JSON.stringify(doc, null, 2));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.maze.map(row => row.map(c => c.type))).toEqual(maze.map(row => row.map(c => c.type)));
+    expect(result.wallMaze?.walls).toEqual(walls.walls);
+    expect(result.start).toEqual({ x: 0, y: 0 });
+    expect(result.goal).toEqual({ x: 3, y: 2 });
+  });
+
+  it('should keep the extra cells of a goal region', () => {
+    const extraGoals = [{ x: 2, y: 2 }, { x: 3, y: 1 }];
+    const doc = createMazeDocument({
+      maze, wallMaze: null, start: { x: 0, y: 0 }, goal: { x: 3, y: 2 }, extraGoals,
+      movementModel: '4-connected', agents: [],
+    });
+    const result = parseMazeDocument(JSON.stringify(doc));
+    expect(result.ok && result.extraGoals).toEqual(extraGoals);
+
+    const outside = JSON.stringify({ ...doc, extraGoals: [{ x: 4, y: 0 }] });
+    expect(parseMazeDocument(outside).ok).toBe(false);
+    // Documents without a region read back with none
+    const single = parseMazeDocument(JSON.stringify({ ...doc, extraGoals: undefined }));
+    expect(single.ok && single.extraGoals).toEqual([]);
+  });
+
+  it('should record hex grids and read the topology back', () => {
+    const doc = createMazeDocument({
+      maze, wallMaze: null, topology: 'hex', start: { x: 0, y: 0 }, goal: { x: 3, y: 2 },
+      movementModel: '4-connected', agents: [],
+    });
+    expect(doc.topology).toBe('hex');
+    const result = parseMazeDocument(JSON.stringify(doc));
+    expect(result.ok && result.topology).toBe('hex');
+
+    const square = parseMazeDocument(JSON.stringify({ ...doc, topology: undefined }));
+    expect(square.ok && square.topology).toBe('square');
+    expect(parseMazeDocument(JSON.stringify({ ...doc, topology: 'tri' })).ok).toBe(false);
+    expect(parseMazeDocument(JSON.stringify({ ...doc, walls: Array(12).fill(0) })).ok).toBe(false);
+  });
+
+  it('should point errors at the offending key', () => {
+    const doc = createMazeDocument({
+      maze, wallMaze: null, start: { x: 0, y: 0 }, goal: { x: 9, y: 9 }, movementModel: '4-connected', agents: [],
+    });
+    const text = JSON.stringify(doc, null, 2);
+    const result = parseMazeDocument(text);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      const goalLine = text.split('\n').findIndex(l => l.includes('"goal"')) + 1;
+      expect(result.error.line).toBe(goalLine);
+    }
+
+    expect(parseMazeDocument('{"format": "maze-micromouse",').ok).toBe(false);
+    expect(parseMazeDocument('{"format": "other"}').ok).toBe(false);
+    const badCell = text.replace('"0152"', '"01x2"');
+    expect(parseMazeDocument(badCell).ok).toBe(false);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { generateMaze } from '../src/algorithms/maze-generator';
+import { generateMaze, generateWallMazeOfType, addTerrain } from '../src/algorithms/maze-generator';
+import { createRng } from '../src/algorithms/random';
+import { bfsPathfinding } from '../src/algorithms/bfs';
+import { wallBfsPathfinding } from '../src/algorithms/wall-pathfinding';
+import type { Maze, MazeGeneratorType } from '../src/types';
+import { HEX_MAZE_GENERATORS, MAZE_GENERATOR_LABELS } from '../src/types';
+
+const GENERATORS = Object.keys(MAZE_GENERATOR_LABELS) as MazeGeneratorType[];
 
 describe('Maze Generator', () => {
   it('should generate a maze of correct size', () => {
@@ -37,4 +44,103 @@ describe('Maze Generator', () => {
     expect(maze[9][9].type).toBe('goal');
   });
 
+  it('should reproduce the same maze and terrain from the same seed', () => {
+    const build = (seed: number) => {
+      const rng = createRng(seed);
+      return addTerrain(generateMaze(25, 0.3, undefined, undefined, rng), 0.3, rng);
+    };
+    expect(build(42)).toEqual(build(42));
+    expect(build(42)).not.toEqual(build(43));
+  });
+
+  it('should keep start and goal connected with every generator', () => {
+    const cases = [
+      { size: 21, start: { x: 0, y: 0 }, goal: { x: 20, y: 20 } },
+      // Goal off the start's lattice parity, and an odd start
+      { size: 20, start: { x: 3, y: 0 }, goal: { x: 10, y: 10 } },
+    ];
+    for (const generator of GENERATORS) {
+      for (const { size, start, goal } of cases) {
+        for (let seed = 0; seed < 5; seed++) {
+          const maze = generateMaze(size, 0.3, start, goal, createRng(seed), { generator });
+          expect(maze[start.y][start.x].type).toBe('start');
+          expect(maze[goal.y][goal.x].type).toBe('goal');
+          expect(bfsPathfinding(maze, start, goal).path.length).toBeGreaterThan(0);
+        }
+      }
+    }
+  });
+
+  it('should generate long, thin mazes with every generator', () => {
+    const start = { x: 0, y: 0 };
+    const goal = { x: 59, y: 6 };
+    for (const generator of GENERATORS) {
+      const maze = generateMaze({ width: 60, height: 7 }, 0.3, start, goal, createRng(3), { generator });
+      expect(maze.length).toBe(7);
+      expect(maze.every(row => row.length === 60)).toBe(true);
+      expect(bfsPathfinding(maze, start, goal).path.length).toBeGreaterThan(0);
+
+      const walls = generateWallMazeOfType({ width: 7, height: 60 }, start, { x: 6, y: 59 }, 0.3, createRng(3), { generator });
+      expect([walls.width, walls.height]).toEqual([7, 60]);
+      expect(wallBfsPathfinding(walls, start, { x: 6, y: 59 }).path.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should generate solvable hex mazes, with unsupported generators falling back', () => {
+    const start = { x: 0, y: 0 };
+    const goal = { x: 18, y: 14 };
+    for (const generator of [...HEX_MAZE_GENERATORS, 'kruskal' as const]) {
+      for (let seed = 0; seed < 3; seed++) {
+        const maze = generateMaze(
+          { width: 19, height: 15 }, 0.3, start, goal, createRng(seed), { generator, topology: 'hex' },
+        );
+        expect(maze[goal.y][goal.x].type).toBe('goal');
+        expect(bfsPathfinding(maze, start, goal, { topology: 'hex' }).path.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('should generate solvable thin-wall mazes with every generator', () => {
+    const start = { x: 0, y: 0 };
+    const goal = { x: 7, y: 8 };
+    for (const generator of GENERATORS) {
+      const walls = generateWallMazeOfType(16, start, goal, 0.3, createRng(7), { generator });
+      expect(walls.width).toBe(16);
+      expect(wallBfsPathfinding(walls, start, goal).path.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should remove every dead end of a fully braided maze', () => {
+    const countDeadEnds = (maze: Maze) => {
+      let count = 0;
+      for (let y = 0; y < maze.length; y++) {
+        for (let x = 0; x < maze.length; x++) {
+          if (maze[y][x].type === 'obstacle') continue;
+          const open = [[0, -1], [1, 0], [0, 1], [-1, 0]].filter(([dx, dy]) =>
+            maze[y + dy]?.[x + dx] !== undefined && maze[y + dy][x + dx].type !== 'obstacle',
+          ).length;
+          if (open === 1) count++;
+        }
+      }
+      return count;
+    };
+    const start = { x: 0, y: 0 };
+    const goal = { x: 20, y: 20 };
+    const perfect = generateMaze(21, 0.3, start, goal, createRng(3));
+    const braided = generateMaze(21, 0.3, start, goal, createRng(3), { braid: 1 });
+    expect(countDeadEnds(perfect)).toBeGreaterThan(10);
+    expect(countDeadEnds(braided)).toBe(0);
+    expect(bfsPathfinding(braided, start, goal).path.length).toBeGreaterThan(0);
+  });
+
+  it('should open extra routes when injecting loops', () => {
+    const countOpen = (maze: Maze) => maze.flat().filter(c => c.type !== 'obstacle').length;
+    const start = { x: 0, y: 0 };
+    const goal = { x: 20, y: 20 };
+    const perfect = generateMaze(21, 0.3, start, goal, createRng(5));
+    const looped = generateMaze(21, 0.3, start, goal, createRng(5), { loops: 0.2 });
+    // A perfect lattice maze on n nodes has n − 1 corridor cells; each loop adds one more
+    expect(countOpen(looped)).toBeGreaterThan(countOpen(perfect));
+    expect(bfsPathfinding(looped, start, goal).path.length).toBeGreaterThan(0);
+  });
 });
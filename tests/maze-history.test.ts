@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createHistoryEntry, decodeMaze, encodeMaze, pushHistory } from '../src/lib/maze-history';
+import { generateMaze, addTerrain } from '../src/algorithms/maze-generator';
+import { createRng } from '../src/algorithms/random';
+import { createMazeDocument, parseMazeDocument } from '../src/algorithms/maze-files';
+import type { MazeHistory, MazeHistoryEntry } from '../src/types';
+
+function entry(id: number, fill = id): MazeHistoryEntry {
+  return {
+    id, source: 'generate', width: 2, height: 2, model: 'cell', topology: 'square', seed: id,
+    start: { x: 0, y: 0 }, goal: { x: 1, y: 1 }, extraGoals: [],
+    cells: new Uint8Array(4).fill(fill % 2), wallMaze: null, time: 0,
+  };
+}
+
+describe('Maze history', () => {
+  it('should round-trip every cell type through the packed encoding', () => {
+    const rng = createRng(11);
+    const maze = addTerrain(generateMaze(15, 0.3, undefined, undefined, rng), 0.4, rng);
+    maze[3][3].type = 'explored';
+    maze[4][4].type = 'final-path';
+    const cells = encodeMaze(maze);
+    expect(cells).toHaveLength(225);
+    expect(decodeMaze(cells, 15)).toEqual(maze);
+  });
+
+  it('should drop the redo tail when recording after an undo', () => {
+    let history: MazeHistory = { entries: [], index: -1 };
+    for (let i = 0; i < 4; i++) history = pushHistory(history, entry(i));
+    expect(history.index).toBe(3);
+
+    // Undo twice, then record something new
+    history = { ...history, index: 1 };
+    history = pushHistory(history, entry(10));
+    expect(history.entries.map(e => e.id)).toEqual([0, 1, 10]);
+    expect(history.index).toBe(2);
+  });
+
+  it('should keep only the newest entries up to the limit', () => {
+    let history: MazeHistory = { entries: [], index: -1 };
+    for (let i = 0; i < 8; i++) history = pushHistory(history, entry(i), 5);
+    expect(history.entries.map(e => e.id)).toEqual([3, 4, 5, 6, 7]);
+    expect(history.index).toBe(4);
+  });
+
+  it('should not record the same maze twice in a row', () => {
+    let history: MazeHistory = { entries: [], index: -1 };
+    history = pushHistory(history, entry(0));
+    // Same cells (fill 0), different id and seed
+    const same = pushHistory(history, entry(2, 0));
+    expect(same).toBe(history);
+    expect(pushHistory(history, entry(1)).entries).toHaveLength(2);
+  });
+
+  it('should undo back onto the grid a loaded hex file was shown on', () => {
+    const settings = {
+      customStart: { x: 0, y: 0 }, customGoal: { x: 4, y: 4 }, gridTopology: 'square' as const, seed: 1,
+    };
+    const square = generateMaze(5, 0.2, settings.customStart, settings.customGoal, createRng(1));
+    let history: MazeHistory = { entries: [], index: -1 };
+    history = pushHistory(history, createHistoryEntry(0, 'generate', { maze: square, wallMaze: null }, settings));
+
+    // Load a hex JSON while the grid is still square
+    const hex = generateMaze(5, 0.2, settings.customStart, settings.customGoal, createRng(2));
+    const json = JSON.stringify(createMazeDocument({
+      maze: hex, wallMaze: null, topology: 'hex', start: { x: 0, y: 0 }, goal: { x: 4, y: 4 },
+      movementModel: '4-connected', agents: [],
+    }));
+    const loaded = parseMazeDocument(json);
+    if (!loaded.ok) throw new Error('hex document did not parse');
+    const shown = { maze: loaded.maze, wallMaze: null };
+    history = pushHistory(history, createHistoryEntry(1, 'file', shown, settings, 'hex.json', loaded.topology));
+    // The grid then switches to hex and the same maze is recorded again
+    const hexSettings = { ...settings, gridTopology: 'hex' as const };
+    history = pushHistory(history, createHistoryEntry(2, 'file', shown, hexSettings));
+
+    expect(history.entries.map(e => e.topology)).toEqual(['square', 'hex']);
+    history = { ...history, index: history.index - 1 };
+    expect(history.entries[history.index]).toMatchObject({ topology: 'square', cells: encodeMaze(square) });
+    history = { ...history, index: history.index + 1 };
+    expect(history.entries[history.index]).toMatchObject({ topology: 'hex', cells: encodeMaze(loaded.maze) });
+  });
+});
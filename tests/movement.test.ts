@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { getHexNeighbors, getNeighbors, hexDirections } from '../src/algorithms/movement';
+import { bfsPathfinding } from '../src/algorithms/bfs';
+import { aStarPathfinding } from '../src/algorithms/astar';
+import { dijkstraPathfinding } from '../src/algorithms/dijkstra';
+import { createEmptyMaze } from './fixtures';
+
+describe('Movement models', () => {
+  it('4-connected should only yield orthogonal neighbours', () => {
+    const maze = createEmptyMaze(3);
+    const neighbors = getNeighbors(maze, { x: 1, y: 1 }, '4-connected');
+    expect(neighbors.length).toBe(4);
+    expect(neighbors.every(n => n.stepCost === 1)).toBe(true);
+  });
+
+  it('8-connected should add diagonal neighbours costing √2', () => {
+    const maze = createEmptyMaze(3);
+    const neighbors = getNeighbors(maze, { x: 1, y: 1 }, '8-no-corner-cutting');
+    expect(neighbors.length).toBe(8);
+    expect(neighbors.filter(n => n.stepCost === Math.SQRT2).length).toBe(4);
+  });
+
+  it('no-corner-cutting should block diagonals next to an obstacle', () => {
+    const maze = createEmptyMaze(3);
+    maze[0][1].type = 'obstacle'; // directly above the centre
+    const strict = getNeighbors(maze, { x: 1, y: 1 }, '8-no-corner-cutting');
+    const loose = getNeighbors(maze, { x: 1, y: 1 }, '8-corner-cutting');
+    expect(strict.some(n => n.position.x === 0 && n.position.y === 0)).toBe(false);
+    expect(loose.some(n => n.position.x === 0 && n.position.y === 0)).toBe(true);
+  });
+
+  it('corner-cutting should never squeeze between two diagonal obstacles', () => {
+    const maze = createEmptyMaze(2);
+    maze[0][1].type = 'obstacle';
+    maze[1][0].type = 'obstacle';
+    const loose = getNeighbors(maze, { x: 0, y: 0 }, '8-corner-cutting');
+    expect(loose.length).toBe(0);
+  });
+
+  it('diagonal planners should take the straight diagonal in an empty maze', () => {
+    const maze = createEmptyMaze(10);
+    const options = { movement: '8-no-corner-cutting' as const };
+    const bfs = bfsPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 }, options);
+    const astar = aStarPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 }, 'diagonal', options);
+    const dijkstra = dijkstraPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 }, options);
+    expect(bfs.path.length).toBe(10);
+    expect(astar.path.length).toBe(10);
+    expect(astar.cost).toBeCloseTo(9 * Math.SQRT2, 6);
+    expect(dijkstra.cost).toBeCloseTo(astar.cost, 6);
+  });
+
+  it('octile A* should match Dijkstra cost with diagonal moves', () => {
+    const maze = createEmptyMaze(12);
+    for (let y = 0; y < 10; y++) maze[y][6].type = 'obstacle';
+    const options = { movement: '8-corner-cutting' as const };
+    const astar = aStarPathfinding(maze, { x: 0, y: 0 }, { x: 11, y: 0 }, 'diagonal', options);
+    const dijkstra = dijkstraPathfinding(maze, { x: 0, y: 0 }, { x: 11, y: 0 }, options);
+    expect(astar.path.length).toBeGreaterThan(0);
+    expect(astar.cost).toBeCloseTo(dijkstra.cost, 6);
+  });
+});
+
+describe('Hex grids', () => {
+  const sorted = (ps: { x: number; y: number }[]) =>
+    ps.map(p => `${p.x},${p.y}`).sort();
+
+  it('should yield 6 neighbours whose offsets depend on the row parity', () => {
+    const maze = createEmptyMaze(5);
+    expect(sorted(getHexNeighbors(maze, { x: 2, y: 2 }).map(n => n.position))).toEqual(
+      sorted([{ x: 1, y: 2 }, { x: 3, y: 2 }, { x: 1, y: 1 }, { x: 2, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 3 }]),
+    );
+    expect(sorted(getHexNeighbors(maze, { x: 2, y: 1 }).map(n => n.position))).toEqual(
+      sorted([{ x: 1, y: 1 }, { x: 3, y: 1 }, { x: 2, y: 0 }, { x: 3, y: 0 }, { x: 2, y: 2 }, { x: 3, y: 2 }]),
+    );
+    expect(getHexNeighbors(maze, { x: 2, y: 2 }).every(n => n.stepCost === 1)).toBe(true);
+  });
+
+  it('should be symmetric: every cell is a neighbour of its neighbours', () => {
+    for (let y = 0; y < 4; y++) {
+      for (const d of hexDirections(y)) {
+        const back = hexDirections(y + d.y).some(e => e.x === -d.x && e.y === -d.y);
+        expect(back).toBe(true);
+      }
+    }
+  });
+
+  it('should skip obstacles and cells off the grid', () => {
+    const maze = createEmptyMaze(3);
+    maze[0][1].type = 'obstacle';
+    expect(sorted(getHexNeighbors(maze, { x: 0, y: 0 }).map(n => n.position))).toEqual(sorted([{ x: 0, y: 1 }]));
+  });
+});
@@ -1,25 +1,28 @@
 import { describe, it, expect } from 'vitest';
 import { bfsPathfinding } from '../src/algorithms/bfs';
 import { aStarPathfinding } from '../src/algorithms/astar';
+import { dijkstraPathfinding } from '../src/algorithms/dijkstra';
+import { generateMaze } from '../src/algorithms/maze-generator';
 import type { Maze, Cell } from '../src/types';
+import { createEmptyMaze, createRandomMaze, createRng } from './fixtures';
 
-function createEmptyMaze(size: number): Maze {
-  const maze: Maze = [];
+function createMazeWithWall(size: number, wallX: number): Maze {
+  const maze = createEmptyMaze(size);
   for (let y = 0; y < size; y++) {
-    const row: Cell[] = [];
-    for (let x = 0; x < size; x++) {
-      row.push({ type: 'empty' });
+    if (y !== Math.floor(size / 2)) { // leave a gap in the middle row
+      maze[y][wallX].type = 'obstacle';
     }
-    maze.push(row);
   }
   return maze;
 }
 
-function createMazeWithWall(size: number, wallX: number): Maze {
+/** Empty maze with a 3×2 mud patch on the bottom row, leaving a dry detour just above it */
+function createMudMaze(size: number): Maze {
   const maze = createEmptyMaze(size);
-  for (let y = 0; y < size; y++) {
-    if (y !== Math.floor(size / 2)) { // leave a gap in the middle row
-      maze[y][wallX].type = 'obstacle';
+  const mid = Math.floor(size / 2);
+  for (let y = size - 2; y < size; y++) {
+    for (let x = mid - 1; x <= mid + 1; x++) {
+      maze[y][x].type = 'mud';
     }
   }
   return maze;
@@ -124,3 +127,184 @@ describe('A* Pathfinding', () => {
     expect(diagonal.path.length).toBeGreaterThan(0);
   });
 });
+
+describe('Weighted terrain', () => {
+  it('BFS should report the terrain cost of its path', () => {
+    const maze = createEmptyMaze(5);
+    maze[0][1].type = 'mud';
+    const result = bfsPathfinding(maze, { x: 0, y: 0 }, { x: 2, y: 0 });
+    expect(result.path.length).toBe(3);
+    expect(result.cost).toBe(6); // mud (5) + empty (1)
+  });
+
+  it('Dijkstra should find the cheapest path, not the shortest', () => {
+    const maze = createMudMaze(9);
+    const bfs = bfsPathfinding(maze, { x: 0, y: 8 }, { x: 8, y: 8 });
+    const dijkstra = dijkstraPathfinding(maze, { x: 0, y: 8 }, { x: 8, y: 8 });
+    expect(dijkstra.cost).toBeLessThan(bfs.cost);
+    expect(dijkstra.path.length).toBeGreaterThan(bfs.path.length);
+    // Detour goes through the dry cell above the patch
+    expect(dijkstra.path.some(p => p.x === 4 && p.y === 6)).toBe(true);
+  });
+
+  it('A* should match Dijkstra cost on weighted mazes', () => {
+    const maze = createMudMaze(9);
+    const dijkstra = dijkstraPathfinding(maze, { x: 0, y: 8 }, { x: 8, y: 8 });
+    for (const h of ['manhattan', 'euclidean', 'diagonal'] as const) {
+      const astar = aStarPathfinding(maze, { x: 0, y: 8 }, { x: 8, y: 8 }, h);
+      expect(astar.cost).toBe(dijkstra.cost);
+    }
+  });
+
+  it('Dijkstra should equal BFS on uniform mazes', () => {
+    const maze = createMazeWithWall(10, 5);
+    const bfs = bfsPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 });
+    const dijkstra = dijkstraPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 });
+    expect(dijkstra.path.length).toBe(bfs.path.length);
+    expect(dijkstra.cost).toBe(bfs.cost);
+  });
+
+  it('Dijkstra should return empty path when blocked', () => {
+    const maze = createEmptyMaze(5);
+    for (let y = 0; y < 5; y++) maze[y][2].type = 'obstacle';
+    const result = dijkstraPathfinding(maze, { x: 0, y: 0 }, { x: 4, y: 4 });
+    expect(result.path.length).toBe(0);
+  });
+});
+
+describe('A* optimality (property tests)', () => {
+  const heuristics = ['manhattan', 'euclidean', 'diagonal'] as const;
+
+  it('A* path length should always equal BFS path length on random open mazes', () => {
+    const rng = createRng(1);
+    for (let i = 0; i < 60; i++) {
+      const size = 8 + Math.floor(rng() * 20);
+      const start = { x: 0, y: 0 };
+      const goal = { x: size - 1, y: size - 1 };
+      const maze = createRandomMaze(rng, size, rng() * 0.4, { keepOpen: [start, goal] });
+      const bfs = bfsPathfinding(maze, start, goal);
+      for (const h of heuristics) {
+        expect(aStarPathfinding(maze, start, goal, h).path.length).toBe(bfs.path.length);
+      }
+    }
+  });
+
+  it('A* path length should always equal BFS path length on generated mazes', () => {
+    const rng = createRng(2);
+    for (let i = 0; i < 20; i++) {
+      const size = 10 + Math.floor(rng() * 20);
+      const maze = generateMaze(size, rng() * 0.4, undefined, undefined, rng);
+      const start = { x: 0, y: 0 };
+      const goal = { x: size - 1, y: size - 1 };
+      const bfs = bfsPathfinding(maze, start, goal);
+      expect(bfs.path.length).toBeGreaterThan(0);
+      for (const h of heuristics) {
+        expect(aStarPathfinding(maze, start, goal, h).path.length).toBe(bfs.path.length);
+      }
+    }
+  });
+
+  it('A* cost should always equal Dijkstra cost on random weighted mazes', () => {
+    const kinds: Cell['type'][] = ['empty', 'empty', 'obstacle', 'ramp', 'sand', 'mud'];
+    const rng = createRng(3);
+    for (let i = 0; i < 60; i++) {
+      const size = 8 + Math.floor(rng() * 15);
+      const start = { x: 0, y: 0 };
+      const goal = { x: size - 1, y: size - 1 };
+      const maze = createRandomMaze(rng, size, 1, { kinds, keepOpen: [start, goal] });
+      const dijkstra = dijkstraPathfinding(maze, start, goal);
+      for (const h of heuristics) {
+        expect(aStarPathfinding(maze, start, goal, h).cost).toBe(dijkstra.cost);
+      }
+    }
+  });
+});
+
+describe('A* tie-breaking and weighted A*', () => {
+  const policies = ['none', 'high-g', 'low-h', 'lifo', 'fifo'] as const;
+
+  it('every tie-breaking policy should keep A* optimal', () => {
+    const rng = createRng(4);
+    for (let i = 0; i < 30; i++) {
+      const size = 8 + Math.floor(rng() * 15);
+      const start = { x: 0, y: 0 };
+      const goal = { x: size - 1, y: size - 1 };
+      const maze = createRandomMaze(rng, size, rng() * 0.35, { keepOpen: [start, goal] });
+      for (const movement of ['4-connected', '8-corner-cutting'] as const) {
+        const optimal = dijkstraPathfinding(maze, start, goal, { movement }).cost;
+        const h = movement === '4-connected' ? 'manhattan' : 'diagonal';
+        for (const tieBreaking of policies) {
+          const result = aStarPathfinding(maze, start, goal, h, { movement, tieBreaking });
+          expect(result.cost).toBeCloseTo(optimal, 9);
+        }
+      }
+    }
+  });
+
+  it('preferring higher g should expand fewer nodes on an open grid', () => {
+    const maze = createEmptyMaze(30);
+    const start = { x: 0, y: 0 };
+    const goal = { x: 29, y: 29 };
+    const plain = aStarPathfinding(maze, start, goal, 'manhattan', { tieBreaking: 'fifo' });
+    const highG = aStarPathfinding(maze, start, goal, 'manhattan', { tieBreaking: 'high-g' });
+    expect(highG.exploredNodes.length).toBeLessThan(plain.exploredNodes.length);
+    expect(highG.path.length).toBe(59);
+  });
+
+  it('weighted A* cost should stay within w times the optimum', () => {
+    const rng = createRng(5);
+    for (let i = 0; i < 30; i++) {
+      const size = 10 + Math.floor(rng() * 15);
+      const start = { x: 0, y: 0 };
+      const goal = { x: size - 1, y: size - 1 };
+      const maze = createRandomMaze(rng, size, rng() * 0.35, { keepOpen: [start, goal] });
+      const optimal = dijkstraPathfinding(maze, start, goal).cost;
+      for (const weight of [1.5, 2, 5]) {
+        const result = aStarPathfinding(maze, start, goal, 'manhattan', { weight });
+        expect(result.path.length > 0).toBe(optimal > 0);
+        expect(result.cost).toBeLessThanOrEqual(weight * optimal + 1e-9);
+      }
+    }
+  });
+});
+
+describe('Rectangular mazes', () => {
+  it('every planner should cross a long corridor and reject goals off the grid', () => {
+    // 40×2: an open top row over a solid bottom row
+    const maze: Maze = [0, 1].map(y =>
+      Array.from({ length: 40 }, (): Cell => ({ type: y === 0 ? 'empty' : 'obstacle' })),
+    );
+    const start = { x: 0, y: 0 };
+    const goal = { x: 39, y: 0 };
+
+    for (const plan of [bfsPathfinding, aStarPathfinding, dijkstraPathfinding]) {
+      expect(plan(maze, start, goal).path).toHaveLength(40);
+      expect(plan(maze, start, { x: 0, y: 39 }).path).toHaveLength(0);
+    }
+  });
+});
+
+describe('Hex grids', () => {
+  it('A* and Dijkstra should match BFS on random hex mazes', () => {
+    const rng = createRng(6);
+    for (let i = 0; i < 30; i++) {
+      const size = 8 + Math.floor(rng() * 15);
+      const start = { x: 0, y: 0 };
+      const goal = { x: size - 1, y: size - 1 };
+      const maze = createRandomMaze(rng, size, rng() * 0.35, { keepOpen: [start, goal] });
+      const options = { topology: 'hex' as const };
+      const bfs = bfsPathfinding(maze, start, goal, options);
+      expect(aStarPathfinding(maze, start, goal, undefined, options).path.length).toBe(bfs.path.length);
+      expect(dijkstraPathfinding(maze, start, goal, options).path.length).toBe(bfs.path.length);
+    }
+  });
+
+  it('should reach the goal in fewer steps than 4-connected moves', () => {
+    const maze = createEmptyMaze(10);
+    const square = bfsPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 });
+    const hex = aStarPathfinding(maze, { x: 0, y: 0 }, { x: 9, y: 9 }, undefined, { topology: 'hex' });
+    expect(square.path.length).toBe(19);
+    expect(hex.path.length).toBe(15);
+    expect(hex.cost).toBe(14);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { createRng, parseSeed, randomInt, randomChoice, MAX_SEED } from '../src/algorithms/random';
+import { generateWallMaze, generateKruskalWallMaze } from '../src/algorithms/wall-maze';
+import { checkCollisions } from '../src/algorithms/collision';
+import type { Agent, Cell, Maze } from '../src/types';
+
+function sample(seed: number, stream = 0, n = 20): number[] {
+  const rng = createRng(seed, stream);
+  return Array.from({ length: n }, () => rng());
+}
+
+describe('Seeded random numbers', () => {
+  it('should repeat a sequence for the same seed and stream', () => {
+    expect(sample(7)).toEqual(sample(7));
+    expect(sample(7)).not.toEqual(sample(8));
+    expect(sample(7, 1)).not.toEqual(sample(7, 0));
+  });
+
+  it('should stay in [0, 1) and spread over the range', () => {
+    const values = sample(123, 0, 10_000);
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    expect(mean).toBeGreaterThan(0.45);
+    expect(mean).toBeLessThan(0.55);
+
+    const rng = createRng(5);
+    const counts = [0, 0, 0];
+    for (let i = 0; i < 3000; i++) counts[randomInt(rng, 3)]++;
+    expect(Math.min(...counts)).toBeGreaterThan(800);
+    expect(randomChoice(rng, [])).toBeUndefined();
+  });
+
+  it('should parse numbers as seeds and hash other text', () => {
+    expect(parseSeed(' 42 ')).toBe(42);
+    expect(parseSeed(String(MAX_SEED))).toBe(MAX_SEED);
+    expect(parseSeed('')).toBeNull();
+    const word = parseSeed('micromouse');
+    expect(word).toBe(parseSeed('micromouse'));
+    expect(word).not.toBe(parseSeed('Micromouse'));
+    expect(word).toBeGreaterThanOrEqual(0);
+    expect(word).toBeLessThanOrEqual(MAX_SEED);
+  });
+
+  it('should make the wall-maze generators reproducible', () => {
+    expect(generateWallMaze(12, 12, undefined, createRng(1)).walls)
+      .toEqual(generateWallMaze(12, 12, undefined, createRng(1)).walls);
+    expect(generateKruskalWallMaze(12, 9, createRng(2)).walls)
+      .toEqual(generateKruskalWallMaze(12, 9, createRng(2)).walls);
+  });
+
+  it('should resolve collisions the same way for the same seed', () => {
+    const maze: Maze = Array.from({ length: 5 }, () =>
+      Array.from({ length: 5 }, (): Cell => ({ type: 'empty' })));
+    const resolve = (seed: number) => {
+      const agents = [0, 1, 2].map(id => ({
+        id, position: { x: 2, y: 2 }, previousPosition: null, isActive: true, collisions: 0, stepsTaken: 0,
+      }) as unknown as Agent);
+      checkCollisions(agents, maze, '8-corner-cutting', null, createRng(seed));
+      return agents.map(a => a.position);
+    };
+    expect(resolve(9)).toEqual(resolve(9));
+  });
+});
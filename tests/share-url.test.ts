@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { decodeMazeBitmap, decodeScenario, encodeMazeBitmap, encodeScenario } from '../src/lib/share-url';
+import { generateMaze, generateWallMazeOfType } from '../src/algorithms/maze-generator';
+import { createRng } from '../src/algorithms/random';
+import type { SharedConfig } from '../src/types';
+import { createEmptyMaze } from './fixtures';
+
+const CONFIG: SharedConfig = {
+  mazeWidth: 30, mazeHeight: 12, obstacleRate: 0.25, terrainRate: 0.1, movementModel: '8-no-corner-cutting',
+  mazeModel: 'cell', gridTopology: 'hex', mazeGenerator: 'prim', braidFactor: 0.5, loopRate: 0.05,
+  agentCount: 3, selectedHeuristic: 'euclidean', selectedAlgorithm: 'jps',
+  agentHeuristics: ['auto', 'manhattan', 'diagonal'], agentAlgorithms: ['bfs', 'astar', 'dstar-lite'],
+  selectedTieBreaking: 'high-g', selectedWeight: 1.5,
+  agentTieBreaking: ['fifo', 'high-g', 'low-h'], agentWeights: [1, 1.5, 2],
+  useSameStart: true, fogOfWar: false, compareFullReplans: true, showExploration: true, showPath: false, visualizationSpeed: 80,
+  customStart: { x: 1, y: 2 }, customGoal: { x: 6, y: 6 },
+  extraGoals: [{ x: 7, y: 6 }, { x: 6, y: 7 }, { x: 7, y: 7 }],
+  waypoints: [{ x: 20, y: 3 }, { x: 2, y: 10 }], missionMode: 'any-order',
+  dynamicObstacles: { toggles: 8, patrols: 2, period: 12 }, seed: 123456,
+};
+
+describe('Share URLs', () => {
+  it('should round-trip the full config through the query string', () => {
+    const params = new URLSearchParams(encodeScenario(CONFIG).toString());
+    const { config, maze } = decodeScenario(params);
+
+    expect(config).toEqual(CONFIG);
+    expect(maze).toBeUndefined();
+  });
+
+  it('should ignore unknown and out-of-range values', () => {
+    const params = new URLSearchParams(
+      'width=9999&rate=2&move=hex&grid=tri&algo=magic&algos=bfs,nope&w=0.5&same=yes&start=3,99&goal=4,4&goals=1,1;3,99&wps=40,1&mission=random&dyn=5,99,10&seed=-1&agents=3',
+    );
+    const { config } = decodeScenario(params);
+
+    expect(config).toEqual({ agentCount: 3, customGoal: { x: 4, y: 4 } });
+  });
+
+  it('should not take inherited object keys for names', () => {
+    const params = new URLSearchParams(
+      'gen=hasOwnProperty&algo=toString&grid=__proto__&model=constructor&h=valueOf&tie=__proto__&mission=toString&algos=bfs,toString&hs=__proto__&ties=constructor',
+    );
+
+    expect(decodeScenario(params).config).toEqual({});
+  });
+
+  it('should read a square size and let width / height override it', () => {
+    const { config } = decodeScenario(new URLSearchParams('size=40&height=15'));
+
+    expect(config).toEqual({ mazeWidth: 40, mazeHeight: 15 });
+  });
+
+  it('should round-trip cell mazes with terrain and keep the markers', () => {
+    const start = { x: 0, y: 0 };
+    const goal = { x: 7, y: 7 };
+    const maze = generateMaze(15, 0.3, start, goal, createRng(5));
+    maze[3][3] = { type: 'mud' };
+    const bitmap = encodeMazeBitmap(maze, null);
+    const decoded = decodeMazeBitmap(bitmap, { width: 15, height: 15 }, start, goal);
+
+    expect(bitmap.startsWith('c3.')).toBe(true);
+    expect(decoded?.wallMaze).toBeNull();
+    expect(decoded?.maze).toEqual(maze);
+  });
+
+  it('should pack obstacle-only mazes at one bit per cell', () => {
+    const maze = generateMaze(16, 0.3, { x: 0, y: 0 }, { x: 8, y: 8 }, createRng(2));
+    const bitmap = encodeMazeBitmap(maze, null);
+
+    expect(bitmap.startsWith('c1.')).toBe(true);
+    // 256 cells → 32 bytes → 43 base64 characters
+    expect(bitmap.length).toBe(3 + 43);
+  });
+
+  it('should round-trip wall mazes', () => {
+    const start = { x: 0, y: 0 };
+    const goal = { x: 4, y: 4 };
+    const wallMaze = generateWallMazeOfType({ width: 13, height: 9 }, start, goal, 0, createRng(8), { generator: 'kruskal' });
+    const decoded = decodeMazeBitmap(encodeMazeBitmap([], wallMaze), { width: 13, height: 9 }, start, goal);
+
+    expect(decoded?.wallMaze?.walls).toEqual(wallMaze.walls);
+    expect(decoded?.maze).toHaveLength(9);
+    expect(decoded?.maze[4][4].type).toBe('goal');
+  });
+
+  it('should reject bitmaps of the wrong size or format', () => {
+    const maze = generateMaze(10, 0.3, { x: 0, y: 0 }, { x: 5, y: 5 }, createRng(1));
+    const bitmap = encodeMazeBitmap(maze, null);
+
+    expect(decodeMazeBitmap(bitmap, { width: 11, height: 10 })).toBeNull();
+    expect(decodeMazeBitmap('x1.AAAA', { width: 10, height: 10 })).toBeNull();
+    expect(decodeMazeBitmap('c1.!!', { width: 10, height: 10 })).toBeNull();
+    expect(decodeScenario(new URLSearchParams(`size=11&maze=${bitmap}`)).maze).toBeUndefined();
+  });
+
+  it('should only accept the bitmap kinds the encoder writes', () => {
+    const size = { width: 10, height: 10 };
+    const payload = (bitmap: string) => bitmap.slice(bitmap.indexOf('.') + 1);
+    // 13 bytes fit c1 and w1 on 10×10, 38 bytes fit c3 and w3, 25 bytes fit c2
+    const c1 = encodeMazeBitmap(generateMaze(10, 0.3, { x: 0, y: 0 }, { x: 5, y: 5 }, createRng(1)), null);
+    const muddy = createEmptyMaze(10);
+    muddy[0][0].type = 'mud';
+    const c3 = encodeMazeBitmap(muddy, null);
+    const wide = encodeMazeBitmap(generateMaze({ width: 20, height: 10 }, 0.3, undefined, undefined, createRng(2)), null);
+    expect(c1.startsWith('c1.') && c3.startsWith('c3.') && wide.startsWith('c1.')).toBe(true);
+
+    expect(decodeMazeBitmap(c1, size)).not.toBeNull();
+    expect(decodeMazeBitmap(`w1.${payload(c1)}`, size)).toBeNull();
+    expect(decodeMazeBitmap(`w3.${payload(c3)}`, size)).toBeNull();
+    expect(decodeMazeBitmap(`c2.${payload(wide)}`, size)).toBeNull();
+  });
+
+  it('should drop a maze whose kind disagrees with the link\'s model', () => {
+    const wallMaze = generateWallMazeOfType({ width: 12, height: 12 }, { x: 0, y: 0 }, { x: 11, y: 11 }, 0, createRng(3));
+    const bitmap = encodeMazeBitmap([], wallMaze);
+    const decode = (model: string) => decodeScenario(new URLSearchParams(`size=12${model}&maze=${bitmap}`)).maze;
+
+    expect(decode('&model=cell')).toBeUndefined();
+    expect(decode('&model=wall')?.wallMaze?.walls).toEqual(wallMaze.walls);
+    expect(decode('')?.wallMaze).not.toBeNull();
+  });
+});
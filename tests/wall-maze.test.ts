@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WALL_NORTH, WALL_EAST, WALL_SOUTH, WALL_WEST,
+  createWallMaze, hasWall, setWall, getWallNeighbors,
+  generateWallMaze, generateKruskalWallMaze, generatePrimWallMaze, generateEllerWallMaze,
+  generateWilsonWallMaze, generateAldousBroderWallMaze, generateDivisionWallMaze,
+  braidWallMaze, addWallLoops,
+  wallMazeToCellMaze, cellMazeToWallMaze, toExpandedPosition, fromExpandedPosition,
+} from '../src/algorithms/wall-maze';
+import {
+  wallBfsPathfinding, wallAStarPathfinding, wallFloodDistances, wallFloodFillPathfinding,
+} from '../src/algorithms/wall-pathfinding';
+import { bfsPathfinding } from '../src/algorithms/bfs';
+import type { Position, WallMaze } from '../src/types';
+import { createEmptyMaze, createRandomMaze, createRng } from './fixtures';
+
+/** Number of open passages; each is counted once from its west/north cell */
+function countPassages(maze: WallMaze): number {
+  let open = 0;
+  for (let y = 0; y < maze.height; y++) {
+    for (let x = 0; x < maze.width; x++) {
+      if (x < maze.width - 1 && !hasWall(maze, { x, y }, WALL_EAST)) open++;
+      if (y < maze.height - 1 && !hasWall(maze, { x, y }, WALL_SOUTH)) open++;
+    }
+  }
+  return open;
+}
+
+function reachableCount(maze: WallMaze, from: Position): number {
+  return wallFloodDistances(maze, from).filter(d => d >= 0).length;
+}
+
+function isValidWallPath(maze: WallMaze, path: Position[]): boolean {
+  for (let i = 1; i < path.length; i++) {
+    const moves = getWallNeighbors(maze, path[i - 1]);
+    if (!moves.some(p => p.x === path[i].x && p.y === path[i].y)) return false;
+  }
+  return true;
+}
+
+describe('Wall maze model', () => {
+  it('should wall the boundary and keep shared walls in sync', () => {
+    const maze = createWallMaze(4, 3);
+    expect(hasWall(maze, { x: 0, y: 0 }, WALL_NORTH)).toBe(true);
+    expect(hasWall(maze, { x: 0, y: 0 }, WALL_WEST)).toBe(true);
+    expect(hasWall(maze, { x: 3, y: 2 }, WALL_EAST | WALL_SOUTH)).toBe(true);
+    expect(getWallNeighbors(maze, { x: 1, y: 1 })).toHaveLength(4);
+
+    setWall(maze, { x: 1, y: 1 }, WALL_EAST, true);
+    expect(hasWall(maze, { x: 2, y: 1 }, WALL_WEST)).toBe(true);
+    setWall(maze, { x: 2, y: 1 }, WALL_WEST, false);
+    expect(hasWall(maze, { x: 1, y: 1 }, WALL_EAST)).toBe(false);
+
+    // Boundary walls stay up
+    setWall(maze, { x: 0, y: 0 }, WALL_NORTH, false);
+    expect(hasWall(maze, { x: 0, y: 0 }, WALL_NORTH)).toBe(true);
+  });
+
+  it('should generate perfect mazes with every generator', () => {
+    const generators = [
+      generateWallMaze, generateKruskalWallMaze, generatePrimWallMaze, generateEllerWallMaze,
+      generateWilsonWallMaze, generateAldousBroderWallMaze, generateDivisionWallMaze,
+    ];
+    for (const generate of generators) {
+      for (const [w, h] of [[16, 16], [7, 11], [1, 5]]) {
+        const maze = generate(w, h);
+        expect(reachableCount(maze, { x: 0, y: 0 })).toBe(w * h);
+        // Connected with cells − 1 passages: a spanning tree
+        expect(countPassages(maze)).toBe(w * h - 1);
+      }
+    }
+  });
+});
+
+describe('Wall maze braiding', () => {
+  it('should remove every dead end at braid 1', () => {
+    const maze = braidWallMaze(generateWallMaze(12, 12), 1);
+    for (let y = 0; y < 12; y++) {
+      for (let x = 0; x < 12; x++) {
+        expect(getWallNeighbors(maze, { x, y }).length).toBeGreaterThan(1);
+      }
+    }
+    expect(reachableCount(maze, { x: 0, y: 0 })).toBe(144);
+  });
+
+  it('should add loops by removing interior walls', () => {
+    const maze = addWallLoops(generateKruskalWallMaze(10, 10), 0.25);
+    expect(countPassages(maze)).toBeGreaterThan(99);
+    expect(reachableCount(maze, { x: 0, y: 0 })).toBe(100);
+  });
+});
+
+describe('Wall maze converters', () => {
+  it('should double step counts on the expanded cell grid', () => {
+    for (let trial = 0; trial < 10; trial++) {
+      const maze = generateKruskalWallMaze(9, 9);
+      const expanded = wallMazeToCellMaze(maze);
+      expect(expanded.length).toBe(19);
+      expect(expanded[0].length).toBe(19);
+
+      const start = { x: 0, y: 0 };
+      const goal = { x: 8, y: 4 };
+      const wallPath = wallBfsPathfinding(maze, start, goal).path;
+      const cellPath = bfsPathfinding(expanded, toExpandedPosition(start), toExpandedPosition(goal)).path;
+      expect(cellPath.length - 1).toBe(2 * (wallPath.length - 1));
+
+      const back = cellPath.map(fromExpandedPosition).filter((p): p is Position => p !== null);
+      expect(back).toEqual(wallPath);
+    }
+  });
+
+  it('should keep 4-connected routes when walling in obstacle cells', () => {
+    const rng = createRng(1);
+    for (let trial = 0; trial < 20; trial++) {
+      const cells = createRandomMaze(rng, 12, 0.3, { keepOpen: [{ x: 0, y: 0 }, { x: 11, y: 11 }] });
+      const maze = cellMazeToWallMaze(cells);
+
+      const cellResult = bfsPathfinding(cells, { x: 0, y: 0 }, { x: 11, y: 11 });
+      const wallResult = wallBfsPathfinding(maze, { x: 0, y: 0 }, { x: 11, y: 11 });
+      expect(wallResult.path.length).toBe(cellResult.path.length);
+    }
+  });
+
+  it('should box in obstacle cells', () => {
+    const cells = createEmptyMaze(3);
+    cells[1][1].type = 'obstacle';
+    const maze = cellMazeToWallMaze(cells);
+    expect(getWallNeighbors(maze, { x: 1, y: 1 })).toHaveLength(0);
+    expect(getWallNeighbors(maze, { x: 0, y: 0 })).toHaveLength(2);
+  });
+});
+
+describe('Wall maze planners', () => {
+  it('should agree on shortest step counts', () => {
+    const rng = createRng(2);
+    for (let trial = 0; trial < 20; trial++) {
+      const maze = trial % 2 === 0 ? generateWallMaze(12, 12, undefined, rng) : generateKruskalWallMaze(12, 12, rng);
+      // Knock out a few walls so several routes exist
+      for (let k = 0; k < 20; k++) {
+        const p = { x: Math.floor(rng() * 11), y: Math.floor(rng() * 11) };
+        setWall(maze, p, rng() < 0.5 ? WALL_EAST : WALL_SOUTH, false);
+      }
+      const start = { x: 0, y: 0 };
+      const goal = { x: 6, y: 6 };
+
+      const bfs = wallBfsPathfinding(maze, start, goal);
+      const astar = wallAStarPathfinding(maze, start, goal);
+      const flood = wallFloodFillPathfinding(maze, start, goal);
+      for (const result of [bfs, astar, flood]) {
+        expect(result.path[0]).toEqual(start);
+        expect(result.path[result.path.length - 1]).toEqual(goal);
+        expect(isValidWallPath(maze, result.path)).toBe(true);
+        expect(result.cost).toBe(bfs.path.length - 1);
+      }
+      expect(astar.expansions).toBeLessThanOrEqual(bfs.expansions);
+      expect(flood.expansions).toBe(144);
+    }
+  });
+
+  it('should return empty paths when the goal is sealed off', () => {
+    const maze = createWallMaze(5, 5);
+    for (let x = 0; x < 5; x++) setWall(maze, { x, y: 2 }, WALL_NORTH, true);
+    const start = { x: 0, y: 0 };
+    const goal = { x: 4, y: 4 };
+    expect(wallBfsPathfinding(maze, start, goal).path).toEqual([]);
+    expect(wallAStarPathfinding(maze, start, goal).path).toEqual([]);
+    expect(wallFloodFillPathfinding(maze, start, goal).path).toEqual([]);
+    expect(wallFloodDistances(maze, goal)[0]).toBe(-1);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { exactTour, heuristicTour, legCostMatrix, planMission, tourCost } from '../src/algorithms/waypoints';
+import { createRng } from '../src/algorithms/random';
+import type { Position } from '../src/types';
+import { createEmptyMaze } from './fixtures';
+
+/** Leg matrix of points on a line, costed by their distance: start, waypoints, goal */
+function lineCosts(start: number, waypoints: number[], goal: number): number[][] {
+  const points = [start, ...waypoints, goal];
+  return points.map((a, i) => points.map((b, j) => (j === 0 || i === points.length - 1 ? Infinity : Math.abs(a - b))));
+}
+
+/** Cheapest order by trying every permutation */
+function bruteForceCost(costs: number[][]): number {
+  const n = costs.length - 2;
+  let best = Infinity;
+  const permute = (order: number[], rest: number[]) => {
+    if (rest.length === 0) best = Math.min(best, tourCost(costs, order));
+    rest.forEach((w, i) => permute([...order, w], [...rest.slice(0, i), ...rest.slice(i + 1)]));
+  };
+  permute([], Array.from({ length: n }, (_, i) => i));
+  return best;
+}
+
+describe('Waypoint tours', () => {
+  it('should cost legs with A*, terrain included', () => {
+    const maze = createEmptyMaze(5, 1);
+    maze[0][2].type = 'mud';
+    const costs = legCostMatrix(maze, { x: 0, y: 0 }, [{ x: 2, y: 0 }], { x: 4, y: 0 });
+    expect(costs[0][1]).toBe(1 + 5);
+    expect(costs[1][2]).toBe(2);
+    expect(costs[0][2]).toBe(1 + 5 + 1 + 1);
+    expect(costs[1][0]).toBe(Infinity);
+  });
+
+  it('should visit waypoints on a line in line order', () => {
+    const costs = lineCosts(0, [7, 2, 9, 4], 10);
+    expect(exactTour(costs)).toEqual([1, 3, 0, 2]);
+    expect(heuristicTour(costs)).toEqual([1, 3, 0, 2]);
+    expect(tourCost(costs, [1, 3, 0, 2])).toBe(10);
+  });
+
+  it('should match brute force exactly and stay close with the heuristic', () => {
+    const rng = createRng(11);
+    for (let run = 0; run < 5; run++) {
+      const points = Array.from({ length: 8 }, () => ({ x: rng() * 100, y: rng() * 100 }));
+      const costs = points.map((a, i) => points.map((b, j) =>
+        j === 0 || i === points.length - 1 ? Infinity : Math.hypot(a.x - b.x, a.y - b.y)));
+      const optimum = bruteForceCost(costs);
+      expect(tourCost(costs, exactTour(costs))).toBeCloseTo(optimum, 9);
+      const heuristic = tourCost(costs, heuristicTour(costs));
+      expect(heuristic).toBeGreaterThanOrEqual(optimum - 1e-9);
+      expect(heuristic).toBeLessThan(optimum * 1.25);
+    }
+  });
+
+  it('should keep the listed order for ordered missions', () => {
+    const maze = createEmptyMaze(10, 1);
+    const waypoints: Position[] = [{ x: 8, y: 0 }, { x: 2, y: 0 }];
+    const ordered = planMission(maze, { x: 0, y: 0 }, waypoints, { x: 9, y: 0 }, 'ordered');
+    expect(ordered).toEqual({ order: [0, 1], cost: 8 + 6 + 7, exact: true });
+    const any = planMission(maze, { x: 0, y: 0 }, waypoints, { x: 9, y: 0 }, 'any-order');
+    expect(any).toEqual({ order: [1, 0], cost: 9, exact: true });
+  });
+
+  it('should fall back to the heuristic tour for many waypoints', () => {
+    const maze = createEmptyMaze(20, 20);
+    const rng = createRng(5);
+    const waypoints = Array.from({ length: 12 }, () => ({
+      x: 1 + Math.floor(rng() * 18), y: 1 + Math.floor(rng() * 18),
+    }));
+    const plan = planMission(maze, { x: 0, y: 0 }, waypoints, { x: 19, y: 19 }, 'any-order');
+    expect(plan.exact).toBe(false);
+    expect([...plan.order].sort((a, b) => a - b)).toEqual(waypoints.map((_, i) => i));
+    expect(plan.cost).toBeLessThan(Infinity);
+  });
+
+  it('should end the last leg on any goal cell and report unreachable waypoints', () => {
+    const maze = createEmptyMaze(5, 5);
+    const goals = [{ x: 4, y: 4 }, { x: 0, y: 4 }];
+    const plan = planMission(maze, { x: 0, y: 0 }, [{ x: 0, y: 2 }], goals[0], 'ordered', { goals });
+    expect(plan.cost).toBe(4);
+
+    for (let y = 0; y < 3; y++) maze[y][3].type = 'obstacle';
+    maze[3][4].type = 'obstacle';
+    maze[3][3].type = 'obstacle';
+    const blocked = planMission(maze, { x: 0, y: 0 }, [{ x: 4, y: 0 }, { x: 1, y: 1 }], goals[0], 'any-order');
+    expect(blocked.cost).toBe(Infinity);
+    expect(blocked.order).toHaveLength(2);
+  });
+});